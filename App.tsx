@@ -7,28 +7,74 @@ import { Header } from './components/Header';
 import { Loader } from './components/Loader';
 import { HeaderForm } from './components/HeaderForm';
 import { FilterBar } from './components/FilterBar';
-import { Transaction, InvestmentTransaction, DateValidationError, CNPJValidationError, CurrencyValidationError, CompanyInfo, Filters, DocumentType } from './types';
-import { processBankStatementPDF, processInvestmentStatementPDF, suggestDateCorrection, suggestNewCategory } from './services/geminiService';
-import { exportToCSV, exportToXLSX, exportToTXT, exportToPDF, countPdfPages } from './utils/fileUtils';
+import { Transaction, InvestmentTransaction, DateValidationError, CNPJValidationError, CurrencyValidationError, CompanyInfo, Filters, CategorizationRule, CategorySuggestion, TaxonomyCategory, ChartAccount, DocumentType, ExtractionChunkProgress, FailedPageRange, GeminiTransactionResponse, SpreadsheetCell, SpreadsheetColumnMapping, BatchQueueItem, DocumentClassification, CardTransaction, CardStatementMeta, BrokerageNote } from './types';
+import { processInvestmentStatementPDF, processCardStatementPDF, processBrokerageNotePDF, suggestDateCorrection, suggestNewCategory, suggestCategoriesInBatches, CompanyPromptContext } from './services/geminiService';
+import { extractBankStatement, describeImportSource, mergeBankStatements } from './services/statementImportService';
+import { extractWithCache } from './services/extractionCacheService';
+import { detectDocumentType, AUTO_ACCEPT_CONFIDENCE } from './services/documentClassificationService';
+import { exportToCSV, exportToXLSX, exportToTXT, exportToPDF, ExportKind, XlsxExportMetadata, countPdfPages, isPdfFile, isPdfEncrypted, verifyPdfPassword } from './utils/fileUtils';
+import { getPdfPasswordCandidates, findPdfPassword, PdfPasswordCandidate } from './utils/pdfPassword';
+import { isOfxFile } from './utils/ofxParser';
+import { CNAB_FILE_EXTENSIONS } from './utils/cnabParser';
+import { isSpreadsheetFile, readSpreadsheet, applySpreadsheetMapping, guessSpreadsheetMapping, loadSavedMapping, saveMapping } from './utils/spreadsheetImport';
 import { validateDate } from './utils/dateUtils';
-import { validateCNPJ, formatCNPJForDisplay } from './utils/cnpjUtils';
+import { validateTaxId, formatCNPJForDisplay } from './utils/cnpjUtils';
 import { parseCurrency, validateCurrency } from './utils/currencyUtils';
-import { ArrowDownTrayIcon, ArrowPathIcon, ExclamationTriangleIcon, PencilIcon, ChevronDownIcon, CheckCircleIcon, XCircleIcon } from './components/icons/Icons';
-import { INVESTMENT_OPERATION_TYPES } from './constants';
+import { runWithConcurrency } from './utils/asyncUtils';
+import { isLowConfidence } from './utils/extractionConfidence';
+import { verifyRunningBalances } from './utils/balanceVerification';
+import { loadRules, saveRules, applyRules, createRuleFromTransaction } from './utils/categorizationRules';
+import { ACCOUNTING_EXPORT_PROFILES, AccountingEntry, AccountingExportProfile, AccountingSystemId, bankAccountingEntries, cardAccountingEntries, exportAccountingFile } from './utils/accountingExport';
+import { ExportTemplate, TemplateDataKind, TemplateFormat, exportWithTemplate, loadExportTemplates } from './utils/exportTemplates';
+import { loadChartOfAccounts, resolveAccount, accountIssue } from './utils/chartOfAccounts';
+import { loadTaxonomy, createDefaultTaxonomy, taxonomyOptions, defaultAccountsFor, isInCategory, normalizeCategory, categoryPathChanges } from './utils/categoryTaxonomy';
+import { loadCorrections, recordCorrection, selectRelevantCorrections, EXTRACTION_EXAMPLE_LIMIT, SUGGESTION_EXAMPLE_LIMIT } from './utils/learnedCorrections';
+import { bankRowQuery, investmentRowQuery, parseSelectedTransactionText } from './utils/pdfRowMatching';
+import { reconcileBrokerageNote, brokerageNoteToInvestmentTransactions } from './utils/brokerageNoteUtils';
+import { reconcileCardStatement, buildCardAccountingEntries, loadCardLiabilityAccount, saveCardLiabilityAccount } from './utils/cardUtils';
+import { ArrowDownTrayIcon, ArrowPathIcon, ExclamationTriangleIcon, PencilIcon, ChevronDownIcon, CheckCircleIcon, XCircleIcon, DocumentChartBarIcon, SparklesIcon } from './components/icons/Icons';
+import { DOCUMENT_TYPE_LABELS, INVESTMENT_OPERATION_TYPES } from './constants';
 
 import { Dashboard } from './components/Dashboard';
+import { SpreadsheetImportWizard } from './components/SpreadsheetImportWizard';
+import { BatchQueue } from './components/BatchQueue';
+import { PdfPasswordPrompt } from './components/PdfPasswordPrompt';
+import { DocumentTypeCheck } from './components/DocumentTypeCheck';
+import { CardTable } from './components/CardTable';
+import { ProviderSettings } from './components/ProviderSettings';
+import { PdfViewer } from './components/PdfViewer';
+import { RulesManager } from './components/RulesManager';
+import { CategoryReviewDialog } from './components/CategoryReviewDialog';
+import { LearnedCorrectionsManager } from './components/LearnedCorrectionsManager';
+import { CategoryManager } from './components/CategoryManager';
+import { ChartOfAccountsManager } from './components/ChartOfAccountsManager';
+import { AccountingExportDialog } from './components/AccountingExportDialog';
+import { ExportTemplateManager } from './components/ExportTemplateManager';
+import { EXTRACTION_PROVIDER_LABELS, loadProviderSettings } from './services/extractionProvider';
 
 const formatCurrency = (value: number | null | undefined) => {
   if (value === null || value === undefined) return 'N/A';
   return value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
 };
 
+const formatAmountForInput = (value: number) => {
+  return value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+};
+
 const formatDateForDisplay = (dateString: string) => {
   if (!dateString) return '';
   const [year, month, day] = dateString.split('-');
   return `${day}/${month}/${year}`;
 };
 
+const recalculateRunningBalance = <T extends Pick<Transaction, 'debit' | 'credit'>>(transactions: T[], openingBalance: number): (T & { balance: number })[] => {
+  let runningBalance = openingBalance;
+  return transactions.map(t => {
+    runningBalance += (parseCurrency(t.credit) || 0) - (parseCurrency(t.debit) || 0);
+    return { ...t, balance: runningBalance };
+  });
+};
+
 const initialFilters: Filters = {
   description: '',
   startDate: '',
@@ -42,10 +88,15 @@ const initialFilters: Filters = {
 
 type ToastType = 'success' | 'warning' | 'error';
 
+// Arquivos do lote processados em paralelo (cada PDF longo ainda divide suas páginas em blocos)
+const BATCH_CONCURRENCY = 2;
+
 export default function App() {
   const [companyInfo, setCompanyInfo] = useState<CompanyInfo | null>(null);
   const [isInfoConfirmed, setIsInfoConfirmed] = useState<boolean>(false);
   const [documentType, setDocumentType] = useState<DocumentType>('bank');
+  // Retornos CNAB geram o mesmo tipo de lançamento que o extrato bancário
+  const isBankStatement = documentType === 'bank' || documentType === 'cnab';
   const [file, setFile] = useState<File | null>(null);
   const [pageCount, setPageCount] = useState<number | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
@@ -61,18 +112,66 @@ export default function App() {
     isExtractionComplete?: boolean;
     extractionNotes?: string;
   } | null>(null);
+  // Notas de corretagem de origem das movimentações (conferência com o líquido de cada nota)
+  const [brokerageNotes, setBrokerageNotes] = useState<BrokerageNote[]>([]);
+  const [cardTransactions, setCardTransactions] = useState<CardTransaction[]>([]);
+  const [cardMeta, setCardMeta] = useState<CardStatementMeta | null>(null);
+  // Conta do passivo (cartão a pagar) usada na contrapartida de cada item da fatura
+  const [cardLiabilityAccount, setCardLiabilityAccount] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [loadingMessage, setLoadingMessage] = useState<string>('');
+  const [extractionChunks, setExtractionChunks] = useState<ExtractionChunkProgress[]>([]);
+  const [failedPageRanges, setFailedPageRanges] = useState<FailedPageRange[]>([]);
+  const [statementAccount, setStatementAccount] = useState<{ bankCode?: string; accountNumber?: string } | null>(null);
+  // Resultado reaproveitado do cache local: data da extração original e a senha para o "Re-extrair"
+  const [extractionCachedAt, setExtractionCachedAt] = useState<string | null>(null);
+  const [pdfPassword, setPdfPassword] = useState<string | undefined>(undefined);
+  // Visualizador de PDF ao lado da tabela e a linha selecionada, destacada no PDF
+  const [showPdfViewer, setShowPdfViewer] = useState(false);
+  const [selectedRowId, setSelectedRowId] = useState<string | null>(null);
+  const [spreadsheetRows, setSpreadsheetRows] = useState<SpreadsheetCell[][] | null>(null);
+  // Fila de arquivos em lote e o rótulo do que está em revisão (arquivo do lote ou consolidado)
+  const [batchItems, setBatchItems] = useState<BatchQueueItem[]>([]);
+  const batchControllers = useRef(new Map<string, AbortController>());
+  const [batchReviewLabel, setBatchReviewLabel] = useState<string | null>(null);
+  const isBatchMode = batchItems.length > 0;
+  // PDF criptografado aguardando a senha (candidatos derivados do CNPJ/CPF da empresa)
+  const [passwordPrompt, setPasswordPrompt] = useState<{ candidates: PdfPasswordCandidate[]; detectedPassword: string | null } | null>(null);
+  // Tipo detectado divergente do selecionado: aguarda confirmação antes da extração
+  const [typeCheck, setTypeCheck] = useState<{ classification: DocumentClassification; password?: string } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [statementBalance, setStatementBalance] = useState<number | null>(null);
+  // Saldo anterior: valor extraído do extrato e o valor efetivamente usado (pode ser ajustado manualmente)
+  const [statementOpeningBalance, setStatementOpeningBalance] = useState<number | null>(null);
+  const [openingBalance, setOpeningBalance] = useState<number>(0);
+  const [openingBalanceInput, setOpeningBalanceInput] = useState<string>('');
   const [dateErrors, setDateErrors] = useState<Record<string, DateValidationError>>({});
   const [cnpjErrors, setCnpjErrors] = useState<Record<string, CNPJValidationError>>({});
   const [currencyErrors, setCurrencyErrors] = useState<Record<string, CurrencyValidationError>>({});
   const [filters, setFilters] = useState<Filters>(initialFilters);
   const [invOpFilter, setInvOpFilter] = useState<string>('');
   const [exportMenuOpen, setExportMenuOpen] = useState(false);
+  // Exportação no leiaute de um sistema contábil (diálogo com opções e prévia)
+  const [accountingExport, setAccountingExport] = useState<{ profileId: AccountingSystemId; entries: AccountingEntry[]; filenameBase: string } | null>(null);
+  const [exportTemplates, setExportTemplates] = useState<ExportTemplate[]>(loadExportTemplates);
+  const [templateManagerKind, setTemplateManagerKind] = useState<TemplateDataKind | null>(null);
   const exportContainerRef = useRef<HTMLDivElement>(null);
   const [categorizingId, setCategorizingId] = useState<string | null>(null);
+  // Recategorização em lote: progresso da chamada e propostas aguardando revisão
+  const [bulkCategorizing, setBulkCategorizing] = useState<{ done: number; total: number } | null>(null);
+  const [categoryReview, setCategoryReview] = useState<{ suggestions: CategorySuggestion[]; failedCount: number } | null>(null);
+
+  const [showProviderSettings, setShowProviderSettings] = useState(false);
+  const [providerId, setProviderId] = useState(() => loadProviderSettings().providerId);
+  // Editor de regras aberto; `draft` vem de "criar regra a partir desta linha"
+  const [rulesManager, setRulesManager] = useState<{ draft: CategorizationRule | null } | null>(null);
+  const [showCorrectionsManager, setShowCorrectionsManager] = useState(false);
+  const [showCategoryManager, setShowCategoryManager] = useState(false);
+  const [taxonomy, setTaxonomy] = useState<TaxonomyCategory[]>(createDefaultTaxonomy);
+  const categoryOptions = useMemo(() => taxonomyOptions(taxonomy), [taxonomy]);
+  const categoryPaths = useMemo(() => categoryOptions.map(o => o.path), [categoryOptions]);
+  const [chartOfAccounts, setChartOfAccounts] = useState<ChartAccount[]>([]);
+  const [showChartManager, setShowChartManager] = useState(false);
 
   const [showToast, setShowToast] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
@@ -97,55 +196,257 @@ export default function App() {
     }
   }, [showToast]);
 
-  const calculateBalances = (transactions: Omit<Transaction, 'id' | 'balance'>[]): { transactionsWithBalances: Transaction[], finalBalance: number } => {
-    let runningBalance = 0;
-    const transactionsWithBalances = transactions.map(t => {
-      runningBalance += (parseCurrency(t.credit) || 0) - (parseCurrency(t.debit) || 0);
-      return {
-        ...t,
-        id: crypto.randomUUID(),
-        balance: runningBalance
-      };
-    });
-    return { transactionsWithBalances, finalBalance: runningBalance };
-  };
-
   const handleInfoConfirm = (info: CompanyInfo) => {
     setCompanyInfo(info);
+    setTaxonomy(loadTaxonomy(info.cnpj));
+    setChartOfAccounts(loadChartOfAccounts(info.cnpj));
     setIsInfoConfirmed(true);
   };
 
-  const handleFileSelect = (selectedFile: File) => {
+  const startPdfProcessing = (pdfFile: File, password?: string, type: DocumentType = documentType) => {
+    countPdfPages(pdfFile, password)
+      .then(count => setPageCount(count))
+      .catch(err => console.error("Não foi possível contar as páginas:", err));
+    handleProcessFile(pdfFile, password, type);
+  };
+
+  const classifyAndStart = async (pdfFile: File, password?: string) => {
+    setIsLoading(true);
+    setLoadingMessage('Identificando o tipo de documento...');
+    let classification: DocumentClassification | null = null;
+    try {
+      classification = await detectDocumentType(pdfFile, { password });
+    } catch (err) {
+      console.warn("Não foi possível identificar o tipo do documento:", err);
+    }
+
+    if (!classification || classification.type === documentType) {
+      startPdfProcessing(pdfFile, password);
+      return;
+    }
+    setTypeCheck({ classification, password });
+    setIsLoading(false);
+    setLoadingMessage('');
+  };
+
+  const handleTypeCheckConfirm = (type: DocumentType) => {
+    if (!file || !typeCheck) return;
+    const { password } = typeCheck;
+    setTypeCheck(null);
+    setDocumentType(type);
+    startPdfProcessing(file, password, type);
+  };
+
+  const handleTypeCheckCancel = () => {
+    setTypeCheck(null);
+    setFile(null);
+  };
+
+  const handleFileSelect = async (selectedFile: File) => {
     setFile(selectedFile);
     setTransactions([]);
     setInvestmentTransactions([]);
     setInvestmentMeta(null);
+    setBrokerageNotes([]);
+    setCardTransactions([]);
+    setCardMeta(null);
     setError(null);
     setDateErrors({});
     setCnpjErrors({});
     setCurrencyErrors({});
     setPageCount(null);
-
-    countPdfPages(selectedFile)
-      .then(count => setPageCount(count))
-      .catch(err => console.error("Não foi possível contar as páginas:", err));
+    setStatementAccount(null);
+    setExtractionCachedAt(null);
+    setPdfPassword(undefined);
+    setSelectedRowId(null);
+
+    setSpreadsheetRows(null);
+    setPasswordPrompt(null);
+    setTypeCheck(null);
+
+    if ((isOfxFile(selectedFile) || isSpreadsheetFile(selectedFile)) && documentType !== 'cnab') {
+      // OFX e planilhas são sempre extratos de conta corrente
+      setDocumentType('bank');
+      handleProcessFile(selectedFile, undefined, 'bank');
+      return;
+    } else if (isPdfFile(selectedFile)) {
+      setIsLoading(true);
+      setLoadingMessage('Verificando o PDF...');
+      const encrypted = await isPdfEncrypted(selectedFile);
+      if (encrypted) {
+        const candidates = getPdfPasswordCandidates(companyInfo?.cnpj ?? '');
+        const detectedPassword = await findPdfPassword(selectedFile, candidates);
+        setPasswordPrompt({ candidates, detectedPassword });
+        setIsLoading(false);
+        setLoadingMessage('');
+        return;
+      }
+      classifyAndStart(selectedFile);
+      return;
+    }
 
     handleProcessFile(selectedFile);
   };
 
-  const handleProcessFile = async (pdfFile: File) => {
+  const handlePdfPasswordSubmit = async (password: string): Promise<boolean> => {
+    if (!file || !(await verifyPdfPassword(file, password))) return false;
+    setPasswordPrompt(null);
+    classifyAndStart(file, password);
+    return true;
+  };
+
+  const handlePdfPasswordCancel = () => {
+    setPasswordPrompt(null);
+    setFile(null);
+  };
+
+  // Planos de categorias e de contas e correções aprendidas da empresa para a IA: as correções mais parecidas com a linha, ou as mais recentes
+  const promptContextFor = (row?: { description: string; cnpj: string }): CompanyPromptContext => ({
+    categories: categoryPaths,
+    corrections: companyInfo
+      ? selectRelevantCorrections(loadCorrections(companyInfo.cnpj), row ? SUGGESTION_EXAMPLE_LIMIT : EXTRACTION_EXAMPLE_LIMIT, row)
+      : [],
+    accounts: chartOfAccounts.filter(a => a.isAnalytic),
+  });
+
+  // Ao trocar a categoria, as contas vazias ou ainda iguais às padrão da categoria anterior passam às da nova
+  const withCategoryAccounts = (before: Transaction, updated: Transaction): Transaction => {
+    if (before.category === updated.category) return updated;
+    const previous = defaultAccountsFor(taxonomy, before.category);
+    const next = defaultAccountsFor(taxonomy, updated.category);
+    return {
+      ...updated,
+      accountDebit: next.accountDebit && (!updated.accountDebit || updated.accountDebit === previous.accountDebit) ? next.accountDebit : updated.accountDebit,
+      accountCredit: next.accountCredit && (!updated.accountCredit || updated.accountCredit === previous.accountCredit) ? next.accountCredit : updated.accountCredit,
+    };
+  };
+
+  // Observações da importação não substituem um erro ou aviso já exibido: entram na mesma mensagem
+  const showExtractionNotes = (notes: string, type: ToastType, alreadyWarned: boolean) => {
+    if (alreadyWarned) {
+      setToastMessage(previous => `${previous} ${notes}`);
+    } else {
+      setToastMessage(notes);
+      setToastType(type);
+    }
+    setShowToast(true);
+  };
+
+  // Normaliza, calcula saldos e valida o resultado de qualquer fonte de extrato bancário (IA, OFX...).
+  // Devolve true quando exibiu o erro de CNPJ divergente.
+  const applyBankResult = async (result: GeminiTransactionResponse): Promise<boolean> => {
+    const { transactions: extractedTransactions, finalBalance, openingBalance: extractedOpeningBalance, accountHolderCNPJ } = result;
+    setStatementAccount(result.bankCode || result.accountNumber ? { bankCode: result.bankCode, accountNumber: result.accountNumber } : null);
+
+    let cnpjMismatch = false;
+    if (accountHolderCNPJ && companyInfo) {
+      const fileCNPJ = accountHolderCNPJ.replace(/\D/g, '');
+      const formCNPJ = companyInfo.cnpj.replace(/\D/g, '');
+      if (fileCNPJ && formCNPJ && fileCNPJ !== formCNPJ) {
+        cnpjMismatch = true;
+        setToastMessage(`ERRO: CNPJ do arquivo (${formatCNPJForDisplay(fileCNPJ)}) diverge do informado (${formatCNPJForDisplay(formCNPJ)}).`);
+        setToastType('error');
+        setShowToast(true);
+      }
+    }
+
+    const transactionsWithFormattedCurrency = extractedTransactions.map(t => {
+      const debitValue = Math.abs(t.debit || 0);
+      const creditValue = Math.abs(t.credit || 0);
+      const category = normalizeCategory(t.category, categoryPaths);
+      // Contas padrão do plano de categorias valem sobre as sugeridas pela IA
+      const defaults = defaultAccountsFor(taxonomy, category);
+      return {
+        ...t,
+        debit: debitValue > 0 ? debitValue.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : "",
+        credit: creditValue > 0 ? creditValue.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : "",
+        category,
+        accountDebit: defaults.accountDebit || t.accountDebit,
+        accountCredit: defaults.accountCredit || t.accountCredit,
+        isUnusual: t.isUnusual || false,
+        unusualReason: t.unusualReason || '',
+      };
+    });
+
+    // Regras da empresa têm precedência sobre a categorização da IA
+    const { transactions: ruledTransactions } = companyInfo
+      ? applyRules(transactionsWithFormattedCurrency, loadRules(companyInfo.cnpj))
+      : { transactions: transactionsWithFormattedCurrency };
+    // Contas dadas pelo nome ou pelo código reduzido passam à classificação do plano de contas
+    const categorizedTransactions = ruledTransactions.map(t => ({
+      ...t,
+      accountDebit: resolveAccount(chartOfAccounts, t.accountDebit),
+      accountCredit: resolveAccount(chartOfAccounts, t.accountCredit),
+    }));
+
+    const startingBalance = extractedOpeningBalance ?? 0;
+    const transactionsWithBalances = recalculateRunningBalance(categorizedTransactions.map(t => ({ ...t, id: crypto.randomUUID() })), startingBalance);
+    setTransactions(transactionsWithBalances);
+    setStatementBalance(finalBalance ?? null);
+    setStatementOpeningBalance(extractedOpeningBalance ?? null);
+    setOpeningBalance(startingBalance);
+    setOpeningBalanceInput(formatAmountForInput(startingBalance));
+
+    const initialDateErrors: Record<string, DateValidationError> = {};
+    const initialCnpjErrors: Record<string, CNPJValidationError> = {};
+    const dateValidationPromises = [];
+
+    for (const t of transactionsWithBalances) {
+      const dateValidationResult = validateDate(t.date);
+      if (!dateValidationResult.isValid) {
+        const promise = suggestDateCorrection(t.date).then(suggestion => ({
+          id: t.id,
+          error: {
+            message: dateValidationResult.message!,
+            suggestion: suggestion !== t.date && validateDate(suggestion).isValid ? suggestion : undefined,
+          }
+        }));
+        dateValidationPromises.push(promise);
+      }
+      const cnpjValidationResult = validateTaxId(t.cnpj);
+      if (!cnpjValidationResult.isValid) {
+        initialCnpjErrors[t.id] = { message: cnpjValidationResult.message! };
+      }
+    }
+
+    const dateValidationResults = (await Promise.all(dateValidationPromises));
+    dateValidationResults.forEach(result => {
+      if (result) initialDateErrors[result.id] = result.error;
+    });
+
+    setDateErrors(initialDateErrors);
+    setCnpjErrors(initialCnpjErrors);
+    return cnpjMismatch;
+  };
+
+  const handleProcessFile = async (pdfFile: File, password?: string, type: DocumentType = documentType, bypassCache = false) => {
     setIsLoading(true);
     setError(null);
+    setPdfPassword(password);
+    setExtractionCachedAt(null);
     setStatementBalance(null);
+    setStatementOpeningBalance(null);
+    setExtractionChunks([]);
+    setFailedPageRanges([]);
     setDateErrors({});
     setCnpjErrors({});
     setCurrencyErrors({});
 
     try {
-      if (documentType === 'investment') {
+      if (isSpreadsheetFile(pdfFile) && type !== 'cnab') {
+        // ─── Planilha CSV/XLSX: abre o assistente de mapeamento de colunas ──
+        setLoadingMessage('Lendo planilha...');
+        const rows = await readSpreadsheet(pdfFile);
+        if (rows.length === 0) {
+          throw new Error('A planilha está vazia.');
+        }
+        setSpreadsheetRows(rows);
+      } else if (type === 'investment' && !isOfxFile(pdfFile)) {
         // ─── Extrato de Cotista ────────────────────────────────────────
         setLoadingMessage('Analisando Extrato de Cotista. Isso pode levar alguns instantes...');
-        const result = await processInvestmentStatementPDF(pdfFile);
+        const { result, cachedAt } = await extractWithCache(pdfFile, 'investment',
+          () => processInvestmentStatementPDF(pdfFile, undefined, password), { bypassCache });
+        setExtractionCachedAt(cachedAt);
         setLoadingMessage('Análise concluída. Organizando movimentações...');
 
         const withId: InvestmentTransaction[] = result.investmentTransactions.map(t => ({
@@ -177,69 +478,104 @@ export default function App() {
           setToastType('warning');
           setShowToast(true);
         }
-      } else {
-        // ─── Extrato Bancário ──────────────────────────────────────────
-        setLoadingMessage('Enviando para análise da IA. Isso pode levar alguns instantes...');
-        const { transactions: extractedTransactions, finalBalance, accountHolderCNPJ } = await processBankStatementPDF(pdfFile);
+      } else if (type === 'brokerage' && isPdfFile(pdfFile)) {
+        // ─── Nota de Corretagem (SINACOR) ──────────────────────────────
+        setLoadingMessage('Analisando Nota de Corretagem. Isso pode levar alguns instantes...');
+        const { result, cachedAt } = await extractWithCache(pdfFile, 'brokerage',
+          () => processBrokerageNotePDF(pdfFile, undefined, password), { bypassCache });
+        setExtractionCachedAt(cachedAt);
+        setLoadingMessage('Análise concluída. Rateando custos entre os negócios...');
+
+        const notes = result.brokerageNotes;
+        const withId: InvestmentTransaction[] = notes
+          .flatMap(note => brokerageNoteToInvestmentTransactions(note, result.brokerName))
+          .map(t => ({ ...t, id: crypto.randomUUID() }));
+        const tradeDates = notes.map(n => n.tradeDate).filter(Boolean).sort();
+        setBrokerageNotes(notes);
+        setInvestmentTransactions(withId);
+        setInvestmentMeta({
+          cotistaNome: result.clientName,
+          cotistaCNPJ: result.clientCNPJ,
+          bankName: result.brokerName,
+          periodStart: tradeDates[0],
+          periodEnd: tradeDates[tradeDates.length - 1],
+          isExtractionComplete: result.isExtractionComplete,
+          extractionNotes: result.extractionNotes,
+        });
 
-        setLoadingMessage('Análise concluída. Finalizando e validando dados...');
+        const unreconciled = notes.filter(note => !reconcileBrokerageNote(note).isReconciled);
+        if (result.isExtractionComplete === false) {
+          setToastMessage(`AVISO: A extração pode estar incompleta. ${result.extractionNotes || 'Verifique todas as páginas.'}`);
+          setToastType('warning');
+          setShowToast(true);
+        } else if (unreconciled.length > 0) {
+          setToastMessage(`AVISO: ${unreconciled.length} nota(s) não conferem com o valor líquido: ${unreconciled.map(n => n.noteNumber || n.tradeDate).join(', ')}.`);
+          setToastType('warning');
+          setShowToast(true);
+        }
+      } else if (type === 'card' && isPdfFile(pdfFile)) {
+        // ─── Fatura de Cartão de Crédito ───────────────────────────────
+        setLoadingMessage('Analisando Fatura de Cartão. Isso pode levar alguns instantes...');
+        const promptContext = promptContextFor();
+        const { result: { cardTransactions: items, ...meta }, cachedAt } = await extractWithCache(pdfFile, 'card',
+          () => processCardStatementPDF(pdfFile, undefined, password, promptContext),
+          { bypassCache, companyCnpj: companyInfo?.cnpj, promptContext });
+        setExtractionCachedAt(cachedAt);
+        setLoadingMessage('Análise concluída. Conferindo o total da fatura...');
+
+        const withId: CardTransaction[] = items.map(t => {
+          const category = normalizeCategory(t.category, categoryPaths);
+          const accountDebit = defaultAccountsFor(taxonomy, category).accountDebit || t.accountDebit;
+          return { ...t, category, accountDebit: resolveAccount(chartOfAccounts, accountDebit), id: crypto.randomUUID() };
+        });
+        setCardTransactions(withId);
+        setCardMeta(meta);
+        setCardLiabilityAccount(companyInfo ? loadCardLiabilityAccount(companyInfo.cnpj) : '');
 
-        if (accountHolderCNPJ && companyInfo) {
-          const fileCNPJ = accountHolderCNPJ.replace(/\D/g, '');
-          const formCNPJ = companyInfo.cnpj.replace(/\D/g, '');
-          if (fileCNPJ && formCNPJ && fileCNPJ !== formCNPJ) {
-            setToastMessage(`ERRO: CNPJ do arquivo (${formatCNPJForDisplay(fileCNPJ)}) diverge do informado (${formatCNPJForDisplay(formCNPJ)}).`);
-            setToastType('error');
-            setShowToast(true);
-          }
+        const reconciliation = reconcileCardStatement(withId, meta);
+        if (!meta.isExtractionComplete) {
+          setToastMessage(`AVISO: A extração pode estar incompleta. ${meta.extractionNotes || 'Verifique todas as páginas.'}`);
+          setToastType('warning');
+          setShowToast(true);
+        } else if (reconciliation.invoiceTotal !== null && !reconciliation.isReconciled) {
+          setToastMessage(`AVISO: A soma dos itens difere do total da fatura em R$ ${reconciliation.difference.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}.`);
+          setToastType('warning');
+          setShowToast(true);
         }
 
-        const transactionsWithFormattedCurrency = extractedTransactions.map(t => {
-          const debitValue = Math.abs(t.debit || 0);
-          const creditValue = Math.abs(t.credit || 0);
-          return {
-            ...t,
-            debit: debitValue > 0 ? debitValue.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : "",
-            credit: creditValue > 0 ? creditValue.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : "",
-            category: t.category || 'Não categorizado',
-            isUnusual: t.isUnusual || false,
-            unusualReason: t.unusualReason || '',
-          };
-        });
+        if (meta.cardholderCNPJ && companyInfo?.cnpj && meta.cardholderCNPJ.replace(/\D/g, '') !== companyInfo.cnpj.replace(/\D/g, '')) {
+          setToastMessage(`AVISO: O CNPJ do titular da fatura (${formatCNPJForDisplay(meta.cardholderCNPJ)}) difere do CNPJ da empresa informada.`);
+          setToastType('warning');
+          setShowToast(true);
+        }
+      } else {
+        // ─── Extrato Bancário (PDF via IA, OFX) ou Retorno CNAB ────────
+        setLoadingMessage(describeImportSource(pdfFile, type));
+        const promptContext = promptContextFor();
+        const { result, cachedAt } = await extractWithCache(pdfFile, 'bank',
+          () => extractBankStatement(pdfFile, type, { onProgress: setExtractionChunks, password, promptContext }),
+          { bypassCache, shouldStore: r => !r.failedPageRanges?.length, companyCnpj: companyInfo?.cnpj, promptContext });
+        setExtractionCachedAt(cachedAt);
 
-        const { transactionsWithBalances } = calculateBalances(transactionsWithFormattedCurrency);
-        setTransactions(transactionsWithBalances);
-        setStatementBalance(finalBalance ?? null);
-
-        const initialDateErrors: Record<string, DateValidationError> = {};
-        const initialCnpjErrors: Record<string, CNPJValidationError> = {};
-        const dateValidationPromises = [];
-
-        for (const t of transactionsWithBalances) {
-          const dateValidationResult = validateDate(t.date);
-          if (!dateValidationResult.isValid) {
-            const promise = suggestDateCorrection(t.date).then(suggestion => ({
-              id: t.id,
-              error: {
-                message: dateValidationResult.message!,
-                suggestion: suggestion !== t.date && validateDate(suggestion).isValid ? suggestion : undefined,
-              }
-            }));
-            dateValidationPromises.push(promise);
-          }
-          const cnpjValidationResult = validateCNPJ(t.cnpj);
-          if (!cnpjValidationResult.isValid) {
-            initialCnpjErrors[t.id] = { message: cnpjValidationResult.message! };
-          }
+        setLoadingMessage('Análise concluída. Finalizando e validando dados...');
+        setFailedPageRanges(result.failedPageRanges ?? []);
+
+        const hasFailedPages = !!result.failedPageRanges && result.failedPageRanges.length > 0;
+        if (hasFailedPages) {
+          const unknownBalances = [
+            result.openingBalance === undefined && 'saldo anterior',
+            result.finalBalance === undefined && 'saldo final',
+          ].filter(Boolean);
+          setToastMessage(`AVISO: ${result.failedPageRanges.length} bloco(s) de páginas não puderam ser processados. A extração está incompleta.${unknownBalances.length > 0 ? ` Desconhecido(s): ${unknownBalances.join(' e ')}.` : ''}`);
+          setToastType('warning');
+          setShowToast(true);
         }
 
-        const dateValidationResults = (await Promise.all(dateValidationPromises));
-        dateValidationResults.forEach(result => {
-          if (result) initialDateErrors[result.id] = result.error;
-        });
+        const cnpjMismatch = await applyBankResult(result);
 
-        setDateErrors(initialDateErrors);
-        setCnpjErrors(initialCnpjErrors);
+        if (result.extractionNotes) {
+          showExtractionNotes(result.extractionNotes, 'success', cnpjMismatch || hasFailedPages);
+        }
       }
     } catch (err: unknown) {
       console.error(err);
@@ -251,22 +587,209 @@ export default function App() {
     } finally {
       setIsLoading(false);
       setLoadingMessage('');
+      setExtractionChunks([]);
     }
   };
 
+  const handleSpreadsheetConfirm = async (mapping: SpreadsheetColumnMapping, rememberForBank: boolean) => {
+    if (!spreadsheetRows) return;
+    if (rememberForBank && companyInfo?.bankName) {
+      saveMapping(companyInfo.bankName, mapping);
+    }
+
+    const rows = spreadsheetRows;
+    setSpreadsheetRows(null);
+    setIsLoading(true);
+    setLoadingMessage('Importando transações da planilha...');
+    try {
+      const result = applySpreadsheetMapping(rows, mapping);
+      const cnpjMismatch = await applyBankResult(result);
+      if (result.extractionNotes) {
+        showExtractionNotes(result.extractionNotes, 'warning', cnpjMismatch);
+      }
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Falha ao importar a planilha.');
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  };
+
+  // Itens cancelados (removidos, ou lote reiniciado) não voltam a aparecer na lista
+  const updateBatchItem = (id: string, changes: Partial<BatchQueueItem>, signal?: AbortSignal) => {
+    if (signal?.aborted) return;
+    setBatchItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  // Interrompe as chamadas à IA dos itens informados (ou de todo o lote)
+  const abortBatch = (ids?: string[]) => {
+    for (const [id, controller] of batchControllers.current) {
+      if (ids && !ids.includes(id)) continue;
+      controller.abort();
+      batchControllers.current.delete(id);
+    }
+  };
+
+  const runBatch = async (items: BatchQueueItem[]) => {
+    const type = documentType;
+    abortBatch(items.map(item => item.id));
+    const controllers = items.map(item => {
+      const controller = new AbortController();
+      batchControllers.current.set(item.id, controller);
+      return controller;
+    });
+    await runWithConcurrency(items, BATCH_CONCURRENCY, async (item, index) => {
+      const { signal } = controllers[index];
+      if (signal.aborted) return;
+      updateBatchItem(item.id, { status: 'processing', error: undefined, chunks: undefined }, signal);
+      try {
+        let password: string | undefined;
+        if (isPdfFile(item.file) && await isPdfEncrypted(item.file)) {
+          // Sem interação no lote: só as senhas derivadas do CNPJ/CPF são tentadas
+          password = await findPdfPassword(item.file, getPdfPasswordCandidates(companyInfo?.cnpj ?? '')) ?? undefined;
+          if (!password) {
+            throw new Error('PDF protegido por senha e nenhuma senha derivada do CNPJ/CPF funcionou. Processe este arquivo individualmente para informar a senha.');
+          }
+        }
+        if (isPdfFile(item.file)) {
+          // No lote só as palavras-chave são usadas: um documento de outro tipo falha em vez de gerar lixo
+          const classification = await detectDocumentType(item.file, { password, allowAi: false });
+          if (classification && classification.type !== type && classification.confidence >= AUTO_ACCEPT_CONFIDENCE) {
+            throw new Error(`O arquivo parece ser um(a) ${classification.label}. Processe-o individualmente para escolher o tipo.`);
+          }
+        }
+        const promptContext = promptContextFor();
+        const { result } = await extractWithCache(item.file, 'bank', () => extractBankStatement(item.file, type, {
+          bankName: companyInfo?.bankName,
+          onProgress: chunks => updateBatchItem(item.id, { chunks }, signal),
+          password,
+          promptContext,
+          signal,
+        }), { shouldStore: r => !signal.aborted && !r.failedPageRanges?.length, companyCnpj: companyInfo?.cnpj, promptContext });
+        updateBatchItem(item.id, { status: 'done', result }, signal);
+      } catch (err: unknown) {
+        if (signal.aborted) return;
+        console.error(`Falha ao processar ${item.file.name}:`, err);
+        updateBatchItem(item.id, { status: 'failed', error: err instanceof Error ? err.message : 'Falha ao processar o arquivo.' }, signal);
+      } finally {
+        if (batchControllers.current.get(item.id) === controllers[index]) batchControllers.current.delete(item.id);
+      }
+    });
+  };
+
+  const handleFilesSelect = (selectedFiles: File[]) => {
+    if (selectedFiles.length === 1) {
+      handleFileSelect(selectedFiles[0]);
+      return;
+    }
+    const items: BatchQueueItem[] = selectedFiles.map(f => ({ id: crypto.randomUUID(), file: f, status: 'queued' }));
+    abortBatch();
+    setBatchItems(items);
+    setBatchReviewLabel(null);
+    setError(null);
+    runBatch(items);
+  };
+
+  const handleBatchRetry = (id: string) => {
+    const item = batchItems.find(i => i.id === id);
+    if (item) runBatch([item]);
+  };
+
+  const handleBatchRemove = (id: string) => {
+    abortBatch([id]);
+    setBatchItems(prev => prev.filter(i => i.id !== id));
+  };
+
+  const clearReviewState = () => {
+    setFile(null);
+    setPageCount(null);
+    setTransactions([]);
+    setError(null);
+    setStatementBalance(null);
+    setStatementOpeningBalance(null);
+    setOpeningBalance(0);
+    setOpeningBalanceInput('');
+    setFailedPageRanges([]);
+    setStatementAccount(null);
+    setExtractionCachedAt(null);
+    setSelectedRowId(null);
+    setDateErrors({});
+    setCnpjErrors({});
+    setCurrencyErrors({});
+    setFilters(initialFilters);
+  };
+
+  const reviewBatchResult = async (label: string, result: GeminiTransactionResponse, reviewFile: File | null) => {
+    clearReviewState();
+    setFile(reviewFile);
+    setBatchReviewLabel(label);
+    setIsLoading(true);
+    setLoadingMessage('Validando dados do extrato...');
+    try {
+      setFailedPageRanges(result.failedPageRanges ?? []);
+      const cnpjMismatch = await applyBankResult(result);
+      if (result.extractionNotes) {
+        showExtractionNotes(result.extractionNotes, 'warning', cnpjMismatch);
+      }
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  };
+
+  const handleBatchReview = (id: string) => {
+    const item = batchItems.find(i => i.id === id);
+    if (item?.result) reviewBatchResult(item.file.name, item.result, item.file);
+  };
+
+  const handleBatchReviewMerged = () => {
+    const done = batchItems.filter(i => i.status === 'done' && i.result);
+    const merged = mergeBankStatements(
+      done.map(i => ({ name: i.file.name, result: i.result! })),
+      companyInfo ? { start: companyInfo.periodStart, end: companyInfo.periodEnd } : undefined
+    );
+    if (merged.transactions.length === 0) {
+      setToastMessage('Nenhuma transação dentro do período informado nos arquivos do lote.');
+      setToastType('warning');
+      setShowToast(true);
+      return;
+    }
+    reviewBatchResult(`${done.length} arquivos consolidados`, merged, null);
+  };
+
+  const handleBackToQueue = () => {
+    if (!window.confirm('Voltar à fila? As edições feitas nesta revisão serão descartadas.')) return;
+    clearReviewState();
+    setBatchReviewLabel(null);
+  };
+
   const { calculatedFinalBalance, balanceMismatch } = useMemo(() => {
     if (transactions.length === 0) {
-      return { calculatedFinalBalance: 0, balanceMismatch: false };
+      return { calculatedFinalBalance: openingBalance, balanceMismatch: false };
     }
     const finalBalance = transactions[transactions.length - 1].balance as number;
     const mismatch = statementBalance !== null && Math.abs(finalBalance - statementBalance) > 0.01; // Tolerância para arredondamento
     return { calculatedFinalBalance: finalBalance, balanceMismatch: mismatch };
-  }, [transactions, statementBalance]);
+  }, [transactions, statementBalance, openingBalance]);
 
   const unusualTransactionsCount = useMemo(() => {
     return transactions.filter(t => t.isUnusual).length;
   }, [transactions]);
 
+  const balanceVerification = useMemo(() => verifyRunningBalances(transactions), [transactions]);
+  const balanceDrift = balanceVerification.drift;
+
+  const lowConfidenceCount = useMemo(() => {
+    return transactions.filter(isLowConfidence).length;
+  }, [transactions]);
+
+  const ruleMatchedCount = useMemo(() => transactions.filter(t => t.ruleId).length, [transactions]);
+  const accountIssueCount = useMemo(
+    () => transactions.filter(t => accountIssue(chartOfAccounts, t.accountDebit) || accountIssue(chartOfAccounts, t.accountCredit)).length,
+    [transactions, chartOfAccounts]
+  );
+
   const filteredTransactions = useMemo(() => {
     return transactions.filter(t => {
       // Description filter
@@ -274,7 +797,7 @@ export default function App() {
         return false;
       }
       // Category filter
-      if (filters.category && t.category !== filters.category) {
+      if (filters.category && !isInCategory(t.category, filters.category)) {
         return false;
       }
       // Unusual filter
@@ -284,6 +807,9 @@ export default function App() {
       if (filters.showUnusual === 'commonOnly' && t.isUnusual) {
         return false;
       }
+      if (filters.showUnusual === 'lowConfidenceOnly' && !isLowConfidence(t)) {
+        return false;
+      }
       // Date filter
       if (filters.startDate && t.date < filters.startDate) {
         return false;
@@ -319,12 +845,7 @@ export default function App() {
       const updatedList = currentTransactions.map(t =>
         t.id === updatedTransaction.id ? updatedTransaction : t
       );
-
-      let runningBalance = 0;
-      return updatedList.map(t => {
-        runningBalance += (parseCurrency(t.credit) || 0) - (parseCurrency(t.debit) || 0);
-        return { ...t, balance: runningBalance };
-      });
+      return recalculateRunningBalance(updatedList, openingBalance);
     });
 
     const { id } = updatedTransaction;
@@ -350,7 +871,7 @@ export default function App() {
       const { cnpj } = updatedTransaction;
       setCnpjErrors(prev => { const newErrors = { ...prev }; delete newErrors[id]; return newErrors; });
 
-      const validationResult = validateCNPJ(cnpj);
+      const validationResult = validateTaxId(cnpj);
       if (!validationResult.isValid) {
         setCnpjErrors(prev => ({
           ...prev,
@@ -372,13 +893,148 @@ export default function App() {
         }));
       }
     }
-  }, []);
+  }, [openingBalance]);
+
+  const canShowPdf = !!file && isPdfFile(file);
+
+  const pdfHighlight = useMemo(() => {
+    if (!selectedRowId) return null;
+    const bankRow = transactions.find(t => t.id === selectedRowId);
+    if (bankRow) return bankRowQuery(bankRow);
+    const investmentRow = investmentTransactions.find(t => t.id === selectedRowId);
+    return investmentRow ? investmentRowQuery(investmentRow) : null;
+  }, [selectedRowId, transactions, investmentTransactions]);
+
+  const handleCreateFromPdfSelection = (text: string, page: number) => {
+    const referenceYear = Number(transactions[0]?.date.slice(0, 4)) || new Date().getFullYear();
+    const parsed = parseSelectedTransactionText(text, referenceYear);
+    const newTransaction: Transaction = {
+      id: crypto.randomUUID(),
+      date: parsed.date,
+      description: parsed.description,
+      debit: parsed.debit > 0 ? formatAmountForInput(parsed.debit) : '',
+      credit: parsed.credit > 0 ? formatAmountForInput(parsed.credit) : '',
+      balance: 0,
+      companyName: '',
+      cnpj: parsed.cnpj,
+      category: 'Não categorizado',
+      isUnusual: false,
+      unusualReason: '',
+      sourcePage: page,
+      sourceLine: text,
+      accountDebit: '',
+      accountCredit: '',
+      accountingHistory: '',
+    };
+
+    setTransactions(current => {
+      // Mantém a ordem cronológica: entra depois da última transação da mesma data
+      const insertAt = parsed.date ? current.filter(t => t.date <= parsed.date).length : current.length;
+      return recalculateRunningBalance([...current.slice(0, insertAt), newTransaction, ...current.slice(insertAt)], openingBalance);
+    });
+    setSelectedRowId(newTransaction.id);
+
+    const dateValidation = validateDate(newTransaction.date);
+    if (!dateValidation.isValid) {
+      setDateErrors(prev => ({ ...prev, [newTransaction.id]: { message: dateValidation.message! } }));
+    }
+    setToastMessage('Transação criada a partir da seleção no PDF. Revise os campos antes de exportar.');
+    setToastType('success');
+    setShowToast(true);
+  };
+
+  const applyOpeningBalance = (value: number) => {
+    setOpeningBalance(value);
+    setOpeningBalanceInput(formatAmountForInput(value));
+    setTransactions(current => recalculateRunningBalance(current, value));
+  };
+
+  const handleOpeningBalanceBlur = () => {
+    const trimmed = openingBalanceInput.trim();
+    const isNegative = trimmed.startsWith('-');
+    const magnitude = trimmed.replace(/^-/, '');
+    const validation = validateCurrency(magnitude);
+    if (!validation.isValid) {
+      setToastMessage(`Saldo anterior inválido: ${validation.message}`);
+      setToastType('warning');
+      setShowToast(true);
+      setOpeningBalanceInput(formatAmountForInput(openingBalance));
+      return;
+    }
+    const value = parseCurrency(magnitude) * (isNegative ? -1 : 1);
+    if (value !== openingBalance) applyOpeningBalance(value);
+    else setOpeningBalanceInput(formatAmountForInput(value));
+  };
+
+  // Notas de corretagem saem no mesmo layout das movimentações de investimento
+  const exportKind: ExportKind = documentType === 'investment' || documentType === 'brokerage'
+    ? 'investment'
+    : documentType === 'card' ? 'card' : 'bank';
+
+  const exportFilenameBase = (companyName: string) => {
+    const prefix = documentType === 'brokerage'
+      ? 'nota_corretagem'
+      : exportKind === 'investment' ? 'extrato_investimento' : exportKind === 'card' ? 'fatura_cartao' : 'extrato_bancario';
+    return `${prefix}_${companyName.replace(/\s/g, '_')}_${new Date().toISOString().split('T')[0]}`;
+  };
+
+  // Aba "Cabeçalho" do XLSX: de onde e como os dados foram extraídos
+  const xlsxMetadata = (info: CompanyInfo): XlsxExportMetadata => {
+    const extraction: [string, string | number][] = [
+      ['Tipo de documento', DOCUMENT_TYPE_LABELS[documentType]],
+      ['Arquivo', file?.name ?? ''],
+      ['Páginas', pageCount !== null ? String(pageCount) : ''],
+      ['Provedor de extração', EXTRACTION_PROVIDER_LABELS[providerId]],
+      ['Extraído do cache em', extractionCachedAt ? new Date(extractionCachedAt).toLocaleString('pt-BR') : ''],
+    ];
+    if (exportKind === 'bank') {
+      extraction.push(
+        ['Banco (código)', statementAccount?.bankCode ?? ''],
+        ['Conta', statementAccount?.accountNumber ?? ''],
+        ['Saldo anterior', openingBalance],
+        ['Saldo final calculado', calculatedFinalBalance],
+        ['Saldo final do extrato', statementBalance ?? ''],
+        ['Páginas com falha', failedPageRanges.map(r => `${r.startPage}-${r.endPage}`).join(', ')],
+      );
+    } else if (exportKind === 'investment' && investmentMeta) {
+      extraction.push(
+        ['Cotista', investmentMeta.cotistaNome ?? ''],
+        ['Extração completa', investmentMeta.isExtractionComplete === false ? 'Não' : 'Sim'],
+        ['Observações da extração', investmentMeta.extractionNotes ?? ''],
+      );
+    } else if (exportKind === 'card' && cardMeta) {
+      extraction.push(
+        ['Emissor', cardMeta.issuer ?? ''],
+        ['Titular', cardMeta.cardholderName ?? ''],
+        ['Fechamento', cardMeta.closingDate ? formatDateForDisplay(cardMeta.closingDate) : ''],
+        ['Vencimento', cardMeta.dueDate ? formatDateForDisplay(cardMeta.dueDate) : ''],
+        ['Total da fatura', cardMeta.invoiceTotal ?? ''],
+        ['Conta do passivo do cartão', cardLiabilityAccount.trim()],
+      );
+    }
+    return { companyInfo: info, extraction: extraction.filter(([, value]) => value !== '') };
+  };
+
+  const warnMissingCardLiability = () => {
+    setToastMessage("Informe a conta do passivo do cartão antes de exportar os lançamentos.");
+    setToastType('warning');
+    setShowToast(true);
+  };
 
   const handleExport = (format: 'csv' | 'xlsx' | 'txt' | 'pdf') => {
     if (!companyInfo) return;
+    const kind = exportKind;
+
+    if (kind === 'card' && !cardLiabilityAccount.trim()) {
+      warnMissingCardLiability();
+      return;
+    }
 
-    const isInvestment = documentType === 'investment';
-    const dataToExport = isInvestment ? investmentTransactions : transactions;
+    const dataToExport = kind === 'investment'
+      ? investmentTransactions
+      : kind === 'card'
+        ? buildCardAccountingEntries(cardTransactions, cardMeta, cardLiabilityAccount.trim())
+        : transactions;
 
     if (dataToExport.length === 0) {
       setToastMessage("Nenhum dado para exportar.");
@@ -387,22 +1043,21 @@ export default function App() {
       return;
     }
 
-    const prefix = isInvestment ? 'extrato_investimento' : 'extrato_bancario';
-    const filename = `${prefix}_${companyInfo.companyName.replace(/\s/g, '_')}_${new Date().toISOString().split('T')[0]}.${format}`;
+    const filename = `${exportFilenameBase(companyInfo.companyName)}.${format}`;
 
     try {
       switch (format) {
         case 'csv':
-          exportToCSV(dataToExport, filename, isInvestment);
+          exportToCSV(dataToExport, filename, kind);
           break;
         case 'xlsx':
-          exportToXLSX(dataToExport, filename, isInvestment);
+          exportToXLSX(dataToExport, filename, kind, xlsxMetadata(companyInfo));
           break;
         case 'txt':
-          exportToTXT(dataToExport, filename, isInvestment);
+          exportToTXT(dataToExport, filename, kind);
           break;
         case 'pdf':
-          exportToPDF(dataToExport, companyInfo, filename, isInvestment);
+          exportToPDF(dataToExport, companyInfo, filename, kind, kind === 'bank' ? openingBalance : undefined);
           break;
       }
       setToastMessage(`Arquivo ${filename} exportado com sucesso!`);
@@ -417,20 +1072,121 @@ export default function App() {
     setExportMenuOpen(false);
   };
 
+  const openAccountingExport = (profileId: AccountingSystemId) => {
+    setExportMenuOpen(false);
+    if (!companyInfo) return;
+    if (exportKind === 'card' && !cardLiabilityAccount.trim()) {
+      warnMissingCardLiability();
+      return;
+    }
+    const entries = exportKind === 'card'
+      ? cardAccountingEntries(buildCardAccountingEntries(cardTransactions, cardMeta, cardLiabilityAccount.trim()))
+      : bankAccountingEntries(transactions);
+    setAccountingExport({ profileId, entries, filenameBase: exportFilenameBase(companyInfo.companyName) });
+  };
+
+  const handleAccountingExport = (lines: string[], profile: AccountingExportProfile) => {
+    if (!accountingExport) return;
+    setAccountingExport(null);
+    try {
+      const filename = exportAccountingFile(lines, profile, accountingExport.filenameBase);
+      setToastMessage(`Arquivo ${filename} exportado no leiaute ${profile.label}.`);
+      setToastType('success');
+    } catch (error) {
+      console.error("Erro na exportação:", error);
+      setToastMessage("Ocorreu um erro ao exportar o arquivo.");
+      setToastType('error');
+    }
+    setShowToast(true);
+  };
+
+  // Leiautes de sistemas contábeis no menu "Exportar" (extrato bancário e fatura de cartão)
+  const accountingExportMenuItems = (
+    <div className="py-1 border-t border-slate-200 dark:border-slate-600" role="none">
+      <p className="px-4 pt-1 pb-0.5 text-xs font-semibold uppercase text-slate-400 dark:text-slate-400">Sistema contábil</p>
+      {ACCOUNTING_EXPORT_PROFILES.map(profile => (
+        <a key={profile.id} href="#" onClick={(e) => { e.preventDefault(); openAccountingExport(profile.id); }} className="text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600 block px-4 py-2 text-sm" role="menuitem">{profile.label}</a>
+      ))}
+    </div>
+  );
+
+  const handleTemplateExport = (template: ExportTemplate, format: TemplateFormat) => {
+    setExportMenuOpen(false);
+    if (!companyInfo) return;
+    const data = template.kind === 'investment' ? investmentTransactions : transactions;
+    if (data.length === 0) {
+      setToastMessage("Nenhum dado para exportar.");
+      setToastType('warning');
+      setShowToast(true);
+      return;
+    }
+    try {
+      const templateSlug = template.name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\W+/g, '_').toLowerCase();
+      const filename = exportWithTemplate(data, template, format, `${exportFilenameBase(companyInfo.companyName)}_${templateSlug}`, {
+        companyName: companyInfo.companyName,
+        companyCnpj: companyInfo.cnpj,
+      });
+      setToastMessage(`Arquivo ${filename} exportado com o modelo "${template.name}".`);
+      setToastType('success');
+    } catch (error) {
+      console.error("Erro na exportação:", error);
+      setToastMessage("Ocorreu um erro ao exportar o arquivo.");
+      setToastType('error');
+    }
+    setShowToast(true);
+  };
+
+  // Modelos de exportação do usuário no menu "Exportar" (extrato bancário e investimentos)
+  const templateExportMenuItems = (kind: TemplateDataKind) => (
+    <div className="py-1 border-t border-slate-200 dark:border-slate-600" role="none">
+      <p className="px-4 pt-1 pb-0.5 text-xs font-semibold uppercase text-slate-400 dark:text-slate-400">Modelos</p>
+      {exportTemplates.filter(t => t.kind === kind).map(template => (
+        <div key={template.id} className="flex items-center gap-2 px-4 py-1.5 text-sm text-slate-700 dark:text-slate-200" role="none">
+          <span className="flex-grow truncate" title={template.name}>{template.name}</span>
+          {(['csv', 'txt', 'xlsx'] as TemplateFormat[]).map(format => (
+            <a key={format} href="#" onClick={(e) => { e.preventDefault(); handleTemplateExport(template, format); }} className="text-xs font-medium uppercase text-blue-600 dark:text-blue-400 hover:underline" role="menuitem">{format}</a>
+          ))}
+        </div>
+      ))}
+      <a href="#" onClick={(e) => { e.preventDefault(); setExportMenuOpen(false); setTemplateManagerKind(kind); }} className="text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600 block px-4 py-2 text-sm" role="menuitem">Gerenciar modelos...</a>
+    </div>
+  );
+
   const handleReset = () => {
     setFile(null);
     setPageCount(null);
     setTransactions([]);
     setInvestmentTransactions([]);
     setInvestmentMeta(null);
+    setBrokerageNotes([]);
+    setCardTransactions([]);
+    setCardMeta(null);
+    setCardLiabilityAccount('');
     setError(null);
     setIsLoading(false);
     setStatementBalance(null);
+    setStatementOpeningBalance(null);
+    setOpeningBalance(0);
+    setOpeningBalanceInput('');
+    setExtractionChunks([]);
+    setFailedPageRanges([]);
+    setStatementAccount(null);
+    setExtractionCachedAt(null);
+    setPdfPassword(undefined);
+    setSelectedRowId(null);
+    setSpreadsheetRows(null);
+    abortBatch();
+    setBatchItems([]);
+    setBatchReviewLabel(null);
+    setPasswordPrompt(null);
+    setTypeCheck(null);
     setDateErrors({});
     setCnpjErrors({});
     setCurrencyErrors({});
     setIsInfoConfirmed(false);
     setCompanyInfo(null);
+    setTaxonomy(createDefaultTaxonomy());
+    setChartOfAccounts([]);
     setFilters(initialFilters);
     setInvOpFilter('');
     setExportMenuOpen(false);
@@ -440,15 +1196,80 @@ export default function App() {
     setFilters(initialFilters);
   };
 
+  const handleRulesSaved = (rules: CategorizationRule[]) => {
+    setRulesManager(null);
+    const { transactions: updated, matchedCount } = applyRules(transactions, rules);
+    // Contas das regras dadas pelo nome ou pelo código reduzido passam à classificação do plano, como na importação
+    setTransactions(updated.map(t => ({
+      ...t,
+      accountDebit: resolveAccount(chartOfAccounts, t.accountDebit),
+      accountCredit: resolveAccount(chartOfAccounts, t.accountCredit),
+    })));
+    setToastMessage(matchedCount > 0 ? `${matchedCount} transação(ões) atualizada(s) pelas regras.` : 'Regras salvas. Nenhuma transação do extrato atual foi alterada.');
+    setToastType('success');
+    setShowToast(true);
+  };
+
+  // Contas já preenchidas pelo nome ou pelo código reduzido passam à classificação do novo plano
+  const handleChartSaved = (accounts: ChartAccount[]) => {
+    setShowChartManager(false);
+    setChartOfAccounts(accounts);
+    setTransactions(current => current.map(t => ({ ...t, accountDebit: resolveAccount(accounts, t.accountDebit), accountCredit: resolveAccount(accounts, t.accountCredit) })));
+    setCardTransactions(current => current.map(t => ({ ...t, accountDebit: resolveAccount(accounts, t.accountDebit) })));
+    setToastMessage(accounts.length > 0 ? `Plano de contas salvo: ${accounts.length} conta(s).` : 'Plano de contas removido.');
+    setToastType('success');
+    setShowToast(true);
+  };
+
+  // Categorias renomeadas, movidas ou excluídas são atualizadas nas transações e nas regras da empresa
+  const handleTaxonomySaved = (categories: TaxonomyCategory[]) => {
+    setShowCategoryManager(false);
+    const changes = categoryPathChanges(taxonomy, categories);
+    const remap = (category: string) => changes[category] ?? category;
+    if (Object.keys(changes).length > 0) {
+      setTransactions(current => current.map(t => ({ ...t, category: remap(t.category) })));
+      setCardTransactions(current => current.map(t => ({ ...t, category: remap(t.category) })));
+      setFilters(current => ({ ...current, category: current.category ? remap(current.category) : '' }));
+      if (companyInfo) {
+        const rules = loadRules(companyInfo.cnpj);
+        saveRules(companyInfo.cnpj, rules.map(r => r.actions.category ? { ...r, actions: { ...r.actions, category: remap(r.actions.category) } } : r));
+      }
+    }
+    setTaxonomy(categories);
+    setToastMessage('Plano de categorias salvo.');
+    setToastType('success');
+    setShowToast(true);
+  };
+
+  const handleCardChange = (updated: CardTransaction) => {
+    setCardTransactions(prev => prev.map(t => {
+      if (t.id !== updated.id) return t;
+      if (t.category === updated.category) return updated;
+      const previous = defaultAccountsFor(taxonomy, t.category).accountDebit;
+      const next = defaultAccountsFor(taxonomy, updated.category).accountDebit;
+      return next && (!updated.accountDebit || updated.accountDebit === previous) ? { ...updated, accountDebit: next } : updated;
+    }));
+  };
+
+  // Edições de categoria e contas feitas na tabela viram exemplos para a IA
+  const handleTableChange = (updatedTransaction: Transaction, fieldChanged: keyof Omit<Transaction, 'id' | 'balance'>) => {
+    const before = transactions.find(t => t.id === updatedTransaction.id);
+    const updated = before ? withCategoryAccounts(before, updatedTransaction) : updatedTransaction;
+    if (companyInfo && before && (fieldChanged === 'category' || fieldChanged === 'accountDebit' || fieldChanged === 'accountCredit')) {
+      recordCorrection(companyInfo.cnpj, before, updated);
+    }
+    handleDataChange(updated, fieldChanged);
+  };
+
   const handleSuggestCategory = useCallback(async (transactionId: string) => {
     const transaction = transactions.find(t => t.id === transactionId);
-    if (!transaction || categorizingId) return;
+    if (!transaction || categorizingId || bulkCategorizing) return;
 
     setCategorizingId(transactionId);
     try {
-      const newCategory = await suggestNewCategory(transaction.description, transaction.category);
+      const newCategory = await suggestNewCategory(transaction.description, transaction.category, promptContextFor(transaction));
       if (newCategory !== transaction.category) {
-        handleDataChange({ ...transaction, category: newCategory }, 'category');
+        handleDataChange(withCategoryAccounts(transaction, { ...transaction, category: newCategory }), 'category');
         setToastMessage(`Categoria atualizada para: ${newCategory}`);
         setToastType('success');
         setShowToast(true);
@@ -465,7 +1286,41 @@ export default function App() {
     } finally {
       setCategorizingId(null);
     }
-  }, [transactions, categorizingId, handleDataChange]);
+  }, [transactions, categorizingId, bulkCategorizing, handleDataChange, taxonomy, categoryPaths]);
+
+  // Linhas categorizadas por regra ficam de fora: as regras têm precedência sobre a IA
+  const bulkCategorizeTargets = useMemo(() => filteredTransactions.filter(t => !t.ruleId), [filteredTransactions]);
+
+  const handleBulkCategorize = async () => {
+    if (bulkCategorizing || categorizingId || bulkCategorizeTargets.length === 0) return;
+    setBulkCategorizing({ done: 0, total: bulkCategorizeTargets.length });
+    try {
+      const result = await suggestCategoriesInBatches(bulkCategorizeTargets, (done, total) => setBulkCategorizing({ done, total }), promptContextFor());
+      setCategoryReview(result);
+    } catch (error) {
+      console.error("Falha na recategorização em lote:", error);
+      setToastMessage("Não foi possível recategorizar as transações neste momento.");
+      setToastType('warning');
+      setShowToast(true);
+    } finally {
+      setBulkCategorizing(null);
+    }
+  };
+
+  const handleApplyCategoryReview = (accepted: CategorySuggestion[]) => {
+    setCategoryReview(null);
+    const suggestedById = new Map(accepted.map(s => [s.transactionId, s.suggestedCategory]));
+    setTransactions(currentTransactions => recalculateRunningBalance(
+      currentTransactions.map(t => {
+        const category = suggestedById.get(t.id);
+        return category ? withCategoryAccounts(t, { ...t, category }) : t;
+      }),
+      openingBalance
+    ));
+    setToastMessage(`${accepted.length} categoria(s) atualizada(s).`);
+    setToastType('success');
+    setShowToast(true);
+  };
 
   const getToastStyles = () => {
     switch (toastType) {
@@ -493,7 +1348,89 @@ export default function App() {
 
   return (
     <div className="min-h-screen bg-slate-50 text-slate-800 dark:bg-slate-900 dark:text-slate-200">
-      <Header />
+      <Header providerLabel={EXTRACTION_PROVIDER_LABELS[providerId]} onOpenSettings={() => setShowProviderSettings(true)} />
+      {showProviderSettings && (
+        <ProviderSettings
+          onClose={() => setShowProviderSettings(false)}
+          onSave={settings => { setProviderId(settings.providerId); setShowProviderSettings(false); }}
+        />
+      )}
+      {categoryReview && (
+        <CategoryReviewDialog
+          suggestions={categoryReview.suggestions}
+          transactions={transactions}
+          failedCount={categoryReview.failedCount}
+          onApply={handleApplyCategoryReview}
+          onClose={() => setCategoryReview(null)}
+        />
+      )}
+      {showCorrectionsManager && companyInfo && (
+        <LearnedCorrectionsManager
+          companyCnpj={companyInfo.cnpj}
+          companyName={companyInfo.companyName}
+          categoryOptions={categoryOptions}
+          onClose={() => setShowCorrectionsManager(false)}
+          onSave={corrections => {
+            setShowCorrectionsManager(false);
+            setToastMessage(`${corrections.length} correção(ões) aprendida(s) salva(s).`);
+            setToastType('success');
+            setShowToast(true);
+          }}
+        />
+      )}
+      {showCategoryManager && companyInfo && (
+        <CategoryManager
+          companyCnpj={companyInfo.cnpj}
+          companyName={companyInfo.companyName}
+          onClose={() => setShowCategoryManager(false)}
+          onSave={handleTaxonomySaved}
+        />
+      )}
+      {showChartManager && companyInfo && (
+        <ChartOfAccountsManager
+          companyCnpj={companyInfo.cnpj}
+          companyName={companyInfo.companyName}
+          onClose={() => setShowChartManager(false)}
+          onSave={handleChartSaved}
+        />
+      )}
+      {accountingExport && companyInfo && (
+        <AccountingExportDialog
+          companyCnpj={companyInfo.cnpj}
+          initialProfileId={accountingExport.profileId}
+          entries={accountingExport.entries}
+          chartOfAccounts={chartOfAccounts}
+          onClose={() => setAccountingExport(null)}
+          onExport={handleAccountingExport}
+        />
+      )}
+      {templateManagerKind && companyInfo && (
+        <ExportTemplateManager
+          kind={templateManagerKind}
+          sampleData={templateManagerKind === 'investment' ? investmentTransactions : transactions}
+          context={{ companyName: companyInfo.companyName, companyCnpj: companyInfo.cnpj }}
+          onClose={() => setTemplateManagerKind(null)}
+          onSave={templates => {
+            setTemplateManagerKind(null);
+            setExportTemplates(templates);
+            setToastMessage('Modelos de exportação salvos.');
+            setToastType('success');
+            setShowToast(true);
+          }}
+        />
+      )}
+      {rulesManager && companyInfo && (
+        <RulesManager
+          companyCnpj={companyInfo.cnpj}
+          companyName={companyInfo.companyName}
+          initialDraft={rulesManager.draft}
+          transactions={transactions}
+          categoryOptions={categoryOptions}
+          chartOfAccounts={chartOfAccounts}
+          onClose={() => setRulesManager(null)}
+          onSave={handleRulesSaved}
+        />
+      )}
       <main className="container mx-auto p-4 md:p-8">
         <div className="max-w-7xl mx-auto">
 
@@ -520,7 +1457,7 @@ export default function App() {
           )}
 
           {/* Seletor de tipo de extrato */}
-          {isInfoConfirmed && !file && !isLoading && (
+          {isInfoConfirmed && !file && !isLoading && !isBatchMode && (
             <div className="mb-6 p-4 bg-white dark:bg-slate-800 shadow-md rounded-lg animate-fade-in">
               <h3 className="text-sm font-semibold text-slate-600 dark:text-slate-300 mb-3">
                 Selecione o tipo de documento que será processado:
@@ -548,16 +1485,107 @@ export default function App() {
                   <span className="font-semibold text-sm">Extrato de Cotista (XP)</span>
                   <span className="text-xs text-center opacity-75">Aplicações, resgates, come-cotas e rendimentos em fundos</span>
                 </button>
+                <button
+                  onClick={() => setDocumentType('cnab')}
+                  className={`flex-1 min-w-[200px] flex flex-col items-center gap-2 p-4 rounded-lg border-2 transition-all ${documentType === 'cnab'
+                    ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300'
+                    : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 text-slate-600 dark:text-slate-400'
+                    }`}
+                >
+                  <span className="text-2xl">🧾</span>
+                  <span className="font-semibold text-sm">Retorno CNAB 240/400</span>
+                  <span className="text-xs text-center opacity-75">Cobrança e pagamentos: Itaú, Bradesco, BB e Santander</span>
+                </button>
+                <button
+                  onClick={() => setDocumentType('card')}
+                  className={`flex-1 min-w-[200px] flex flex-col items-center gap-2 p-4 rounded-lg border-2 transition-all ${documentType === 'card'
+                    ? 'border-violet-500 bg-violet-50 dark:bg-violet-900/30 text-violet-700 dark:text-violet-300'
+                    : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 text-slate-600 dark:text-slate-400'
+                    }`}
+                >
+                  <span className="text-2xl">💳</span>
+                  <span className="font-semibold text-sm">Fatura de Cartão</span>
+                  <span className="text-xs text-center opacity-75">Compras, parcelas, IOF e compras internacionais</span>
+                </button>
+                <button
+                  onClick={() => setDocumentType('brokerage')}
+                  className={`flex-1 min-w-[200px] flex flex-col items-center gap-2 p-4 rounded-lg border-2 transition-all ${documentType === 'brokerage'
+                    ? 'border-teal-500 bg-teal-50 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300'
+                    : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 text-slate-600 dark:text-slate-400'
+                    }`}
+                >
+                  <span className="text-2xl">📊</span>
+                  <span className="font-semibold text-sm">Nota de Corretagem</span>
+                  <span className="text-xs text-center opacity-75">Negócios em ações e FIIs (SINACOR/B3) com rateio de custos</span>
+                </button>
               </div>
             </div>
           )}
 
-          {isInfoConfirmed && !file && !isLoading && (
-            <FileUpload onFileSelect={handleFileSelect} />
+          {isInfoConfirmed && !file && !isLoading && !isBatchMode && (
+            <FileUpload
+              onFileSelect={handleFileSelect}
+              onFilesSelect={isBankStatement ? handleFilesSelect : undefined}
+              {...(documentType === 'cnab' && {
+                acceptedExtensions: CNAB_FILE_EXTENSIONS,
+                hint: 'Arquivo de retorno CNAB 240 ou 400 (.ret, .txt)',
+              })}
+              {...(documentType === 'card' && {
+                acceptedExtensions: ['.pdf'],
+                hint: 'Fatura do cartão de crédito em PDF',
+              })}
+              {...(documentType === 'brokerage' && {
+                acceptedExtensions: ['.pdf'],
+                hint: 'Nota de corretagem em PDF (padrão SINACOR)',
+              })}
+            />
+          )}
+
+          {isInfoConfirmed && !isLoading && isBatchMode && batchReviewLabel === null && (
+            <BatchQueue
+              items={batchItems}
+              onReview={handleBatchReview}
+              onReviewMerged={handleBatchReviewMerged}
+              onRetry={handleBatchRetry}
+              onRemove={handleBatchRemove}
+              onReset={() => { abortBatch(); clearReviewState(); setBatchItems([]); }}
+            />
+          )}
+
+          {!isLoading && file && passwordPrompt && (
+            <PdfPasswordPrompt
+              fileName={file.name}
+              candidates={passwordPrompt.candidates}
+              detectedPassword={passwordPrompt.detectedPassword}
+              onSubmit={handlePdfPasswordSubmit}
+              onCancel={handlePdfPasswordCancel}
+            />
+          )}
+
+          {!isLoading && file && typeCheck && (
+            <DocumentTypeCheck
+              fileName={file.name}
+              classification={typeCheck.classification}
+              selectedType={documentType}
+              onConfirm={handleTypeCheckConfirm}
+              onCancel={handleTypeCheckCancel}
+            />
+          )}
+
+          {!isLoading && file && spreadsheetRows && (
+            <SpreadsheetImportWizard
+              fileName={file.name}
+              rows={spreadsheetRows}
+              bankName={companyInfo?.bankName ?? ''}
+              initialMapping={guessSpreadsheetMapping(spreadsheetRows)}
+              savedMapping={companyInfo?.bankName ? loadSavedMapping(companyInfo.bankName) : null}
+              onConfirm={handleSpreadsheetConfirm}
+              onCancel={handleReset}
+            />
           )}
 
           {isLoading && (
-            <Loader message={loadingMessage || 'Analisando seu documento...'} />
+            <Loader message={loadingMessage || 'Analisando seu documento...'} chunks={extractionChunks} />
           )}
 
           {error && !isLoading && (
@@ -573,27 +1601,105 @@ export default function App() {
             </div>
           )}
 
+          {!isLoading && !error && file && extractionCachedAt && (
+            <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3 px-4 py-3 rounded-lg border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 text-sm text-blue-800 dark:text-blue-200 animate-fade-in">
+              <span>
+                Resultado recuperado do cache local (extraído em {new Date(extractionCachedAt).toLocaleString('pt-BR')}). Nenhuma nova chamada à IA foi feita.
+              </span>
+              <button
+                onClick={() => handleProcessFile(file, pdfPassword, documentType, true)}
+                className="sm:ml-auto inline-flex items-center px-3 py-1.5 border border-blue-300 dark:border-blue-700 text-xs font-medium rounded-md text-blue-700 dark:text-blue-200 bg-white dark:bg-slate-800 hover:bg-blue-100 dark:hover:bg-slate-700"
+              >
+                <ArrowPathIcon className="h-4 w-4 mr-1" />
+                Re-extrair
+              </button>
+            </div>
+          )}
+
           {/* ─── Extrato Bancário ──────────────────────────────────── */}
-          {!isLoading && documentType === 'bank' && transactions.length > 0 && (
+          {!isLoading && isBankStatement && transactions.length > 0 && (
             <Dashboard transactions={filteredTransactions} />
           )}
 
-          {!isLoading && documentType === 'bank' && transactions.length > 0 && (
+          {!isLoading && isBankStatement && transactions.length > 0 && (
             <div className="bg-white dark:bg-slate-800 shadow-xl rounded-xl overflow-hidden animate-fade-in">
               <div className="p-4 sm:p-6 border-b border-slate-200 dark:border-slate-700 flex flex-col sm:flex-row justify-between items-center gap-4">
                 <div>
                   <h2 className="text-xl font-bold text-slate-900 dark:text-white">Transações Extraídas</h2>
                   <p className="text-sm text-slate-500 dark:text-slate-400 flex items-center gap-2 flex-wrap">
                     <span>Revise e edite os dados abaixo. Arquivo:</span>
-                    <span className="font-medium text-blue-600 dark:text-blue-400">{file?.name}</span>
+                    <span className="font-medium text-blue-600 dark:text-blue-400">{batchReviewLabel ?? file?.name}</span>
                     {pageCount !== null && (
                       <span className="inline-flex items-center rounded-full bg-blue-100 px-2.5 py-0.5 text-xs font-medium text-blue-800 dark:bg-blue-900 dark:text-blue-300">
                         {pageCount} {pageCount === 1 ? 'página' : 'páginas'}
                       </span>
                     )}
+                    {documentType === 'cnab' && (
+                      <span className="inline-flex items-center rounded-full bg-indigo-100 px-2.5 py-0.5 text-xs font-medium text-indigo-800 dark:bg-indigo-900 dark:text-indigo-300">
+                        Retorno CNAB · importação direta
+                      </span>
+                    )}
+                    {file && documentType !== 'cnab' && isOfxFile(file) && (
+                      <span className="inline-flex items-center rounded-full bg-emerald-100 px-2.5 py-0.5 text-xs font-medium text-emerald-800 dark:bg-emerald-900 dark:text-emerald-300">
+                        OFX · importação direta
+                      </span>
+                    )}
+                    {statementAccount && (
+                      <span className="text-xs text-slate-500 dark:text-slate-400">
+                        {statementAccount.bankCode && <>Banco: <strong>{statementAccount.bankCode}</strong> </>}
+                        {statementAccount.accountNumber && <>Ag./Conta: <strong>{statementAccount.accountNumber}</strong></>}
+                      </span>
+                    )}
                   </p>
                 </div>
                 <div className="flex items-center gap-2 flex-shrink-0">
+                  {batchReviewLabel !== null && (
+                    <button
+                      onClick={handleBackToQueue}
+                      className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                    >
+                      Voltar à Fila
+                    </button>
+                  )}
+                  {companyInfo && (
+                    <button
+                      onClick={() => setRulesManager({ draft: null })}
+                      className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                    >
+                      <PencilIcon className="h-5 w-5 mr-2" />
+                      Regras
+                    </button>
+                  )}
+                  {companyInfo && (
+                    <button
+                      onClick={() => setShowCategoryManager(true)}
+                      className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                      title="Plano de categorias e contas padrão desta empresa"
+                    >
+                      <DocumentChartBarIcon className="h-5 w-5 mr-2" />
+                      Categorias
+                    </button>
+                  )}
+                  {companyInfo && (
+                    <button
+                      onClick={() => setShowChartManager(true)}
+                      className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                      title="Plano de contas importado do sistema contábil"
+                    >
+                      <DocumentChartBarIcon className="h-5 w-5 mr-2" />
+                      Plano de Contas
+                    </button>
+                  )}
+                  {companyInfo && (
+                    <button
+                      onClick={() => setShowCorrectionsManager(true)}
+                      className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                      title="Categorias e contas corrigidas na tabela, usadas como exemplos pela IA"
+                    >
+                      <SparklesIcon className="h-5 w-5 mr-2" />
+                      Correções
+                    </button>
+                  )}
                   <button
                     onClick={handleReset}
                     className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
@@ -630,25 +1736,118 @@ export default function App() {
                           <a href="#" onClick={(e) => { e.preventDefault(); handleExport('txt'); }} className="text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600 block px-4 py-2 text-sm" role="menuitem" id="menu-item-2">Exportar como TXT</a>
                           <a href="#" onClick={(e) => { e.preventDefault(); handleExport('pdf'); }} className="text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600 block px-4 py-2 text-sm" role="menuitem" id="menu-item-3">Exportar como PDF</a>
                         </div>
+                        {accountingExportMenuItems}
+                        {templateExportMenuItems('bank')}
                       </div>
                     )}
                   </div>
                 </div>
               </div>
 
-              <FilterBar filters={filters} onFilterChange={setFilters} onClear={handleClearFilters} />
+              <FilterBar filters={filters} onFilterChange={setFilters} onClear={handleClearFilters} categoryOptions={categoryOptions} />
+
+              <div className="px-4 py-3 border-b border-slate-200 dark:border-slate-700 flex flex-wrap items-center gap-3 text-sm">
+                <label htmlFor="openingBalance" className="font-medium text-slate-700 dark:text-slate-300">Saldo Anterior (R$):</label>
+                <input
+                  id="openingBalance"
+                  type="text"
+                  value={openingBalanceInput}
+                  onChange={(e) => setOpeningBalanceInput(e.target.value)}
+                  onBlur={handleOpeningBalanceBlur}
+                  onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                  className="w-40 rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-2 py-1 text-right font-mono shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <span className="text-slate-500 dark:text-slate-400">
+                  {statementOpeningBalance !== null
+                    ? <>Extraído do extrato: <strong>{formatCurrency(statementOpeningBalance)}</strong></>
+                    : 'Saldo anterior não encontrado no extrato. Informe manualmente se necessário.'}
+                </span>
+                {statementOpeningBalance !== null && statementOpeningBalance !== openingBalance && (
+                  <button
+                    onClick={() => applyOpeningBalance(statementOpeningBalance)}
+                    className="text-xs font-medium text-blue-600 dark:text-blue-400 underline hover:text-blue-800 dark:hover:text-blue-300"
+                  >
+                    Restaurar valor do extrato
+                  </button>
+                )}
+                {balanceVerification.checkedCount > 0 && (
+                  <span className={`ml-auto ${balanceDrift ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                    Saldos impressos conferidos: <strong>{balanceVerification.matchedCount}/{balanceVerification.checkedCount}</strong>
+                  </span>
+                )}
+                <span className={`${balanceVerification.checkedCount > 0 ? '' : 'ml-auto '}text-slate-500 dark:text-slate-400`}>
+                  Saldo final calculado: <strong className="text-slate-800 dark:text-slate-200">{formatCurrency(calculatedFinalBalance)}</strong>
+                </span>
+              </div>
 
-              {(balanceMismatch || unusualTransactionsCount > 0) && (
+              {(balanceMismatch || balanceDrift || unusualTransactionsCount > 0 || lowConfidenceCount > 0 || failedPageRanges.length > 0) && (
                 <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border-b border-yellow-200 dark:border-yellow-800 flex flex-col gap-3">
+                  {failedPageRanges.length > 0 && (
+                    <div className="flex items-center">
+                      <XCircleIcon className="h-6 w-6 text-red-500 mr-3 flex-shrink-0" />
+                      <div>
+                        <h3 className="font-bold text-red-800 dark:text-red-200">Páginas Não Processadas</h3>
+                        <ul className="text-sm text-red-700 dark:text-red-300 list-disc ml-4">
+                          {failedPageRanges.map((range, index) => (
+                            <li key={`${index}-${range.startPage}-${range.endPage}`}>
+                              Páginas {range.startPage} a {range.endPage}: {range.error}
+                            </li>
+                          ))}
+                        </ul>
+                        <p className="text-sm text-red-700 dark:text-red-300 mt-1">
+                          As transações dessas páginas não constam na tabela. Inclua-as manualmente ou processe o arquivo novamente.
+                        </p>
+                        {statementOpeningBalance === null && (
+                          <p className="text-sm text-red-700 dark:text-red-300 mt-1">
+                            Saldo anterior desconhecido: a página que o traz não foi processada, e os saldos partem de {formatCurrency(openingBalance)} até que ele seja informado acima.
+                          </p>
+                        )}
+                        {statementBalance === null && (
+                          <p className="text-sm text-red-700 dark:text-red-300 mt-1">
+                            Saldo final do extrato desconhecido: a última página não foi processada e o saldo calculado não pôde ser conferido.
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  )}
                   {balanceMismatch && (
                     <div className="flex items-center">
                       <ExclamationTriangleIcon className="h-6 w-6 text-yellow-500 mr-3 flex-shrink-0" />
                       <div>
                         <h3 className="font-bold text-yellow-800 dark:text-yellow-200">Aviso de Divergência de Saldo</h3>
                         <p className="text-sm text-yellow-700 dark:text-yellow-300">
-                          O saldo final do extrato ({formatCurrency(statementBalance)}) não corresponde ao saldo calculado ({formatCurrency(calculatedFinalBalance)}).
-                          Por favor, revise as transações, especialmente as destacadas em amarelo que foram sinalizadas pela IA como incomuns.
+                          O saldo final do extrato ({formatCurrency(statementBalance)}) não corresponde ao saldo calculado ({formatCurrency(calculatedFinalBalance)}) a partir do saldo anterior de {formatCurrency(openingBalance)}.
+                          {balanceDrift
+                            ? ' Veja abaixo a primeira linha em que o saldo impresso diverge.'
+                            : ' Por favor, revise as transações, especialmente as destacadas em amarelo que foram sinalizadas pela IA como incomuns.'}
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                  {balanceDrift && (
+                    <div className="flex items-center">
+                      <XCircleIcon className="h-6 w-6 text-red-500 mr-3 flex-shrink-0" />
+                      <div>
+                        <h3 className="font-bold text-red-800 dark:text-red-200">Saldo Impresso Diverge do Calculado</h3>
+                        <p className="text-sm text-red-700 dark:text-red-300">
+                          {balanceVerification.matchedCount} de {balanceVerification.checkedCount} saldos impressos conferem. O primeiro desvio é de {formatCurrency(balanceDrift.difference)} (impresso {formatCurrency(balanceDrift.printed)}, calculado {formatCurrency(balanceDrift.computed)}). {balanceDrift.suggestion}
                         </p>
+                        <div className="mt-1 flex gap-3 text-sm">
+                          <button
+                            onClick={() => { setFilters(initialFilters); setSelectedRowId(balanceDrift.suspectId ?? balanceDrift.transactionId); }}
+                            className="font-medium text-red-700 dark:text-red-300 underline hover:text-red-900 dark:hover:text-red-100"
+                          >
+                            {balanceDrift.suspectId ? 'Ir para a linha suspeita' : 'Ir para a linha'}
+                          </button>
+                          {balanceDrift.suspectId && balanceDrift.suspectId !== balanceDrift.transactionId && (
+                            <button
+                              onClick={() => { setFilters(initialFilters); setSelectedRowId(balanceDrift.transactionId); }}
+                              className="font-medium text-red-700 dark:text-red-300 underline hover:text-red-900 dark:hover:text-red-100"
+                            >
+                              Ir para o saldo divergente
+                            </button>
+                          )}
+                        </div>
                       </div>
                     </div>
                   )}
@@ -663,32 +1862,85 @@ export default function App() {
                       </div>
                     </div>
                   )}
+                  {lowConfidenceCount > 0 && (
+                    <div className="flex items-center">
+                      <ExclamationTriangleIcon className="h-6 w-6 text-orange-500 mr-3 flex-shrink-0" />
+                      <div>
+                        <h3 className="font-bold text-orange-800 dark:text-orange-200">Leitura com Baixa Confiança</h3>
+                        <p className="text-sm text-orange-700 dark:text-orange-300">
+                          {lowConfidenceCount} linha(s) foram lidas com baixa confiança e estão marcadas em laranja. Passe o mouse sobre a página indicada na descrição para ver a linha original e use o filtro "Baixa Confiança" para revisá-las primeiro.
+                        </p>
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
 
-              <div className="p-4 text-sm text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+              <div className="p-4 text-sm text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700 flex items-center gap-3">
                 Exibindo {filteredTransactions.length} de {transactions.length} transações.
+                {ruleMatchedCount > 0 && <span className="text-emerald-700 dark:text-emerald-400">{ruleMatchedCount} definida(s) por regras.</span>}
+                {accountIssueCount > 0 && <span className="text-red-600 dark:text-red-400" title="Contas fora do plano de contas ou sintéticas aparecem em vermelho na tabela">{accountIssueCount} com conta inválida.</span>}
+                <button
+                  onClick={handleBulkCategorize}
+                  disabled={!!bulkCategorizing || !!categorizingId || bulkCategorizeTargets.length === 0}
+                  className="ml-auto inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded-md text-blue-600 bg-blue-50 hover:bg-blue-100 dark:text-blue-400 dark:bg-blue-900/30 dark:hover:bg-blue-900/50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Envia as transações exibidas (exceto as definidas por regras) à IA em lotes e abre as propostas para revisão"
+                >
+                  {bulkCategorizing ? <ArrowPathIcon className="h-4 w-4 animate-spin" /> : <SparklesIcon className="h-4 w-4" />}
+                  {bulkCategorizing
+                    ? `Recategorizando ${bulkCategorizing.done}/${bulkCategorizing.total}...`
+                    : `Recategorizar ${bulkCategorizeTargets.length} com IA`}
+                </button>
+                {canShowPdf && (
+                  <button
+                    onClick={() => setShowPdfViewer(v => !v)}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded-md border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700"
+                  >
+                    <DocumentChartBarIcon className="h-4 w-4" />
+                    {showPdfViewer ? 'Ocultar PDF' : 'Ver PDF ao lado'}
+                  </button>
+                )}
               </div>
 
-              <DataTable
-                transactions={filteredTransactions}
-                onDataChange={handleDataChange}
-                dateErrors={dateErrors}
-                cnpjErrors={cnpjErrors}
-                currencyErrors={currencyErrors}
-                onSuggestCategory={handleSuggestCategory}
-                categorizingId={categorizingId}
-              />
+              <div className={canShowPdf && showPdfViewer ? 'grid grid-cols-1 xl:grid-cols-2 gap-4 p-4' : ''}>
+                <div className="min-w-0">
+                  <DataTable
+                    transactions={filteredTransactions}
+                    onDataChange={handleTableChange}
+                    dateErrors={dateErrors}
+                    cnpjErrors={cnpjErrors}
+                    currencyErrors={currencyErrors}
+                    onSuggestCategory={handleSuggestCategory}
+                    categoryOptions={categoryOptions}
+                    chartOfAccounts={chartOfAccounts}
+                    categorizingId={categorizingId}
+                    selectedId={selectedRowId}
+                    onRowSelect={t => setSelectedRowId(t.id)}
+                    balanceMarkers={balanceVerification.markers}
+                    onCreateRule={t => setRulesManager({ draft: createRuleFromTransaction(t) })}
+                  />
+                </div>
+                {canShowPdf && showPdfViewer && (
+                  <PdfViewer
+                    file={file!}
+                    password={pdfPassword}
+                    highlight={pdfHighlight}
+                    onCreateFromSelection={handleCreateFromPdfSelection}
+                  />
+                )}
+              </div>
             </div>
           )}
 
           {/* ─── Extrato de Cotista XP ─────────────────────────────── */}
-          {!isLoading && documentType === 'investment' && investmentTransactions.length > 0 && (() => {
+          {!isLoading && (documentType === 'investment' || documentType === 'brokerage') && investmentTransactions.length > 0 && (() => {
+            const isBrokerage = documentType === 'brokerage';
             const filtered = invOpFilter
               ? investmentTransactions.filter(t => t.operationType === invOpFilter)
               : investmentTransactions;
 
             const totalBruto = filtered.reduce((s, t) => s + t.grossValue, 0);
+            const totalFees = filtered.reduce((s, t) => s + t.fees, 0);
             const totalIR = filtered.reduce((s, t) => s + t.irWithheld, 0);
             const totalLiquido = filtered.reduce((s, t) => s + t.netValue, 0);
             const fmtCur = (v: number) => v.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
@@ -701,9 +1953,9 @@ export default function App() {
                   <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
                     <div>
                       <div className="flex items-center gap-2">
-                        <h2 className="text-xl font-bold text-slate-900 dark:text-white">📈 Extrato de Cotista</h2>
+                        <h2 className="text-xl font-bold text-slate-900 dark:text-white">{isBrokerage ? '📊 Nota de Corretagem' : '📈 Extrato de Cotista'}</h2>
                         <span className="inline-flex items-center rounded-full bg-emerald-100 px-2.5 py-0.5 text-xs font-medium text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200">
-                          XP Investimentos
+                          {isBrokerage ? investmentMeta?.bankName || 'B3' : 'XP Investimentos'}
                         </span>
                       </div>
                       {investmentMeta && (
@@ -769,18 +2021,51 @@ export default function App() {
                               <a href="#" onClick={(e) => { e.preventDefault(); handleExport('txt'); }} className="text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600 block px-4 py-2 text-sm" role="menuitem">Exportar como TXT</a>
                               <a href="#" onClick={(e) => { e.preventDefault(); handleExport('pdf'); }} className="text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600 block px-4 py-2 text-sm" role="menuitem">Exportar como PDF</a>
                             </div>
+                            {templateExportMenuItems('investment')}
                           </div>
                         )}
                       </div>
                     </div>
                   </div>
 
+                  {/* Conferência de cada nota com o líquido impresso */}
+                  {isBrokerage && (
+                    <div className="mt-4 space-y-1">
+                      {brokerageNotes.map((note, index) => {
+                        const reconciliation = reconcileBrokerageNote(note);
+                        return (
+                          <div
+                            key={`${note.noteNumber}-${index}`}
+                            className={`flex items-center gap-2 rounded-lg px-3 py-2 text-sm ${reconciliation.isReconciled
+                              ? 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-300'
+                              : 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-300'
+                              }`}
+                          >
+                            {reconciliation.isReconciled ? <CheckCircleIcon className="h-5 w-5 flex-shrink-0" /> : <XCircleIcon className="h-5 w-5 flex-shrink-0" />}
+                            <span>
+                              Nota <strong>{note.noteNumber || '—'}</strong> ({fmtDate(note.tradeDate)}): vendas {fmtCur(reconciliation.sales)} − compras {fmtCur(reconciliation.purchases)} − custos {fmtCur(reconciliation.fees)} − IRRF {fmtCur(reconciliation.irrf)} = {fmtCur(reconciliation.computedNet)}
+                              {reconciliation.isReconciled
+                                ? ` (confere com o líquido da nota)`
+                                : `, mas o líquido da nota é ${fmtCur(reconciliation.netTotal)} (diferença de ${fmtCur(reconciliation.difference)})`}
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
                   {/* Cards de resumo */}
-                  <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <div className={`mt-4 grid grid-cols-1 ${isBrokerage ? 'sm:grid-cols-4' : 'sm:grid-cols-3'} gap-3`}>
                     <div className="bg-slate-50 dark:bg-slate-700/50 rounded-lg p-3 text-center">
                       <div className="text-xs text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-1">Valor Bruto Total</div>
                       <div className="text-lg font-bold text-slate-800 dark:text-white">{fmtCur(totalBruto)}</div>
                     </div>
+                    {isBrokerage && (
+                      <div className="bg-slate-50 dark:bg-slate-700/50 rounded-lg p-3 text-center">
+                        <div className="text-xs text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-1">Custos Rateados</div>
+                        <div className="text-lg font-bold text-slate-800 dark:text-white">{fmtCur(totalFees)}</div>
+                      </div>
+                    )}
                     <div className="bg-red-50 dark:bg-red-900/20 rounded-lg p-3 text-center">
                       <div className="text-xs text-red-500 dark:text-red-400 uppercase tracking-wide mb-1">IR Total Retido</div>
                       <div className="text-lg font-bold text-red-700 dark:text-red-300">{fmtCur(totalIR)}</div>
@@ -809,11 +2094,164 @@ export default function App() {
                   ))}
                 </div>
 
-                <div className="px-4 py-2 text-sm text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                <div className="px-4 py-2 text-sm text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700 flex items-center gap-3">
                   Exibindo {filtered.length} de {investmentTransactions.length} movimentações.
+                  {canShowPdf && (
+                    <button
+                      onClick={() => setShowPdfViewer(v => !v)}
+                      className="ml-auto inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded-md border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700"
+                    >
+                      <DocumentChartBarIcon className="h-4 w-4" />
+                      {showPdfViewer ? 'Ocultar PDF' : 'Ver PDF ao lado'}
+                    </button>
+                  )}
+                </div>
+
+                <div className={canShowPdf && showPdfViewer ? 'grid grid-cols-1 xl:grid-cols-2 gap-4 p-4' : ''}>
+                  <div className="min-w-0">
+                    <InvestmentTable transactions={filtered} selectedId={selectedRowId} onRowSelect={t => setSelectedRowId(t.id)} />
+                  </div>
+                  {canShowPdf && showPdfViewer && (
+                    <PdfViewer file={file!} password={pdfPassword} highlight={pdfHighlight} />
+                  )}
+                </div>
+              </div>
+            );
+          })()}
+
+          {!isLoading && documentType === 'card' && cardTransactions.length > 0 && (() => {
+            const reconciliation = reconcileCardStatement(cardTransactions, cardMeta);
+            const totalIOF = cardTransactions.reduce((s, t) => s + t.iof, 0);
+            const fmtCur = (v: number) => v.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+            const fmtDate = (d?: string) => { if (!d) return ''; const [y, m, day] = d.split('-'); return `${day}/${m}/${y}`; };
+
+            return (
+              <div className="bg-white dark:bg-slate-800 shadow-xl rounded-xl overflow-hidden animate-fade-in">
+                {/* Cabeçalho */}
+                <div className="p-4 sm:p-6 border-b border-slate-200 dark:border-slate-700">
+                  <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h2 className="text-xl font-bold text-slate-900 dark:text-white">💳 Fatura de Cartão</h2>
+                        {cardMeta?.issuer && (
+                          <span className="inline-flex items-center rounded-full bg-violet-100 px-2.5 py-0.5 text-xs font-medium text-violet-800 dark:bg-violet-900 dark:text-violet-200">
+                            {cardMeta.issuer}
+                          </span>
+                        )}
+                      </div>
+                      {cardMeta && (
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                          {cardMeta.cardholderName && <span className="mr-2">Titular: <strong>{cardMeta.cardholderName}</strong></span>}
+                          {cardMeta.closingDate && <span className="mr-2">Fechamento: <strong>{fmtDate(cardMeta.closingDate)}</strong></span>}
+                          {cardMeta.dueDate && <span>Vencimento: <strong>{fmtDate(cardMeta.dueDate)}</strong></span>}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <button
+                        onClick={handleReset}
+                        className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                      >
+                        <ArrowPathIcon className="h-5 w-5 mr-2" />
+                        Processar Novo Arquivo
+                      </button>
+                      <div className="relative inline-block text-left" ref={exportContainerRef}>
+                        <div>
+                          <button
+                            type="button"
+                            onClick={() => setExportMenuOpen(!exportMenuOpen)}
+                            className="inline-flex w-full justify-center items-center gap-x-1.5 rounded-md bg-violet-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-violet-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-100 dark:focus:ring-offset-slate-800 focus:ring-violet-500"
+                            id="menu-button-card"
+                            aria-expanded={exportMenuOpen}
+                            aria-haspopup="true"
+                          >
+                            <ArrowDownTrayIcon className="h-5 w-5 -ml-1 mr-2" />
+                            Exportar
+                            <ChevronDownIcon className="-mr-1 h-5 w-5 text-violet-200" aria-hidden="true" />
+                          </button>
+                        </div>
+
+                        {exportMenuOpen && (
+                          <div
+                            className="absolute right-0 z-10 mt-2 w-56 origin-top-right rounded-md bg-white dark:bg-slate-700 shadow-lg ring-1 ring-black dark:ring-slate-600 ring-opacity-5 focus:outline-none"
+                            role="menu"
+                            aria-orientation="vertical"
+                            aria-labelledby="menu-button-card"
+                          >
+                            <div className="py-1" role="none">
+                              <a href="#" onClick={(e) => { e.preventDefault(); handleExport('csv'); }} className="text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600 block px-4 py-2 text-sm" role="menuitem">Exportar como CSV</a>
+                              <a href="#" onClick={(e) => { e.preventDefault(); handleExport('xlsx'); }} className="text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600 block px-4 py-2 text-sm" role="menuitem">Exportar como XLSX</a>
+                              <a href="#" onClick={(e) => { e.preventDefault(); handleExport('txt'); }} className="text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600 block px-4 py-2 text-sm" role="menuitem">Exportar como TXT</a>
+                              <a href="#" onClick={(e) => { e.preventDefault(); handleExport('pdf'); }} className="text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600 block px-4 py-2 text-sm" role="menuitem">Exportar como PDF</a>
+                            </div>
+                            {accountingExportMenuItems}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Conferência com o total da fatura */}
+                  <div className={`mt-4 flex items-center gap-2 rounded-lg px-3 py-2 text-sm ${reconciliation.isReconciled
+                    ? 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-300'
+                    : 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-300'
+                    }`}>
+                    {reconciliation.isReconciled ? <CheckCircleIcon className="h-5 w-5 flex-shrink-0" /> : <XCircleIcon className="h-5 w-5 flex-shrink-0" />}
+                    {reconciliation.invoiceTotal === null
+                      ? 'O total da fatura não foi encontrado no documento. Confira os itens manualmente.'
+                      : reconciliation.isReconciled
+                        ? `Os itens conferem com o total da fatura (${fmtCur(reconciliation.invoiceTotal)}).`
+                        : `Os itens somam ${fmtCur(reconciliation.computedTotal)}, mas o total da fatura é ${fmtCur(reconciliation.invoiceTotal)} (diferença de ${fmtCur(reconciliation.difference)}).`}
+                  </div>
+
+                  {/* Cards de resumo */}
+                  <div className="mt-4 grid grid-cols-1 sm:grid-cols-4 gap-3">
+                    <div className="bg-slate-50 dark:bg-slate-700/50 rounded-lg p-3 text-center">
+                      <div className="text-xs text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-1">Saldo Anterior</div>
+                      <div className="text-lg font-bold text-slate-800 dark:text-white">{fmtCur(cardMeta?.previousBalance ?? 0)}</div>
+                    </div>
+                    <div className="bg-slate-50 dark:bg-slate-700/50 rounded-lg p-3 text-center">
+                      <div className="text-xs text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-1">Pagamentos</div>
+                      <div className="text-lg font-bold text-slate-800 dark:text-white">{fmtCur(cardMeta?.paymentsReceived ?? 0)}</div>
+                    </div>
+                    <div className="bg-red-50 dark:bg-red-900/20 rounded-lg p-3 text-center">
+                      <div className="text-xs text-red-500 dark:text-red-400 uppercase tracking-wide mb-1">IOF Total</div>
+                      <div className="text-lg font-bold text-red-700 dark:text-red-300">{fmtCur(totalIOF)}</div>
+                    </div>
+                    <div className="bg-violet-50 dark:bg-violet-900/20 rounded-lg p-3 text-center">
+                      <div className="text-xs text-violet-600 dark:text-violet-400 uppercase tracking-wide mb-1">Itens da Fatura</div>
+                      <div className="text-lg font-bold text-violet-700 dark:text-violet-300">{fmtCur(reconciliation.itemsTotal)}</div>
+                    </div>
+                  </div>
+
+                  {/* Contrapartida contábil */}
+                  <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-2">
+                    <label htmlFor="card-liability-account" className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                      Conta do passivo (cartão a pagar):
+                    </label>
+                    <input
+                      id="card-liability-account"
+                      type="text"
+                      value={cardLiabilityAccount}
+                      onChange={e => setCardLiabilityAccount(e.target.value)}
+                      onBlur={() => companyInfo && saveCardLiabilityAccount(companyInfo.cnpj, cardLiabilityAccount.trim())}
+                      placeholder="Ex.: 2.1.1.05"
+                      className="w-full sm:w-64 px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-violet-500"
+                    />
+                    <span className="text-xs text-slate-500 dark:text-slate-400">Lembrada para este CNPJ. Cada item é lançado contra esta conta na data de fechamento.</span>
+                  </div>
+                </div>
+
+                <div className="px-4 py-2 text-sm text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                  {cardTransactions.length} lançamento(s) na fatura.
                 </div>
 
-                <InvestmentTable transactions={filtered} />
+                <CardTable
+                  transactions={cardTransactions}
+                  onChange={handleCardChange}
+                  categoryOptions={categoryOptions}
+                  chartOfAccounts={chartOfAccounts}
+                />
               </div>
             );
           })()}
@@ -0,0 +1,14 @@
+import React from 'react';
+import { ChartAccount } from '../types';
+
+/**
+ * `<datalist>` with the analytic accounts of the company chart, for the
+ * autocomplete of account inputs (`list={id}`). Typing matches the code or the description.
+ */
+export const AccountDatalist: React.FC<{ id: string; accounts: ChartAccount[] }> = ({ id, accounts }) => (
+  <datalist id={id}>
+    {accounts.filter(a => a.isAnalytic).map(a => (
+      <option key={a.code} value={a.code} label={a.reducedCode ? `${a.description} (red. ${a.reducedCode})` : a.description} />
+    ))}
+  </datalist>
+);
@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from 'react';
+import { ChartAccount } from '../types';
+import {
+  ACCOUNTING_EXPORT_PROFILES, AccountingEntry, AccountingExportProfile, AccountingExportSettings, AccountingSystemId,
+  buildAccountingExport, formatAccountingDate, getAccountingProfile, loadAccountingExportSettings, saveAccountingExportSettings,
+} from '../utils/accountingExport';
+import { ExclamationTriangleIcon } from './icons/Icons';
+
+interface AccountingExportDialogProps {
+  companyCnpj: string;
+  initialProfileId: AccountingSystemId;
+  entries: AccountingEntry[];
+  chartOfAccounts: ChartAccount[];
+  onClose: () => void;
+  onExport: (lines: string[], profile: AccountingExportProfile) => void;
+}
+
+const inputClasses = "mt-1 block w-full rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm";
+const labelClasses = "block text-sm font-medium text-slate-700 dark:text-slate-300";
+
+const PREVIEW_LINES = 5;
+const LISTED_REJECTIONS = 10;
+
+/** Options and preview of an export in an accounting system's import layout. */
+export const AccountingExportDialog: React.FC<AccountingExportDialogProps> = ({ companyCnpj, initialProfileId, entries, chartOfAccounts, onClose, onExport }) => {
+  const [profileId, setProfileId] = useState(initialProfileId);
+  const profile = getAccountingProfile(profileId);
+  const [settings, setSettings] = useState<AccountingExportSettings>(() => loadAccountingExportSettings(companyCnpj, profile));
+
+  const result = useMemo(
+    () => buildAccountingExport(entries, profile, settings, chartOfAccounts),
+    [entries, profile, settings, chartOfAccounts]
+  );
+
+  const handleProfileChange = (id: AccountingSystemId) => {
+    setProfileId(id);
+    setSettings(loadAccountingExportSettings(companyCnpj, getAccountingProfile(id)));
+  };
+
+  const handleExport = () => {
+    saveAccountingExportSettings(companyCnpj, profileId, settings);
+    onExport(result.lines, profile);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/50 p-4" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-white dark:bg-slate-800 shadow-xl rounded-xl overflow-hidden animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="p-4 sm:p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">Exportar para sistema contábil</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Gera o arquivo num leiaute genérico de importação de lançamentos do sistema escolhido, não homologado pelo fornecedor. Confira a prévia com o leiaute da versão instalada no escritório antes de importar.
+          </p>
+        </div>
+
+        <div className="p-4 sm:p-6 overflow-y-auto space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="accountingProfile" className={labelClasses}>Sistema</label>
+              <select id="accountingProfile" value={profileId} onChange={e => handleProfileChange(e.target.value as AccountingSystemId)} className={inputClasses}>
+                {ACCOUNTING_EXPORT_PROFILES.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="accountingHistoryCode" className={labelClasses}>Código do histórico padrão</label>
+              <input
+                id="accountingHistoryCode"
+                type="text"
+                inputMode="numeric"
+                value={settings.historyCode}
+                onChange={e => setSettings({ historyCode: e.target.value.replace(/\D/g, '') })}
+                className={inputClasses}
+                placeholder="Sem código (só o complemento)"
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {profile.layout === 'fixed' ? 'Largura fixa' : `Delimitado por "${profile.delimiter}"`} · data {profile.dateFormat} · valor {profile.decimalSeparator ? `com "${profile.decimalSeparator}" decimal` : 'em centavos, sem separador'} · contas pelo {profile.useReducedCode ? 'código reduzido' : 'código de classificação'} · {profile.encoding === 'windows-1252' ? 'ANSI (Windows-1252)' : 'UTF-8'}
+          </p>
+
+          {(result.skippedCount > 0 || result.unmappedAccounts.length > 0 || result.rejected.length > 0) && (
+            <div className="space-y-1 rounded-lg bg-orange-50 dark:bg-orange-900/20 px-3 py-2 text-sm text-orange-800 dark:text-orange-200">
+              {result.skippedCount > 0 && (
+                <p className="flex items-center gap-1">
+                  <ExclamationTriangleIcon className="h-4 w-4 flex-shrink-0" />
+                  {result.skippedCount} lançamento(s) sem conta de débito, conta de crédito ou valor ficarão de fora.
+                </p>
+              )}
+              {result.unmappedAccounts.length > 0 && profile.layout === 'delimited' && (
+                <p className="flex items-start gap-1">
+                  <ExclamationTriangleIcon className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                  <span>
+                    {chartOfAccounts.length === 0
+                      ? 'A empresa não tem plano de contas importado; as contas sairão como digitadas.'
+                      : `Sem ${profile.useReducedCode ? 'código reduzido' : 'classificação'} no plano de contas (saem como digitadas): ${result.unmappedAccounts.slice(0, 10).join(', ')}${result.unmappedAccounts.length > 10 ? '...' : ''}`}
+                  </span>
+                </p>
+              )}
+              {result.rejected.length > 0 && (
+                <div className="flex items-start gap-1">
+                  <ExclamationTriangleIcon className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                  <div>
+                    <p>
+                      {chartOfAccounts.length === 0
+                        ? `A empresa não tem plano de contas importado e o leiaute de largura fixa exige ${profile.useReducedCode ? 'o código reduzido' : 'a classificação'} das contas; ${result.rejected.length} lançamento(s) ficarão de fora.`
+                        : `${result.rejected.length} lançamento(s) não cabem no leiaute de largura fixa e ficarão de fora:`}
+                    </p>
+                    {chartOfAccounts.length > 0 && (
+                      <ul className="mt-1 list-disc pl-4 text-xs">
+                        {result.rejected.slice(0, LISTED_REJECTIONS).map(({ entry, reason }, index) => (
+                          <li key={index}>{formatAccountingDate(entry.date, 'dd/MM/yyyy')} · {entry.history} — {reason}</li>
+                        ))}
+                        {result.rejected.length > LISTED_REJECTIONS && <li>...</li>}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div>
+            <p className={labelClasses}>Prévia ({result.lines.length} lançamento(s))</p>
+            <pre className="mt-1 max-h-48 overflow-auto rounded-md bg-slate-100 dark:bg-slate-900 p-2 text-xs font-mono text-slate-800 dark:text-slate-200 whitespace-pre">
+              {result.lines.slice(0, PREVIEW_LINES).join('\n') || 'Nenhum lançamento exportável.'}
+            </pre>
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={result.lines.length === 0}
+            className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Exportar {profile.extension.toUpperCase()}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
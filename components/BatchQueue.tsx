@@ -0,0 +1,128 @@
+import React from 'react';
+import { BatchQueueItem, BatchItemStatus } from '../types';
+import { ArrowPathIcon, CheckCircleIcon, DocumentChartBarIcon, XCircleIcon } from './icons/Icons';
+
+interface BatchQueueProps {
+  items: BatchQueueItem[];
+  onReview: (id: string) => void;
+  onReviewMerged: () => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onReset: () => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Na fila',
+  processing: 'Processando',
+  done: 'Concluído',
+  failed: 'Falhou',
+};
+
+const STATUS_CLASSES: Record<BatchItemStatus, string> = {
+  queued: 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300',
+  processing: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200',
+  done: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200',
+};
+
+const chunkSummary = (item: BatchQueueItem) => {
+  if (item.status !== 'processing' || !item.chunks || item.chunks.length <= 1) return null;
+  const finished = item.chunks.filter(c => c.status === 'done' || c.status === 'failed').length;
+  return `${finished}/${item.chunks.length} blocos`;
+};
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({ items, onReview, onReviewMerged, onRetry, onRemove, onReset }) => {
+  const doneItems = items.filter(i => i.status === 'done');
+  const pendingCount = items.filter(i => i.status === 'queued' || i.status === 'processing').length;
+  const failedCount = items.filter(i => i.status === 'failed').length;
+  const totalTransactions = doneItems.reduce((sum, i) => sum + (i.result?.transactions.length ?? 0), 0);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 shadow-xl rounded-xl overflow-hidden animate-fade-in">
+      <div className="p-4 sm:p-6 border-b border-slate-200 dark:border-slate-700 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">Fila de Processamento</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {doneItems.length} de {items.length} arquivo(s) concluído(s)
+            {pendingCount > 0 && ` · ${pendingCount} em andamento`}
+            {failedCount > 0 && ` · ${failedCount} com falha`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onReset}
+            className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600"
+          >
+            Novo Lote
+          </button>
+          <button
+            onClick={onReviewMerged}
+            disabled={doneItems.length < 2 || pendingCount > 0}
+            title={pendingCount > 0 ? 'Aguarde o término da fila' : undefined}
+            className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <DocumentChartBarIcon className="h-5 w-5 mr-2" />
+            Revisar Consolidado ({totalTransactions})
+          </button>
+        </div>
+      </div>
+
+      <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+        {items.map(item => (
+          <li key={item.id} className="p-4 sm:px-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                {item.status === 'done' && <CheckCircleIcon className="h-5 w-5 text-green-500 flex-shrink-0" />}
+                {item.status === 'failed' && <XCircleIcon className="h-5 w-5 text-red-500 flex-shrink-0" />}
+                {item.status === 'processing' && <ArrowPathIcon className="h-5 w-5 text-blue-500 animate-spin flex-shrink-0" />}
+                <span className="font-medium text-slate-800 dark:text-slate-100 truncate">{item.file.name}</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_CLASSES[item.status]}`}>
+                  {STATUS_LABELS[item.status]}
+                </span>
+              </div>
+              <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                {item.status === 'done' && item.result && (
+                  <>
+                    {item.result.transactions.length} transações
+                    {item.result.bankName && ` · ${item.result.bankName}`}
+                    {item.result.failedPageRanges && item.result.failedPageRanges.length > 0 && (
+                      <span className="text-yellow-700 dark:text-yellow-300"> · {item.result.failedPageRanges.length} bloco(s) de páginas não processado(s)</span>
+                    )}
+                  </>
+                )}
+                {item.status === 'processing' && chunkSummary(item)}
+                {item.status === 'failed' && <span className="text-red-600 dark:text-red-400">{item.error}</span>}
+              </p>
+            </div>
+            <div className="flex gap-2 flex-shrink-0">
+              {item.status === 'done' && (
+                <button
+                  onClick={() => onReview(item.id)}
+                  className="px-3 py-1.5 text-sm font-medium rounded-md text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 hover:bg-blue-100 dark:hover:bg-blue-900/50"
+                >
+                  Revisar
+                </button>
+              )}
+              {item.status === 'failed' && (
+                <button
+                  onClick={() => onRetry(item.id)}
+                  className="px-3 py-1.5 text-sm font-medium rounded-md text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600"
+                >
+                  Tentar novamente
+                </button>
+              )}
+              {item.status !== 'processing' && (
+                <button
+                  onClick={() => onRemove(item.id)}
+                  className="px-3 py-1.5 text-sm font-medium rounded-md text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+                >
+                  Remover
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React from 'react';
+import { CardTransaction, ChartAccount } from '../types';
+import { TaxonomyOption } from '../utils/categoryTaxonomy';
+import { cardItemTotal, formatInstallment } from '../utils/cardUtils';
+import { accountIssue, ACCOUNT_ISSUE_MESSAGES } from '../utils/chartOfAccounts';
+import { CategoryOptions } from './CategoryOptions';
+import { AccountDatalist } from './AccountDatalist';
+
+interface Props {
+    transactions: CardTransaction[];
+    onChange: (transaction: CardTransaction) => void;
+    categoryOptions: TaxonomyOption[];
+    chartOfAccounts?: ChartAccount[];
+}
+
+const ACCOUNT_LIST_ID = 'card-table-accounts';
+
+const inputClasses = "w-full bg-transparent p-1.5 focus:outline-none focus:bg-blue-100 dark:focus:bg-slate-700 focus:ring-2 focus:ring-blue-500 rounded-md transition-colors duration-200";
+
+const fmt = (v: number) =>
+    v.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/** "3/10" → parcela 3 de 10; vazio remove o parcelamento. */
+const parseInstallment = (value: string): Pick<CardTransaction, 'installmentNumber' | 'installmentTotal'> => {
+    const match = value.match(/^\s*(\d{1,2})\s*\/\s*(\d{1,2})\s*$/);
+    if (!match) return { installmentNumber: null, installmentTotal: null };
+    return { installmentNumber: Number(match[1]), installmentTotal: Number(match[2]) };
+};
+
+const toNumber = (value: string) => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? 0 : parsed;
+};
+
+export const CardTable: React.FC<Props> = ({ transactions, onChange, categoryOptions, chartOfAccounts = [] }) => {
+    if (transactions.length === 0) {
+        return (
+            <div className="p-8 text-center text-slate-400 dark:text-slate-500">
+                Nenhum lançamento encontrado.
+            </div>
+        );
+    }
+
+    const update = (t: CardTransaction, changes: Partial<CardTransaction>) => onChange({ ...t, ...changes });
+
+    return (
+        <div className="overflow-x-auto">
+            {chartOfAccounts.length > 0 && <AccountDatalist id={ACCOUNT_LIST_ID} accounts={chartOfAccounts} />}
+            <table className="min-w-full divide-y divide-slate-200 dark:divide-slate-700 text-sm">
+                <thead className="bg-slate-50 dark:bg-slate-800">
+                    <tr>
+                        {['Data', 'Descrição', 'Final', 'Categoria', 'Parcela', 'Valor (R$)', 'Moeda Orig.', 'IOF', 'Total', 'Conta Débito', 'Histórico Contábil', '⚠'].map(h => (
+                            <th key={h} className="px-2 py-3 text-left text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider whitespace-nowrap">
+                                {h}
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-slate-900 divide-y divide-slate-100 dark:divide-slate-800">
+                    {transactions.map(t => {
+                        const accountDebitIssue = accountIssue(chartOfAccounts, t.accountDebit);
+                        return (
+                            <tr
+                                key={t.id}
+                                className={`hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors ${t.isUnusual ? 'bg-yellow-50 dark:bg-yellow-900/20' : ''}`}
+                            >
+                                <td className="px-2 py-1 whitespace-nowrap">
+                                    <input type="date" value={t.date} onChange={e => update(t, { date: e.target.value })} className={`${inputClasses} font-mono`} />
+                                </td>
+                                <td className="px-2 py-1 min-w-[220px]">
+                                    <input type="text" value={t.description} onChange={e => update(t, { description: e.target.value })} className={inputClasses} />
+                                </td>
+                                <td className="px-2 py-1 w-20">
+                                    <input type="text" value={t.cardLastDigits} maxLength={4} onChange={e => update(t, { cardLastDigits: e.target.value.replace(/\D/g, '') })} className={`${inputClasses} font-mono`} />
+                                </td>
+                                <td className="px-2 py-1">
+                                    <select value={t.category} onChange={e => update(t, { category: e.target.value })} className={inputClasses}>
+                                        <CategoryOptions options={categoryOptions} current={t.category} />
+                                    </select>
+                                </td>
+                                <td className="px-2 py-1 w-20">
+                                    <input
+                                        type="text"
+                                        defaultValue={formatInstallment(t)}
+                                        placeholder="—"
+                                        onBlur={e => update(t, parseInstallment(e.target.value))}
+                                        className={`${inputClasses} font-mono text-center`}
+                                    />
+                                </td>
+                                <td className="px-2 py-1 w-32">
+                                    <input type="number" step="0.01" value={t.amount} onChange={e => update(t, { amount: toNumber(e.target.value) })} className={`${inputClasses} font-mono text-right ${t.amount < 0 ? 'text-green-700 dark:text-green-400' : ''}`} />
+                                </td>
+                                <td className="px-2 py-1 whitespace-nowrap text-right font-mono text-xs text-slate-500 dark:text-slate-400">
+                                    {t.originalAmount !== null && t.originalCurrency ? (
+                                        <span title={t.exchangeRate ? `Cotação: ${t.exchangeRate.toLocaleString('pt-BR', { maximumFractionDigits: 4 })}` : undefined}>
+                                            {t.originalCurrency} {fmt(t.originalAmount)}
+                                        </span>
+                                    ) : '—'}
+                                </td>
+                                <td className="px-2 py-1 w-24">
+                                    <input type="number" step="0.01" min="0" value={t.iof} onChange={e => update(t, { iof: Math.abs(toNumber(e.target.value)) })} className={`${inputClasses} font-mono text-right`} />
+                                </td>
+                                <td className="px-2 py-1 whitespace-nowrap text-right font-mono font-semibold text-slate-800 dark:text-slate-200">
+                                    {fmt(cardItemTotal(t))}
+                                </td>
+                                <td className="px-2 py-1 min-w-[120px]">
+                                    <input
+                                        type="text"
+                                        value={t.accountDebit}
+                                        placeholder={t.category}
+                                        onChange={e => update(t, { accountDebit: e.target.value })}
+                                        list={chartOfAccounts.length > 0 ? ACCOUNT_LIST_ID : undefined}
+                                        title={accountDebitIssue ? ACCOUNT_ISSUE_MESSAGES[accountDebitIssue] : undefined}
+                                        className={`${inputClasses} ${accountDebitIssue ? 'ring-2 ring-red-500' : ''}`}
+                                    />
+                                </td>
+                                <td className="px-2 py-1 min-w-[180px]">
+                                    <input type="text" value={t.accountingHistory} onChange={e => update(t, { accountingHistory: e.target.value })} className={inputClasses} />
+                                </td>
+                                <td className="px-2 py-1 whitespace-nowrap text-center">
+                                    {t.isUnusual ? (
+                                        <span title={t.unusualReason} className="cursor-help text-yellow-500">⚠</span>
+                                    ) : null}
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+};
@@ -0,0 +1,204 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { TaxonomyCategory } from '../types';
+import {
+  UNCATEGORIZED, createDefaultTaxonomy, loadTaxonomy, parseTaxonomyFile, removeCategoryTree, saveTaxonomy,
+  taxonomyOptions, taxonomyToCsv, taxonomyToJson,
+} from '../utils/categoryTaxonomy';
+import { accountIssue, ACCOUNT_ISSUE_MESSAGES, loadChartOfAccounts } from '../utils/chartOfAccounts';
+import { downloadBlob } from '../utils/fileUtils';
+import { formatCNPJForDisplay } from '../utils/cnpjUtils';
+import { AccountDatalist } from './AccountDatalist';
+import { ArrowDownTrayIcon, PlusIcon, XCircleIcon } from './icons/Icons';
+
+interface CategoryManagerProps {
+  companyCnpj: string;
+  companyName?: string;
+  onClose: () => void;
+  onSave: (categories: TaxonomyCategory[]) => void;
+}
+
+const cellInputClasses = "block w-full rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+const secondaryButtonClasses = "inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded-md border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700";
+
+/** Empty names and repeated names under the same parent make the paths ambiguous. */
+const validateTaxonomy = (categories: TaxonomyCategory[]): string | null => {
+  if (categories.some(c => !c.name.trim())) return 'Há categorias sem nome.';
+  const seen = new Set<string>();
+  for (const c of categories) {
+    const key = `${c.parentId ?? ''}/${c.name.trim().toLowerCase()}`;
+    if (seen.has(key)) return `A categoria "${c.name.trim()}" aparece duas vezes no mesmo nível.`;
+    seen.add(key);
+  }
+  return null;
+};
+
+/**
+ * Edits the company's category tree and the default accounts of each category.
+ * Nothing is stored until "Salvar".
+ */
+export const CategoryManager: React.FC<CategoryManagerProps> = ({ companyCnpj, companyName, onClose, onSave }) => {
+  const [categories, setCategories] = useState<TaxonomyCategory[]>(() => loadTaxonomy(companyCnpj));
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const chartOfAccounts = useMemo(() => loadChartOfAccounts(companyCnpj), [companyCnpj]);
+  const accountListId = chartOfAccounts.length > 0 ? 'category-accounts' : undefined;
+  const accountIssueMessage = (value: string) => {
+    const issue = accountIssue(chartOfAccounts, value);
+    return issue ? ACCOUNT_ISSUE_MESSAGES[issue] : undefined;
+  };
+
+  const options = useMemo(() => taxonomyOptions(categories), [categories]);
+  const validationError = validateTaxonomy(categories);
+
+  const update = (id: string, changes: Partial<TaxonomyCategory>) =>
+    setCategories(prev => prev.map(c => c.id === id ? { ...c, ...changes } : c));
+
+  const addCategory = (parentId: string | null) =>
+    setCategories(prev => [...prev, { id: crypto.randomUUID(), name: 'Nova categoria', parentId, accountDebit: '', accountCredit: '' }]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setCategories(parseTaxonomyFile(await file.text(), file.name));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Não foi possível importar o arquivo.');
+    }
+  };
+
+  const fileBaseName = `plano_categorias_${companyCnpj.replace(/\D/g, '')}`;
+
+  const handleSave = () => {
+    const trimmed = categories.map(c => ({ ...c, name: c.name.trim(), accountDebit: c.accountDebit.trim(), accountCredit: c.accountCredit.trim() }));
+    saveTaxonomy(companyCnpj, trimmed);
+    onSave(loadTaxonomy(companyCnpj));
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/50 p-4" onClick={onClose}>
+      <div className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-white dark:bg-slate-800 shadow-xl rounded-xl overflow-hidden animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="p-4 sm:p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">Plano de Categorias</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {companyName ? `${companyName} · ` : ''}CNPJ {formatCNPJForDisplay(companyCnpj)}. Usado pela IA, pelos filtros e pelo painel desta empresa. Contas em branco herdam as da categoria-pai.
+          </p>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <button type="button" onClick={() => fileInputRef.current?.click()} className={secondaryButtonClasses}>
+              Importar (JSON ou CSV)
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,.csv,.txt" className="hidden" onChange={handleImport} />
+            <button type="button" onClick={() => downloadBlob(new Blob([taxonomyToJson(categories)], { type: 'application/json' }), `${fileBaseName}.json`)} className={secondaryButtonClasses}>
+              <ArrowDownTrayIcon className="h-4 w-4" />
+              Exportar JSON
+            </button>
+            <button type="button" onClick={() => downloadBlob(new Blob([`\uFEFF${taxonomyToCsv(categories)}`], { type: 'text/csv;charset=utf-8;' }), `${fileBaseName}.csv`)} className={secondaryButtonClasses}>
+              <ArrowDownTrayIcon className="h-4 w-4" />
+              Exportar CSV
+            </button>
+            <button type="button" onClick={() => setCategories(createDefaultTaxonomy())} className={secondaryButtonClasses}>
+              Restaurar padrão
+            </button>
+          </div>
+          {importError && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{importError}</p>}
+        </div>
+
+        <div className="p-4 sm:p-6 overflow-y-auto">
+          {accountListId && <AccountDatalist id={accountListId} accounts={chartOfAccounts} />}
+          <table className="min-w-full text-sm">
+            <thead className="text-xs uppercase text-slate-500 dark:text-slate-400">
+              <tr>
+                <th className="px-2 py-2 text-left">Categoria</th>
+                <th className="px-2 py-2 text-left w-40">Conta débito</th>
+                <th className="px-2 py-2 text-left w-40">Conta crédito</th>
+                <th className="px-2 py-2"><span className="sr-only">Ações</span></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {options.map(option => {
+                const category = categories.find(c => c.id === option.id)!;
+                const isFixed = category.parentId === null && category.name === UNCATEGORIZED;
+                return (
+                  <tr key={option.id}>
+                    <td className="px-2 py-1">
+                      <div style={{ paddingLeft: `${option.depth * 1.25}rem` }}>
+                        <input
+                          type="text"
+                          value={category.name}
+                          disabled={isFixed}
+                          onChange={e => update(category.id, { name: e.target.value.replace(/>/g, '') })}
+                          className={`${cellInputClasses} ${option.depth > 0 ? '' : 'font-medium'} disabled:opacity-60`}
+                          aria-label="Nome da categoria"
+                        />
+                      </div>
+                    </td>
+                    <td className="px-2 py-1">
+                      <input
+                        type="text"
+                        value={category.accountDebit}
+                        onChange={e => update(category.id, { accountDebit: e.target.value })}
+                        className={`${cellInputClasses} ${accountIssueMessage(category.accountDebit) ? 'ring-2 ring-red-500' : ''}`}
+                        placeholder={option.depth > 0 ? 'Herdar' : '—'}
+                        aria-label="Conta débito padrão"
+                        list={accountListId}
+                        title={accountIssueMessage(category.accountDebit)}
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      <input
+                        type="text"
+                        value={category.accountCredit}
+                        onChange={e => update(category.id, { accountCredit: e.target.value })}
+                        className={`${cellInputClasses} ${accountIssueMessage(category.accountCredit) ? 'ring-2 ring-red-500' : ''}`}
+                        placeholder={option.depth > 0 ? 'Herdar' : '—'}
+                        aria-label="Conta crédito padrão"
+                        list={accountListId}
+                        title={accountIssueMessage(category.accountCredit)}
+                      />
+                    </td>
+                    <td className="px-2 py-1 whitespace-nowrap text-right">
+                      {!isFixed && (
+                        <>
+                          <button type="button" onClick={() => addCategory(category.id)} className="p-1 rounded text-blue-600 hover:bg-blue-50 dark:text-blue-400 dark:hover:bg-slate-700" title="Adicionar subcategoria">
+                            <PlusIcon className="h-4 w-4" />
+                          </button>
+                          <button type="button" onClick={() => setCategories(prev => removeCategoryTree(prev, category.id))} className="p-1 rounded text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-slate-700" title="Excluir (com as subcategorias)">
+                            <XCircleIcon className="h-4 w-4" />
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <button type="button" onClick={() => addCategory(null)} className="mt-3 inline-flex items-center gap-1 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline">
+            <PlusIcon className="h-4 w-4" />
+            Nova categoria
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 border-t border-slate-200 dark:border-slate-700 flex items-center justify-end gap-2">
+          {validationError && <p className="mr-auto text-sm text-red-600 dark:text-red-400">{validationError}</p>}
+          <button
+            type="button"
+            onClick={onClose}
+            className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!!validationError}
+            className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Salvar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,13 @@
+import React from 'react';
+import { TaxonomyOption, indentedCategoryLabel } from '../utils/categoryTaxonomy';
+
+/**
+ * `<option>`s of the company taxonomy, indented by level. A `current` value the
+ * taxonomy no longer has (renamed or removed category) is kept as an extra option.
+ */
+export const CategoryOptions: React.FC<{ options: TaxonomyOption[]; current?: string }> = ({ options, current }) => (
+  <>
+    {current && !options.some(o => o.path === current) && <option value={current}>{current}</option>}
+    {options.map(o => <option key={o.id} value={o.path} title={o.path}>{indentedCategoryLabel(o)}</option>)}
+  </>
+);
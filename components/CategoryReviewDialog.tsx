@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import { CategorySuggestion, Transaction } from '../types';
+import { ExclamationTriangleIcon } from './icons/Icons';
+
+interface CategoryReviewDialogProps {
+  suggestions: CategorySuggestion[];
+  /** Linhas do extrato, para mostrar data, descrição e valor de cada proposta. */
+  transactions: Transaction[];
+  /** Linhas de lotes que a IA não conseguiu responder. */
+  failedCount: number;
+  onApply: (accepted: CategorySuggestion[]) => void;
+  onClose: () => void;
+}
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+/** Proposals of the bulk re-categorization; nothing is changed until "Aplicar". */
+export const CategoryReviewDialog: React.FC<CategoryReviewDialogProps> = ({ suggestions, transactions, failedCount, onApply, onClose }) => {
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(() => new Set(suggestions.map(s => s.transactionId)));
+  const transactionsById = useMemo(() => new Map(transactions.map(t => [t.id, t])), [transactions]);
+
+  const toggle = (id: string) => {
+    setAcceptedIds(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const accepted = suggestions.filter(s => acceptedIds.has(s.transactionId));
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/50 p-4" onClick={onClose}>
+      <div className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-white dark:bg-slate-800 shadow-xl rounded-xl overflow-hidden animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="p-4 sm:p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">Revisar recategorização</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {suggestions.length > 0
+              ? `A IA propôs mudar a categoria de ${suggestions.length} transação(ões). Desmarque as que não devem ser alteradas.`
+              : 'A IA manteve a categoria atual de todas as transações.'}
+          </p>
+          {failedCount > 0 && (
+            <p className="mt-2 flex items-center gap-1 text-sm text-orange-700 dark:text-orange-300">
+              <ExclamationTriangleIcon className="h-4 w-4 flex-shrink-0" />
+              {failedCount} linha(s) ficaram sem resposta da IA e não foram avaliadas.
+            </p>
+          )}
+        </div>
+
+        {suggestions.length > 0 && (
+          <div className="overflow-auto flex-1">
+            <table className="min-w-full text-sm">
+              <thead className="sticky top-0 bg-slate-50 dark:bg-slate-700 text-xs uppercase text-slate-500 dark:text-slate-300">
+                <tr>
+                  <th className="px-3 py-2 w-8">
+                    <input
+                      type="checkbox"
+                      aria-label="Aceitar todas"
+                      checked={accepted.length === suggestions.length}
+                      onChange={e => setAcceptedIds(e.target.checked ? new Set(suggestions.map(s => s.transactionId)) : new Set())}
+                    />
+                  </th>
+                  <th className="px-3 py-2 text-left">Transação</th>
+                  <th className="px-3 py-2 text-left">Categoria atual</th>
+                  <th className="px-3 py-2 text-left">Proposta</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                {suggestions.map(s => {
+                  const t = transactionsById.get(s.transactionId);
+                  const isAccepted = acceptedIds.has(s.transactionId);
+                  return (
+                    <tr
+                      key={s.transactionId}
+                      onClick={() => toggle(s.transactionId)}
+                      className={`cursor-pointer ${isAccepted ? '' : 'opacity-50'} hover:bg-slate-50 dark:hover:bg-slate-700/50`}
+                    >
+                      <td className="px-3 py-2 align-top">
+                        <input type="checkbox" checked={isAccepted} onChange={() => toggle(s.transactionId)} onClick={e => e.stopPropagation()} />
+                      </td>
+                      <td className="px-3 py-2 align-top">
+                        <div className="font-medium text-slate-800 dark:text-slate-100">{t?.description ?? '—'}</div>
+                        {t && (
+                          <div className="text-xs text-slate-500 dark:text-slate-400">
+                            {formatDate(t.date)} · {t.debit ? `Débito ${t.debit}` : `Crédito ${t.credit}`}
+                          </div>
+                        )}
+                      </td>
+                      <td className={`px-3 py-2 align-top text-slate-500 dark:text-slate-400 ${isAccepted ? 'line-through' : ''}`}>{s.currentCategory}</td>
+                      <td className="px-3 py-2 align-top">
+                        <div className="font-medium text-blue-700 dark:text-blue-300">{s.suggestedCategory}</div>
+                        {s.justification && <div className="text-xs text-slate-500 dark:text-slate-400">{s.justification}</div>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="p-4 sm:p-6 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600"
+          >
+            {suggestions.length > 0 ? 'Rejeitar todas' : 'Fechar'}
+          </button>
+          {suggestions.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onApply(accepted)}
+              disabled={accepted.length === 0}
+              className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Aplicar {accepted.length} alteração(ões)
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ChartAccount } from '../types';
+import { loadChartOfAccounts, parseChartOfAccounts, saveChartOfAccounts } from '../utils/chartOfAccounts';
+import { readSpreadsheet } from '../utils/spreadsheetImport';
+import { formatCNPJForDisplay } from '../utils/cnpjUtils';
+
+interface ChartOfAccountsManagerProps {
+  companyCnpj: string;
+  companyName?: string;
+  onClose: () => void;
+  onSave: (accounts: ChartAccount[]) => void;
+}
+
+// Planos grandes: a lista mostra só as primeiras contas do filtro
+const MAX_VISIBLE_ACCOUNTS = 300;
+
+const secondaryButtonClasses = "inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded-md border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700";
+
+/**
+ * Imports the company's chart of accounts (CSV/XLSX) and shows it. Only
+ * analytic accounts are offered in the account fields. Nothing is stored until "Salvar".
+ */
+export const ChartOfAccountsManager: React.FC<ChartOfAccountsManagerProps> = ({ companyCnpj, companyName, onClose, onSave }) => {
+  const [accounts, setAccounts] = useState<ChartAccount[]>(() => loadChartOfAccounts(companyCnpj));
+  const [search, setSearch] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return term
+      ? accounts.filter(a => a.code.includes(term) || a.reducedCode.includes(term) || a.description.toLowerCase().includes(term))
+      : accounts;
+  }, [accounts, search]);
+  const analyticCount = useMemo(() => accounts.filter(a => a.isAnalytic).length, [accounts]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    try {
+      setAccounts(parseChartOfAccounts(await readSpreadsheet(file)));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Não foi possível importar o plano de contas.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const toggleAnalytic = (code: string) =>
+    setAccounts(prev => prev.map(a => a.code === code ? { ...a, isAnalytic: !a.isAnalytic } : a));
+
+  const handleSave = () => {
+    saveChartOfAccounts(companyCnpj, accounts);
+    onSave(accounts);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/50 p-4" onClick={onClose}>
+      <div className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-white dark:bg-slate-800 shadow-xl rounded-xl overflow-hidden animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="p-4 sm:p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">Plano de Contas</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {companyName ? `${companyName} · ` : ''}CNPJ {formatCNPJForDisplay(companyCnpj)}. Importe o plano exportado do sistema contábil (CSV ou XLSX com código/classificação, código reduzido, descrição, natureza e tipo analítica/sintética). A IA, as regras e as categorias passam a usar as contas analíticas dele.
+          </p>
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isImporting} className={`${secondaryButtonClasses} disabled:opacity-50`}>
+              {isImporting ? 'Importando...' : 'Importar (CSV ou XLSX)'}
+            </button>
+            <input ref={fileInputRef} type="file" accept=".csv,.xlsx,.xls,.txt" className="hidden" onChange={handleImport} />
+            {accounts.length > 0 && (
+              <>
+                <input
+                  type="search"
+                  value={search}
+                  onChange={e => setSearch(e.target.value)}
+                  placeholder="Buscar conta..."
+                  className="rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <span className="text-xs text-slate-500 dark:text-slate-400">{accounts.length} conta(s), {analyticCount} analítica(s)</span>
+              </>
+            )}
+          </div>
+          {importError && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{importError}</p>}
+        </div>
+
+        <div className="p-4 sm:p-6 overflow-y-auto">
+          {accounts.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">Nenhum plano de contas importado. Sem ele, as contas de débito e crédito ficam em texto livre.</p>
+          ) : (
+            <>
+              <table className="min-w-full text-sm">
+                <thead className="text-xs uppercase text-slate-500 dark:text-slate-400">
+                  <tr>
+                    <th className="px-2 py-2 text-left">Classificação</th>
+                    <th className="px-2 py-2 text-left">Reduzido</th>
+                    <th className="px-2 py-2 text-left">Descrição</th>
+                    <th className="px-2 py-2 text-left">Natureza</th>
+                    <th className="px-2 py-2 text-left">Tipo</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                  {filtered.slice(0, MAX_VISIBLE_ACCOUNTS).map(account => (
+                    <tr key={account.code} className={account.isAnalytic ? '' : 'font-semibold text-slate-800 dark:text-slate-100'}>
+                      <td className="px-2 py-1 font-mono">{account.code}</td>
+                      <td className="px-2 py-1 font-mono">{account.reducedCode || '—'}</td>
+                      <td className="px-2 py-1">{account.description}</td>
+                      <td className="px-2 py-1 capitalize">{account.nature || '—'}</td>
+                      <td className="px-2 py-1">
+                        <button
+                          type="button"
+                          onClick={() => toggleAnalytic(account.code)}
+                          className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                          title="Alternar entre analítica e sintética"
+                        >
+                          {account.isAnalytic ? 'Analítica' : 'Sintética'}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {filtered.length > MAX_VISIBLE_ACCOUNTS && (
+                <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">Mostrando {MAX_VISIBLE_ACCOUNTS} de {filtered.length} contas. Use a busca para encontrar as demais.</p>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-4 sm:p-6 border-t border-slate-200 dark:border-slate-700 flex items-center justify-end gap-2">
+          {accounts.length > 0 && (
+            <button type="button" onClick={() => setAccounts([])} className="mr-auto text-sm font-medium text-red-600 dark:text-red-400 hover:underline">
+              Remover plano
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
+          >
+            Salvar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import React, { useMemo } from 'react';
 import { Transaction } from '../types';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
 import { parseCurrency } from '../utils/currencyUtils';
+import { topLevelCategory } from '../utils/categoryTaxonomy';
 
 interface DashboardProps {
   transactions: Transaction[];
@@ -20,7 +21,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ transactions }) => {
     transactions.forEach(t => {
         const debit = parseCurrency(t.debit);
         if (debit > 0) {
-            const category = t.category || 'Outros';
+            // Subcategorias somam na categoria principal
+            const category = t.category ? topLevelCategory(t.category) : 'Outros';
             categories[category] = (categories[category] || 0) + debit;
         }
     });
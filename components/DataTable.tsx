@@ -1,9 +1,14 @@
 
 import React, { useState, useRef, useMemo, useEffect } from 'react';
-import { Transaction, DateValidationError, CNPJValidationError, CurrencyValidationError } from '../types';
-import { TRANSACTION_CATEGORIES } from '../constants';
-import { formatCNPJForDisplay } from '../utils/cnpjUtils';
-import { ArrowPathIcon, ExclamationTriangleIcon, SparklesIcon } from './icons/Icons';
+import { Transaction, DateValidationError, CNPJValidationError, CurrencyValidationError, ChartAccount } from '../types';
+import { BalanceMarker } from '../utils/balanceVerification';
+import { TaxonomyOption } from '../utils/categoryTaxonomy';
+import { accountIssue, ACCOUNT_ISSUE_MESSAGES } from '../utils/chartOfAccounts';
+import { formatTaxIdForDisplay } from '../utils/cnpjUtils';
+import { isLowConfidence, describeRowSource } from '../utils/extractionConfidence';
+import { CategoryOptions } from './CategoryOptions';
+import { AccountDatalist } from './AccountDatalist';
+import { ArrowPathIcon, ExclamationTriangleIcon, SparklesIcon, CheckCircleIcon, XCircleIcon } from './icons/Icons';
 
 interface DataTableProps {
   transactions: Transaction[];
@@ -13,8 +18,21 @@ interface DataTableProps {
   currencyErrors: Record<string, CurrencyValidationError>;
   onSuggestCategory: (transactionId: string) => void;
   categorizingId: string | null;
+  /** Plano de categorias da empresa. */
+  categoryOptions: TaxonomyOption[];
+  /** Linha ligada ao visualizador de PDF (destaque do trecho impresso). */
+  selectedId?: string | null;
+  onRowSelect?: (transaction: Transaction) => void;
+  /** Conferência com os saldos impressos no extrato, por linha. */
+  balanceMarkers?: Record<string, BalanceMarker>;
+  /** "Criar regra a partir desta linha" (regras de categorização da empresa). */
+  onCreateRule?: (transaction: Transaction) => void;
+  /** Plano de contas da empresa: autocompleta as contas e marca as desconhecidas ou sintéticas. */
+  chartOfAccounts?: ChartAccount[];
 }
 
+const ACCOUNT_LIST_ID = 'data-table-accounts';
+
 const TableInput: React.FC<{
   value: string | number;
   onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
@@ -22,7 +40,9 @@ const TableInput: React.FC<{
   className?: string;
   hasError?: boolean;
   maxLength?: number;
-}> = ({ value, onChange, type = 'text', className, hasError = false, maxLength }) => {
+  list?: string;
+  title?: string;
+}> = ({ value, onChange, type = 'text', className, hasError = false, maxLength, list, title }) => {
   const errorClasses = hasError ? 'ring-2 ring-red-500 focus:ring-red-500' : 'focus:ring-2 focus:ring-blue-500';
   return (
     <input
@@ -31,11 +51,13 @@ const TableInput: React.FC<{
       onChange={onChange}
       className={`w-full bg-transparent p-2 focus:outline-none focus:bg-blue-100 dark:focus:bg-slate-700 rounded-md transition-colors duration-200 ${errorClasses} ${className}`}
       maxLength={maxLength}
+      list={list}
+      title={title}
     />
   );
 };
 
-export const DataTable: React.FC<DataTableProps> = ({ transactions, onDataChange, dateErrors, cnpjErrors, currencyErrors, onSuggestCategory, categorizingId }) => {
+export const DataTable: React.FC<DataTableProps> = ({ transactions, onDataChange, dateErrors, cnpjErrors, currencyErrors, onSuggestCategory, categorizingId, categoryOptions, selectedId, onRowSelect, balanceMarkers = {}, onCreateRule, chartOfAccounts = [] }) => {
 
   const handleFieldChange = (id: string, field: keyof Omit<Transaction, 'id' | 'balance'>, value: string | number) => {
     const transactionToUpdate = transactions.find(t => t.id === id);
@@ -74,6 +96,18 @@ export const DataTable: React.FC<DataTableProps> = ({ transactions, onDataChange
     }
   }, [transactions.length]);
 
+  // Linha escolhida fora da tabela (ex.: "Ir para a linha" da conferência de saldos)
+  useEffect(() => {
+    const container = containerRef.current;
+    const index = transactions.findIndex(t => t.id === selectedId);
+    if (!container || index < 0) return;
+    const rowTop = index * ROW_HEIGHT;
+    if (rowTop < container.scrollTop || rowTop + ROW_HEIGHT * 2 > container.scrollTop + VISIBLE_HEIGHT) {
+      container.scrollTop = Math.max(0, rowTop - VISIBLE_HEIGHT / 3);
+    }
+    // Só reage à troca de seleção, não a cada edição das linhas
+  }, [selectedId]);
+
   const { virtualItems, paddingTop, paddingBottom } = useMemo(() => {
     const startIndex = Math.floor(scrollTop / ROW_HEIGHT);
     const effectiveStartIndex = Math.max(0, startIndex - BUFFER);
@@ -99,13 +133,14 @@ export const DataTable: React.FC<DataTableProps> = ({ transactions, onDataChange
       ref={containerRef}
       onScroll={handleScroll}
     >
+      {chartOfAccounts.length > 0 && <AccountDatalist id={ACCOUNT_LIST_ID} accounts={chartOfAccounts} />}
       <table className="min-w-[1400px] text-sm text-left text-slate-500 dark:text-slate-400 border-collapse table-fixed">
         <thead className="text-xs text-slate-700 uppercase bg-slate-50 dark:bg-slate-700 dark:text-slate-300 sticky top-0 z-20 shadow-sm">
           <tr>
             <th scope="col" className="px-4 py-3 w-[120px] bg-slate-50 dark:bg-slate-700">Data</th>
             <th scope="col" className="px-4 py-3 w-[250px] bg-slate-50 dark:bg-slate-700">Descrição</th>
             <th scope="col" className="px-4 py-3 w-[150px] bg-slate-50 dark:bg-slate-700">Empresa</th>
-            <th scope="col" className="px-4 py-3 w-[140px] bg-slate-50 dark:bg-slate-700">CNPJ</th>
+            <th scope="col" className="px-4 py-3 w-[140px] bg-slate-50 dark:bg-slate-700">CNPJ/CPF</th>
             <th scope="col" className="px-4 py-3 w-[150px] bg-slate-50 dark:bg-slate-700">Categoria</th>
             <th scope="col" className="px-4 py-3 w-[150px] bg-slate-50 dark:bg-slate-700">C. Débito</th>
             <th scope="col" className="px-4 py-3 w-[150px] bg-slate-50 dark:bg-slate-700">C. Crédito</th>
@@ -122,16 +157,24 @@ export const DataTable: React.FC<DataTableProps> = ({ transactions, onDataChange
           {virtualItems.map((transaction) => {
             const dateError = dateErrors[transaction.id];
             const cnpjError = cnpjErrors[transaction.id];
+            const accountDebitIssue = accountIssue(chartOfAccounts, transaction.accountDebit);
+            const accountCreditIssue = accountIssue(chartOfAccounts, transaction.accountCredit);
             const debitError = currencyErrors[`${transaction.id}-debit`];
             const creditError = currencyErrors[`${transaction.id}-credit`];
             const isUnusual = transaction.isUnusual;
+            const lowConfidence = isLowConfidence(transaction);
+            const source = describeRowSource(transaction);
+            const balanceMarker = balanceMarkers[transaction.id];
 
             return (
               <tr
                 key={transaction.id}
                 style={{ height: ROW_HEIGHT }}
+                onClick={() => onRowSelect?.(transaction)}
                 className={`border-b dark:border-slate-700 hover:bg-slate-50/50 dark:hover:bg-slate-900/20 
-                  ${isUnusual ? 'bg-yellow-50 dark:bg-yellow-900/20' : 'bg-white dark:bg-slate-800'}`
+                  ${isUnusual ? 'bg-yellow-50 dark:bg-yellow-900/20' : lowConfidence ? 'bg-orange-50 dark:bg-orange-900/20' : 'bg-white dark:bg-slate-800'}
+                  ${lowConfidence ? 'border-l-4 border-l-orange-400' : ''}
+                  ${transaction.id === selectedId ? 'outline outline-2 -outline-offset-2 outline-blue-500' : ''}`
                 }>
                 <td className="px-2 py-1 relative align-top">
                   <TableInput
@@ -173,6 +216,19 @@ export const DataTable: React.FC<DataTableProps> = ({ transactions, onDataChange
                         </div>
                       </div>
                     )}
+                    {(source || transaction.sourceLine) && (
+                      <div className="relative group flex-shrink-0">
+                        <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold cursor-help ${lowConfidence ? 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300' : 'bg-slate-100 text-slate-500 dark:bg-slate-700 dark:text-slate-400'}`}>
+                          {transaction.sourcePage ? `p.${transaction.sourcePage}` : 'orig.'}
+                        </span>
+                        <div className="absolute top-full mt-2 right-0 w-80 p-2 bg-slate-700 text-white text-xs rounded-md shadow-lg opacity-0 group-hover:opacity-100 pointer-events-none transition-opacity duration-300 z-30" role="tooltip">
+                          {source && <span className="font-bold block">{source}</span>}
+                          {transaction.sourceLine && (
+                            <pre className="mt-1 whitespace-pre-wrap break-words font-mono text-[11px] text-slate-100">{transaction.sourceLine}</pre>
+                          )}
+                        </div>
+                      </div>
+                    )}
                   </div>
                 </td>
                 <td className="px-2 py-1 align-top">
@@ -183,7 +239,7 @@ export const DataTable: React.FC<DataTableProps> = ({ transactions, onDataChange
                 </td>
                 <td className="px-2 py-1 relative align-top">
                   <TableInput
-                    value={formatCNPJForDisplay(transaction.cnpj)}
+                    value={formatTaxIdForDisplay(transaction.cnpj)}
                     onChange={(e) => handleFieldChange(transaction.id, 'cnpj', e.target.value)}
                     hasError={!!cnpjError}
                     maxLength={18}
@@ -202,7 +258,7 @@ export const DataTable: React.FC<DataTableProps> = ({ transactions, onDataChange
                       className="w-full bg-transparent p-2 focus:outline-none focus:bg-blue-100 dark:focus:bg-slate-700 rounded-md transition-colors duration-200 focus:ring-2 focus:ring-blue-500"
                       disabled={categorizingId === transaction.id}
                     >
-                      {TRANSACTION_CATEGORIES.map(cat => <option key={cat} value={cat}>{cat}</option>)}
+                      <CategoryOptions options={categoryOptions} current={transaction.category} />
                     </select>
                     <button
                       onClick={() => onSuggestCategory(transaction.id)}
@@ -218,18 +274,35 @@ export const DataTable: React.FC<DataTableProps> = ({ transactions, onDataChange
                       )}
                       Sugestão IA
                     </button>
+                    {onCreateRule && (
+                      <button
+                        onClick={() => onCreateRule(transaction)}
+                        className={`px-2 py-1 text-xs font-medium rounded-md whitespace-nowrap transition-colors ${transaction.ruleId
+                          ? 'text-emerald-700 bg-emerald-50 hover:bg-emerald-100 dark:text-emerald-300 dark:bg-emerald-900/30 dark:hover:bg-emerald-900/50'
+                          : 'text-slate-600 bg-slate-100 hover:bg-slate-200 dark:text-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600'}`}
+                        title={transaction.ruleId ? 'Categoria, contas e histórico definidos por uma regra. Clique para criar outra regra a partir desta linha.' : 'Criar regra a partir desta linha'}
+                      >
+                        Regra
+                      </button>
+                    )}
                   </div>
                 </td>
                 <td className="px-2 py-1 align-top">
                   <TableInput
                     value={transaction.accountDebit}
                     onChange={(e) => handleFieldChange(transaction.id, 'accountDebit', e.target.value)}
+                    list={chartOfAccounts.length > 0 ? ACCOUNT_LIST_ID : undefined}
+                    hasError={!!accountDebitIssue}
+                    title={accountDebitIssue ? ACCOUNT_ISSUE_MESSAGES[accountDebitIssue] : undefined}
                   />
                 </td>
                 <td className="px-2 py-1 align-top">
                   <TableInput
                     value={transaction.accountCredit}
                     onChange={(e) => handleFieldChange(transaction.id, 'accountCredit', e.target.value)}
+                    list={chartOfAccounts.length > 0 ? ACCOUNT_LIST_ID : undefined}
+                    hasError={!!accountCreditIssue}
+                    title={accountCreditIssue ? ACCOUNT_ISSUE_MESSAGES[accountCreditIssue] : undefined}
                   />
                 </td>
                 <td className="px-2 py-1 align-top">
@@ -267,7 +340,18 @@ export const DataTable: React.FC<DataTableProps> = ({ transactions, onDataChange
                   )}
                 </td>
                 <td className="px-6 py-2 text-right font-mono text-slate-700 dark:text-slate-300 align-middle">
-                  {formatCurrency(transaction.balance)}
+                  <div className="flex items-center justify-end gap-1">
+                    {balanceMarker && (
+                      <span title={balanceMarker.message} className="cursor-help flex-shrink-0">
+                        {balanceMarker.status === 'ok' && <CheckCircleIcon className="h-4 w-4 text-green-500" />}
+                        {balanceMarker.status === 'drift' && <XCircleIcon className="h-4 w-4 text-red-500" />}
+                        {balanceMarker.status === 'suspect' && <ExclamationTriangleIcon className="h-4 w-4 text-orange-500" />}
+                      </span>
+                    )}
+                    <span className={balanceMarker?.status === 'drift' ? 'text-red-600 dark:text-red-400 font-semibold' : ''}>
+                      {formatCurrency(transaction.balance)}
+                    </span>
+                  </div>
                 </td>
               </tr>
             )
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { DocumentClassification, DocumentType } from '../types';
+import { DOCUMENT_TYPE_LABELS } from '../constants';
+import { ExclamationTriangleIcon } from './icons/Icons';
+
+interface DocumentTypeCheckProps {
+  fileName: string;
+  classification: DocumentClassification;
+  selectedType: DocumentType;
+  onConfirm: (type: DocumentType) => void;
+  onCancel: () => void;
+}
+
+// Tipos que podem ser extraídos de um PDF
+const PDF_DOCUMENT_TYPES: DocumentType[] = ['bank', 'investment', 'card', 'brokerage'];
+
+const SOURCE_LABELS: Record<DocumentClassification['source'], string> = {
+  extension: 'pela extensão do arquivo',
+  keywords: 'por palavras-chave do texto',
+  ai: 'pela IA',
+};
+
+export const DocumentTypeCheck: React.FC<DocumentTypeCheckProps> = ({ fileName, classification, selectedType, onConfirm, onCancel }) => {
+  const isUnsupported = classification.type === 'unsupported';
+  const detectedType = !isUnsupported && PDF_DOCUMENT_TYPES.includes(classification.type as DocumentType)
+    ? classification.type as DocumentType
+    : null;
+  const [type, setType] = useState<DocumentType>(detectedType ?? selectedType);
+  const confidence = Math.round(classification.confidence * 100);
+
+  return (
+    <div className="max-w-2xl mx-auto bg-white dark:bg-slate-800 shadow-xl rounded-xl overflow-hidden animate-fade-in">
+      <div className="p-4 sm:p-6 border-b border-slate-200 dark:border-slate-700">
+        <h2 className="text-xl font-bold text-slate-900 dark:text-white">Confirme o Tipo de Documento</h2>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Arquivo: <span className="font-medium text-blue-600 dark:text-blue-400">{fileName}</span>
+        </p>
+      </div>
+
+      <div className={`p-4 sm:p-6 flex items-start gap-3 border-b ${isUnsupported
+        ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+        : 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800'
+        }`}>
+        <ExclamationTriangleIcon className={`h-6 w-6 flex-shrink-0 ${isUnsupported ? 'text-red-500' : 'text-yellow-500'}`} />
+        <div className="text-sm">
+          {isUnsupported ? (
+            <p className="font-bold text-red-800 dark:text-red-200">
+              Este arquivo parece ser um(a) {classification.label}, que não é um tipo de documento suportado.
+            </p>
+          ) : (
+            <p className="font-bold text-yellow-800 dark:text-yellow-200">
+              O arquivo parece ser um {DOCUMENT_TYPE_LABELS[classification.type as DocumentType]}, mas o tipo selecionado é {DOCUMENT_TYPE_LABELS[selectedType]}.
+            </p>
+          )}
+          <p className="mt-1 text-slate-600 dark:text-slate-300">
+            Detectado {SOURCE_LABELS[classification.source]} com {confidence}% de confiança.
+            {classification.reason && <span className="block text-xs text-slate-500 dark:text-slate-400 mt-1">{classification.reason}</span>}
+          </p>
+        </div>
+      </div>
+
+      <div className="p-4 sm:p-6 space-y-2">
+        <p className="text-sm font-medium text-slate-700 dark:text-slate-300">Processar como:</p>
+        {PDF_DOCUMENT_TYPES.map(option => (
+          <label key={option} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200">
+            <input type="radio" name="documentTypeCheck" checked={type === option} onChange={() => setType(option)} />
+            {DOCUMENT_TYPE_LABELS[option]}
+            {option === detectedType && <span className="text-xs text-emerald-600 dark:text-emerald-400">(detectado)</span>}
+          </label>
+        ))}
+      </div>
+
+      <div className="p-4 sm:p-6 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600"
+        >
+          Cancelar
+        </button>
+        <button
+          onClick={() => onConfirm(type)}
+          className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
+        >
+          Processar como {DOCUMENT_TYPE_LABELS[type]}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+import React, { useMemo, useState } from 'react';
+import { InvestmentTransaction, Transaction } from '../types';
+import {
+  ExportTemplate, TemplateDataKind, TemplateDateFormat, TemplateTextContext, TEMPLATE_TEXT_PLACEHOLDERS,
+  buildTemplateTable, createEmptyTemplate, loadExportTemplates, saveExportTemplates, templateColumnOptions, templateTableToText,
+} from '../utils/exportTemplates';
+import { ChevronDownIcon, PlusIcon, XCircleIcon } from './icons/Icons';
+
+interface ExportTemplateManagerProps {
+  kind: TemplateDataKind;
+  /** Linhas atuais, para a prévia. */
+  sampleData: (Transaction | InvestmentTransaction)[];
+  context: TemplateTextContext;
+  onClose: () => void;
+  onSave: (templates: ExportTemplate[]) => void;
+}
+
+const inputClasses = "mt-1 block w-full rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm";
+const cellInputClasses = "block w-full rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+const labelClasses = "block text-sm font-medium text-slate-700 dark:text-slate-300";
+
+const DELIMITER_OPTIONS = [
+  { value: ';', label: 'Ponto e vírgula (;)' },
+  { value: ',', label: 'Vírgula (,)' },
+  { value: '\t', label: 'Tabulação' },
+  { value: '|', label: 'Barra vertical (|)' },
+];
+
+const DATE_FORMAT_OPTIONS: { value: TemplateDateFormat; label: string }[] = [
+  { value: 'dd/MM/yyyy', label: '31/12/2025' },
+  { value: 'yyyy-MM-dd', label: '2025-12-31' },
+  { value: 'ddMMyyyy', label: '31122025' },
+  { value: 'MM/dd/yyyy', label: '12/31/2025' },
+];
+
+const PREVIEW_ROWS = 3;
+
+/**
+ * Creates and edits the export templates of one kind of data (columns, order,
+ * names and formats), with a preview on the current rows. Nothing is stored until "Salvar".
+ */
+export const ExportTemplateManager: React.FC<ExportTemplateManagerProps> = ({ kind, sampleData, context, onClose, onSave }) => {
+  const [templates, setTemplates] = useState<ExportTemplate[]>(loadExportTemplates);
+  const [selectedId, setSelectedId] = useState<string | null>(() => templates.find(t => t.kind === kind)?.id ?? null);
+  const [columnToAdd, setColumnToAdd] = useState('');
+
+  const ofKind = templates.filter(t => t.kind === kind);
+  const selected = templates.find(t => t.id === selectedId && t.kind === kind) ?? null;
+  const columnOptions = templateColumnOptions(kind);
+
+  const preview = useMemo(() => {
+    if (!selected) return '';
+    return templateTableToText(buildTemplateTable(sampleData.slice(0, PREVIEW_ROWS), selected, context), selected.delimiter === '\t' ? ' → ' : selected.delimiter);
+  }, [selected, sampleData, context]);
+
+  const update = (changes: Partial<ExportTemplate>) =>
+    setTemplates(prev => prev.map(t => t.id === selectedId ? { ...t, ...changes } : t));
+
+  const updateColumns = (change: (columns: ExportTemplate['columns']) => ExportTemplate['columns']) => {
+    if (selected) update({ columns: change(selected.columns) });
+  };
+
+  const moveColumn = (index: number, offset: -1 | 1) => updateColumns(columns => {
+    const next = [...columns];
+    const [column] = next.splice(index, 1);
+    next.splice(index + offset, 0, column);
+    return next;
+  });
+
+  const addTemplate = (template: ExportTemplate) => {
+    setTemplates(prev => [...prev, template]);
+    setSelectedId(template.id);
+  };
+
+  const handleAddColumn = (key: string) => {
+    const option = columnOptions.find(c => c.key === key);
+    if (option) updateColumns(columns => [...columns, { key, header: option.label }]);
+    setColumnToAdd('');
+  };
+
+  const handleSave = () => {
+    const cleaned = templates.map(t => ({ ...t, name: t.name.trim() || 'Modelo sem nome' }));
+    saveExportTemplates(cleaned);
+    onSave(cleaned);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/50 p-4" onClick={onClose}>
+      <div className="w-full max-w-5xl max-h-[90vh] flex flex-col bg-white dark:bg-slate-800 shadow-xl rounded-xl overflow-hidden animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="p-4 sm:p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">Modelos de Exportação</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Modelos de {kind === 'bank' ? 'extrato bancário' : 'investimentos'}, disponíveis para todas as empresas no menu "Exportar" em CSV, TXT e XLSX.
+          </p>
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <select value={selected?.id ?? ''} onChange={e => setSelectedId(e.target.value || null)} className="rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-2 py-1 text-sm" aria-label="Modelo">
+              {ofKind.length === 0 && <option value="">Nenhum modelo</option>}
+              {ofKind.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </select>
+            <button type="button" onClick={() => addTemplate(createEmptyTemplate(kind))} className="inline-flex items-center gap-1 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline">
+              <PlusIcon className="h-4 w-4" />
+              Novo modelo
+            </button>
+            {selected && (
+              <>
+                <button type="button" onClick={() => addTemplate({ ...selected, id: crypto.randomUUID(), name: `${selected.name} (cópia)` })} className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline">
+                  Duplicar
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setTemplates(prev => prev.filter(t => t.id !== selected.id));
+                    setSelectedId(ofKind.find(t => t.id !== selected.id)?.id ?? null);
+                  }}
+                  className="text-sm font-medium text-red-600 dark:text-red-400 hover:underline"
+                >
+                  Excluir
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6 overflow-y-auto">
+          {!selected ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">Crie um modelo para escolher as colunas e os formatos do arquivo.</p>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-3">
+                <div>
+                  <label htmlFor="templateName" className={labelClasses}>Nome</label>
+                  <input id="templateName" type="text" value={selected.name} onChange={e => update({ name: e.target.value })} className={inputClasses} />
+                </div>
+                <div>
+                  <p className={labelClasses}>Colunas</p>
+                  <ul className="mt-1 space-y-1">
+                    {selected.columns.map((column, index) => (
+                      <li key={`${column.key}-${index}`} className="flex items-center gap-1">
+                        <span className="w-32 flex-shrink-0 truncate text-xs text-slate-500 dark:text-slate-400" title={columnOptions.find(c => c.key === column.key)?.label}>
+                          {columnOptions.find(c => c.key === column.key)?.label ?? column.key}
+                        </span>
+                        <input
+                          type="text"
+                          value={column.header}
+                          onChange={e => updateColumns(columns => columns.map((c, i) => i === index ? { ...c, header: e.target.value } : c))}
+                          className={cellInputClasses}
+                          aria-label="Título da coluna"
+                        />
+                        <button type="button" disabled={index === 0} onClick={() => moveColumn(index, -1)} className="p-1 rounded text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-30" title="Mover para a esquerda">
+                          <ChevronDownIcon className="h-4 w-4 rotate-180" />
+                        </button>
+                        <button type="button" disabled={index === selected.columns.length - 1} onClick={() => moveColumn(index, 1)} className="p-1 rounded text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-30" title="Mover para a direita">
+                          <ChevronDownIcon className="h-4 w-4" />
+                        </button>
+                        <button type="button" onClick={() => updateColumns(columns => columns.filter((_, i) => i !== index))} className="p-1 rounded text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-slate-700" title="Remover coluna">
+                          <XCircleIcon className="h-4 w-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                  <select value={columnToAdd} onChange={e => handleAddColumn(e.target.value)} className={`${inputClasses} mt-2`} aria-label="Adicionar coluna">
+                    <option value="">+ Adicionar coluna...</option>
+                    {columnOptions.map(c => <option key={c.key} value={c.key}>{c.label}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label htmlFor="templateDelimiter" className={labelClasses}>Separador (CSV/TXT)</label>
+                    <select id="templateDelimiter" value={selected.delimiter} onChange={e => update({ delimiter: e.target.value })} className={inputClasses}>
+                      {DELIMITER_OPTIONS.map(o => <option key={o.label} value={o.value}>{o.label}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="templateEncoding" className={labelClasses}>Codificação</label>
+                    <select id="templateEncoding" value={selected.encoding} onChange={e => update({ encoding: e.target.value as ExportTemplate['encoding'] })} className={inputClasses}>
+                      <option value="utf-8-bom">UTF-8 com BOM</option>
+                      <option value="iso-8859-1">ISO-8859-1 (Latin-1)</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="templateDateFormat" className={labelClasses}>Data</label>
+                    <select id="templateDateFormat" value={selected.dateFormat} onChange={e => update({ dateFormat: e.target.value as TemplateDateFormat })} className={inputClasses}>
+                      {DATE_FORMAT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="templateDecimal" className={labelClasses}>Números</label>
+                    <select
+                      id="templateDecimal"
+                      value={`${selected.decimalSeparator}${selected.thousandsSeparator ? 'g' : ''}`}
+                      onChange={e => update({ decimalSeparator: e.target.value[0] as ',' | '.', thousandsSeparator: e.target.value.endsWith('g') })}
+                      className={inputClasses}
+                    >
+                      <option value=",">1234,56</option>
+                      <option value=",g">1.234,56</option>
+                      <option value=".">1234.56</option>
+                      <option value=".g">1,234.56</option>
+                    </select>
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                  <input type="checkbox" checked={selected.includeColumnHeaders} onChange={e => update({ includeColumnHeaders: e.target.checked })} />
+                  Linha com os títulos das colunas
+                </label>
+                <div>
+                  <label htmlFor="templateHeaderLines" className={labelClasses}>Linhas de cabeçalho</label>
+                  <textarea id="templateHeaderLines" rows={2} value={selected.headerLines} onChange={e => update({ headerLines: e.target.value })} className={`${inputClasses} font-mono`} placeholder="EXTRATO {empresa} - CNPJ {cnpj}" />
+                </div>
+                <div>
+                  <label htmlFor="templateFooterLines" className={labelClasses}>Linhas de rodapé</label>
+                  <textarea id="templateFooterLines" rows={2} value={selected.footerLines} onChange={e => update({ footerLines: e.target.value })} className={`${inputClasses} font-mono`} placeholder="TOTAL DE LINHAS: {linhas}" />
+                  <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">Campos disponíveis: {TEMPLATE_TEXT_PLACEHOLDERS.join(' ')}</p>
+                </div>
+              </div>
+
+              <div className="lg:col-span-2">
+                <p className={labelClasses}>Prévia</p>
+                <pre className="mt-1 max-h-40 overflow-auto rounded-md bg-slate-100 dark:bg-slate-900 p-2 text-xs font-mono text-slate-800 dark:text-slate-200 whitespace-pre">
+                  {preview || 'Sem linhas para a prévia.'}
+                </pre>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 sm:p-6 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
+          >
+            Salvar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -3,11 +3,47 @@ import { DocumentArrowUpIcon } from './icons/Icons';
 
 interface FileUploadProps {
   onFileSelect: (file: File) => void;
+  /** Quando informado, permite selecionar vários arquivos de uma vez (fila em lote). */
+  onFilesSelect?: (files: File[]) => void;
+  acceptedExtensions?: string[];
+  hint?: string;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
+const DEFAULT_EXTENSIONS = ['.pdf', '.ofx', '.qfx', '.csv', '.xlsx', '.xls'];
+const DEFAULT_HINT = 'PDF de até 10MB, OFX ou planilha CSV/XLSX exportada pelo banco (importação direta, sem IA)';
+
+export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, onFilesSelect, acceptedExtensions = DEFAULT_EXTENSIONS, hint = DEFAULT_HINT }) => {
+  const isAcceptedFile = useCallback((file: File) =>
+    acceptedExtensions.some(ext => file.name.toLowerCase().endsWith(ext)) ||
+    (acceptedExtensions.includes('.pdf') && file.type === "application/pdf"),
+  [acceptedExtensions]);
+  const rejectedFileMessage = `Formato não suportado. Envie um arquivo ${acceptedExtensions.join(', ')}.`;
+
   const [isDragging, setIsDragging] = useState(false);
 
+  const handleFiles = useCallback((fileList: FileList) => {
+    const files = Array.from(fileList);
+    if (files.length === 0) return;
+
+    if (!onFilesSelect) {
+      if (isAcceptedFile(files[0])) {
+        onFileSelect(files[0]);
+      } else {
+        alert(rejectedFileMessage);
+      }
+      return;
+    }
+
+    const accepted = files.filter(isAcceptedFile);
+    const rejected = files.filter(file => !isAcceptedFile(file));
+    if (rejected.length > 0) {
+      alert(`${rejectedFileMessage}\n\nIgnorados: ${rejected.map(file => file.name).join(', ')}`);
+    }
+    if (accepted.length > 0) {
+      onFilesSelect(accepted);
+    }
+  }, [onFileSelect, onFilesSelect, isAcceptedFile, rejectedFileMessage]);
+
   const handleDrag = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
@@ -22,24 +58,18 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      if (e.dataTransfer.files[0].type === "application/pdf") {
-          onFileSelect(e.dataTransfer.files[0]);
-      } else {
-          alert("Por favor, envie um arquivo PDF.");
-      }
+    if (e.dataTransfer.files) {
+      handleFiles(e.dataTransfer.files);
     }
-  }, [onFileSelect]);
+  }, [handleFiles]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
-    if (e.target.files && e.target.files[0]) {
-       if (e.target.files[0].type === "application/pdf") {
-            onFileSelect(e.target.files[0]);
-        } else {
-            alert("Por favor, envie um arquivo PDF.");
-        }
+    if (e.target.files) {
+      handleFiles(e.target.files);
     }
+    // Permite reenviar o mesmo arquivo após um reset
+    e.target.value = '';
   };
 
   return (
@@ -57,12 +87,15 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
             htmlFor="file-upload"
             className="relative cursor-pointer rounded-md font-semibold text-blue-600 dark:text-blue-400 focus-within:outline-none focus-within:ring-2 focus-within:ring-blue-500 focus-within:ring-offset-2 hover:text-blue-500"
           >
-            <span>Envie um arquivo</span>
-            <input id="file-upload" name="file-upload" type="file" accept=".pdf" className="sr-only" onChange={handleChange} />
+            <span>{onFilesSelect ? 'Envie um ou mais arquivos' : 'Envie um arquivo'}</span>
+            <input id="file-upload" name="file-upload" type="file" multiple={!!onFilesSelect} accept={acceptedExtensions.join(',')} className="sr-only" onChange={handleChange} />
           </label>
           <p className="pl-1">ou arraste e solte</p>
         </div>
-        <p className="text-sm text-slate-500 dark:text-slate-400">PDF de até 10MB</p>
+        <p className="text-sm text-slate-500 dark:text-slate-400">{hint}</p>
+        {onFilesSelect && (
+          <p className="text-xs text-slate-400 dark:text-slate-500">Vários arquivos da mesma conta são processados em fila e podem ser revisados juntos.</p>
+        )}
       </div>
     </div>
   );
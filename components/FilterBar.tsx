@@ -1,17 +1,20 @@
 
 import React, { useState, useEffect } from 'react';
 import { Filters } from '../types';
-import { TRANSACTION_CATEGORIES } from '../constants';
+import { TaxonomyOption } from '../utils/categoryTaxonomy';
+import { CategoryOptions } from './CategoryOptions';
 
 interface FilterBarProps {
   filters: Filters;
   onFilterChange: (filters: Filters) => void;
   onClear: () => void;
+  /** Plano de categorias da empresa; uma categoria-pai inclui as subcategorias. */
+  categoryOptions: TaxonomyOption[];
 }
 
 type DatePreset = 'custom' | 'today' | 'last7days' | 'last30days' | 'thisMonth' | 'lastMonth';
 
-export const FilterBar: React.FC<FilterBarProps> = ({ filters, onFilterChange, onClear }) => {
+export const FilterBar: React.FC<FilterBarProps> = ({ filters, onFilterChange, onClear, categoryOptions }) => {
   const [preset, setPreset] = useState<DatePreset>('custom');
 
   // Reset preset to 'custom' if dates don't match any preset (e.g. when filters are cleared externally or manually edited)
@@ -110,9 +113,7 @@ export const FilterBar: React.FC<FilterBarProps> = ({ filters, onFilterChange, o
                 className="mt-1 block w-full rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
             >
                 <option value="">Todas as categorias</option>
-                {TRANSACTION_CATEGORIES.map(cat => (
-                    <option key={cat} value={cat}>{cat}</option>
-                ))}
+                <CategoryOptions options={categoryOptions} />
             </select>
         </div>
 
@@ -143,6 +144,7 @@ export const FilterBar: React.FC<FilterBarProps> = ({ filters, onFilterChange, o
                 <option value="all">Todas</option>
                 <option value="unusualOnly">Apenas Incomuns</option>
                 <option value="commonOnly">Apenas Comuns</option>
+                <option value="lowConfidenceOnly">Baixa Confiança</option>
             </select>
         </div>
 
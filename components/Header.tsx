@@ -1,7 +1,13 @@
 import React from 'react';
-import { DocumentChartBarIcon } from './icons/Icons';
+import { Cog6ToothIcon, DocumentChartBarIcon } from './icons/Icons';
 
-export const Header: React.FC = () => {
+interface HeaderProps {
+  /** Nome do provedor de IA ativo, exibido ao lado do botão de configurações. */
+  providerLabel?: string;
+  onOpenSettings?: () => void;
+}
+
+export const Header: React.FC<HeaderProps> = ({ providerLabel, onOpenSettings }) => {
   return (
     <header className="bg-white dark:bg-slate-800/50 shadow-sm backdrop-blur-md sticky top-0 z-10">
       <div className="container mx-auto px-4 sm:px-6 lg:px-8">
@@ -12,11 +18,24 @@ export const Header: React.FC = () => {
               Processador de Extratos Bancários
             </span>
           </div>
-          <div className="hidden sm:block text-sm font-medium text-slate-500 dark:text-slate-400">
-            Desenvolvido por SP ASSESSORIA CONTÁBIL
+          <div className="flex items-center gap-4">
+            <div className="hidden sm:block text-sm font-medium text-slate-500 dark:text-slate-400">
+              Desenvolvido por SP ASSESSORIA CONTÁBIL
+            </div>
+            {onOpenSettings && (
+              <button
+                type="button"
+                onClick={onOpenSettings}
+                title="Configurar o provedor de IA"
+                className="inline-flex items-center gap-1.5 rounded-md px-2 py-1 text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+              >
+                <Cog6ToothIcon className="h-5 w-5" />
+                {providerLabel && <span className="hidden md:inline">{providerLabel}</span>}
+              </button>
+            )}
           </div>
         </div>
       </div>
     </header>
   );
-};
\ No newline at end of file
+};
@@ -1,9 +1,12 @@
 import React from 'react';
 import { InvestmentTransaction, InvestmentOperationType } from '../types';
 import { formatCNPJForDisplay } from '../utils/cnpjUtils';
+import { isLowConfidence, describeRowSource } from '../utils/extractionConfidence';
 
 interface Props {
     transactions: InvestmentTransaction[];
+    selectedId?: string | null;
+    onRowSelect?: (transaction: InvestmentTransaction) => void;
 }
 
 const OP_COLORS: Record<InvestmentOperationType, string> = {
@@ -13,6 +16,8 @@ const OP_COLORS: Record<InvestmentOperationType, string> = {
     'Come-cotas': 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
     'Amortização': 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
     'Transferência': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+    'Compra': 'bg-sky-100 text-sky-800 dark:bg-sky-900 dark:text-sky-200',
+    'Venda': 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200',
     'Outro': 'bg-slate-100 text-slate-800 dark:bg-slate-700 dark:text-slate-200',
 };
 
@@ -28,7 +33,7 @@ const fmtDate = (d: string) => {
     return `${day}/${m}/${y}`;
 };
 
-export const InvestmentTable: React.FC<Props> = ({ transactions }) => {
+export const InvestmentTable: React.FC<Props> = ({ transactions, selectedId, onRowSelect }) => {
     if (transactions.length === 0) {
         return (
             <div className="p-8 text-center text-slate-400 dark:text-slate-500">
@@ -42,7 +47,7 @@ export const InvestmentTable: React.FC<Props> = ({ transactions }) => {
             <table className="min-w-full divide-y divide-slate-200 dark:divide-slate-700 text-sm">
                 <thead className="bg-slate-50 dark:bg-slate-800">
                     <tr>
-                        {['Data', 'Fundo', 'CNPJ Fundo', 'Tipo', 'Qtd Cotas', 'Valor Cota', 'Valor Bruto', 'IR Retido', 'Valor Líquido', '⚠'].map(h => (
+                        {['Data', 'Fundo / Ativo', 'CNPJ Fundo', 'Tipo', 'Quantidade', 'Valor Unit.', 'Valor Bruto', 'Custos', 'IR Retido', 'Valor Líquido', '⚠'].map(h => (
                             <th key={h} className="px-3 py-3 text-left text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider whitespace-nowrap">
                                 {h}
                             </th>
@@ -53,10 +58,22 @@ export const InvestmentTable: React.FC<Props> = ({ transactions }) => {
                     {transactions.map(t => (
                         <tr
                             key={t.id}
-                            className={`hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors ${t.isUnusual ? 'bg-yellow-50 dark:bg-yellow-900/20' : ''}`}
+                            onClick={() => onRowSelect?.(t)}
+                            className={`hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors ${t.isUnusual ? 'bg-yellow-50 dark:bg-yellow-900/20' : isLowConfidence(t) ? 'bg-orange-50 dark:bg-orange-900/20' : ''} ${onRowSelect ? 'cursor-pointer' : ''} ${t.id === selectedId ? 'outline outline-2 -outline-offset-2 outline-blue-500' : ''}`}
                         >
                             <td className="px-3 py-2 whitespace-nowrap font-mono text-slate-700 dark:text-slate-300">
                                 {fmtDate(t.date)}
+                                {t.settlementDate && (
+                                    <div className="text-xs text-slate-400 dark:text-slate-500">Liq. {fmtDate(t.settlementDate)}</div>
+                                )}
+                                {t.sourcePage && (
+                                    <div
+                                        title={[describeRowSource(t), t.sourceLine].filter(Boolean).join('\n')}
+                                        className={`text-xs cursor-help ${isLowConfidence(t) ? 'text-orange-600 dark:text-orange-400 font-semibold' : 'text-slate-400 dark:text-slate-500'}`}
+                                    >
+                                        p.{t.sourcePage}
+                                    </div>
+                                )}
                             </td>
                             <td className="px-3 py-2 max-w-xs">
                                 <div className="font-medium text-slate-800 dark:text-slate-200 truncate" title={t.fundName}>
@@ -90,6 +107,9 @@ export const InvestmentTable: React.FC<Props> = ({ transactions }) => {
                             <td className="px-3 py-2 whitespace-nowrap text-right font-mono font-semibold text-slate-800 dark:text-slate-200">
                                 {t.grossValue > 0 ? fmt(t.grossValue) : '—'}
                             </td>
+                            <td className="px-3 py-2 whitespace-nowrap text-right font-mono text-slate-600 dark:text-slate-400">
+                                {t.fees > 0 ? fmt(t.fees) : '—'}
+                            </td>
                             <td className="px-3 py-2 whitespace-nowrap text-right font-mono text-red-600 dark:text-red-400">
                                 {t.irWithheld > 0 ? fmt(t.irWithheld) : '—'}
                             </td>
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { CorrectionValues, LearnedCorrection } from '../types';
+import { TaxonomyOption } from '../utils/categoryTaxonomy';
+import { loadCorrections, saveCorrections } from '../utils/learnedCorrections';
+import { formatCNPJForDisplay } from '../utils/cnpjUtils';
+import { CategoryOptions } from './CategoryOptions';
+import { XCircleIcon } from './icons/Icons';
+
+interface LearnedCorrectionsManagerProps {
+  companyCnpj: string;
+  companyName?: string;
+  categoryOptions: TaxonomyOption[];
+  onClose: () => void;
+  onSave: (corrections: LearnedCorrection[]) => void;
+}
+
+const cellInputClasses = "block w-full rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const describeOriginal = ({ category, accountDebit, accountCredit }: CorrectionValues) => [
+  category,
+  accountDebit ? `D ${accountDebit}` : '',
+  accountCredit ? `C ${accountCredit}` : '',
+].filter(Boolean).join(' · ');
+
+/**
+ * Lists the corrections learned from the table edits of a company, which are
+ * sent to the AI as examples. Nothing is stored until "Salvar".
+ */
+export const LearnedCorrectionsManager: React.FC<LearnedCorrectionsManagerProps> = ({ companyCnpj, companyName, categoryOptions, onClose, onSave }) => {
+  const [corrections, setCorrections] = useState<LearnedCorrection[]>(() => loadCorrections(companyCnpj));
+
+  const update = (id: string, changes: Partial<LearnedCorrection>) =>
+    setCorrections(prev => prev.map(c => c.id === id ? { ...c, ...changes, updatedAt: new Date().toISOString() } : c));
+
+  const updateCorrected = (correction: LearnedCorrection, changes: Partial<CorrectionValues>) =>
+    update(correction.id, { corrected: { ...correction.corrected, ...changes } });
+
+  const handleSave = () => {
+    const cleaned = corrections.filter(c => c.descriptionPattern.trim());
+    saveCorrections(companyCnpj, cleaned);
+    onSave(cleaned);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/50 p-4" onClick={onClose}>
+      <div className="w-full max-w-5xl max-h-[90vh] flex flex-col bg-white dark:bg-slate-800 shadow-xl rounded-xl overflow-hidden animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="p-4 sm:p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">Correções Aprendidas</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {companyName ? `${companyName} · ` : ''}CNPJ {formatCNPJForDisplay(companyCnpj)}. Categorias e contas corrigidas na tabela são enviadas à IA como exemplos na extração e nas sugestões de categoria desta empresa.
+          </p>
+        </div>
+
+        <div className="p-4 sm:p-6 overflow-y-auto">
+          {corrections.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">Nenhuma correção registrada. Ao alterar a categoria ou as contas de uma transação na tabela, a correção aparece aqui.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="text-xs uppercase text-slate-500 dark:text-slate-400">
+                <tr>
+                  <th className="px-2 py-2 text-left">Descrição</th>
+                  <th className="px-2 py-2 text-left">Categoria</th>
+                  <th className="px-2 py-2 text-left">Conta débito</th>
+                  <th className="px-2 py-2 text-left">Conta crédito</th>
+                  <th className="px-2 py-2"><span className="sr-only">Excluir</span></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                {corrections.map(correction => (
+                  <tr key={correction.id} className="align-top">
+                    <td className="px-2 py-2 min-w-[14rem]">
+                      <input
+                        type="text"
+                        value={correction.descriptionPattern}
+                        onChange={e => update(correction.id, { descriptionPattern: e.target.value })}
+                        className={`${cellInputClasses} font-mono`}
+                        aria-label="Descrição"
+                      />
+                      <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                        {correction.cnpj ? `CNPJ ${formatCNPJForDisplay(correction.cnpj)} · ` : ''}antes: {describeOriginal(correction.original) || '—'}
+                      </p>
+                    </td>
+                    <td className="px-2 py-2">
+                      <select
+                        value={correction.corrected.category}
+                        onChange={e => updateCorrected(correction, { category: e.target.value })}
+                        className={cellInputClasses}
+                        aria-label="Categoria"
+                      >
+                        <CategoryOptions options={categoryOptions} current={correction.corrected.category} />
+                      </select>
+                    </td>
+                    <td className="px-2 py-2">
+                      <input type="text" value={correction.corrected.accountDebit} onChange={e => updateCorrected(correction, { accountDebit: e.target.value })} className={cellInputClasses} aria-label="Conta débito" />
+                    </td>
+                    <td className="px-2 py-2">
+                      <input type="text" value={correction.corrected.accountCredit} onChange={e => updateCorrected(correction, { accountCredit: e.target.value })} className={cellInputClasses} aria-label="Conta crédito" />
+                    </td>
+                    <td className="px-2 py-2 text-right">
+                      <button type="button" onClick={() => setCorrections(prev => prev.filter(c => c.id !== correction.id))} className="p-1 rounded text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-slate-700" title="Excluir">
+                        <XCircleIcon className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-4 sm:p-6 border-t border-slate-200 dark:border-slate-700 flex items-center justify-end gap-2">
+          {corrections.length > 0 && (
+            <button type="button" onClick={() => setCorrections([])} className="mr-auto text-sm font-medium text-red-600 dark:text-red-400 hover:underline">
+              Excluir todas
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
+          >
+            Salvar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
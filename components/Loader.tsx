@@ -1,10 +1,29 @@
 import React from 'react';
+import { ExtractionChunkProgress, ChunkStatus } from '../types';
 
 interface LoaderProps {
   message: string;
+  chunks?: ExtractionChunkProgress[];
 }
 
-export const Loader: React.FC<LoaderProps> = ({ message }) => {
+const CHUNK_STATUS_STYLES: Record<ChunkStatus, string> = {
+  pending: 'bg-slate-100 text-slate-500 dark:bg-slate-700 dark:text-slate-400',
+  processing: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300 animate-pulse',
+  done: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+};
+
+const CHUNK_STATUS_LABELS: Record<ChunkStatus, string> = {
+  pending: 'Na fila',
+  processing: 'Processando',
+  done: 'Concluído',
+  failed: 'Falhou',
+};
+
+export const Loader: React.FC<LoaderProps> = ({ message, chunks }) => {
+  const showChunks = chunks && chunks.length > 1;
+  const completed = showChunks ? chunks.filter(c => c.status === 'done' || c.status === 'failed').length : 0;
+
   return (
     <div className="text-center p-8">
       <div className="flex justify-center items-center">
@@ -33,6 +52,25 @@ export const Loader: React.FC<LoaderProps> = ({ message }) => {
         {message}
       </p>
       <p className="text-sm text-slate-500">Isso pode levar um momento.</p>
+      {showChunks && (
+        <div className="mt-6 max-w-2xl mx-auto">
+          <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400 mb-1">
+            <span>Blocos de páginas</span>
+            <span>{completed} de {chunks.length}</span>
+          </div>
+          <div className="w-full h-2 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-600 transition-all duration-300" style={{ width: `${(completed / chunks.length) * 100}%` }} />
+          </div>
+          <ul className="mt-3 grid grid-cols-2 sm:grid-cols-3 gap-2 text-xs">
+            {chunks.map(chunk => (
+              <li key={chunk.index} className={`px-2 py-1 rounded-md ${CHUNK_STATUS_STYLES[chunk.status]}`} title={chunk.error}>
+                Págs. {chunk.startPage}–{chunk.endPage}: {CHUNK_STATUS_LABELS[chunk.status]}
+                {chunk.status === 'done' && chunk.transactionCount !== undefined && ` (${chunk.transactionCount})`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { PdfPasswordCandidate } from '../utils/pdfPassword';
+import { CheckCircleIcon, ExclamationTriangleIcon } from './icons/Icons';
+
+interface PdfPasswordPromptProps {
+  fileName: string;
+  candidates: PdfPasswordCandidate[];
+  /** Senha já testada com sucesso entre os candidatos, se houver. */
+  detectedPassword: string | null;
+  /** Resolve false quando a senha não abre o arquivo. */
+  onSubmit: (password: string) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+export const PdfPasswordPrompt: React.FC<PdfPasswordPromptProps> = ({ fileName, candidates, detectedPassword, onSubmit, onCancel }) => {
+  const [password, setPassword] = useState(detectedPassword ?? candidates[0]?.password ?? '');
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    setIsChecking(true);
+    setError(null);
+    const ok = await onSubmit(password);
+    if (!ok) {
+      setError('Senha incorreta. Tente outra opção.');
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-xl mx-auto bg-white dark:bg-slate-800 shadow-xl rounded-xl overflow-hidden animate-fade-in">
+      <div className="p-4 sm:p-6 border-b border-slate-200 dark:border-slate-700">
+        <h2 className="text-xl font-bold text-slate-900 dark:text-white">PDF Protegido por Senha</h2>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          O arquivo <span className="font-medium text-blue-600 dark:text-blue-400">{fileName}</span> está criptografado.
+          Ele será aberto somente no seu navegador; as páginas são convertidas em imagem antes da análise.
+        </p>
+      </div>
+
+      <div className="p-4 sm:p-6 space-y-4">
+        {detectedPassword && (
+          <div className="flex items-center gap-2 text-sm text-green-700 dark:text-green-300">
+            <CheckCircleIcon className="h-5 w-5 flex-shrink-0" />
+            Uma senha derivada do CNPJ/CPF da empresa abriu o arquivo.
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="pdfPassword" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Senha</label>
+          <input
+            id="pdfPassword"
+            type="text"
+            autoComplete="off"
+            value={password}
+            onChange={(e) => { setPassword(e.target.value); setError(null); }}
+            className="mt-1 block w-full rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-2 font-mono shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm"
+          />
+        </div>
+
+        {candidates.length > 0 && (
+          <div>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">Sugestões a partir do CNPJ/CPF informado:</p>
+            <div className="flex flex-wrap gap-2">
+              {candidates.map(c => (
+                <button
+                  key={c.password}
+                  type="button"
+                  onClick={() => { setPassword(c.password); setError(null); }}
+                  title={c.label}
+                  className={`px-2.5 py-1 rounded-full text-xs font-mono border ${password === c.password
+                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                    : 'border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'
+                    }`}
+                >
+                  {c.password}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+            <ExclamationTriangleIcon className="h-5 w-5" /> {error}
+          </p>
+        )}
+      </div>
+
+      <div className="p-4 sm:p-6 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={!password || isChecking}
+          className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isChecking ? 'Verificando...' : 'Desbloquear e Processar'}
+        </button>
+      </div>
+    </form>
+  );
+};
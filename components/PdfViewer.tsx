@@ -0,0 +1,210 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { loadPdfDocument } from '../utils/fileUtils';
+import { PdfTextLine, textContentToLines } from '../utils/pdfTextLayer';
+import { RowLocatorQuery, locateRowInText } from '../utils/pdfRowMatching';
+import { ArrowPathIcon, PlusIcon } from './icons/Icons';
+
+interface PdfViewerProps {
+  file: File;
+  password?: string;
+  /** Linha da tabela selecionada; o trecho correspondente é destacado no PDF. */
+  highlight: RowLocatorQuery | null;
+  /** Sem o callback o texto do PDF continua selecionável, mas não cria transações. */
+  onCreateFromSelection?: (text: string, page: number) => void;
+  height?: number;
+}
+
+interface RenderedPage {
+  element: HTMLDivElement;
+  viewport: any;
+  lines: PdfTextLine[];
+}
+
+interface PendingSelection {
+  text: string;
+  page: number;
+  top: number;
+  left: number;
+}
+
+const MIN_SCALE = 0.6;
+const MAX_SCALE = 2;
+
+/**
+ * pdf.js viewer with a selectable text layer, rendered page by page into the
+ * container. Highlights are located on the same text lines the layout reader uses.
+ */
+export const PdfViewer: React.FC<PdfViewerProps> = ({ file, password, highlight, onCreateFromSelection, height = 600 }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pagesRef = useRef<HTMLDivElement>(null);
+  const highlightRef = useRef<HTMLDivElement | null>(null);
+  const renderedPages = useRef<RenderedPage[]>([]);
+  const [renderedCount, setRenderedCount] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [selection, setSelection] = useState<PendingSelection | null>(null);
+
+  useEffect(() => {
+    const pagesContainer = pagesRef.current;
+    if (!pagesContainer) return;
+    let cancelled = false;
+    let pdf: any = null;
+    pagesContainer.replaceChildren();
+    renderedPages.current = [];
+    highlightRef.current = null;
+    setRenderedCount(0);
+    setTotalPages(0);
+    setLoadError(null);
+
+    const render = async () => {
+      pdf = await loadPdfDocument(file, password);
+      if (!pdf) throw new Error('O visualizador de PDF não está disponível.');
+      if (cancelled) return;
+      setTotalPages(pdf.numPages);
+      const availableWidth = (containerRef.current?.clientWidth ?? 600) - 24;
+
+      for (let pageNumber = 1; pageNumber <= pdf.numPages && !cancelled; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, availableWidth / page.getViewport({ scale: 1 }).width));
+        const viewport = page.getViewport({ scale });
+
+        const element = document.createElement('div');
+        element.className = 'relative mx-auto mb-3 shadow bg-white';
+        element.style.width = `${viewport.width}px`;
+        element.style.height = `${viewport.height}px`;
+        element.dataset.page = String(pageNumber);
+
+        const canvas = document.createElement('canvas');
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        canvas.className = 'absolute inset-0';
+        const textLayer = document.createElement('div');
+        textLayer.className = 'pdf-text-layer';
+        textLayer.style.setProperty('--scale-factor', String(scale));
+        element.append(canvas, textLayer);
+        pagesContainer.appendChild(element);
+
+        const textContent = await page.getTextContent();
+        await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+        await window.pdfjsLib.renderTextLayer({ textContentSource: textContent, container: textLayer, viewport, textDivs: [] }).promise;
+        page.cleanup();
+        if (cancelled) return;
+
+        renderedPages.current.push({ element, viewport, lines: textContentToLines(pageNumber, textContent) });
+        setRenderedCount(pageNumber);
+      }
+    };
+
+    render().catch(error => {
+      console.error('Falha ao renderizar o PDF:', error);
+      if (!cancelled) setLoadError(error instanceof Error ? error.message : 'Não foi possível abrir o PDF.');
+    });
+
+    return () => {
+      cancelled = true;
+      pdf?.destroy();
+    };
+  }, [file, password]);
+
+  useEffect(() => {
+    highlightRef.current?.remove();
+    highlightRef.current = null;
+    setNotFound(false);
+    if (!highlight || renderedCount === 0) return;
+
+    const lines = renderedPages.current.flatMap(p => p.lines);
+    const line = locateRowInText(lines, highlight);
+    const container = containerRef.current;
+    if (!line) {
+      // Ainda renderizando: tenta de novo quando a próxima página chegar
+      if (renderedCount < totalPages) return;
+      setNotFound(true);
+      const fallback = renderedPages.current[(highlight.sourcePage ?? 0) - 1];
+      if (fallback && container) container.scrollTo({ top: fallback.element.offsetTop - 8, behavior: 'smooth' });
+      return;
+    }
+
+    const { element, viewport } = renderedPages.current[line.page - 1];
+    const lineHeight = Math.max(...line.items.map(i => i.height), 8);
+    const left = Math.min(...line.items.map(i => i.x));
+    const right = Math.max(...line.items.map(i => i.x + i.width));
+    const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([left - 2, line.y - lineHeight * 0.3, right + 2, line.y + lineHeight]);
+
+    const box = document.createElement('div');
+    box.className = 'absolute rounded-sm bg-yellow-300/40 ring-2 ring-yellow-500 pointer-events-none';
+    Object.assign(box.style, {
+      left: `${Math.min(x1, x2)}px`,
+      top: `${Math.min(y1, y2)}px`,
+      width: `${Math.abs(x2 - x1)}px`,
+      height: `${Math.abs(y2 - y1)}px`,
+    });
+    element.appendChild(box);
+    highlightRef.current = box;
+    container?.scrollTo({ top: element.offsetTop + Math.min(y1, y2) - container.clientHeight / 3, behavior: 'smooth' });
+  }, [highlight, renderedCount, totalPages]);
+
+  const handleMouseUp = () => {
+    if (!onCreateFromSelection) return;
+    const current = window.getSelection();
+    const text = current?.toString().trim() ?? '';
+    const container = containerRef.current;
+    const pageElement = (current?.anchorNode?.parentElement)?.closest<HTMLElement>('[data-page]');
+    if (!text || !container || !pageElement || !current || current.rangeCount === 0) {
+      setSelection(null);
+      return;
+    }
+    const rect = current.getRangeAt(0).getBoundingClientRect();
+    const containerRect = container.getBoundingClientRect();
+    setSelection({
+      text,
+      page: Number(pageElement.dataset.page),
+      top: rect.bottom - containerRect.top + container.scrollTop + 4,
+      left: Math.max(8, rect.left - containerRect.left),
+    });
+  };
+
+  const handleCreate = () => {
+    if (!selection || !onCreateFromSelection) return;
+    onCreateFromSelection(selection.text, selection.page);
+    window.getSelection()?.removeAllRanges();
+    setSelection(null);
+  };
+
+  return (
+    <div className="flex flex-col border rounded-lg border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="px-3 py-2 text-xs flex items-center gap-2 bg-slate-50 dark:bg-slate-700 text-slate-600 dark:text-slate-300 border-b border-slate-200 dark:border-slate-600">
+        <span className="font-semibold truncate" title={file.name}>{file.name}</span>
+        {totalPages > 0 && renderedCount < totalPages && (
+          <span className="flex items-center gap-1">
+            <ArrowPathIcon className="h-3 w-3 animate-spin" />
+            Renderizando {renderedCount}/{totalPages}
+          </span>
+        )}
+        {notFound && <span className="text-orange-600 dark:text-orange-400">Linha não localizada no texto do PDF{highlight?.sourcePage ? `; exibindo a página ${highlight.sourcePage}` : ''}.</span>}
+        {onCreateFromSelection && !notFound && <span className="ml-auto hidden lg:inline text-slate-400">Selecione um trecho para criar uma transação</span>}
+      </div>
+      <div
+        ref={containerRef}
+        onMouseUp={handleMouseUp}
+        onScroll={() => selection && setSelection(null)}
+        className="relative overflow-auto bg-slate-200 dark:bg-slate-900 p-3"
+        style={{ height: `${height}px` }}
+      >
+        {loadError && <p className="text-sm text-red-600 dark:text-red-400">{loadError}</p>}
+        <div ref={pagesRef} />
+        {selection && (
+          <button
+            onMouseDown={e => e.preventDefault()}
+            onClick={handleCreate}
+            className="absolute z-10 inline-flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md shadow-lg text-white bg-blue-600 hover:bg-blue-700"
+            style={{ top: selection.top, left: selection.left }}
+          >
+            <PlusIcon className="h-3 w-3" />
+            Criar transação com a seleção
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { EXTRACTION_PROVIDER_LABELS, ExtractionProviderId, ProviderSettings as Settings, loadProviderSettings, saveProviderSettings } from '../services/extractionProvider';
+import { clearFixtureRecordings, countFixtureRecordings } from '../services/fixtureProvider';
+
+interface ProviderSettingsProps {
+  onClose: () => void;
+  onSave: (settings: Settings) => void;
+}
+
+const PROVIDER_HINTS: Record<ExtractionProviderId, string> = {
+  gemini: 'Chamado pelo servidor da aplicação, que guarda a chave GEMINI_API_KEY.',
+  openai: 'Ollama, llama.cpp ou outro servidor com a API /chat/completions. O servidor precisa aceitar requisições do navegador (CORS).',
+  fixture: 'Reproduz respostas gravadas, ou exemplos embutidos, sem chamar nenhuma IA. Para desenvolvimento e testes.',
+};
+
+const inputClasses = "mt-1 block w-full rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm";
+
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({ onClose, onSave }) => {
+  const [settings, setSettings] = useState<Settings>(loadProviderSettings);
+  const [recordingCount, setRecordingCount] = useState(countFixtureRecordings);
+
+  const update = (changes: Partial<Settings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const handleSave = () => {
+    saveProviderSettings(settings);
+    onSave(settings);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/50 p-4" onClick={onClose}>
+      <div className="w-full max-w-xl bg-white dark:bg-slate-800 shadow-xl rounded-xl overflow-hidden animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="p-4 sm:p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">Provedor de IA</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Usado na extração dos documentos e nas sugestões de data e categoria. A escolha fica salva neste navegador.
+          </p>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-4">
+          <div className="space-y-2">
+            {(Object.keys(EXTRACTION_PROVIDER_LABELS) as ExtractionProviderId[]).map(id => (
+              <label key={id} className="flex items-start gap-2 text-sm text-slate-700 dark:text-slate-200">
+                <input type="radio" name="extractionProvider" className="mt-1" checked={settings.providerId === id} onChange={() => update({ providerId: id })} />
+                <span>
+                  <span className="font-medium">{EXTRACTION_PROVIDER_LABELS[id]}</span>
+                  <span className="block text-xs text-slate-500 dark:text-slate-400">{PROVIDER_HINTS[id]}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {settings.providerId === 'openai' && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="sm:col-span-2">
+                <label htmlFor="openAiBaseUrl" className="block text-sm font-medium text-slate-700 dark:text-slate-300">URL base</label>
+                <input id="openAiBaseUrl" type="url" value={settings.openAiBaseUrl} onChange={e => update({ openAiBaseUrl: e.target.value })} className={`${inputClasses} font-mono`} />
+              </div>
+              <div>
+                <label htmlFor="openAiModel" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Modelo</label>
+                <input id="openAiModel" type="text" value={settings.openAiModel} onChange={e => update({ openAiModel: e.target.value })} className={`${inputClasses} font-mono`} />
+              </div>
+              <div>
+                <label htmlFor="openAiApiKey" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Chave (opcional)</label>
+                <input id="openAiApiKey" type="password" autoComplete="off" value={settings.openAiApiKey} onChange={e => update({ openAiApiKey: e.target.value })} className={`${inputClasses} font-mono`} />
+              </div>
+            </div>
+          )}
+
+          {settings.providerId !== 'fixture' && (
+            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200">
+              <input type="checkbox" checked={settings.recordFixtures} onChange={e => update({ recordFixtures: e.target.checked })} />
+              Gravar as respostas para reproduzi-las no modo offline
+            </label>
+          )}
+
+          <div className="flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
+            <span>{recordingCount} resposta(s) gravada(s) neste navegador.</span>
+            {recordingCount > 0 && (
+              <button
+                type="button"
+                onClick={() => { clearFixtureRecordings(); setRecordingCount(0); }}
+                className="text-red-600 dark:text-red-400 hover:underline"
+              >
+                Apagar gravações
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
+          >
+            Salvar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import { CategorizationRule, RuleConditions, RuleActions, Transaction, ChartAccount } from '../types';
+import { TaxonomyOption } from '../utils/categoryTaxonomy';
+import { accountIssue, ACCOUNT_ISSUE_MESSAGES } from '../utils/chartOfAccounts';
+import { HISTORY_PLACEHOLDERS, createEmptyRule, loadRules, ruleMatches, saveRules, validateRulePattern } from '../utils/categorizationRules';
+import { formatCNPJForDisplay } from '../utils/cnpjUtils';
+import { CategoryOptions } from './CategoryOptions';
+import { AccountDatalist } from './AccountDatalist';
+import { ChevronDownIcon, PencilIcon, PlusIcon, XCircleIcon } from './icons/Icons';
+
+interface RulesManagerProps {
+  companyCnpj: string;
+  companyName?: string;
+  /** Regra pré-preenchida ("criar regra a partir desta linha"); abre direto no editor. */
+  initialDraft?: CategorizationRule | null;
+  /** Transações do extrato atual, para mostrar quantas linhas cada regra alcança. */
+  transactions: Transaction[];
+  categoryOptions: TaxonomyOption[];
+  /** Plano de contas da empresa, para autocompletar e conferir as contas das regras. */
+  chartOfAccounts: ChartAccount[];
+  onClose: () => void;
+  onSave: (rules: CategorizationRule[]) => void;
+}
+
+const inputClasses = "mt-1 block w-full rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm";
+const labelClasses = "block text-sm font-medium text-slate-700 dark:text-slate-300";
+
+const parseAmountInput = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = Number(trimmed.replace(/\./g, '').replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const formatAmountInput = (value: number | null) =>
+  value === null ? '' : value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const describeConditions = ({ descriptionMode, descriptionPattern, cnpj, minAmount, maxAmount, direction }: RuleConditions) => [
+  descriptionPattern ? (descriptionMode === 'regex' ? `descrição ~ /${descriptionPattern}/` : `descrição contém "${descriptionPattern}"`) : '',
+  cnpj ? `CNPJ ${formatCNPJForDisplay(cnpj)}` : '',
+  minAmount !== null || maxAmount !== null ? `valor ${minAmount !== null ? `≥ ${formatAmountInput(minAmount)}` : ''}${minAmount !== null && maxAmount !== null ? ' e ' : ''}${maxAmount !== null ? `≤ ${formatAmountInput(maxAmount)}` : ''}` : '',
+  direction === 'debit' ? 'só débitos' : direction === 'credit' ? 'só créditos' : '',
+].filter(Boolean).join(' · ') || 'todas as transações';
+
+const describeActions = ({ category, accountDebit, accountCredit, historyTemplate }: RuleActions) => [
+  category ? `categoria "${category}"` : '',
+  accountDebit ? `D ${accountDebit}` : '',
+  accountCredit ? `C ${accountCredit}` : '',
+  historyTemplate ? `histórico "${historyTemplate}"` : '',
+].filter(Boolean).join(' · ') || 'nenhuma ação';
+
+const ACCOUNT_LIST_ID = 'rule-accounts';
+
+const RuleEditor: React.FC<{
+  rule: CategorizationRule;
+  transactions: Transaction[];
+  categoryOptions: TaxonomyOption[];
+  chartOfAccounts: ChartAccount[];
+  onCancel: () => void;
+  onConfirm: (rule: CategorizationRule) => void;
+}> = ({ rule, transactions, categoryOptions, chartOfAccounts, onCancel, onConfirm }) => {
+  const [draft, setDraft] = useState(rule);
+  const [minInput, setMinInput] = useState(formatAmountInput(rule.conditions.minAmount));
+  const [maxInput, setMaxInput] = useState(formatAmountInput(rule.conditions.maxAmount));
+
+  const conditions = { ...draft.conditions, minAmount: parseAmountInput(minInput), maxAmount: parseAmountInput(maxInput) };
+  const patternError = validateRulePattern(conditions);
+  const accountDebitIssue = accountIssue(chartOfAccounts, draft.actions.accountDebit);
+  const accountCreditIssue = accountIssue(chartOfAccounts, draft.actions.accountCredit);
+  const hasAction = Object.values(draft.actions).some(Boolean);
+  const matchCount = patternError ? 0 : transactions.filter(t => ruleMatches({ ...draft, conditions }, t)).length;
+
+  const updateConditions = (changes: Partial<RuleConditions>) => setDraft(prev => ({ ...prev, conditions: { ...prev.conditions, ...changes } }));
+  const updateActions = (changes: Partial<RuleActions>) => setDraft(prev => ({ ...prev, actions: { ...prev.actions, ...changes } }));
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="ruleName" className={labelClasses}>Nome da regra</label>
+        <input id="ruleName" type="text" value={draft.name} onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))} className={inputClasses} placeholder="Ex.: Tarifas bancárias" />
+      </div>
+
+      <fieldset className="space-y-3">
+        <legend className="text-sm font-semibold text-slate-800 dark:text-slate-200">Quando</legend>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div>
+            <label htmlFor="ruleDescriptionMode" className={labelClasses}>Descrição</label>
+            <select id="ruleDescriptionMode" value={draft.conditions.descriptionMode} onChange={e => updateConditions({ descriptionMode: e.target.value as RuleConditions['descriptionMode'] })} className={inputClasses}>
+              <option value="contains">contém</option>
+              <option value="regex">expressão regular</option>
+            </select>
+          </div>
+          <div className="sm:col-span-2">
+            <label htmlFor="ruleDescriptionPattern" className={labelClasses}>Texto</label>
+            <input id="ruleDescriptionPattern" type="text" value={draft.conditions.descriptionPattern} onChange={e => updateConditions({ descriptionPattern: e.target.value })} className={`${inputClasses} font-mono ${patternError ? 'ring-2 ring-red-500' : ''}`} placeholder={draft.conditions.descriptionMode === 'regex' ? '^TARIFA|TAR\\.? PACOTE' : 'TARIFA PACOTE'} />
+            {patternError && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{patternError}</p>}
+          </div>
+          <div>
+            <label htmlFor="ruleCnpj" className={labelClasses}>CNPJ/CPF da contraparte</label>
+            <input id="ruleCnpj" type="text" value={draft.conditions.cnpj} onChange={e => updateConditions({ cnpj: e.target.value.replace(/\D/g, '') })} className={`${inputClasses} font-mono`} maxLength={14} placeholder="Qualquer" />
+          </div>
+          <div>
+            <label htmlFor="ruleMinAmount" className={labelClasses}>Valor mínimo (R$)</label>
+            <input id="ruleMinAmount" type="text" value={minInput} onChange={e => setMinInput(e.target.value)} className={`${inputClasses} text-right font-mono`} placeholder="—" />
+          </div>
+          <div>
+            <label htmlFor="ruleMaxAmount" className={labelClasses}>Valor máximo (R$)</label>
+            <input id="ruleMaxAmount" type="text" value={maxInput} onChange={e => setMaxInput(e.target.value)} className={`${inputClasses} text-right font-mono`} placeholder="—" />
+          </div>
+          <div>
+            <label htmlFor="ruleDirection" className={labelClasses}>Tipo</label>
+            <select id="ruleDirection" value={draft.conditions.direction} onChange={e => updateConditions({ direction: e.target.value as RuleConditions['direction'] })} className={inputClasses}>
+              <option value="any">Débitos e créditos</option>
+              <option value="debit">Só débitos</option>
+              <option value="credit">Só créditos</option>
+            </select>
+          </div>
+        </div>
+      </fieldset>
+
+      <fieldset className="space-y-3">
+        <legend className="text-sm font-semibold text-slate-800 dark:text-slate-200">Então</legend>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div>
+            <label htmlFor="ruleCategory" className={labelClasses}>Categoria</label>
+            <select id="ruleCategory" value={draft.actions.category} onChange={e => updateActions({ category: e.target.value })} className={inputClasses}>
+              <option value="">Manter a extraída</option>
+              <CategoryOptions options={categoryOptions} current={draft.actions.category} />
+            </select>
+          </div>
+          <div>
+            <label htmlFor="ruleAccountDebit" className={labelClasses}>Conta débito</label>
+            <input id="ruleAccountDebit" type="text" value={draft.actions.accountDebit} onChange={e => updateActions({ accountDebit: e.target.value })} className={inputClasses} placeholder="Manter a extraída" list={chartOfAccounts.length > 0 ? ACCOUNT_LIST_ID : undefined} />
+            {accountDebitIssue && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{ACCOUNT_ISSUE_MESSAGES[accountDebitIssue]}</p>}
+          </div>
+          <div>
+            <label htmlFor="ruleAccountCredit" className={labelClasses}>Conta crédito</label>
+            <input id="ruleAccountCredit" type="text" value={draft.actions.accountCredit} onChange={e => updateActions({ accountCredit: e.target.value })} className={inputClasses} placeholder="Manter a extraída" list={chartOfAccounts.length > 0 ? ACCOUNT_LIST_ID : undefined} />
+            {accountCreditIssue && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{ACCOUNT_ISSUE_MESSAGES[accountCreditIssue]}</p>}
+            {chartOfAccounts.length > 0 && <AccountDatalist id={ACCOUNT_LIST_ID} accounts={chartOfAccounts} />}
+          </div>
+          <div className="sm:col-span-3">
+            <label htmlFor="ruleHistoryTemplate" className={labelClasses}>Histórico</label>
+            <input id="ruleHistoryTemplate" type="text" value={draft.actions.historyTemplate} onChange={e => updateActions({ historyTemplate: e.target.value })} className={`${inputClasses} font-mono`} placeholder="PAGTO {empresa} REF {mes}/{ano}" />
+            <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">Campos disponíveis: {HISTORY_PLACEHOLDERS.join(' ')}</p>
+          </div>
+        </div>
+      </fieldset>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-xs text-slate-500 dark:text-slate-400">
+          {transactions.length > 0 ? `Alcança ${matchCount} de ${transactions.length} transação(ões) do extrato atual.` : ''}
+        </span>
+        <div className="flex gap-2">
+          <button type="button" onClick={onCancel} className="inline-flex items-center justify-center px-3 py-1.5 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600">
+            Voltar
+          </button>
+          <button
+            type="button"
+            disabled={!!patternError || !hasAction}
+            onClick={() => onConfirm({ ...draft, name: draft.name.trim() || draft.conditions.descriptionPattern || 'Regra sem nome', conditions })}
+            className="inline-flex items-center justify-center px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            title={!hasAction ? 'Defina ao menos uma ação.' : undefined}
+          >
+            Confirmar regra
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Lists the company's rules in priority order (the first match wins) and
+ * edits them. Nothing is stored until "Salvar".
+ */
+export const RulesManager: React.FC<RulesManagerProps> = ({ companyCnpj, companyName, initialDraft, transactions, categoryOptions, chartOfAccounts, onClose, onSave }) => {
+  const [rules, setRules] = useState<CategorizationRule[]>(() => loadRules(companyCnpj));
+  const [editing, setEditing] = useState<CategorizationRule | null>(initialDraft ?? null);
+
+  const handleConfirm = (rule: CategorizationRule) => {
+    setRules(prev => prev.some(r => r.id === rule.id) ? prev.map(r => r.id === rule.id ? rule : r) : [...prev, rule]);
+    setEditing(null);
+  };
+
+  const moveRule = (index: number, offset: -1 | 1) => {
+    setRules(prev => {
+      const next = [...prev];
+      const [rule] = next.splice(index, 1);
+      next.splice(index + offset, 0, rule);
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    saveRules(companyCnpj, rules);
+    onSave(rules);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/50 p-4" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-white dark:bg-slate-800 shadow-xl rounded-xl overflow-hidden animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="p-4 sm:p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">Regras de Categorização</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {companyName ? `${companyName} · ` : ''}CNPJ {formatCNPJForDisplay(companyCnpj)}. As regras são aplicadas após a extração e prevalecem sobre a IA; a primeira regra que casar com a transação é usada.
+          </p>
+        </div>
+
+        <div className="p-4 sm:p-6 overflow-y-auto">
+          {editing ? (
+            <RuleEditor key={editing.id} rule={editing} transactions={transactions} categoryOptions={categoryOptions} chartOfAccounts={chartOfAccounts} onCancel={() => setEditing(null)} onConfirm={handleConfirm} />
+          ) : (
+            <div className="space-y-3">
+              {rules.length === 0 && (
+                <p className="text-sm text-slate-500 dark:text-slate-400">Nenhuma regra cadastrada para esta empresa. Crie uma aqui ou pelo botão "Regra" de uma linha da tabela.</p>
+              )}
+              <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+                {rules.map((rule, index) => (
+                  <li key={rule.id} className="py-2 flex items-start gap-3">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={rule.enabled}
+                      onChange={e => setRules(prev => prev.map(r => r.id === rule.id ? { ...r, enabled: e.target.checked } : r))}
+                      title={rule.enabled ? 'Desativar' : 'Ativar'}
+                    />
+                    <div className={`flex-grow min-w-0 text-sm ${rule.enabled ? '' : 'opacity-50'}`}>
+                      <p className="font-medium text-slate-800 dark:text-slate-200 truncate">{index + 1}. {rule.name}</p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">Quando {describeConditions(rule.conditions)}</p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">Então {describeActions(rule.actions)}</p>
+                      {(accountIssue(chartOfAccounts, rule.actions.accountDebit) || accountIssue(chartOfAccounts, rule.actions.accountCredit)) && (
+                        <p className="text-xs text-red-600 dark:text-red-400">Conta fora do plano de contas ou sintética.</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button type="button" disabled={index === 0} onClick={() => moveRule(index, -1)} className="p-1 rounded text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-30" title="Subir prioridade">
+                        <ChevronDownIcon className="h-4 w-4 rotate-180" />
+                      </button>
+                      <button type="button" disabled={index === rules.length - 1} onClick={() => moveRule(index, 1)} className="p-1 rounded text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-30" title="Descer prioridade">
+                        <ChevronDownIcon className="h-4 w-4" />
+                      </button>
+                      <button type="button" onClick={() => setEditing(rule)} className="p-1 rounded text-blue-600 hover:bg-blue-50 dark:text-blue-400 dark:hover:bg-slate-700" title="Editar">
+                        <PencilIcon className="h-4 w-4" />
+                      </button>
+                      <button type="button" onClick={() => setRules(prev => prev.filter(r => r.id !== rule.id))} className="p-1 rounded text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-slate-700" title="Excluir">
+                        <XCircleIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <button type="button" onClick={() => setEditing(createEmptyRule())} className="inline-flex items-center gap-1 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline">
+                <PlusIcon className="h-4 w-4" />
+                Nova regra
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 sm:p-6 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!!editing}
+            title={editing ? 'Confirme ou descarte a regra em edição.' : undefined}
+            className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Salvar e aplicar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,234 @@
+import React, { useMemo, useState } from 'react';
+import { SpreadsheetCell, SpreadsheetColumnMapping, SpreadsheetDateFormat, SpreadsheetField } from '../types';
+import { applySpreadsheetMapping, validateSpreadsheetMapping } from '../utils/spreadsheetImport';
+import { CheckCircleIcon, ExclamationTriangleIcon } from './icons/Icons';
+
+interface SpreadsheetImportWizardProps {
+  fileName: string;
+  rows: SpreadsheetCell[][];
+  bankName: string;
+  initialMapping: SpreadsheetColumnMapping;
+  savedMapping: SpreadsheetColumnMapping | null;
+  onConfirm: (mapping: SpreadsheetColumnMapping, rememberForBank: boolean) => void;
+  onCancel: () => void;
+}
+
+const FIELD_LABELS: Record<SpreadsheetField, string> = {
+  date: 'Data',
+  description: 'Descrição',
+  debit: 'Débito',
+  credit: 'Crédito',
+  amount: 'Valor (com sinal)',
+  balance: 'Saldo',
+};
+
+const DATE_FORMATS: SpreadsheetDateFormat[] = ['DD/MM/AAAA', 'DD/MM/AA', 'AAAA-MM-DD', 'MM/DD/AAAA'];
+const PREVIEW_ROWS = 12;
+
+const columnLetter = (index: number) => {
+  let letter = '';
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    letter = String.fromCharCode(65 + rem) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+};
+
+const formatCell = (cell: SpreadsheetCell) => {
+  if (cell === null) return '';
+  if (cell instanceof Date) return cell.toLocaleDateString('pt-BR');
+  return String(cell);
+};
+
+const selectClasses = "mt-1 block w-full rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm";
+
+export const SpreadsheetImportWizard: React.FC<SpreadsheetImportWizardProps> = ({ fileName, rows, bankName, initialMapping, savedMapping, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<SpreadsheetColumnMapping>(savedMapping ?? initialMapping);
+  const [rememberForBank, setRememberForBank] = useState(true);
+
+  const columnCount = useMemo(() => Math.max(0, ...rows.slice(0, 50).map(r => r.length)), [rows]);
+  const headerCells = mapping.headerRow >= 0 ? rows[mapping.headerRow] ?? [] : [];
+  const columnOptions = Array.from({ length: columnCount }, (_, i) => ({
+    value: i,
+    label: headerCells[i] ? `${columnLetter(i)} — ${formatCell(headerCells[i])}` : `Coluna ${columnLetter(i)}`,
+  }));
+
+  const visibleFields: SpreadsheetField[] = mapping.amountMode === 'signed'
+    ? ['date', 'description', 'amount', 'balance']
+    : ['date', 'description', 'debit', 'credit', 'balance'];
+
+  const mappingError = validateSpreadsheetMapping(mapping);
+  const preview = useMemo(() => mappingError ? null : applySpreadsheetMapping(rows, mapping), [rows, mapping, mappingError]);
+
+  const fieldByColumn: Record<number, string> = {};
+  visibleFields.forEach(field => {
+    const index = mapping.columns[field];
+    if (index !== null) fieldByColumn[index] = FIELD_LABELS[field];
+  });
+
+  const setColumn = (field: SpreadsheetField, value: string) => {
+    setMapping(prev => ({ ...prev, columns: { ...prev.columns, [field]: value === '' ? null : Number(value) } }));
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 shadow-xl rounded-xl overflow-hidden animate-fade-in">
+      <div className="p-4 sm:p-6 border-b border-slate-200 dark:border-slate-700">
+        <h2 className="text-xl font-bold text-slate-900 dark:text-white">Importar Planilha</h2>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Arquivo: <span className="font-medium text-blue-600 dark:text-blue-400">{fileName}</span> · Indique qual coluna corresponde a cada campo.
+        </p>
+      </div>
+
+      {savedMapping && (
+        <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border-b border-blue-200 dark:border-blue-800 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="flex items-center gap-2 text-sm text-blue-800 dark:text-blue-200">
+            <CheckCircleIcon className="h-5 w-5 flex-shrink-0" />
+            Mapeamento salvo para <strong>{bankName}</strong> aplicado.
+          </div>
+          <button
+            onClick={() => onConfirm(savedMapping, false)}
+            disabled={!!validateSpreadsheetMapping(savedMapping)}
+            className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            Importar com mapeamento salvo
+          </button>
+        </div>
+      )}
+
+      <div className="p-4 sm:p-6 grid grid-cols-1 md:grid-cols-3 gap-4 border-b border-slate-200 dark:border-slate-700">
+        <div>
+          <label htmlFor="headerRow" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Linha de cabeçalho</label>
+          <select
+            id="headerRow"
+            value={mapping.headerRow}
+            onChange={(e) => setMapping(prev => ({ ...prev, headerRow: Number(e.target.value) }))}
+            className={selectClasses}
+          >
+            <option value={-1}>Sem cabeçalho</option>
+            {rows.slice(0, 20).map((_, i) => <option key={i} value={i}>Linha {i + 1}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="amountMode" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Valores</label>
+          <select
+            id="amountMode"
+            value={mapping.amountMode}
+            onChange={(e) => setMapping(prev => ({ ...prev, amountMode: e.target.value as SpreadsheetColumnMapping['amountMode'] }))}
+            className={selectClasses}
+          >
+            <option value="debitCredit">Colunas separadas de débito e crédito</option>
+            <option value="signed">Coluna única com sinal (negativo = débito)</option>
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label htmlFor="dateFormat" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Formato da data</label>
+            <select
+              id="dateFormat"
+              value={mapping.dateFormat}
+              onChange={(e) => setMapping(prev => ({ ...prev, dateFormat: e.target.value as SpreadsheetDateFormat }))}
+              className={selectClasses}
+            >
+              {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="decimalSeparator" className="block text-sm font-medium text-slate-700 dark:text-slate-300">Decimal</label>
+            <select
+              id="decimalSeparator"
+              value={mapping.decimalSeparator}
+              onChange={(e) => setMapping(prev => ({ ...prev, decimalSeparator: e.target.value as ',' | '.' }))}
+              className={selectClasses}
+            >
+              <option value=",">Vírgula (1.234,56)</option>
+              <option value=".">Ponto (1,234.56)</option>
+            </select>
+          </div>
+        </div>
+
+        {visibleFields.map(field => (
+          <div key={field}>
+            <label htmlFor={`col-${field}`} className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+              {FIELD_LABELS[field]}{field === 'balance' && <span className="text-slate-400"> (opcional)</span>}
+            </label>
+            <select
+              id={`col-${field}`}
+              value={mapping.columns[field] ?? ''}
+              onChange={(e) => setColumn(field, e.target.value)}
+              className={selectClasses}
+            >
+              <option value="">— Não mapeado —</option>
+              {columnOptions.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-auto max-h-80 border-b border-slate-200 dark:border-slate-700">
+        <table className="min-w-full text-xs text-left text-slate-600 dark:text-slate-300">
+          <thead className="bg-slate-50 dark:bg-slate-700 sticky top-0">
+            <tr>
+              <th className="px-2 py-2 w-10">#</th>
+              {Array.from({ length: columnCount }, (_, i) => (
+                <th key={i} className={`px-2 py-2 whitespace-nowrap ${fieldByColumn[i] ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-200' : ''}`}>
+                  {columnLetter(i)}{fieldByColumn[i] && ` · ${fieldByColumn[i]}`}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, Math.max(PREVIEW_ROWS, mapping.headerRow + PREVIEW_ROWS)).map((row, rowIndex) => (
+              <tr
+                key={rowIndex}
+                className={`border-t border-slate-100 dark:border-slate-700 ${rowIndex === mapping.headerRow ? 'font-bold bg-slate-100 dark:bg-slate-700/60' : rowIndex < mapping.headerRow ? 'opacity-40' : ''}`}
+              >
+                <td className="px-2 py-1 text-slate-400">{rowIndex + 1}</td>
+                {Array.from({ length: columnCount }, (_, i) => (
+                  <td key={i} className="px-2 py-1 whitespace-nowrap max-w-[240px] truncate">{formatCell(row[i] ?? null)}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="p-4 sm:p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="text-sm">
+          {mappingError ? (
+            <span className="flex items-center gap-2 text-yellow-700 dark:text-yellow-300">
+              <ExclamationTriangleIcon className="h-5 w-5" /> {mappingError}
+            </span>
+          ) : preview && (
+            <span className="text-slate-600 dark:text-slate-300">
+              <strong>{preview.transactions.length}</strong> transações reconhecidas.
+              {preview.extractionNotes && <span className="text-slate-500 dark:text-slate-400"> {preview.extractionNotes}</span>}
+            </span>
+          )}
+          {bankName && (
+            <label className="mt-2 flex items-center gap-2 text-slate-600 dark:text-slate-300">
+              <input type="checkbox" checked={rememberForBank} onChange={(e) => setRememberForBank(e.target.checked)} />
+              Salvar este mapeamento para {bankName}
+            </label>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md shadow-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={() => onConfirm(mapping, rememberForBank)}
+            disabled={!!mappingError || !preview || preview.transactions.length === 0}
+            className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Importar Transações
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,3 +1,5 @@
+import { DocumentType } from './types';
+
 export const INVESTMENT_OPERATION_TYPES = [
   'Aplicação',
   'Resgate',
@@ -5,9 +7,14 @@ export const INVESTMENT_OPERATION_TYPES = [
   'Come-cotas',
   'Amortização',
   'Transferência',
+  'Compra',
+  'Venda',
   'Outro',
 ] as const;
 
+// Linhas extraídas com confiança abaixo disso são destacadas para revisão
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
 export const TRANSACTION_CATEGORIES = [
   "Não categorizado",
   "Receita de Vendas",
@@ -53,3 +60,33 @@ export const BRAZILIAN_BANKS = [
   "Sicredi - Sistema de Crédito Cooperativo",
   "Outro",
 ];
+
+// Códigos COMPE dos bancos (usados em OFX/CNAB) → nome em BRAZILIAN_BANKS
+export const BANK_CODES: Record<string, string> = {
+  "001": "Banco do Brasil S.A.",
+  "104": "Caixa Econômica Federal",
+  "341": "Itaú Unibanco S.A.",
+  "237": "Banco Bradesco S.A.",
+  "033": "Banco Santander (Brasil) S.A.",
+  "208": "BTG Pactual S.A.",
+  "422": "Banco Safra S.A.",
+  "655": "Banco Votorantim S.A.",
+  "260": "Nu Pagamentos S.A. - Nubank",
+  "077": "Banco Inter S.A.",
+  "336": "Banco C6 S.A.",
+  "212": "Banco Original S.A.",
+  "102": "XP Investimentos",
+  "735": "Banco Neon S.A.",
+  "290": "PagSeguro Internet S.A.",
+  "323": "Mercado Pago",
+  "756": "Sicoob - Sistema de Cooperativas de Crédito do Brasil",
+  "748": "Sicredi - Sistema de Crédito Cooperativo",
+};
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  bank: 'Extrato Bancário',
+  investment: 'Extrato de Cotista',
+  cnab: 'Retorno CNAB',
+  card: 'Fatura de Cartão',
+  brokerage: 'Nota de Corretagem',
+};
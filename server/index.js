@@ -0,0 +1,225 @@
+/**
+ * Servidor da aplicação: entrega o build do Vite (dist/) e faz a ponte com o
+ * Gemini, de modo que a GEMINI_API_KEY fica só no servidor e nunca chega ao navegador.
+ * Os prompts e schemas são montados aqui (server/prompts.js): o cliente manda só
+ * o documento e dados estruturados, nunca texto livre de prompt.
+ *
+ *   POST /api/extract/:task     { parts: PDF/JPEG/PNG, context }   task = bank | investment | card | brokerage | classification | categorization
+ *   POST /api/suggest/date      { invalidDate }
+ *   POST /api/suggest/category  { description, currentCategory, categories, corrections? }
+ *
+ * Variáveis de ambiente: GEMINI_API_KEY, PORT (8080), MAX_UPLOAD_MB (25),
+ * RATE_LIMIT_PER_MINUTE (60 requisições à /api por IP), TRUST_PROXY (1 atrás de
+ * Cloud Run ou outro proxy reverso: o IP do cliente vem do X-Forwarded-For).
+ */
+import { createServer } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import { extname, join, normalize, resolve, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { GoogleGenAI } from '@google/genai';
+import { GEMINI_LIGHT_MODEL, GEMINI_MODEL } from './models.js';
+import { EXTRACTION_TASKS, PromptInputError, buildCategoryPrompt, buildDateCorrectionPrompt, buildExtractionRequest, normalizePromptContext } from './prompts.js';
+
+const PORT = Number(process.env.PORT) || 8080;
+const MAX_UPLOAD_BYTES = (Number(process.env.MAX_UPLOAD_MB) || 25) * 1024 * 1024;
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 60;
+const TRUST_PROXY = /^(1|true)$/i.test(process.env.TRUST_PROXY ?? '');
+const DIST_DIR = resolve(fileURLToPath(new URL('.', import.meta.url)), '../dist');
+
+const ALLOWED_MIME_TYPES = new Set(['application/pdf', 'image/jpeg', 'image/png']);
+const MAX_PARTS = 80;
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+const MIME_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+};
+
+const apiKey = process.env.GEMINI_API_KEY;
+const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+if (!ai) {
+  console.warn('GEMINI_API_KEY não definida: as rotas /api responderão 503.');
+}
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+/** Reads the JSON body, refusing it as soon as it passes the upload limit. */
+const readJsonBody = async req => {
+  const declared = Number(req.headers['content-length']);
+  if (declared > MAX_UPLOAD_BYTES) {
+    throw new HttpError(413, `Arquivo grande demais para o servidor (limite de ${MAX_UPLOAD_BYTES / 1024 / 1024} MB).`);
+  }
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_UPLOAD_BYTES) {
+      // Sem Content-Length o limite só é visto durante a leitura; sair do laço encerra a conexão
+      throw new HttpError(413, `Arquivo grande demais para o servidor (limite de ${MAX_UPLOAD_BYTES / 1024 / 1024} MB).`);
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Corpo da requisição não é um JSON válido.');
+  }
+};
+
+// Janela fixa por IP: limita o uso da chave por quem alcança o servidor
+const requestCounts = new Map();
+
+/** Behind a proxy every request comes from the proxy's address; the client is the first X-Forwarded-For entry. */
+const clientIp = req => {
+  const forwarded = TRUST_PROXY ? String(req.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+  return forwarded || (req.socket.remoteAddress ?? 'unknown');
+};
+
+const checkRateLimit = req => {
+  const now = Date.now();
+  const ip = clientIp(req);
+  if (requestCounts.size > 10_000) {
+    for (const [key, entry] of requestCounts) {
+      if (now - entry.windowStart >= RATE_LIMIT_WINDOW_MS) requestCounts.delete(key);
+    }
+  }
+  const entry = requestCounts.get(ip);
+  if (!entry || now - entry.windowStart >= RATE_LIMIT_WINDOW_MS) {
+    requestCounts.set(ip, { windowStart: now, count: 1 });
+    return;
+  }
+  if (++entry.count > RATE_LIMIT_PER_MINUTE) {
+    throw new HttpError(429, 'Muitas requisições ao servidor. Aguarde um minuto e tente novamente.');
+  }
+};
+
+/** Only document data (PDF or page images) is accepted; the prompt text is built on the server. */
+const validateDocumentParts = (parts, required) => {
+  if (!Array.isArray(parts) || parts.length > MAX_PARTS || (required && parts.length === 0)) {
+    throw new HttpError(400, required ? `A requisição deve ter entre 1 e ${MAX_PARTS} partes.` : `A requisição aceita no máximo ${MAX_PARTS} partes.`);
+  }
+  return parts.map(part => {
+    const { mimeType, data } = part?.inlineData ?? {};
+    if (part?.text !== undefined || typeof data !== 'string' || !ALLOWED_MIME_TYPES.has(mimeType)) {
+      throw new HttpError(400, 'Parte inválida: envie apenas PDF, JPEG ou PNG.');
+    }
+    return { inlineData: { mimeType, data } };
+  });
+};
+
+/** Runs a prompt builder, turning missing or invalid input into a 400. */
+const buildPrompt = build => {
+  try {
+    return build();
+  } catch (error) {
+    if (error instanceof PromptInputError) throw new HttpError(400, error.message);
+    throw error;
+  }
+};
+
+const requireAi = () => {
+  if (!ai) throw new HttpError(503, 'A chave GEMINI_API_KEY não está configurada no servidor.');
+  return ai;
+};
+
+const generateText = async (prompt, temperature) => {
+  const response = await requireAi().models.generateContent({
+    model: GEMINI_MODEL,
+    contents: prompt,
+    config: { temperature, stopSequences: ['\n'] },
+  });
+  return (response.text ?? '').trim();
+};
+
+const handleExtract = async (task, body) => {
+  if (!EXTRACTION_TASKS.includes(task)) throw new HttpError(404, `Tipo de extração desconhecido: ${task}.`);
+  if (body.schema !== undefined || body.prompt !== undefined) {
+    throw new HttpError(400, 'Prompt e schema são definidos pelo servidor; envie apenas o documento e o contexto.');
+  }
+  // A recategorização trabalha só com as linhas do contexto; as demais tarefas exigem o documento
+  const parts = validateDocumentParts(body.parts ?? [], task !== 'categorization');
+  const { prompt, schema, tier, temperature, maxOutputTokens } = buildPrompt(() => buildExtractionRequest(task, normalizePromptContext(body.context)));
+
+  const response = await requireAi().models.generateContent({
+    model: tier === 'light' ? GEMINI_LIGHT_MODEL : GEMINI_MODEL,
+    contents: { parts: [{ text: prompt }, ...parts] },
+    config: { responseMimeType: 'application/json', responseSchema: schema, temperature, maxOutputTokens },
+  });
+  return { text: response.text ?? '' };
+};
+
+const handleSuggestDate = async body => ({ text: await generateText(buildPrompt(() => buildDateCorrectionPrompt(body)), 0) });
+
+const handleSuggestCategory = async body => ({ text: await generateText(buildPrompt(() => buildCategoryPrompt(body)), 0.1) });
+
+const handleApi = async (req, res, pathname) => {
+  if (req.method !== 'POST') throw new HttpError(405, 'Use POST.');
+  checkRateLimit(req);
+  const body = await readJsonBody(req);
+  if (!body || typeof body !== 'object') throw new HttpError(400, 'Corpo da requisição deve ser um objeto JSON.');
+
+  const extract = pathname.match(/^\/api\/extract\/([a-z]+)$/);
+  if (extract) return sendJson(res, 200, await handleExtract(extract[1], body));
+  if (pathname === '/api/suggest/date') return sendJson(res, 200, await handleSuggestDate(body));
+  if (pathname === '/api/suggest/category') return sendJson(res, 200, await handleSuggestCategory(body));
+  throw new HttpError(404, 'Rota não encontrada.');
+};
+
+/** Serves the built SPA; unknown paths fall back to index.html. */
+const serveStatic = async (res, pathname) => {
+  let decoded;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    throw new HttpError(400, 'Endereço inválido.');
+  }
+  const requested = normalize(join(DIST_DIR, decoded));
+  const insideDist = requested.startsWith(DIST_DIR + sep);
+  const isFile = insideDist && await stat(requested).then(s => s.isFile(), () => false);
+  const filePath = isFile ? requested : join(DIST_DIR, 'index.html');
+  try {
+    const content = await readFile(filePath);
+    res.writeHead(200, { 'Content-Type': MIME_TYPES[extname(filePath)] ?? 'application/octet-stream' });
+    res.end(content);
+  } catch {
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end('Build não encontrado. Rode "npm run build" antes de iniciar o servidor.');
+  }
+};
+
+createServer(async (req, res) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  try {
+    if (pathname.startsWith('/api/')) {
+      await handleApi(req, res, pathname);
+    } else {
+      await serveStatic(res, pathname);
+    }
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 502;
+    if (status === 429) res.setHeader('Retry-After', String(RATE_LIMIT_WINDOW_MS / 1000));
+    if (!(error instanceof HttpError)) console.error(`[${pathname}]`, error);
+    if (!res.headersSent) {
+      sendJson(res, status, { error: error instanceof Error ? error.message : 'Erro desconhecido.' });
+    }
+  }
+}).listen(PORT, '0.0.0.0', () => {
+  console.log(`Servidor em http://0.0.0.0:${PORT} (limite de upload: ${MAX_UPLOAD_BYTES / 1024 / 1024} MB)`);
+});
@@ -0,0 +1,10 @@
+/**
+ * Modelos do Gemini usados pelo servidor. O provedor Gemini do navegador
+ * importa o mesmo valor para a chave do cache de extração: trocar o modelo aqui
+ * invalida os resultados guardados com o anterior.
+ */
+
+// Modelo atualizado para 2.5-flash (mais rápido e preciso)
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+// Modelo mais barato para tarefas curtas (classificação do documento)
+export const GEMINI_LIGHT_MODEL = 'gemini-2.5-flash-lite';
@@ -0,0 +1,473 @@
+/**
+ * Prompts e schemas de resposta de cada tarefa de extração. Ficam só aqui: o
+ * servidor monta com eles as chamadas ao Gemini e o provedor local (compatível
+ * com OpenAI) os importa no navegador. O cliente manda apenas o documento e um
+ * contexto estruturado (categorias, correções, contas, páginas, linhas), que
+ * `normalizePromptContext` filtra e limita antes de entrar no prompt.
+ *
+ * Ao alterar um prompt ou schema, incremente EXTRACTION_PROMPT_VERSIONS em
+ * services/geminiService.ts para que os resultados em cache sejam extraídos de novo.
+ */
+import { Type } from '@google/genai';
+
+export const EXTRACTION_TASKS = ['bank', 'investment', 'card', 'brokerage', 'classification', 'categorization'];
+
+const MAX_CATEGORIES = 300;
+const MAX_CORRECTIONS = 20;
+const MAX_ACCOUNTS = 400;
+const MAX_CATEGORIZATION_ROWS = 40;
+const MAX_FIELD_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_PAGES = 5000;
+const MAX_OUTPUT_TOKENS = 65536;
+
+/** Contexto ou pedido que não pode virar prompt (campo obrigatório ausente). */
+export class PromptInputError extends Error {}
+
+// Texto do cliente vira uma linha curta: sem quebras que imitem seções do prompt
+const text = (value, max = MAX_FIELD_LENGTH) => String(value ?? '').replace(/\s+/g, ' ').trim().slice(0, max);
+const list = (value, max, mapItem) => Array.isArray(value) ? value.slice(0, max).map(mapItem) : [];
+const amount = value => Number.isFinite(Number(value)) ? Math.abs(Number(value)) : 0;
+const pageNumber = value => Number.isInteger(value) && value >= 1 && value <= MAX_PAGES ? value : null;
+
+const normalizePages = pages => {
+  const startPage = pageNumber(pages?.startPage);
+  const endPage = pageNumber(pages?.endPage);
+  const totalPages = pageNumber(pages?.totalPages);
+  if (!startPage || !endPage || !totalPages || startPage > endPage || endPage > totalPages) return null;
+  return { startPage, endPage, totalPages };
+};
+
+const correctionValues = values => ({
+  category: text(values?.category),
+  accountDebit: text(values?.accountDebit),
+  accountCredit: text(values?.accountCredit),
+});
+
+/** Keeps only the known fields of the client's context, with bounded counts and lengths. */
+export const normalizePromptContext = context => ({
+  categories: list(context?.categories, MAX_CATEGORIES, c => text(c)).filter(Boolean),
+  corrections: list(context?.corrections, MAX_CORRECTIONS, c => ({
+    descriptionPattern: text(c?.descriptionPattern),
+    cnpj: String(c?.cnpj ?? '').replace(/\D/g, '').slice(0, 14),
+    original: correctionValues(c?.original),
+    corrected: correctionValues(c?.corrected),
+  })).filter(c => c.descriptionPattern),
+  accounts: list(context?.accounts, MAX_ACCOUNTS, a => ({
+    code: text(a?.code, 40),
+    reducedCode: text(a?.reducedCode, 20),
+    description: text(a?.description),
+    nature: a?.nature === 'devedora' || a?.nature === 'credora' ? a.nature : '',
+  })).filter(a => a.code),
+  pages: normalizePages(context?.pages),
+  rows: list(context?.rows, MAX_CATEGORIZATION_ROWS, r => ({
+    description: text(r?.description, MAX_DESCRIPTION_LENGTH),
+    debit: amount(r?.debit),
+    credit: amount(r?.credit),
+    companyName: text(r?.companyName),
+    category: text(r?.category),
+  })),
+});
+
+// ─── Contexto da empresa ─────────────────────────────────────────────────────
+
+const formatCnpj = cnpj => cnpj.length === 14
+  ? cnpj.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5')
+  : cnpj;
+
+const describeChange = (field, original, corrected) =>
+  corrected && corrected !== original ? `${field} "${corrected}"${original ? ` (não "${original}")` : ''}` : '';
+
+/** Prompt block with the accountant's corrections as examples; empty when there are none. */
+const formatCorrectionExamples = corrections => {
+  const lines = corrections.flatMap(({ descriptionPattern, cnpj, original, corrected }) => {
+    const changes = [
+      describeChange('categoria', original.category, corrected.category),
+      describeChange('conta débito', original.accountDebit, corrected.accountDebit),
+      describeChange('conta crédito', original.accountCredit, corrected.accountCredit),
+    ].filter(Boolean).join('; ');
+    return changes ? [`- "${descriptionPattern}"${cnpj ? ` (CNPJ ${formatCnpj(cnpj)})` : ''}: ${changes}`] : [];
+  });
+  if (lines.length === 0) return '';
+  return `CORREÇÕES DO CONTADOR DESTA EMPRESA (siga o mesmo critério em transações parecidas):\n${lines.join('\n')}`;
+};
+
+/** Prompt block with the company's analytic accounts; empty without a chart. */
+const formatChartOfAccounts = accounts => {
+  if (accounts.length === 0) return '';
+  const lines = accounts.map(a => `- ${a.code} - ${a.description}${a.nature ? ` (${a.nature})` : ''}`);
+  return `PLANO DE CONTAS DA EMPRESA (preencha accountDebit e accountCredit só com o código de uma destas contas analíticas; vazio se nenhuma servir):\n${lines.join('\n')}`;
+};
+
+const requireCategories = context => {
+  if (context.categories.length === 0) throw new PromptInputError('Lista de categorias ausente.');
+  return context.categories;
+};
+
+/** Appends the company's categories and learned corrections (few-shot examples) to a prompt. */
+const withCompanyContext = (prompt, context) => [
+  prompt,
+  `CATEGORIAS (use exatamente um destes nomes, com o caminho completo): ${requireCategories(context).join(' | ')}`,
+  formatCorrectionExamples(context.corrections),
+].filter(Boolean).join('\n\n');
+
+// ─── Extrato bancário ────────────────────────────────────────────────────────
+
+const responseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    transactions: {
+      type: Type.ARRAY,
+      description: "Lista de transações financeiras do documento.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          date: { type: Type.STRING, description: 'Data: AAAA-MM-DD. Inferir ano se ausente.' },
+          description: { type: Type.STRING, description: 'Descrição completa da transação.' },
+          debit: { type: Type.NUMBER, description: 'Débito (saída). Positivo. 0 se crédito.' },
+          credit: { type: Type.NUMBER, description: 'Crédito (entrada). Positivo. 0 se débito.' },
+          companyName: { type: Type.STRING, description: 'Nome da empresa. Vazio se não houver.' },
+          cnpj: { type: Type.STRING, description: 'CNPJ (só números). Vazio se não houver.' },
+          category: { type: Type.STRING, description: 'Categoria: um dos nomes da lista CATEGORIAS do prompt.' },
+          isUnusual: { type: Type.BOOLEAN, description: "true se transação anômala." },
+          unusualReason: { type: Type.STRING, description: "Motivo se incomum (max 50 chars). Vazio se normal." },
+          accountDebit: { type: Type.STRING, description: "Conta débito: código do PLANO DE CONTAS do prompt, se houver; senão um nome (ex: 'Bancos'). Vazio se incerto." },
+          accountCredit: { type: Type.STRING, description: "Conta crédito: código do PLANO DE CONTAS do prompt, se houver; senão um nome (ex: 'Fornecedores'). Vazio se incerto." },
+          accountingHistory: { type: Type.STRING, description: "Histórico contábil curto (ex: 'PAGTO FORNEC X')." },
+          confidence: { type: Type.NUMBER, description: 'Confiança na leitura desta linha, de 0 a 1. Abaixo de 0.7 se algum valor, data ou texto estiver ilegível ou ambíguo.' },
+          sourcePage: { type: Type.NUMBER, description: 'Número da página do documento (1-based) onde a linha aparece.' },
+          sourceLine: { type: Type.STRING, description: 'A linha original exatamente como impressa (max 150 chars).' },
+          printedBalance: { type: Type.NUMBER, description: 'Saldo impresso na linha, após a transação (ou saldo do dia na última transação do dia). Negativo se devedor. Omitir se a linha não mostra saldo.' }
+        },
+        required: ['date', 'description', 'debit', 'credit', 'companyName', 'cnpj', 'category', 'isUnusual', 'unusualReason', 'accountDebit', 'accountCredit', 'accountingHistory', 'confidence', 'sourcePage', 'sourceLine']
+      }
+    },
+    openingBalance: { type: Type.NUMBER, description: "Saldo anterior (saldo inicial antes da primeira transação). Negativo se devedor. Omitir se não encontrado." },
+    finalBalance: { type: Type.NUMBER, description: "Saldo final do extrato. Omitir se não encontrado." },
+    bankName: { type: Type.STRING, description: "Nome do banco. Omitir se não encontrado." },
+    accountHolderCNPJ: { type: Type.STRING, description: "CNPJ do titular (só números). Omitir se não encontrado." }
+  },
+  required: ['transactions']
+};
+
+
+const PROMPT_TEXT = `Analise o extrato bancário em PDF. Extraia TODAS as transações com: data (AAAA-MM-DD), descrição, débito ou crédito, empresa, CNPJ. Extraia banco e CNPJ do titular.
+SALDOS: openingBalance = "SALDO ANTERIOR" do início do período (não é transação, não inclua na lista). finalBalance = saldo final.
+Linhas "SALDO DO DIA" não são transações: informe o valor em printedBalance da última transação daquele dia. Se o extrato tiver coluna de saldo por linha, informe-o em printedBalance.
+
+VALORES: Débito=saída (negativo/coluna saída), Crédito=entrada (positivo/coluna entrada). Sempre números positivos absolutos.
+CONTABILIDADE: Infira accountDebit, accountCredit e accountingHistory em CAIXA ALTA. Se o prompt trouxer o PLANO DE CONTAS da empresa, use só códigos de contas analíticas dele; senão, nomes genéricos (Bancos, Fornecedores).
+ANOMALIAS: isUnusual=true se valor extremo, descrição vaga, duplicada ou suspeita.
+ORIGEM: sourcePage = página da linha; sourceLine = linha impressa original; confidence = sua confiança (0 a 1) na leitura da linha.
+CONCISÃO: Campos inexistentes = "". Descrições curtas. Motivos de anomalia máx 50 chars.`;
+
+const buildBankPrompt = context => {
+  const prompt = [withCompanyContext(PROMPT_TEXT, context), formatChartOfAccounts(context.accounts)].filter(Boolean).join('\n\n');
+  if (!context.pages) return prompt;
+  const { startPage, endPage, totalPages } = context.pages;
+  return `${prompt}
+
+TRECHO: as imagens são as páginas ${startPage} a ${endPage} (de ${totalPages}) do extrato, em ordem. Extraia apenas as transações destas páginas.
+Em sourcePage use o número da página no documento completo (a primeira imagem é a página ${startPage}).
+Informe openingBalance somente se o "SALDO ANTERIOR" do início do extrato aparecer neste trecho. Informe finalBalance somente se o saldo final do extrato aparecer neste trecho.`;
+};
+
+// ─── Classificação do documento ──────────────────────────────────────────────
+
+const classificationSchema = {
+  type: Type.OBJECT,
+  properties: {
+    documentType: { type: Type.STRING, enum: ['bank', 'investment', 'card', 'brokerage', 'unsupported'], description: "bank = extrato de conta corrente; investment = extrato de cotista de fundos; card = fatura de cartão de crédito; brokerage = nota de corretagem; unsupported = qualquer outro documento." },
+    label: { type: Type.STRING, description: "Nome curto do documento em português, ex.: 'Extrato bancário', 'Nota fiscal', 'Holerite'." },
+    confidence: { type: Type.NUMBER, description: "Confiança de 0 a 1." },
+    reason: { type: Type.STRING, description: "Justificativa curta." },
+  },
+  required: ['documentType', 'label', 'confidence'],
+};
+
+
+const CLASSIFICATION_PROMPT = `Classifique o documento pelas primeiras páginas. Tipos suportados: extrato bancário de conta corrente (bank), extrato de cotista de fundos de investimento (investment), fatura de cartão de crédito (card) e nota de corretagem da B3 (brokerage). Qualquer outro documento (nota fiscal, holerite, boleto, contrato...) é unsupported.`;
+
+// ─── Recategorização em lote ─────────────────────────────────────────────────
+
+const buildCategorizationSchema = categories => ({
+  type: Type.OBJECT,
+  properties: {
+    suggestions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          index: { type: Type.INTEGER, description: "Número da linha na lista enviada." },
+          category: { type: Type.STRING, enum: [...categories] },
+          justification: { type: Type.STRING, description: "Justificativa curta (até 15 palavras)." },
+        },
+        required: ['index', 'category', 'justification'],
+      },
+    },
+  },
+  required: ['suggestions'],
+});
+
+const formatAmount = value => value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const buildCategorizationPrompt = context => {
+  if (context.rows.length === 0) throw new PromptInputError('Nenhuma transação para categorizar.');
+  const lines = context.rows.map((row, index) => {
+    const amount = row.debit > 0 ? `débito ${formatAmount(row.debit)}` : `crédito ${formatAmount(row.credit)}`;
+    return `${index}. "${row.description}" | ${amount}${row.companyName ? ` | ${row.companyName}` : ''} | atual: ${row.category}`;
+  });
+  const prompt = `Classifique cada transação bancária em uma das CATEGORIAS abaixo.
+Para cada linha devolva o número, a categoria e uma justificativa curta. Mantenha a categoria atual quando ela já estiver correta.`;
+  return `${withCompanyContext(prompt, context)}\n\n${lines.join('\n')}`;
+};
+
+// ─── Extrato de Cotista ──────────────────────────────────────────────────────
+
+const investmentResponseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    investmentTransactions: {
+      type: Type.ARRAY,
+      description: "Lista de movimentações em fundos de investimento do Extrato de Cotista.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          date: { type: Type.STRING, description: 'Data da operação: AAAA-MM-DD.' },
+          fundName: { type: Type.STRING, description: 'Nome completo do fundo de investimento.' },
+          fundCNPJ: { type: Type.STRING, description: 'CNPJ do fundo (somente dígitos, sem pontuação). Vazio se não encontrado.' },
+          operationType: { type: Type.STRING, description: 'Tipo de operação. Valores permitidos: Aplicação, Resgate, Rendimento, Come-cotas, Amortização, Transferência, Outro.' },
+          shareQuantity: { type: Type.NUMBER, description: 'Quantidade de cotas movimentadas. Use valor absoluto positivo. 0 se não informado.' },
+          shareValue: { type: Type.NUMBER, description: 'Valor unitário da cota na data da operação. 0 se não informado.' },
+          grossValue: { type: Type.NUMBER, description: 'Valor bruto da operação em reais. Sempre positivo (absoluto). 0 se não informado.' },
+          irWithheld: { type: Type.NUMBER, description: 'Imposto de Renda retido na fonte em reais. 0 se não houve retenção.' },
+          netValue: { type: Type.NUMBER, description: 'Valor líquido recebido/pago em reais (grossValue - irWithheld). 0 se não informado.' },
+          administrator: { type: Type.STRING, description: 'Nome do administrador do fundo. Vazio se não informado.' },
+          gestor: { type: Type.STRING, description: 'Nome do gestor do fundo. Vazio se não informado.' },
+          isUnusual: { type: Type.BOOLEAN, description: 'true se a operação for anômala.' },
+          unusualReason: { type: Type.STRING, description: 'Motivo da anomalia em até 50 caracteres. Vazio se normal.' },
+          confidence: { type: Type.NUMBER, description: 'Confiança na leitura desta linha, de 0 a 1. Abaixo de 0.7 se algum valor, data ou texto estiver ilegível ou ambíguo.' },
+          sourcePage: { type: Type.NUMBER, description: 'Número da página do documento (1-based) onde a linha aparece.' },
+          sourceLine: { type: Type.STRING, description: 'A linha original exatamente como impressa (max 150 chars).' }
+        },
+        required: ['date', 'fundName', 'fundCNPJ', 'operationType', 'shareQuantity', 'shareValue', 'grossValue', 'irWithheld', 'netValue', 'administrator', 'gestor', 'isUnusual', 'unusualReason', 'confidence', 'sourcePage', 'sourceLine']
+      }
+    },
+    cotistaNome: { type: Type.STRING, description: 'Nome do cotista. Omitir se não encontrado.' },
+    cotistaCNPJ: { type: Type.STRING, description: 'CNPJ ou CPF do cotista (somente dígitos). Omitir se não encontrado.' },
+    bankName: { type: Type.STRING, description: 'Nome da corretora/banco. Omitir se não encontrado.' },
+    periodStart: { type: Type.STRING, description: 'Data de início do período: AAAA-MM-DD. Omitir se não encontrado.' },
+    periodEnd: { type: Type.STRING, description: 'Data de fim do período: AAAA-MM-DD. Omitir se não encontrado.' },
+    totalPagesInDocument: { type: Type.NUMBER, description: 'Número total de páginas identificadas no documento.' },
+    pagesProcessed: { type: Type.NUMBER, description: 'Número de páginas efetivamente processadas.' },
+    isExtractionComplete: { type: Type.BOOLEAN, description: 'true se todas as movimentações foram extraídas.' },
+    extractionNotes: { type: Type.STRING, description: 'Notas sobre a extração.' },
+  },
+  required: ['investmentTransactions']
+};
+
+
+const INVESTMENT_PROMPT_TEXT = `Você está analisando um PDF de "Extrato de Cotista" de fundos de investimento da XP Investimentos (ou similar).
+
+OBJETIVO: Extrair TODAS as movimentações em fundos de investimento listadas no documento, sem exceção.
+
+INSTRUÇÕES DE EXTRAÇÃO:
+1. Para cada movimentação extraia:
+ - DATA (formato AAAA-MM-DD)
+ - NOME DO FUNDO (nome completo como aparece no extrato)
+ - CNPJ DO FUNDO (somente dígitos, 14 números)
+ - TIPO DE OPERAÇÃO: classifique como um destes: Aplicação, Resgate, Rendimento, Come-cotas, Amortização, Transferência, Outro
+ - QUANTIDADE DE COTAS movimentadas (número decimal)
+ - VALOR DA COTA (preço unitário da cota na data)
+ - VALOR BRUTO da operação em R$ (sempre positivo)
+ - IR RETIDO NA FONTE em R$ (0 se não houver)
+ - VALOR LÍQUIDO = valor após desconto de IR
+
+2. DADOS DO EXTRATO: Nome/CNPJ do cotista, nome da corretora, período coberto.
+
+3. ANOMALIAS: marque isUnusual=true se valor discrepante, come-cotas zerado ou data fora do período.
+ ORIGEM: informe a página (sourcePage), a linha impressa original (sourceLine) e sua confiança na leitura de 0 a 1 (confidence).
+
+4. **REGRA CRÍTICA**: Extraia TODAS as páginas. NÃO resuma, NÃO pule linhas.
+
+5. **Verificação de Páginas**: Reporte totalPagesInDocument, pagesProcessed e isExtractionComplete.
+
+ATENÇÃO: Se o limite de tokens for atingido, termine o último objeto e feche o JSON corretamente.`;
+
+
+// ─── Nota de Corretagem (SINACOR) ────────────────────────────────────────────
+
+const brokerageFeesSchema = {
+  type: Type.OBJECT,
+  properties: {
+    settlementFee: { type: Type.NUMBER, description: 'Taxa de liquidação. 0 se ausente.' },
+    registrationFee: { type: Type.NUMBER, description: 'Taxa de registro. 0 se ausente.' },
+    emoluments: { type: Type.NUMBER, description: 'Emolumentos. 0 se ausente.' },
+    brokerage: { type: Type.NUMBER, description: 'Corretagem ou taxa operacional. 0 se ausente.' },
+    iss: { type: Type.NUMBER, description: 'ISS. 0 se ausente.' },
+    otherFees: { type: Type.NUMBER, description: 'Soma das demais taxas e custos (termo/opções, A.N.A., impostos, outras). 0 se ausente.' },
+    irrf: { type: Type.NUMBER, description: 'I.R.R.F. s/ operações ("dedo-duro"). 0 se ausente.' },
+  },
+  required: ['settlementFee', 'registrationFee', 'emoluments', 'brokerage', 'iss', 'otherFees', 'irrf']
+};
+
+
+const brokerageResponseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    brokerName: { type: Type.STRING, description: 'Nome da corretora. Omitir se não encontrado.' },
+    clientName: { type: Type.STRING, description: 'Nome do cliente. Omitir se não encontrado.' },
+    clientCNPJ: { type: Type.STRING, description: 'CNPJ ou CPF do cliente (somente dígitos). Omitir se não encontrado.' },
+    brokerageNotes: {
+      type: Type.ARRAY,
+      description: 'Uma entrada por nota de corretagem do documento.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          noteNumber: { type: Type.STRING, description: 'Número da nota.' },
+          tradeDate: { type: Type.STRING, description: 'Data do pregão: AAAA-MM-DD.' },
+          settlementDate: { type: Type.STRING, description: 'Data do "Líquido para": AAAA-MM-DD.' },
+          trades: {
+            type: Type.ARRAY,
+            description: 'Negócios realizados, na ordem da nota.',
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                ticker: { type: Type.STRING, description: 'Código de negociação (ex.: PETR4, HGLG11). Deduza da especificação se não impresso.' },
+                specification: { type: Type.STRING, description: 'Especificação do título como impressa.' },
+                market: { type: Type.STRING, description: 'Tipo de mercado: VISTA, FRACIONARIO, OPCAO DE COMPRA...' },
+                side: { type: Type.STRING, enum: ['C', 'V'], description: 'C = compra, V = venda.' },
+                quantity: { type: Type.NUMBER, description: 'Quantidade, positiva.' },
+                price: { type: Type.NUMBER, description: 'Preço/ajuste unitário.' },
+                grossValue: { type: Type.NUMBER, description: 'Valor da operação, positivo.' },
+                isDayTrade: { type: Type.BOOLEAN, description: 'true se marcado como day trade ("D" na observação).' },
+              },
+              required: ['ticker', 'specification', 'market', 'side', 'quantity', 'price', 'grossValue', 'isDayTrade']
+            }
+          },
+          fees: brokerageFeesSchema,
+          netTotal: { type: Type.NUMBER, description: 'Valor do "Líquido para": positivo se C (crédito ao cliente), negativo se D (débito).' },
+        },
+        required: ['noteNumber', 'tradeDate', 'settlementDate', 'trades', 'fees', 'netTotal']
+      }
+    },
+    isExtractionComplete: { type: Type.BOOLEAN, description: 'true se todas as notas e negócios foram extraídos.' },
+    extractionNotes: { type: Type.STRING, description: 'Notas sobre a extração.' },
+  },
+  required: ['brokerageNotes']
+};
+
+
+const BROKERAGE_PROMPT_TEXT = `Você está analisando notas de corretagem no padrão SINACOR (B3: ações, FIIs, opções).
+
+OBJETIVO: Extrair TODAS as notas do documento, com todos os negócios e o resumo financeiro de cada uma.
+
+INSTRUÇÕES:
+1. NEGÓCIOS REALIZADOS: para cada linha extraia código de negociação, especificação do título, tipo de mercado, C/V, quantidade, preço e valor da operação.
+2. RESUMO FINANCEIRO: taxa de liquidação, taxa de registro, emolumentos, corretagem/taxa operacional, ISS, demais custos (em otherFees) e I.R.R.F. s/ operações. Todos positivos.
+3. LÍQUIDO: informe o valor do "Líquido para DD/MM/AAAA" com sinal (C = positivo, D = negativo) e a data como settlementDate.
+4. Notas com várias páginas ("CONTINUA...") são UMA nota: junte os negócios e use o resumo da última página.
+5. A soma das vendas - compras - custos - IRRF deve ser igual ao líquido da nota.
+
+ATENÇÃO: Se o limite de tokens for atingido, termine o último objeto e feche o JSON corretamente.`;
+
+
+// ─── Fatura de Cartão de Crédito ─────────────────────────────────────────────
+
+const cardResponseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    issuer: { type: Type.STRING, description: 'Banco emissor do cartão. Omitir se não encontrado.' },
+    cardholderName: { type: Type.STRING, description: 'Nome do titular (empresa). Omitir se não encontrado.' },
+    cardholderCNPJ: { type: Type.STRING, description: 'CNPJ ou CPF do titular (somente dígitos). Omitir se não encontrado.' },
+    closingDate: { type: Type.STRING, description: 'Data de fechamento da fatura: AAAA-MM-DD.' },
+    dueDate: { type: Type.STRING, description: 'Data de vencimento da fatura: AAAA-MM-DD.' },
+    previousBalance: { type: Type.NUMBER, description: 'Total da fatura anterior. 0 se não informado.' },
+    paymentsReceived: { type: Type.NUMBER, description: 'Pagamentos e créditos recebidos referentes à fatura anterior, positivo. 0 se não informado.' },
+    invoiceTotal: { type: Type.NUMBER, description: 'Total a pagar desta fatura.' },
+    cardTransactions: {
+      type: Type.ARRAY,
+      description: "Todos os lançamentos desta fatura (compras, parcelas, tarifas, juros, IOF, estornos).",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          date: { type: Type.STRING, description: 'Data da compra: AAAA-MM-DD.' },
+          description: { type: Type.STRING, description: 'Descrição como impressa, sem o texto da parcela.' },
+          cardLastDigits: { type: Type.STRING, description: 'Final do cartão (4 dígitos) da seção onde o lançamento aparece. Vazio se não houver.' },
+          category: { type: Type.STRING, description: 'Categoria: um dos nomes da lista CATEGORIAS do prompt.' },
+          installmentNumber: { type: Type.NUMBER, description: 'Parcela atual (3 em "03/10"). 0 se não parcelado.' },
+          installmentTotal: { type: Type.NUMBER, description: 'Total de parcelas (10 em "03/10"). 0 se não parcelado.' },
+          amount: { type: Type.NUMBER, description: 'Valor em reais. Negativo para estornos e créditos.' },
+          originalAmount: { type: Type.NUMBER, description: 'Valor na moeda original em compras internacionais. 0 se em reais.' },
+          originalCurrency: { type: Type.STRING, description: 'Moeda original (USD, EUR...). Vazio se em reais.' },
+          exchangeRate: { type: Type.NUMBER, description: 'Cotação usada na conversão. 0 se não informada.' },
+          iof: { type: Type.NUMBER, description: 'IOF impresso junto da compra internacional. 0 se não houver ou se o IOF for um lançamento próprio.' },
+          isUnusual: { type: Type.BOOLEAN, description: 'true se o lançamento for anômalo.' },
+          unusualReason: { type: Type.STRING, description: 'Motivo da anomalia em até 50 caracteres. Vazio se normal.' },
+        },
+        required: ['date', 'description', 'cardLastDigits', 'category', 'installmentNumber', 'installmentTotal', 'amount', 'originalAmount', 'originalCurrency', 'exchangeRate', 'iof', 'isUnusual', 'unusualReason']
+      }
+    },
+    isExtractionComplete: { type: Type.BOOLEAN, description: 'true se todos os lançamentos foram extraídos.' },
+    extractionNotes: { type: Type.STRING, description: 'Notas sobre a extração.' },
+  },
+  required: ['cardTransactions', 'invoiceTotal']
+};
+
+
+const CARD_PROMPT_TEXT = `Você está analisando a fatura de um cartão de crédito empresarial.
+
+OBJETIVO: Extrair TODOS os lançamentos da fatura atual, de todos os cartões (titular e adicionais).
+
+INSTRUÇÕES:
+1. Para cada lançamento: data da compra, descrição, final do cartão, categoria, parcela (ex.: "PARC 03/10" → installmentNumber 3, installmentTotal 10), valor em R$.
+2. COMPRAS INTERNACIONAIS: informe valor e moeda originais e a cotação. Se o IOF aparecer junto da compra, preencha iof; se aparecer como linha própria ("IOF TRANSAÇÃO INTERNACIONAL"), registre-o como lançamento separado com iof = 0.
+3. Estornos, créditos e ajustes a favor do cliente têm valor NEGATIVO.
+4. NÃO inclua o pagamento da fatura anterior nem o saldo anterior como lançamentos: informe-os em paymentsReceived e previousBalance.
+5. NÃO inclua parcelas futuras ("próximas faturas", "lançamentos futuros").
+6. Informe fechamento, vencimento e total a pagar.
+7. A soma dos lançamentos + previousBalance - paymentsReceived deve ser igual ao invoiceTotal.
+
+ATENÇÃO: Se o limite de tokens for atingido, termine o último objeto e feche o JSON corretamente.`;
+
+
+/**
+ * Prompt, schema and model settings of a task. The context must already have
+ * gone through `normalizePromptContext`; missing required fields throw `PromptInputError`.
+ */
+export const buildExtractionRequest = (task, context) => {
+  const extraction = { tier: 'default', temperature: 0.1, maxOutputTokens: MAX_OUTPUT_TOKENS };
+  switch (task) {
+    case 'bank':
+      return { ...extraction, prompt: buildBankPrompt(context), schema: responseSchema };
+    case 'investment':
+      return { ...extraction, prompt: INVESTMENT_PROMPT_TEXT, schema: investmentResponseSchema };
+    case 'card':
+      return { ...extraction, prompt: withCompanyContext(CARD_PROMPT_TEXT, context), schema: cardResponseSchema };
+    case 'brokerage':
+      return { ...extraction, prompt: BROKERAGE_PROMPT_TEXT, schema: brokerageResponseSchema };
+    case 'classification':
+      return { tier: 'light', temperature: 0, maxOutputTokens: 512, prompt: CLASSIFICATION_PROMPT, schema: classificationSchema };
+    case 'categorization':
+      return { tier: 'default', temperature: 0.1, maxOutputTokens: 8192, prompt: buildCategorizationPrompt(context), schema: buildCategorizationSchema(requireCategories(context)) };
+    default:
+      throw new PromptInputError(`Tipo de extração desconhecido: ${task}.`);
+  }
+};
+
+// ─── Sugestões curtas ────────────────────────────────────────────────────────
+
+export const buildDateCorrectionPrompt = input => {
+  const invalidDate = text(input?.invalidDate, 100);
+  if (!invalidDate) throw new PromptInputError('Data ausente.');
+  return `Data incorreta: "${invalidDate}". Corrija para AAAA-MM-DD. Responda só a data.`;
+};
+
+export const buildCategoryPrompt = input => {
+  const description = text(input?.description, MAX_DESCRIPTION_LENGTH);
+  const currentCategory = text(input?.currentCategory);
+  const context = normalizePromptContext({ categories: input?.categories, corrections: input?.corrections });
+  if (!description || context.categories.length === 0) throw new PromptInputError('Descrição ou categorias ausentes.');
+  const examples = formatCorrectionExamples(context.corrections);
+  return `${examples ? `${examples}\n\n` : ''}Transação: "${description}". Categoria atual: "${currentCategory}". Sugira a melhor de: [${context.categories.join(', ')}]. Responda só o nome.`;
+};
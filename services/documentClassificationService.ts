@@ -0,0 +1,55 @@
+import { DocumentClassification } from '../types';
+import { classifyDocument } from './geminiService';
+import { isPdfFile, loadPdfDocument, renderPdfPagesToJpeg } from '../utils/fileUtils';
+import { extractPdfTextLines } from '../utils/pdfTextLayer';
+import { classifyDocumentText } from '../utils/documentClassifier';
+import { isOfxFile } from '../utils/ofxParser';
+import { isSpreadsheetFile } from '../utils/spreadsheetImport';
+
+/** A partir desta confiança a detecção é aceita sem consultar a IA. */
+export const AUTO_ACCEPT_CONFIDENCE = 0.75;
+
+const CLASSIFICATION_PAGES = 2;
+
+export interface DocumentDetectionOptions {
+  password?: string;
+  /** Permite a chamada à IA quando as palavras-chave não são conclusivas. */
+  allowAi?: boolean;
+}
+
+/**
+ * Detects what kind of document a file is before the expensive extraction:
+ * structured formats by extension, PDFs by text-layer keywords and, when those
+ * are not conclusive, by a cheap AI call on the first pages. Returns null when
+ * nothing could be determined.
+ */
+export const detectDocumentType = async (file: File, options: DocumentDetectionOptions = {}): Promise<DocumentClassification | null> => {
+  const { password, allowAi = true } = options;
+
+  if (isOfxFile(file) || isSpreadsheetFile(file)) {
+    return { type: 'bank', label: 'Extrato bancário', confidence: 1, source: 'extension' };
+  }
+  if (!isPdfFile(file)) return null;
+
+  const pdf = await loadPdfDocument(file, password);
+  if (!pdf) return null;
+
+  try {
+    const text = (await extractPdfTextLines(pdf, CLASSIFICATION_PAGES)).map(l => l.text).join('\n');
+    const byKeywords = classifyDocumentText(text);
+    if ((byKeywords && byKeywords.confidence >= AUTO_ACCEPT_CONFIDENCE) || !allowAi) {
+      return byKeywords;
+    }
+
+    try {
+      // Só o documento vai ao servidor: as primeiras páginas como imagens, em baixa resolução
+      const pages = Array.from({ length: Math.min(pdf.numPages, CLASSIFICATION_PAGES) }, (_, i) => i + 1);
+      return await classifyDocument(await renderPdfPagesToJpeg(pdf, pages, 1, 0.6));
+    } catch (error) {
+      console.warn("Falha na classificação do documento pela IA:", error);
+      return byKeywords;
+    }
+  } finally {
+    await pdf.destroy();
+  }
+};
@@ -0,0 +1,59 @@
+import { isPdfFile } from '../utils/fileUtils';
+import { hashFile, hashText, readCachedExtraction, writeCachedExtraction } from '../utils/extractionCache';
+import { EXTRACTION_PROMPT_VERSIONS, CacheableDocumentType, CompanyPromptContext } from './geminiService';
+import { getExtractionProvider } from './extractionProvider';
+
+export interface CachedExtractionOptions<T> {
+  /** Ignora o cache e extrai de novo (botão "Re-extrair"); o novo resultado substitui o anterior. */
+  bypassCache?: boolean;
+  /** Resultados parciais (páginas com falha) não são guardados. */
+  shouldStore?: (result: T) => boolean;
+  /** Empresa e contexto enviados no prompt; correções, categorias ou plano de contas diferentes geram outra chave. */
+  companyCnpj?: string;
+  promptContext?: CompanyPromptContext;
+}
+
+export interface CachedExtractionResult<T> {
+  result: T;
+  /** Data (ISO) da extração original quando o resultado veio do cache. */
+  cachedAt: string | null;
+}
+
+/**
+ * Runs `extract` for a PDF unless the same file was already extracted with the
+ * same provider model, prompt version and company prompt context. Non-PDF imports are local and fast,
+ * and the offline fixture provider has its own recordings, so neither is cached.
+ */
+export const extractWithCache = async <T>(
+  file: File,
+  documentType: CacheableDocumentType,
+  extract: () => Promise<T>,
+  { bypassCache = false, shouldStore = () => true, companyCnpj = '', promptContext }: CachedExtractionOptions<T> = {}
+): Promise<CachedExtractionResult<T>> => {
+  const provider = getExtractionProvider();
+  if (!isPdfFile(file) || provider.id === 'fixture') {
+    return { result: await extract(), cachedAt: null };
+  }
+
+  let key: string | null = null;
+  try {
+    key = `${await hashFile(file)}:${documentType}:${provider.id}:${provider.model}:v${EXTRACTION_PROMPT_VERSIONS[documentType]}`;
+    if (promptContext) {
+      key += `:${companyCnpj.replace(/\D/g, '')}:${await hashText(JSON.stringify(promptContext))}`;
+    }
+    if (!bypassCache) {
+      const cached = await readCachedExtraction<T>(key);
+      if (cached) return { result: cached.result, cachedAt: cached.createdAt };
+    }
+  } catch (error) {
+    // Sem IndexedDB (navegação privada etc.) a extração segue sem cache
+    console.warn("Cache de extração indisponível.", error);
+  }
+
+  const result = await extract();
+  if (key && shouldStore(result)) {
+    writeCachedExtraction({ key, fileName: file.name, createdAt: new Date().toISOString(), result })
+      .catch(error => console.warn("Não foi possível gravar o resultado no cache.", error));
+  }
+  return { result, cachedAt: null };
+};
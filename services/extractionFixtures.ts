@@ -0,0 +1,78 @@
+import { ExtractionTask } from './extractionProvider';
+
+/**
+ * Respostas de exemplo usadas pelo provedor offline quando não há gravação
+ * para o documento. Seguem os schemas do `geminiService`.
+ */
+export const EXTRACTION_FIXTURES: Record<ExtractionTask, object> = {
+  bank: {
+    bankName: 'Banco Exemplo S.A.',
+    accountHolderCNPJ: '11222333000181',
+    openingBalance: 1500,
+    finalBalance: 3237.5,
+    transactions: [
+      { date: '2025-01-02', description: 'PIX RECEBIDO CLIENTE ABC LTDA', debit: 0, credit: 2500, companyName: 'CLIENTE ABC LTDA', cnpj: '11444777000161', category: 'Receita de Vendas', isUnusual: false, unusualReason: '', accountDebit: '', accountCredit: '', accountingHistory: '', confidence: 0.97, sourcePage: 1, sourceLine: '02/01 PIX RECEBIDO CLIENTE ABC LTDA 2.500,00 4.000,00', printedBalance: 4000 },
+      { date: '2025-01-03', description: 'TARIFA PACOTE SERVICOS', debit: 62.5, credit: 0, companyName: '', cnpj: '', category: 'Juros e Despesas Bancárias', isUnusual: false, unusualReason: '', accountDebit: '', accountCredit: '', accountingHistory: '', confidence: 0.95, sourcePage: 1, sourceLine: '03/01 TARIFA PACOTE SERVICOS 62,50- 3.937,50', printedBalance: 3937.5 },
+      { date: '2025-01-06', description: 'PAGTO BOLETO FORNECEDOR XYZ', debit: 700, credit: 0, companyName: 'FORNECEDOR XYZ', cnpj: '', category: 'Fornecedores', isUnusual: false, unusualReason: '', accountDebit: '', accountCredit: '', accountingHistory: '', confidence: 0.55, sourcePage: 1, sourceLine: '06/01 PAGTO BOLETO FORNEC XYZ 7OO,OO- 3.237,50', printedBalance: 3237.5 },
+    ],
+  },
+  investment: {
+    cotistaNome: 'EMPRESA EXEMPLO LTDA',
+    cotistaCNPJ: '11222333000181',
+    bankName: 'XP Investimentos',
+    periodStart: '2025-01-01',
+    periodEnd: '2025-01-31',
+    totalPagesInDocument: 1,
+    pagesProcessed: 1,
+    isExtractionComplete: true,
+    investmentTransactions: [
+      { date: '2025-01-10', fundName: 'FUNDO EXEMPLO RENDA FIXA FIC FI', fundCNPJ: '00000000000191', operationType: 'Aplicação', shareQuantity: 812.345678, shareValue: 12.31, grossValue: 10000, irWithheld: 0, netValue: 10000, administrator: 'Administradora Exemplo', gestor: 'Gestora Exemplo', isUnusual: false, unusualReason: '' },
+      { date: '2025-01-31', fundName: 'FUNDO EXEMPLO RENDA FIXA FIC FI', fundCNPJ: '00000000000191', operationType: 'Resgate', shareQuantity: 200, shareValue: 12.45, grossValue: 2490, irWithheld: 5.25, netValue: 2484.75, administrator: 'Administradora Exemplo', gestor: 'Gestora Exemplo', isUnusual: false, unusualReason: '' },
+    ],
+  },
+  card: {
+    issuer: 'Banco Exemplo',
+    cardholderName: 'EMPRESA EXEMPLO LTDA',
+    cardholderCNPJ: '11222333000181',
+    closingDate: '2025-01-25',
+    dueDate: '2025-02-05',
+    previousBalance: 850,
+    paymentsReceived: 850,
+    invoiceTotal: 1163.4,
+    isExtractionComplete: true,
+    cardTransactions: [
+      { date: '2024-11-10', description: 'LOJA DE INFORMATICA', cardLastDigits: '1234', category: 'Despesas Administrativas', installmentNumber: 3, installmentTotal: 10, amount: 450, originalAmount: 0, originalCurrency: '', exchangeRate: 0, iof: 0, isUnusual: false, unusualReason: '' },
+      { date: '2025-01-15', description: 'SOFTWARE SAAS', cardLastDigits: '1234', category: 'Despesas Administrativas', installmentNumber: 0, installmentTotal: 0, amount: 686.4, originalAmount: 120, originalCurrency: 'USD', exchangeRate: 5.72, iof: 27, isUnusual: false, unusualReason: '' },
+    ],
+  },
+  brokerage: {
+    brokerName: 'Corretora Exemplo',
+    clientName: 'EMPRESA EXEMPLO LTDA',
+    clientCNPJ: '11222333000181',
+    isExtractionComplete: true,
+    brokerageNotes: [
+      {
+        noteNumber: '123456',
+        tradeDate: '2025-01-15',
+        settlementDate: '2025-01-17',
+        trades: [
+          { ticker: 'PETR4', specification: 'PETROBRAS PN N2', market: 'VISTA', side: 'C', quantity: 100, price: 37.5, grossValue: 3750, isDayTrade: false },
+          { ticker: 'HGLG11', specification: 'FII CSHG LOG CI', market: 'VISTA', side: 'V', quantity: 10, price: 160, grossValue: 1600, isDayTrade: false },
+        ],
+        fees: { settlementFee: 1.34, registrationFee: 0, emoluments: 0.27, brokerage: 0, iss: 0, otherFees: 0, irrf: 0.08 },
+        netTotal: -2151.69,
+      },
+    ],
+  },
+  classification: {
+    documentType: 'bank',
+    label: 'Extrato bancário',
+    confidence: 0.9,
+    reason: 'Resposta de exemplo do provedor offline.',
+  },
+  categorization: {
+    suggestions: [
+      { index: 0, category: 'Receita de Vendas', justification: 'Resposta de exemplo do provedor offline.' },
+    ],
+  },
+};
@@ -0,0 +1,135 @@
+/**
+ * Provedores de IA usados na extração de documentos e nas sugestões de
+ * correção. Prompts e schemas ficam em server/prompts.js; o `geminiService`
+ * envia só o documento e o contexto estruturado e cuida da reparação do JSON.
+ * O provedor executa a chamada ao modelo, o que permite trocar o backend
+ * (Gemini, servidor local compatível com OpenAI, fixtures gravadas) em tempo de execução.
+ */
+import { ChartAccount, LearnedCorrection } from '../types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createFixtureProvider, withFixtureRecording } from './fixtureProvider';
+
+/** Documento enviado ao modelo: PDF ou imagem de página, em base64. */
+export type DocumentPart = { inlineData: { mimeType: string; data: string } };
+
+export type ExtractionTask = 'bank' | 'investment' | 'card' | 'brokerage' | 'classification' | 'categorization';
+
+export type PromptCorrection = Pick<LearnedCorrection, 'descriptionPattern' | 'cnpj' | 'original' | 'corrected'>;
+export type PromptAccount = Pick<ChartAccount, 'code' | 'reducedCode' | 'description' | 'nature'>;
+
+/** Linha da recategorização em lote; valores positivos em reais. */
+export interface PromptCategorizationRow {
+  description: string;
+  debit: number;
+  credit: number;
+  companyName: string;
+  category: string;
+}
+
+/** Dados estruturados que o servidor encaixa no prompt da tarefa (ver `normalizePromptContext`). */
+export interface PromptContext {
+  categories?: readonly string[];
+  corrections?: PromptCorrection[];
+  /** Contas analíticas do plano da empresa; só usadas no extrato bancário. */
+  accounts?: PromptAccount[];
+  /** Trecho do extrato bancário enviado como imagens. */
+  pages?: { startPage: number; endPage: number; totalPages: number };
+  rows?: PromptCategorizationRow[];
+}
+
+export interface StructuredRequest {
+  task: ExtractionTask;
+  documents: DocumentPart[];
+  context: PromptContext;
+}
+
+export interface ExtractionProvider {
+  id: ExtractionProviderId;
+  label: string;
+  /** Modelo usado na extração; faz parte da chave do cache de resultados. */
+  model: string;
+  /** Devolve o texto JSON cru da resposta; reparação e validação ficam com o chamador. */
+  generateStructured: (request: StructuredRequest) => Promise<string>;
+  /** Devolve a data no formato AAAA-MM-DD (ou o texto do modelo, validado pelo chamador). */
+  suggestDateCorrection: (invalidDate: string) => Promise<string>;
+  /** `corrections`: correções aprendidas da empresa, usadas como exemplos. */
+  suggestCategory: (description: string, currentCategory: string, categories: readonly string[], corrections?: PromptCorrection[]) => Promise<string>;
+}
+
+export type ExtractionProviderId = 'gemini' | 'openai' | 'fixture';
+
+export const EXTRACTION_PROVIDER_LABELS: Record<ExtractionProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'Servidor local compatível com OpenAI (Ollama / llama.cpp)',
+  fixture: 'Respostas gravadas (offline)',
+};
+
+export interface ProviderSettings {
+  providerId: ExtractionProviderId;
+  openAiBaseUrl: string;
+  openAiModel: string;
+  openAiApiKey: string;
+  /** Grava as respostas do provedor ativo para reproduzi-las depois no modo offline. */
+  recordFixtures: boolean;
+}
+
+const SETTINGS_STORAGE_KEY = 'extractionProviderSettings';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  providerId: 'gemini',
+  openAiBaseUrl: 'http://localhost:11434/v1',
+  openAiModel: 'qwen2.5vl:7b',
+  openAiApiKey: '',
+  recordFixtures: false,
+};
+
+/** `?provider=fixture` na URL força um provedor sem alterar a configuração salva. */
+const readProviderOverride = (): ExtractionProviderId | null => {
+  if (typeof window === 'undefined') return null;
+  const value = new URLSearchParams(window.location.search).get('provider');
+  return value && value in EXTRACTION_PROVIDER_LABELS ? value as ExtractionProviderId : null;
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  let saved: Partial<ProviderSettings> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+  } catch {
+    saved = {};
+  }
+  const settings = { ...DEFAULT_PROVIDER_SETTINGS, ...saved };
+  return { ...settings, providerId: readProviderOverride() ?? settings.providerId };
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  cachedProvider = null;
+};
+
+let cachedProvider: { key: string; provider: ExtractionProvider } | null = null;
+
+const createProvider = (settings: ProviderSettings): ExtractionProvider => {
+  switch (settings.providerId) {
+    case 'openai':
+      return createOpenAiCompatibleProvider({ baseUrl: settings.openAiBaseUrl, model: settings.openAiModel, apiKey: settings.openAiApiKey });
+    case 'fixture':
+      return createFixtureProvider();
+    default:
+      return createGeminiProvider();
+  }
+};
+
+/** Provider for the current settings; created lazily so a missing key only fails on use. */
+export const getExtractionProvider = (): ExtractionProvider => {
+  const settings = loadProviderSettings();
+  const key = JSON.stringify(settings);
+  if (cachedProvider?.key !== key) {
+    const provider = createProvider(settings);
+    cachedProvider = {
+      key,
+      provider: settings.recordFixtures && settings.providerId !== 'fixture' ? withFixtureRecording(provider) : provider,
+    };
+  }
+  return cachedProvider.provider;
+};
@@ -0,0 +1,90 @@
+import { ExtractionProvider, ExtractionTask, StructuredRequest } from './extractionProvider';
+import { EXTRACTION_FIXTURES } from './extractionFixtures';
+
+const RECORDINGS_STORAGE_KEY = 'extractionFixtureRecordings';
+// O localStorage tem poucos MB: mantém só as gravações mais recentes
+const MAX_RECORDINGS = 20;
+
+interface FixtureRecording {
+  task: ExtractionTask;
+  recordedAt: string;
+  response: string;
+}
+
+const readRecordings = (): Record<string, FixtureRecording> => {
+  try {
+    return JSON.parse(localStorage.getItem(RECORDINGS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/** Same document + same context → same key, so a recorded file replays its own response. */
+const recordingKey = async ({ task, documents, context }: StructuredRequest) => {
+  const content = [JSON.stringify(context), ...documents.map(p => `${p.inlineData.mimeType}:${p.inlineData.data}`)].join('\n');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  const hex = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  return `${task}:${hex}`;
+};
+
+const saveRecording = (key: string, recording: FixtureRecording) => {
+  const entries = Object.entries({ ...readRecordings(), [key]: recording })
+    .sort(([, a], [, b]) => b.recordedAt.localeCompare(a.recordedAt))
+    .slice(0, MAX_RECORDINGS);
+  try {
+    localStorage.setItem(RECORDINGS_STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch (error) {
+    console.warn("[Fixture] Não foi possível gravar a resposta (armazenamento cheio?).", error);
+  }
+};
+
+export const countFixtureRecordings = () => Object.keys(readRecordings()).length;
+
+export const clearFixtureRecordings = () => localStorage.removeItem(RECORDINGS_STORAGE_KEY);
+
+/** Wraps a real provider so each structured response is also stored for offline replay. */
+export const withFixtureRecording = (provider: ExtractionProvider): ExtractionProvider => ({
+  ...provider,
+  generateStructured: async (request: StructuredRequest) => {
+    const response = await provider.generateStructured(request);
+    saveRecording(await recordingKey(request), { task: request.task, recordedAt: new Date().toISOString(), response });
+    return response;
+  },
+});
+
+const normalizeDateLocally = (value: string) => {
+  const match = value.trim().match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (!match) return value;
+  const [, day, month, year] = match;
+  return `${year.length === 2 ? `20${year}` : year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+/**
+ * Offline provider for development and tests: replays the response recorded
+ * for the same document, else the latest recording of the task, else the
+ * built-in sample. Suggestions are answered locally.
+ */
+export const createFixtureProvider = (): ExtractionProvider => ({
+  id: 'fixture',
+  label: 'Respostas gravadas (offline)',
+  model: 'fixture',
+  generateStructured: async (request: StructuredRequest) => {
+    const { task } = request;
+    const recordings = readRecordings();
+    const exact = recordings[await recordingKey(request)];
+    if (exact) return exact.response;
+
+    const latest = Object.values(recordings)
+      .filter(r => r.task === task)
+      .sort((a, b) => b.recordedAt.localeCompare(a.recordedAt))[0];
+    if (latest) {
+      console.info(`[Fixture] Sem gravação para este documento; usando a última gravação de "${task}".`);
+      return latest.response;
+    }
+
+    console.info(`[Fixture] Sem gravações de "${task}"; usando a resposta de exemplo.`);
+    return JSON.stringify(EXTRACTION_FIXTURES[task]);
+  },
+  suggestDateCorrection: async invalidDate => normalizeDateLocally(invalidDate),
+  suggestCategory: async (_description, currentCategory) => currentCategory,
+});
@@ -0,0 +1,37 @@
+import { GEMINI_MODEL } from '../server/models.js';
+import { ExtractionProvider, StructuredRequest } from './extractionProvider';
+
+/**
+ * Calls a route of the app server, which holds the GEMINI_API_KEY and talks
+ * to Gemini (see server/index.js). Responses come back as `{ text }`.
+ */
+const postToServer = async (path: string, body: object): Promise<string> => {
+    let response: Response;
+    try {
+        response = await fetch(path, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+    } catch {
+        throw new Error("Não foi possível conectar ao servidor da aplicação. Verifique se ele está em execução.");
+    }
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+        throw new Error(payload?.error || `O servidor respondeu ${response.status}.`);
+    }
+    return payload?.text ?? '';
+};
+
+export const createGeminiProvider = (): ExtractionProvider => ({
+    id: 'gemini',
+    label: 'Google Gemini',
+    // Mesmo modelo do servidor (server/models.js): entra na chave do cache de extração
+    model: GEMINI_MODEL,
+    // Prompt, schema e parâmetros do modelo são definidos pelo servidor a partir da tarefa
+    generateStructured: ({ task, documents, context }: StructuredRequest) =>
+        postToServer(`/api/extract/${task}`, { parts: documents, context }),
+    suggestDateCorrection: invalidDate => postToServer('/api/suggest/date', { invalidDate }),
+    suggestCategory: (description, currentCategory, categories, corrections) =>
+        postToServer('/api/suggest/category', { description, currentCategory, categories, corrections }),
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { GeminiTransactionResponse } from '../types';
+import { buildPageChunks, mergeChunkTransactions } from './geminiService';
+
+type Row = GeminiTransactionResponse['transactions'][number];
+
+const row = (description: string, debit: number, sourcePage?: number, date = '2024-01-10'): Row => ({
+  date,
+  description,
+  debit,
+  credit: 0,
+  companyName: '',
+  cnpj: '',
+  category: 'Não categorizado',
+  isUnusual: false,
+  unusualReason: '',
+  accountDebit: '',
+  accountCredit: '',
+  accountingHistory: '',
+  sourcePage,
+});
+
+describe('buildPageChunks', () => {
+  it('shares one page between consecutive chunks', () => {
+    expect(buildPageChunks(12, 5, 1)).toEqual([
+      { startPage: 1, endPage: 5 },
+      { startPage: 5, endPage: 9 },
+      { startPage: 9, endPage: 12 },
+    ]);
+  });
+});
+
+describe('mergeChunkTransactions', () => {
+  it('drops the overlap rows of the later chunk even when worded differently', () => {
+    const merged = mergeChunkTransactions([
+      { startPage: 1, endPage: 5, transactions: [row('Aluguel', 100, 4), row('PIX ENVIADO FULANO', 50, 5)] },
+      { startPage: 5, endPage: 9, transactions: [row('Pix enviado - Fulano', 50, 5), row('Energia', 80, 6)] },
+    ]);
+
+    expect(merged.map(t => t.description)).toEqual(['Aluguel', 'PIX ENVIADO FULANO', 'Energia']);
+  });
+
+  it('keeps genuinely repeated rows on the same day', () => {
+    const merged = mergeChunkTransactions([
+      { startPage: 1, endPage: 5, transactions: [row('Tarifa', 2.5, 5)] },
+      { startPage: 5, endPage: 9, transactions: [row('Tarifa', 2.5, 5), row('Tarifa', 2.5, 6), row('Tarifa', 2.5, 6)] },
+    ]);
+
+    expect(merged.map(t => t.sourcePage)).toEqual([5, 6, 6]);
+  });
+
+  it('keeps the overlap rows when the previous chunk failed', () => {
+    const merged = mergeChunkTransactions([
+      { startPage: 1, endPage: 5, transactions: [row('Aluguel', 100, 2)] },
+      { startPage: 9, endPage: 12, transactions: [row('Energia', 80, 9), row('Água', 40, 10)] },
+    ]);
+
+    expect(merged.map(t => t.description)).toEqual(['Aluguel', 'Energia', 'Água']);
+  });
+
+  it('drops rows without a page only when the previous chunk read them on the overlap', () => {
+    const merged = mergeChunkTransactions([
+      { startPage: 1, endPage: 5, transactions: [row('Tarifa', 2.5, 5)] },
+      { startPage: 5, endPage: 9, transactions: [row('Tarifa', 2.5), row('Tarifa', 2.5), row('Energia', 80, 6)] },
+    ]);
+
+    expect(merged.map(t => t.description)).toEqual(['Tarifa', 'Tarifa', 'Energia']);
+  });
+});
@@ -1,41 +1,43 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { fileToBase64 } from "../utils/fileUtils";
-import { GeminiTransactionResponse, GeminiInvestmentResponse } from "../types";
+import { fileToBase64, loadPdfDocument, renderPdfPagesToJpeg } from "../utils/fileUtils";
+import { extractPdfTextLines } from "../utils/pdfTextLayer";
+import { parseBankStatementText } from "../utils/bankTextParser";
+import { runWithConcurrency, delay } from "../utils/asyncUtils";
+import { GeminiTransactionResponse, GeminiInvestmentResponse, GeminiCardResponse, GeminiBrokerageResponse, ExtractionChunkProgress, FailedPageRange, DocumentClassification, Transaction, CategorySuggestion } from "../types";
+import { parseCurrency } from "../utils/currencyUtils";
 import { TRANSACTION_CATEGORIES } from '../constants';
+import { DocumentPart, PromptAccount, PromptContext, PromptCorrection, getExtractionProvider } from './extractionProvider';
 
-// Fallback para ambientes sem tipos de Node injetados
-declare const process: any;
-
-const getApiKey = () => {
-    const windowEnvKey = typeof window !== 'undefined' ? (window as any).ENV?.GEMINI_API_KEY : undefined;
-    if (windowEnvKey && windowEnvKey !== "__GEMINI_API_KEY__") return windowEnvKey;
-
-    try {
-        if (typeof process !== 'undefined' && process.env) {
-            return process.env.GEMINI_API_KEY;
-        }
-    } catch (e) {
-        // Ignora erros de acesso ao process
-    }
-    return undefined;
-};
-
-const API_KEY = getApiKey();
-
-if (!API_KEY || API_KEY === "__GEMINI_API_KEY__") {
-    throw new Error("A variável de ambiente GEMINI_API_KEY não está definida.");
+/**
+ * Versão dos prompts/schemas de cada tipo de documento (server/prompts.js).
+ * Incremente ao alterar um prompt ou schema para que os resultados em cache sejam extraídos de novo.
+ */
+export const EXTRACTION_PROMPT_VERSIONS = {
+    bank: 5,
+    investment: 2,
+    card: 2,
+    brokerage: 1,
+} as const;
+
+export type CacheableDocumentType = keyof typeof EXTRACTION_PROMPT_VERSIONS;
+
+/** Dados da empresa enviados nos prompts: plano de categorias, correções aprendidas e plano de contas. */
+export interface CompanyPromptContext {
+    /** Caminhos completos das categorias; sem eles vale `TRANSACTION_CATEGORIES`. */
+    categories?: readonly string[];
+    corrections?: PromptCorrection[];
+    /** Contas analíticas da empresa; só vão no prompt do extrato bancário. */
+    accounts?: PromptAccount[];
 }
 
-// FIX: força chamada direta à API do Google, bypassa o proxy automático do SDK em browser
-const ai = new GoogleGenAI({
-    apiKey: API_KEY,
-    httpOptions: {
-        baseUrl: 'https://generativelanguage.googleapis.com',
-    },
-});
+const categoriesOf = (context?: CompanyPromptContext): readonly string[] =>
+    context?.categories?.length ? context.categories : TRANSACTION_CATEGORIES;
 
-// Modelo atualizado para 2.5-flash (mais rápido e preciso)
-const GEMINI_MODEL = 'gemini-2.5-flash';
+/** Context sent to the server, which builds the prompt; categories always go, the defaults when the company has none. */
+const toPromptContext = (context?: CompanyPromptContext): PromptContext => ({
+    categories: categoriesOf(context),
+    corrections: context?.corrections ?? [],
+    accounts: context?.accounts ?? [],
+});
 
 /**
  * Deep JSON repair for truncated LLM responses.
@@ -79,79 +81,92 @@ const repairTruncatedJson = (text: string): string => {
     return '{"transactions":[]}';
 };
 
-const responseSchema = {
-    type: Type.OBJECT,
-    properties: {
-        transactions: {
-            type: Type.ARRAY,
-            description: "Lista de transações financeiras do documento.",
-            items: {
-                type: Type.OBJECT,
-                properties: {
-                    date: { type: Type.STRING, description: 'Data: AAAA-MM-DD. Inferir ano se ausente.' },
-                    description: { type: Type.STRING, description: 'Descrição completa da transação.' },
-                    debit: { type: Type.NUMBER, description: 'Débito (saída). Positivo. 0 se crédito.' },
-                    credit: { type: Type.NUMBER, description: 'Crédito (entrada). Positivo. 0 se débito.' },
-                    companyName: { type: Type.STRING, description: 'Nome da empresa. Vazio se não houver.' },
-                    cnpj: { type: Type.STRING, description: 'CNPJ (só números). Vazio se não houver.' },
-                    category: { type: Type.STRING, description: `Categoria: ${TRANSACTION_CATEGORIES.join(', ')}.` },
-                    isUnusual: { type: Type.BOOLEAN, description: "true se transação anômala." },
-                    unusualReason: { type: Type.STRING, description: "Motivo se incomum (max 50 chars). Vazio se normal." },
-                    accountDebit: { type: Type.STRING, description: "Conta débito (ex: 'Bancos'). Vazio se incerto." },
-                    accountCredit: { type: Type.STRING, description: "Conta crédito (ex: 'Fornecedores'). Vazio se incerto." },
-                    accountingHistory: { type: Type.STRING, description: "Histórico contábil curto (ex: 'PAGTO FORNEC X')." }
-                },
-                required: ['date', 'description', 'debit', 'credit', 'companyName', 'cnpj', 'category', 'isUnusual', 'unusualReason', 'accountDebit', 'accountCredit', 'accountingHistory']
-            }
-        },
-        finalBalance: { type: Type.NUMBER, description: "Saldo final do extrato. Omitir se não encontrado." },
-        bankName: { type: Type.STRING, description: "Nome do banco. Omitir se não encontrado." },
-        accountHolderCNPJ: { type: Type.STRING, description: "CNPJ do titular (só números). Omitir se não encontrado." }
-    },
-    required: ['transactions']
-};
+/** Clamps the model's confidence to 0–1 and drops origin fields it left empty. */
+const normalizeSourceFields = (t: { confidence?: number; sourcePage?: number; sourceLine?: string }) => ({
+    confidence: typeof t.confidence === 'number' && Number.isFinite(t.confidence) ? Math.max(0, Math.min(1, t.confidence)) : undefined,
+    sourcePage: t.sourcePage && t.sourcePage > 0 ? Math.round(t.sourcePage) : undefined,
+    sourceLine: t.sourceLine?.trim() || undefined,
+});
 
-const PROMPT_TEXT = `Analise o extrato bancário em PDF. Extraia TODAS as transações com: data (AAAA-MM-DD), descrição, débito ou crédito, empresa, CNPJ. Extraia banco e CNPJ do titular.
+// ─── Extração em blocos de páginas ───────────────────────────────────────────
 
-VALORES: Débito=saída (negativo/coluna saída), Crédito=entrada (positivo/coluna entrada). Sempre números positivos absolutos.
-CONTABILIDADE: Infira accountDebit, accountCredit e accountingHistory em CAIXA ALTA. Use nomes genéricos (Bancos, Fornecedores).
-ANOMALIAS: isUnusual=true se valor extremo, descrição vaga, duplicada ou suspeita.
-CONCISÃO: Campos inexistentes = "". Descrições curtas. Motivos de anomalia máx 50 chars.`;
+const PAGES_PER_CHUNK = 5;
+const CHUNK_PAGE_OVERLAP = 1;
+const MAX_CONCURRENT_CHUNKS = 3;
 
+type ExtractedBankTransaction = GeminiTransactionResponse['transactions'][number];
 
-export const processBankStatementPDF = async (file: File, maxRetries = 2): Promise<GeminiTransactionResponse> => {
-    const base64pdf = await fileToBase64(file);
+/**
+ * Splits a document into 1-based inclusive page ranges. Consecutive ranges share
+ * `overlap` pages so transactions that straddle a page break are not lost.
+ */
+export const buildPageChunks = (totalPages: number, pagesPerChunk = PAGES_PER_CHUNK, overlap = CHUNK_PAGE_OVERLAP): { startPage: number; endPage: number }[] => {
+    const chunks: { startPage: number; endPage: number }[] = [];
+    const step = Math.max(1, pagesPerChunk - overlap);
+    for (let start = 1; start <= totalPages; start += step) {
+        const end = Math.min(totalPages, start + pagesPerChunk - 1);
+        chunks.push({ startPage: start, endPage: end });
+        if (end === totalPages) break;
+    }
+    return chunks;
+};
 
-    const pdfPart = {
-        inlineData: {
-            mimeType: 'application/pdf',
-            data: base64pdf,
-        },
-    };
+const transactionKey = (t: ExtractedBankTransaction) =>
+    `${t.date}|${(t.description || '').trim().toUpperCase()}|${(t.debit || 0).toFixed(2)}|${(t.credit || 0).toFixed(2)}`;
 
-    const textPart = { text: PROMPT_TEXT };
+export interface ExtractedChunk {
+    startPage: number;
+    endPage: number;
+    transactions: ExtractedBankTransaction[];
+}
 
+/**
+ * Concatenates per-chunk results in page order. Rows a chunk places on pages
+ * the previous merged chunk already covered (the shared overlap page) are
+ * dropped by `sourcePage`, so a description worded differently in each chunk
+ * is not duplicated and genuinely repeated rows are kept. Rows without a page
+ * are dropped only when the previous chunk read the same row on the overlap.
+ */
+export const mergeChunkTransactions = (chunks: ExtractedChunk[]): ExtractedBankTransaction[] => {
+    const merged: ExtractedBankTransaction[] = [];
+    let previous: ExtractedChunk | null = null;
+
+    for (const chunk of chunks) {
+        const coveredUntil = previous && previous.endPage >= chunk.startPage ? previous.endPage : 0;
+        const isCovered = (t: ExtractedBankTransaction) => !!t.sourcePage && t.sourcePage <= coveredUntil;
+
+        // Linhas sem página: só as que o bloco anterior leu na página compartilhada, uma a uma
+        const unplaced = new Map<string, number>();
+        previous?.transactions
+            .filter(t => t.sourcePage && t.sourcePage >= chunk.startPage && t.sourcePage <= coveredUntil)
+            .forEach(t => unplaced.set(transactionKey(t), (unplaced.get(transactionKey(t)) || 0) + 1));
+
+        for (const t of chunk.transactions) {
+            if (isCovered(t)) continue;
+            if (!t.sourcePage && (unplaced.get(transactionKey(t)) || 0) > 0) {
+                unplaced.set(transactionKey(t), unplaced.get(transactionKey(t))! - 1);
+                continue;
+            }
+            merged.push(t);
+        }
+        previous = chunk;
+    }
+
+    return merged;
+};
+
+const requestBankExtraction = async (documents: DocumentPart[], context: PromptContext, maxRetries: number, label: string, signal?: AbortSignal): Promise<GeminiTransactionResponse> => {
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        signal?.throwIfAborted();
         try {
             if (attempt > 0) {
-                console.log(`Retry attempt ${attempt}/${maxRetries}...`);
-                await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+                console.log(`${label} Retry attempt ${attempt}/${maxRetries}...`);
+                await delay(1000 * attempt);
             }
 
-            const response = await ai.models.generateContent({
-                model: GEMINI_MODEL,
-                contents: { parts: [textPart, pdfPart] },
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: responseSchema,
-                    temperature: 0.1,
-                    maxOutputTokens: 65536,
-                },
-            });
-
-            const rawText = response.text;
+            const rawText = await getExtractionProvider().generateStructured({ task: 'bank', documents, context });
             if (!rawText || rawText.trim().length === 0) {
                 throw new Error("A IA retornou uma resposta vazia. Tente novamente.");
             }
@@ -180,52 +195,206 @@ export const processBankStatementPDF = async (file: File, maxRetries = 2): Promi
                 accountDebit: t.accountDebit || '',
                 accountCredit: t.accountCredit || '',
                 accountingHistory: t.accountingHistory || '',
+                printedBalance: typeof t.printedBalance === 'number' && Number.isFinite(t.printedBalance) ? t.printedBalance : undefined,
+                ...normalizeSourceFields(t),
             }));
 
             if (rawText !== jsonText) {
-                console.warn(`JSON was repaired. Found ${parsedResponse.transactions.length} complete transactions.`);
+                console.warn(`${label} JSON was repaired. Found ${parsedResponse.transactions.length} complete transactions.`);
             }
 
             return parsedResponse;
 
         } catch (error: unknown) {
-            console.error(`Attempt ${attempt + 1} failed:`, error);
+            console.error(`${label} Attempt ${attempt + 1} failed:`, error);
             lastError = error instanceof Error ? error : new Error("Erro desconhecido ao processar o documento.");
         }
     }
 
-    if (lastError) {
-        throw new Error(`O modelo de IA não conseguiu processar este documento após ${maxRetries + 1} tentativas. Detalhe: ${lastError.message}. Verifique se é um extrato bancário válido.`);
+    throw new Error(`Falha após ${maxRetries + 1} tentativas. Detalhe: ${lastError?.message ?? 'erro desconhecido'}`);
+};
+
+/**
+ * Parts carrying the whole document: the original PDF, or — for password
+ * protected files, which the model cannot open — every page rendered locally.
+ */
+const buildDocumentParts = async (file: File, pdf: any, password?: string): Promise<DocumentPart[]> => {
+    if (!password) {
+        return [{ inlineData: { mimeType: 'application/pdf', data: await fileToBase64(file) } }];
+    }
+    if (!pdf) {
+        throw new Error("Não foi possível abrir o PDF protegido por senha localmente.");
+    }
+    const pages = Array.from({ length: pdf.numPages }, (_, i) => i + 1);
+    const images = await renderPdfPagesToJpeg(pdf, pages);
+    return images.map(data => ({ inlineData: { mimeType: 'image/jpeg', data } }));
+};
+
+/** Same, for a PDF opened only to build its parts; the pdf.js document is released right after. */
+const loadDocumentParts = async (file: File, password?: string): Promise<DocumentPart[]> => {
+    const pdf = password ? await loadPdfDocument(file, password) : null;
+    try {
+        return await buildDocumentParts(file, pdf, password);
+    } finally {
+        await pdf?.destroy();
+    }
+};
+
+/**
+ * Tries the deterministic reader for known bank layouts on the PDF text layer.
+ * Returns null (so the AI is used) when no layout matches or the balances do not reconcile.
+ */
+const parseWithBankLayout = async (pdf: any): Promise<GeminiTransactionResponse | null> => {
+    try {
+        const parsed = parseBankStatementText(await extractPdfTextLines(pdf));
+        if (!parsed) return null;
+        if (!parsed.reconciled) {
+            console.warn(`[Bank] Layout ${parsed.layout.bankName} reconhecido, mas ${parsed.problem}. Usando a IA.`);
+            return null;
+        }
+        return { ...parsed.result, extractionNotes: `Extrato lido localmente pelo layout ${parsed.layout.bankName}, sem uso da IA.` };
+    } catch (error) {
+        console.warn("[Bank] Falha ao ler a camada de texto do PDF. Usando a IA.", error);
+        return null;
+    }
+};
+
+export const processBankStatementPDF = async (
+    file: File,
+    maxRetries = 2,
+    onProgress?: (chunks: ExtractionChunkProgress[]) => void,
+    password?: string,
+    context?: CompanyPromptContext,
+    signal?: AbortSignal
+): Promise<GeminiTransactionResponse> => {
+    let pdf: any = null;
+    try {
+        pdf = await loadPdfDocument(file, password);
+    } catch (error) {
+        if (password) throw new Error("Senha do PDF incorreta.");
+        console.warn("Não foi possível abrir o PDF localmente; enviando o arquivo inteiro.", error);
+    }
+    // Liberado só depois do leiaute local e da renderização de todos os trechos
+    try {
+        const totalPages: number = pdf?.numPages ?? 0;
+
+        if (pdf) {
+            const local = await parseWithBankLayout(pdf);
+            if (local) {
+                onProgress?.([{ index: 0, startPage: 1, endPage: totalPages, status: 'done', transactionCount: local.transactions.length }]);
+                return local;
+            }
+        }
+
+        // Documentos curtos (ou sem pdf.js) seguem em uma única chamada com o PDF original
+        if (!pdf || totalPages <= PAGES_PER_CHUNK) {
+            const single: ExtractionChunkProgress = { index: 0, startPage: 1, endPage: Math.max(totalPages, 1), status: 'processing' };
+            onProgress?.([single]);
+            try {
+                const result = await requestBankExtraction(await buildDocumentParts(file, pdf, password), toPromptContext(context), maxRetries, '[Bank]', signal);
+                onProgress?.([{ ...single, status: 'done', transactionCount: result.transactions.length }]);
+                return result;
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                onProgress?.([{ ...single, status: 'failed', error: message }]);
+                throw new Error(`O modelo de IA não conseguiu processar este documento. ${message}. Verifique se é um extrato bancário válido.`);
+            }
+        }
+
+        const ranges = buildPageChunks(totalPages);
+        const progress: ExtractionChunkProgress[] = ranges.map((r, index) => ({ index, ...r, status: 'pending' }));
+        const updateProgress = (index: number, patch: Partial<ExtractionChunkProgress>) => {
+            progress[index] = { ...progress[index], ...patch };
+            onProgress?.([...progress]);
+        };
+        onProgress?.([...progress]);
+
+        const settled = await runWithConcurrency(ranges, MAX_CONCURRENT_CHUNKS, async ({ startPage, endPage }, index) => {
+            updateProgress(index, { status: 'processing' });
+            try {
+                signal?.throwIfAborted();
+                const pages = Array.from({ length: endPage - startPage + 1 }, (_, i) => startPage + i);
+                const images = await renderPdfPagesToJpeg(pdf, pages);
+                const documents: DocumentPart[] = images.map(data => ({ inlineData: { mimeType: 'image/jpeg', data } }));
+                const chunkContext: PromptContext = { ...toPromptContext(context), pages: { startPage, endPage, totalPages } };
+                const result = await requestBankExtraction(documents, chunkContext, maxRetries, `[Bank p.${startPage}-${endPage}]`, signal);
+                updateProgress(index, { status: 'done', transactionCount: result.transactions.length });
+                return result;
+            } catch (error) {
+                updateProgress(index, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+                throw error;
+            }
+        });
+
+        // Cancelada no meio: nada de resultado parcial
+        signal?.throwIfAborted();
+
+        const succeeded = settled
+            .map((s, index) => ({ s, index }))
+            .filter((r): r is { s: PromiseFulfilledResult<GeminiTransactionResponse>; index: number } => r.s.status === 'fulfilled');
+
+        const failedPageRanges: FailedPageRange[] = settled.flatMap((s, index) => s.status === 'rejected'
+            ? [{ ...ranges[index], error: s.reason instanceof Error ? s.reason.message : String(s.reason) }]
+            : []);
+
+        if (succeeded.length === 0) {
+            throw new Error(`O modelo de IA não conseguiu processar nenhuma página deste documento. Detalhe: ${failedPageRanges[0]?.error}. Verifique se é um extrato bancário válido.`);
+        }
+
+        const first = settled[0];
+        const last = settled[settled.length - 1];
+        const results = succeeded.map(r => r.s.value);
+
+        return {
+            transactions: mergeChunkTransactions(succeeded.map(r => ({ ...ranges[r.index], transactions: r.s.value.transactions }))),
+            openingBalance: first.status === 'fulfilled' ? first.value.openingBalance : undefined,
+            finalBalance: last.status === 'fulfilled' ? last.value.finalBalance : undefined,
+            bankName: results.find(r => r.bankName)?.bankName,
+            accountHolderCNPJ: results.find(r => r.accountHolderCNPJ)?.accountHolderCNPJ,
+            failedPageRanges: failedPageRanges.length > 0 ? failedPageRanges : undefined,
+        };
+    } finally {
+        await pdf?.destroy();
     }
-    throw new Error("O modelo de IA não conseguiu processar este documento. O arquivo pode estar corrompido ou em um formato não suportado.");
 };
 
 
 export const suggestDateCorrection = async (invalidDate: string): Promise<string> => {
     if (!invalidDate.trim()) return "";
     try {
-        const response = await ai.models.generateContent({
-            model: GEMINI_MODEL,
-            contents: `Data incorreta: "${invalidDate}". Corrija para AAAA-MM-DD. Responda só a data.`,
-            config: { temperature: 0, stopSequences: ['\n'] },
-        });
-        return response.text.trim();
+        return (await getExtractionProvider().suggestDateCorrection(invalidDate)).trim();
     } catch (error) {
         console.error("Erro ao sugerir correção de data:", error);
         return invalidDate;
     }
 };
 
-export const suggestNewCategory = async (description: string, currentCategory: string): Promise<string> => {
+/**
+ * Cheap classification call used when the text-layer keywords are not
+ * conclusive. Takes the first pages rendered as images.
+ */
+export const classifyDocument = async (images: string[]): Promise<DocumentClassification> => {
+    const rawText = await getExtractionProvider().generateStructured({
+        task: 'classification',
+        documents: images.map(data => ({ inlineData: { mimeType: 'image/jpeg', data } })),
+        context: {},
+    });
+    const parsed = JSON.parse(rawText);
+    return {
+        type: parsed.documentType,
+        label: parsed.label,
+        confidence: Math.max(0, Math.min(1, Number(parsed.confidence) || 0)),
+        source: 'ai',
+        reason: parsed.reason,
+    };
+};
+
+export const suggestNewCategory = async (description: string, currentCategory: string, context?: CompanyPromptContext): Promise<string> => {
     if (!description.trim()) return currentCategory;
+    const categories = categoriesOf(context);
     try {
-        const response = await ai.models.generateContent({
-            model: GEMINI_MODEL,
-            contents: `Transação: "${description}". Categoria atual: "${currentCategory}". Sugira a melhor de: [${TRANSACTION_CATEGORIES.join(', ')}]. Responda só o nome.`,
-            config: { temperature: 0.1, stopSequences: ['\n'] },
-        });
-        const suggestedCategory = response.text.trim();
-        if (TRANSACTION_CATEGORIES.includes(suggestedCategory)) return suggestedCategory;
+        const suggestedCategory = (await getExtractionProvider().suggestCategory(description, currentCategory, categories, context?.corrections)).trim();
+        if (categories.includes(suggestedCategory)) return suggestedCategory;
         return currentCategory;
     } catch (error) {
         console.error("Erro ao sugerir nova categoria:", error);
@@ -233,78 +402,78 @@ export const suggestNewCategory = async (description: string, currentCategory: s
     }
 };
 
-// ─── Extrato de Cotista XP ────────────────────────────────────────────────────
+const CATEGORIZATION_BATCH_SIZE = 40;
+const MAX_CONCURRENT_CATEGORIZATION_BATCHES = 2;
 
-const investmentResponseSchema = {
-    type: Type.OBJECT,
-    properties: {
-        investmentTransactions: {
-            type: Type.ARRAY,
-            description: "Lista de movimentações em fundos de investimento do Extrato de Cotista.",
-            items: {
-                type: Type.OBJECT,
-                properties: {
-                    date: { type: Type.STRING, description: 'Data da operação: AAAA-MM-DD.' },
-                    fundName: { type: Type.STRING, description: 'Nome completo do fundo de investimento.' },
-                    fundCNPJ: { type: Type.STRING, description: 'CNPJ do fundo (somente dígitos, sem pontuação). Vazio se não encontrado.' },
-                    operationType: { type: Type.STRING, description: 'Tipo de operação. Valores permitidos: Aplicação, Resgate, Rendimento, Come-cotas, Amortização, Transferência, Outro.' },
-                    shareQuantity: { type: Type.NUMBER, description: 'Quantidade de cotas movimentadas. Use valor absoluto positivo. 0 se não informado.' },
-                    shareValue: { type: Type.NUMBER, description: 'Valor unitário da cota na data da operação. 0 se não informado.' },
-                    grossValue: { type: Type.NUMBER, description: 'Valor bruto da operação em reais. Sempre positivo (absoluto). 0 se não informado.' },
-                    irWithheld: { type: Type.NUMBER, description: 'Imposto de Renda retido na fonte em reais. 0 se não houve retenção.' },
-                    netValue: { type: Type.NUMBER, description: 'Valor líquido recebido/pago em reais (grossValue - irWithheld). 0 se não informado.' },
-                    administrator: { type: Type.STRING, description: 'Nome do administrador do fundo. Vazio se não informado.' },
-                    gestor: { type: Type.STRING, description: 'Nome do gestor do fundo. Vazio se não informado.' },
-                    isUnusual: { type: Type.BOOLEAN, description: 'true se a operação for anômala.' },
-                    unusualReason: { type: Type.STRING, description: 'Motivo da anomalia em até 50 caracteres. Vazio se normal.' },
-                },
-                required: ['date', 'fundName', 'fundCNPJ', 'operationType', 'shareQuantity', 'shareValue', 'grossValue', 'irWithheld', 'netValue', 'administrator', 'gestor', 'isUnusual', 'unusualReason']
-            }
-        },
-        cotistaNome: { type: Type.STRING, description: 'Nome do cotista. Omitir se não encontrado.' },
-        cotistaCNPJ: { type: Type.STRING, description: 'CNPJ ou CPF do cotista (somente dígitos). Omitir se não encontrado.' },
-        bankName: { type: Type.STRING, description: 'Nome da corretora/banco. Omitir se não encontrado.' },
-        periodStart: { type: Type.STRING, description: 'Data de início do período: AAAA-MM-DD. Omitir se não encontrado.' },
-        periodEnd: { type: Type.STRING, description: 'Data de fim do período: AAAA-MM-DD. Omitir se não encontrado.' },
-        totalPagesInDocument: { type: Type.NUMBER, description: 'Número total de páginas identificadas no documento.' },
-        pagesProcessed: { type: Type.NUMBER, description: 'Número de páginas efetivamente processadas.' },
-        isExtractionComplete: { type: Type.BOOLEAN, description: 'true se todas as movimentações foram extraídas.' },
-        extractionNotes: { type: Type.STRING, description: 'Notas sobre a extração.' },
-    },
-    required: ['investmentTransactions']
+/**
+ * Bulk version of `suggestNewCategory`: sends the rows in batches, one
+ * structured call per batch, and returns only the rows whose category would
+ * change. Rows of failed batches are counted, not thrown, so the rest can still be reviewed.
+ */
+export const suggestCategoriesInBatches = async (
+    transactions: Transaction[],
+    onProgress?: (doneCount: number, totalCount: number) => void,
+    context?: CompanyPromptContext
+): Promise<{ suggestions: CategorySuggestion[]; failedCount: number }> => {
+    const categories = categoriesOf(context);
+    const batches: Transaction[][] = [];
+    for (let i = 0; i < transactions.length; i += CATEGORIZATION_BATCH_SIZE) {
+        batches.push(transactions.slice(i, i + CATEGORIZATION_BATCH_SIZE));
+    }
+    let doneCount = 0;
+    onProgress?.(0, transactions.length);
+
+    const results = await runWithConcurrency(batches, MAX_CONCURRENT_CATEGORIZATION_BATCHES, async batch => {
+        const rawText = await getExtractionProvider().generateStructured({
+            task: 'categorization',
+            documents: [],
+            context: {
+                ...toPromptContext(context),
+                accounts: [],
+                rows: batch.map(t => ({
+                    description: t.description,
+                    debit: parseCurrency(t.debit) || 0,
+                    credit: parseCurrency(t.credit) || 0,
+                    companyName: t.companyName,
+                    category: t.category,
+                })),
+            },
+        });
+        const repaired = closeTruncatedJson(rawText);
+        if (!repaired) throw new Error("Resposta da IA sem JSON válido.");
+        const parsed = JSON.parse(repaired);
+        const suggestions: CategorySuggestion[] = [];
+        const answered = new Set<string>();
+        for (const item of Array.isArray(parsed.suggestions) ? parsed.suggestions : []) {
+            const t = batch[Number(item?.index)];
+            if (!t || answered.has(t.id)) continue;
+            answered.add(t.id);
+            const category = String(item?.category ?? '').trim();
+            if (!categories.includes(category) || category === t.category) continue;
+            suggestions.push({
+                transactionId: t.id,
+                currentCategory: t.category,
+                suggestedCategory: category,
+                justification: String(item?.justification ?? '').trim(),
+            });
+        }
+        doneCount += batch.length;
+        onProgress?.(doneCount, transactions.length);
+        // Linhas que a resposta (truncada, por exemplo) não trouxe contam como falha
+        return { suggestions, missingCount: batch.length - answered.size };
+    });
+
+    results.forEach(r => r.status === 'rejected' && console.error("Erro na recategorização em lote:", r.reason));
+    return {
+        suggestions: results.flatMap(r => r.status === 'fulfilled' ? r.value.suggestions : []),
+        failedCount: results.reduce((count, r, i) => count + (r.status === 'fulfilled' ? r.value.missingCount : batches[i].length), 0),
+    };
 };
 
-const INVESTMENT_PROMPT_TEXT = `Você está analisando um PDF de "Extrato de Cotista" de fundos de investimento da XP Investimentos (ou similar).
-
-OBJETIVO: Extrair TODAS as movimentações em fundos de investimento listadas no documento, sem exceção.
-
-INSTRUÇÕES DE EXTRAÇÃO:
-1. Para cada movimentação extraia:
-   - DATA (formato AAAA-MM-DD)
-   - NOME DO FUNDO (nome completo como aparece no extrato)
-   - CNPJ DO FUNDO (somente dígitos, 14 números)
-   - TIPO DE OPERAÇÃO: classifique como um destes: Aplicação, Resgate, Rendimento, Come-cotas, Amortização, Transferência, Outro
-   - QUANTIDADE DE COTAS movimentadas (número decimal)
-   - VALOR DA COTA (preço unitário da cota na data)
-   - VALOR BRUTO da operação em R$ (sempre positivo)
-   - IR RETIDO NA FONTE em R$ (0 se não houver)
-   - VALOR LÍQUIDO = valor após desconto de IR
-
-2. DADOS DO EXTRATO: Nome/CNPJ do cotista, nome da corretora, período coberto.
-
-3. ANOMALIAS: marque isUnusual=true se valor discrepante, come-cotas zerado ou data fora do período.
-
-4. **REGRA CRÍTICA**: Extraia TODAS as páginas. NÃO resuma, NÃO pule linhas.
-
-5. **Verificação de Páginas**: Reporte totalPagesInDocument, pagesProcessed e isExtractionComplete.
-
-ATENÇÃO: Se o limite de tokens for atingido, termine o último objeto e feche o JSON corretamente.`;
-
-export const processInvestmentStatementPDF = async (file: File, maxRetries = 2): Promise<GeminiInvestmentResponse> => {
-    const base64pdf = await fileToBase64(file);
+// ─── Extrato de Cotista XP ────────────────────────────────────────────────────
 
-    const pdfPart = { inlineData: { mimeType: 'application/pdf', data: base64pdf } };
-    const textPart = { text: INVESTMENT_PROMPT_TEXT };
+export const processInvestmentStatementPDF = async (file: File, maxRetries = 2, password?: string): Promise<GeminiInvestmentResponse> => {
+    const documents = await loadDocumentParts(file, password);
 
     let lastError: Error | null = null;
 
@@ -315,18 +484,11 @@ export const processInvestmentStatementPDF = async (file: File, maxRetries = 2):
                 await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
             }
 
-            const response = await ai.models.generateContent({
-                model: GEMINI_MODEL,
-                contents: { parts: [textPart, pdfPart] },
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: investmentResponseSchema,
-                    temperature: 0.1,
-                    maxOutputTokens: 65536,
-                },
+            const rawText = await getExtractionProvider().generateStructured({
+                task: 'investment',
+                documents,
+                context: {},
             });
-
-            const rawText = response.text;
             if (!rawText || rawText.trim().length === 0) {
                 throw new Error("A IA retornou uma resposta vazia. Tente novamente.");
             }
@@ -352,12 +514,15 @@ export const processInvestmentStatementPDF = async (file: File, maxRetries = 2):
                 shareQuantity: t.shareQuantity || 0,
                 shareValue: t.shareValue || 0,
                 grossValue: Math.abs(t.grossValue || 0),
+                fees: 0,
                 irWithheld: Math.abs(t.irWithheld || 0),
                 netValue: Math.abs(t.netValue || 0),
+                settlementDate: '',
                 administrator: t.administrator || '',
                 gestor: t.gestor || '',
                 isUnusual: t.isUnusual || false,
                 unusualReason: t.unusualReason || '',
+                ...normalizeSourceFields(t),
             }));
 
             return parsedResponse;
@@ -404,3 +569,212 @@ const repairTruncatedJsonInvestment = (text: string): string => {
 
     return '{"investmentTransactions":[],"isExtractionComplete":false,"extractionNotes":"Erro crítico na resposta truncada."}';
 };
+
+// ─── Nota de Corretagem (SINACOR) ─────────────────────────────────────────────
+
+/**
+ * Closes every object/array still open at the last complete object of a
+ * truncated response. Nested notes make the fixed-key repair used by the other
+ * document types impractical here.
+ */
+const closeTruncatedJson = (text: string): string | null => {
+    let cleaned = text.trim();
+    if (cleaned.startsWith('```')) {
+        cleaned = cleaned.replace(/^```json\n?/, '').replace(/^```\n?/, '').replace(/```$/, '').trim();
+    }
+    try { JSON.parse(cleaned); return cleaned; } catch { /* needs repair */ }
+
+    for (let end = cleaned.lastIndexOf('}'); end > 0; end = cleaned.lastIndexOf('}', end - 1)) {
+        const prefix = cleaned.substring(0, end + 1);
+        const stack: string[] = [];
+        let inString = false;
+        for (let i = 0; i < prefix.length; i++) {
+            const char = prefix[i];
+            if (inString) {
+                if (char === '\\') i++;
+                else if (char === '"') inString = false;
+            } else if (char === '"') {
+                inString = true;
+            } else if (char === '{' || char === '[') {
+                stack.push(char === '{' ? '}' : ']');
+            } else if (char === '}' || char === ']') {
+                stack.pop();
+            }
+        }
+        if (inString) continue;
+        const candidate = prefix + stack.reverse().join('');
+        try {
+            JSON.parse(candidate);
+            return candidate;
+        } catch { /* try an earlier cut */ }
+    }
+    return null;
+};
+
+export const processBrokerageNotePDF = async (file: File, maxRetries = 2, password?: string): Promise<GeminiBrokerageResponse> => {
+    const documents = await loadDocumentParts(file, password);
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        try {
+            if (attempt > 0) {
+                console.log(`[Brokerage] Retry attempt ${attempt}/${maxRetries}...`);
+                await delay(1000 * attempt);
+            }
+
+            const rawText = await getExtractionProvider().generateStructured({
+                task: 'brokerage',
+                documents,
+                context: {},
+            });
+            if (!rawText || rawText.trim().length === 0) {
+                throw new Error("A IA retornou uma resposta vazia. Tente novamente.");
+            }
+
+            const jsonText = closeTruncatedJson(rawText);
+            if (!jsonText) {
+                throw new Error(`Erro ao processar resposta da IA. Tamanho: ${rawText.length} chars.`);
+            }
+            const parsedResponse: GeminiBrokerageResponse = JSON.parse(jsonText);
+            if (jsonText !== rawText.trim()) {
+                parsedResponse.isExtractionComplete = false;
+                parsedResponse.extractionNotes = 'Resposta truncada. Dados parciais recuperados.';
+            }
+
+            if (!parsedResponse.brokerageNotes || !Array.isArray(parsedResponse.brokerageNotes)) {
+                throw new Error("Estrutura JSON inválida recebida da API para nota de corretagem.");
+            }
+
+            parsedResponse.brokerageNotes = parsedResponse.brokerageNotes.map(note => ({
+                noteNumber: String(note.noteNumber ?? ''),
+                tradeDate: note.tradeDate || '',
+                settlementDate: note.settlementDate || '',
+                trades: (note.trades || []).map(t => ({
+                    ticker: (t.ticker || '').trim().toUpperCase(),
+                    specification: t.specification || '',
+                    market: t.market || '',
+                    side: t.side === 'V' ? 'V' : 'C',
+                    quantity: Math.abs(t.quantity || 0),
+                    price: Math.abs(t.price || 0),
+                    grossValue: Math.abs(t.grossValue || 0),
+                    isDayTrade: t.isDayTrade || false,
+                })),
+                fees: {
+                    settlementFee: Math.abs(note.fees?.settlementFee || 0),
+                    registrationFee: Math.abs(note.fees?.registrationFee || 0),
+                    emoluments: Math.abs(note.fees?.emoluments || 0),
+                    brokerage: Math.abs(note.fees?.brokerage || 0),
+                    iss: Math.abs(note.fees?.iss || 0),
+                    otherFees: Math.abs(note.fees?.otherFees || 0),
+                    irrf: Math.abs(note.fees?.irrf || 0),
+                },
+                netTotal: note.netTotal || 0,
+            }));
+
+            return parsedResponse;
+
+        } catch (error: unknown) {
+            console.error(`[Brokerage] Attempt ${attempt + 1} failed:`, error);
+            lastError = error instanceof Error ? error : new Error("Erro desconhecido ao processar a nota de corretagem.");
+        }
+    }
+
+    throw new Error(`O modelo de IA não conseguiu processar a nota de corretagem após ${maxRetries + 1} tentativas. Detalhe: ${lastError?.message}`);
+};
+
+// ─── Fatura de Cartão de Crédito ──────────────────────────────────────────────
+
+const repairTruncatedJsonCard = (text: string): string => {
+    let cleaned = text.trim();
+    if (cleaned.startsWith('```')) {
+        cleaned = cleaned.replace(/^```json\n?/, '').replace(/^```\n?/, '').replace(/```$/, '').trim();
+    }
+    try { JSON.parse(cleaned); return cleaned; } catch { /* needs repair */ }
+
+    const keyIndex = cleaned.indexOf('"cardTransactions"');
+    if (keyIndex === -1) return '{"cardTransactions":[],"isExtractionComplete":false,"extractionNotes":"Erro: campo não encontrado."}';
+
+    const arrayStart = cleaned.indexOf('[', keyIndex);
+    if (arrayStart === -1) return '{"cardTransactions":[],"isExtractionComplete":false,"extractionNotes":"Erro: array não encontrado."}';
+
+    // Os campos do resumo vêm antes da lista e são preservados
+    const summary = cleaned.substring(0, keyIndex).replace(/,\s*$/, '');
+    const closingBraces: number[] = [];
+    for (let i = arrayStart + 1; i < cleaned.length; i++) {
+        if (cleaned[i] === '}') closingBraces.push(i);
+    }
+
+    for (let i = closingBraces.length - 1; i >= 0; i--) {
+        const candidate = cleaned.substring(arrayStart, closingBraces[i] + 1) + ']';
+        const tail = `"cardTransactions":${candidate},"isExtractionComplete":false,"extractionNotes":"Resposta truncada. Dados parciais recuperados."}`;
+        for (const wrapped of [`${summary},${tail}`, `{${tail}`]) {
+            try {
+                JSON.parse(wrapped);
+                return wrapped;
+            } catch { /* try next */ }
+        }
+    }
+
+    return '{"cardTransactions":[],"isExtractionComplete":false,"extractionNotes":"Erro crítico na resposta truncada."}';
+};
+
+export const processCardStatementPDF = async (file: File, maxRetries = 2, password?: string, context?: CompanyPromptContext): Promise<GeminiCardResponse> => {
+    const categories = categoriesOf(context);
+    const documents = await loadDocumentParts(file, password);
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        try {
+            if (attempt > 0) {
+                console.log(`[Card] Retry attempt ${attempt}/${maxRetries}...`);
+                await delay(1000 * attempt);
+            }
+
+            const rawText = await getExtractionProvider().generateStructured({
+                task: 'card',
+                documents,
+                context: { ...toPromptContext(context), accounts: [] },
+            });
+            if (!rawText || rawText.trim().length === 0) {
+                throw new Error("A IA retornou uma resposta vazia. Tente novamente.");
+            }
+
+            let parsedResponse: GeminiCardResponse;
+            try {
+                parsedResponse = JSON.parse(repairTruncatedJsonCard(rawText));
+            } catch (parseError) {
+                throw new Error(`Erro ao processar resposta da IA. Tamanho: ${rawText.length} chars.`);
+            }
+
+            if (!parsedResponse.cardTransactions || !Array.isArray(parsedResponse.cardTransactions)) {
+                throw new Error("Estrutura JSON inválida recebida da API para fatura de cartão.");
+            }
+
+            parsedResponse.cardTransactions = parsedResponse.cardTransactions.map(t => ({
+                ...t,
+                description: t.description || 'Lançamento sem descrição',
+                cardLastDigits: (t.cardLastDigits || '').replace(/\D/g, '').slice(-4),
+                category: categories.includes(t.category) ? t.category : 'Não categorizado',
+                installmentNumber: t.installmentNumber || null,
+                installmentTotal: t.installmentTotal || null,
+                amount: t.amount || 0,
+                originalAmount: t.originalAmount || null,
+                originalCurrency: t.originalCurrency || '',
+                exchangeRate: t.exchangeRate || null,
+                iof: Math.abs(t.iof || 0),
+                accountDebit: '',
+                accountingHistory: '',
+                isUnusual: t.isUnusual || false,
+                unusualReason: t.unusualReason || '',
+            }));
+
+            return parsedResponse;
+
+        } catch (error: unknown) {
+            console.error(`[Card] Attempt ${attempt + 1} failed:`, error);
+            lastError = error instanceof Error ? error : new Error("Erro desconhecido ao processar a fatura.");
+        }
+    }
+
+    throw new Error(`O modelo de IA não conseguiu processar a fatura após ${maxRetries + 1} tentativas. Detalhe: ${lastError?.message}`);
+};
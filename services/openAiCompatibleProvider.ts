@@ -0,0 +1,122 @@
+import { loadPdfDocument, renderPdfPagesToJpeg } from '../utils/fileUtils';
+import { extractPdfTextLines } from '../utils/pdfTextLayer';
+import { DocumentPart, ExtractionProvider, StructuredRequest } from './extractionProvider';
+import { buildCategoryPrompt, buildDateCorrectionPrompt, buildExtractionRequest, normalizePromptContext } from '../server/prompts.js';
+
+interface OpenAiCompatibleOptions {
+    baseUrl: string;   // ex.: http://localhost:11434/v1 (Ollama) ou http://localhost:8080/v1 (llama.cpp)
+    model: string;
+    apiKey?: string;
+}
+
+type ChatContent = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+/** Converts a `Type.*` schema from @google/genai into plain JSON Schema. */
+const toJsonSchema = (schema: any): any => {
+    if (!schema || typeof schema !== 'object') return schema;
+    const converted: any = {};
+    if (schema.type) converted.type = String(schema.type).toLowerCase();
+    if (schema.description) converted.description = schema.description;
+    if (schema.enum) converted.enum = schema.enum;
+    if (schema.required) converted.required = schema.required;
+    if (schema.items) converted.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        converted.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+        );
+    }
+    return converted;
+};
+
+const base64ToFile = (data: string, mimeType: string) => {
+    const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+    return new File([bytes], 'document.pdf', { type: mimeType });
+};
+
+/**
+ * Modelos locais não leem PDF: envia a camada de texto e, para PDFs
+ * digitalizados (sem texto), as páginas renderizadas como imagem.
+ */
+const pdfToContent = async (data: string): Promise<ChatContent[]> => {
+    const pdf = await loadPdfDocument(base64ToFile(data, 'application/pdf'));
+    if (!pdf) throw new Error("Não foi possível abrir o PDF localmente para enviá-lo ao servidor de IA.");
+
+    const lines = await extractPdfTextLines(pdf);
+    if (lines.length > 0) {
+        const pages = new Map<number, string[]>();
+        lines.forEach(line => pages.set(line.page, [...(pages.get(line.page) ?? []), line.text]));
+        const text = [...pages.entries()].map(([page, pageLines]) => `--- Página ${page} ---\n${pageLines.join('\n')}`).join('\n\n');
+        return [{ type: 'text', text }];
+    }
+
+    const pageNumbers = Array.from({ length: pdf.numPages }, (_, i) => i + 1);
+    const images = await renderPdfPagesToJpeg(pdf, pageNumbers);
+    return images.map(image => ({ type: 'image_url', image_url: { url: `data:image/jpeg;base64,${image}` } }));
+};
+
+const toChatContent = async (parts: DocumentPart[]): Promise<ChatContent[]> => {
+    const content: ChatContent[] = [];
+    for (const part of parts) {
+        if (part.inlineData.mimeType === 'application/pdf') {
+            content.push(...await pdfToContent(part.inlineData.data));
+        } else {
+            content.push({ type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } });
+        }
+    }
+    return content;
+};
+
+/**
+ * Provider for servers exposing the OpenAI `/chat/completions` API, such as
+ * Ollama and the llama.cpp server. The response schema is sent as
+ * `response_format: json_schema`, which both support.
+ */
+export const createOpenAiCompatibleProvider = ({ baseUrl, model, apiKey }: OpenAiCompatibleOptions): ExtractionProvider => {
+    const chat = async (body: object): Promise<string> => {
+        const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+        let response: Response;
+        try {
+            response = await fetch(endpoint, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+                },
+                body: JSON.stringify({ model, ...body }),
+            });
+        } catch {
+            throw new Error(`Não foi possível conectar ao servidor de IA local em ${baseUrl}. Verifique se ele está em execução e aceita requisições do navegador (CORS).`);
+        }
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new Error(`O servidor de IA local respondeu ${response.status}. ${detail.slice(0, 200)}`);
+        }
+        const payload = await response.json();
+        return payload?.choices?.[0]?.message?.content ?? '';
+    };
+
+    const generateText = async (prompt: string, temperature: number) =>
+        (await chat({ messages: [{ role: 'user', content: prompt }], temperature, stop: ['\n'] })).trim();
+
+    return {
+        id: 'openai',
+        label: `Servidor local (${model})`,
+        model,
+        // Mesmos prompts e schemas do servidor (server/prompts.js), montados no navegador
+        generateStructured: async ({ task, documents, context }: StructuredRequest) => {
+            const { prompt, schema, temperature, maxOutputTokens } = buildExtractionRequest(task, normalizePromptContext(context));
+            return chat({
+                messages: [{ role: 'user', content: [{ type: 'text', text: prompt }, ...await toChatContent(documents)] }],
+                temperature,
+                max_tokens: maxOutputTokens,
+                response_format: {
+                    type: 'json_schema',
+                    json_schema: { name: `${task}_response`, schema: toJsonSchema(schema) },
+                },
+            });
+        },
+        suggestDateCorrection: invalidDate => generateText(buildDateCorrectionPrompt({ invalidDate }), 0),
+        suggestCategory: (description, currentCategory, categories, corrections) =>
+            generateText(buildCategoryPrompt({ description, currentCategory, categories, corrections }), 0.1),
+    };
+};
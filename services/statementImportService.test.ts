@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { GeminiTransactionResponse } from '../types';
+import { mergeBankStatements } from './statementImportService';
+
+type Row = GeminiTransactionResponse['transactions'][number];
+
+const row = (date: string, description: string, credit: number, debit = 0): Row => ({
+  date,
+  description,
+  debit,
+  credit,
+  companyName: '',
+  cnpj: '',
+  category: 'Não categorizado',
+  isUnusual: false,
+  unusualReason: '',
+  accountDebit: '',
+  accountCredit: '',
+  accountingHistory: '',
+});
+
+describe('mergeBankStatements', () => {
+  it('joins consecutive statements in date order', () => {
+    const merged = mergeBankStatements([
+      { name: 'fev.pdf', result: { transactions: [row('2024-02-05', 'Fevereiro', 10)], openingBalance: 110, finalBalance: 120 } },
+      { name: 'jan.pdf', result: { transactions: [row('2024-01-05', 'Janeiro', 10)], openingBalance: 100, finalBalance: 110 } },
+    ]);
+
+    expect(merged.transactions.map(t => t.description)).toEqual(['Janeiro', 'Fevereiro']);
+    expect(merged.openingBalance).toBe(100);
+    expect(merged.finalBalance).toBe(120);
+    expect(merged.extractionNotes).toBeUndefined();
+  });
+
+  it('drops the rows a later statement repeats from an overlapping period', () => {
+    const merged = mergeBankStatements([
+      {
+        name: 'jan.pdf',
+        result: { transactions: [row('2024-01-10', 'Depósito', 50), row('2024-01-20', 'Tarifa', 0, 5)], openingBalance: 100, finalBalance: 145 },
+      },
+      {
+        name: 'meio.pdf',
+        result: { transactions: [row('2024-01-20', 'TARIFA PACOTE', 0, 5), row('2024-02-10', 'Pix', 30)], openingBalance: 150, finalBalance: 175 },
+      },
+    ]);
+
+    expect(merged.transactions.map(t => t.description)).toEqual(['Depósito', 'Tarifa', 'Pix']);
+    expect(merged.openingBalance).toBe(100);
+    expect(merged.finalBalance).toBe(175);
+    expect(merged.extractionNotes).toContain('1 transação(ões) em datas já cobertas');
+  });
+
+  it('takes the final balance from the statement that reaches furthest', () => {
+    const merged = mergeBankStatements([
+      { name: 'jan.pdf', result: { transactions: [row('2024-01-02', 'Início', 10), row('2024-01-30', 'Fim', 10)], openingBalance: 0, finalBalance: 20 } },
+      { name: 'parcial.pdf', result: { transactions: [row('2024-01-15', 'Meio', 99)], openingBalance: 10, finalBalance: 109 } },
+    ]);
+
+    expect(merged.transactions.map(t => t.description)).toEqual(['Início', 'Fim']);
+    expect(merged.finalBalance).toBe(20);
+  });
+});
@@ -0,0 +1,143 @@
+import { DocumentType, ExtractionChunkProgress, GeminiTransactionResponse } from '../types';
+import { processBankStatementPDF, CompanyPromptContext } from './geminiService';
+import { isOfxFile, parseOFXFile } from '../utils/ofxParser';
+import { parseCNABFile } from '../utils/cnabParser';
+import { isSpreadsheetFile, readSpreadsheet, applySpreadsheetMapping, guessSpreadsheetMapping, loadSavedMapping, validateSpreadsheetMapping } from '../utils/spreadsheetImport';
+
+export interface BankStatementImportOptions {
+  /** Banco do `CompanyInfo`, usado para achar o mapeamento salvo de planilhas. */
+  bankName?: string;
+  onProgress?: (chunks: ExtractionChunkProgress[]) => void;
+  /** Senha de PDFs protegidos; as páginas são renderizadas localmente antes da extração. */
+  password?: string;
+  /** Plano de categorias e correções aprendidas da empresa, anexados ao prompt da IA (só PDFs). */
+  promptContext?: CompanyPromptContext;
+  /** Interrompe a extração (lote reiniciado ou item removido) antes do próximo bloco ou tentativa. */
+  signal?: AbortSignal;
+}
+
+/** Mensagem de carregamento adequada à origem do arquivo. */
+export const describeImportSource = (file: File, documentType: DocumentType): string => {
+  if (documentType === 'cnab') return 'Lendo arquivo de retorno CNAB...';
+  if (isOfxFile(file)) return 'Lendo arquivo OFX...';
+  if (isSpreadsheetFile(file)) return 'Lendo planilha...';
+  return 'Enviando para análise da IA. Isso pode levar alguns instantes...';
+};
+
+/**
+ * Extracts a bank-like statement (conta corrente ou retorno CNAB) from any
+ * supported file: OFX and CNAB are parsed locally, spreadsheets use the mapping
+ * saved for the bank (or a guessed one) and PDFs go through the AI.
+ */
+export const extractBankStatement = async (file: File, documentType: DocumentType, options: BankStatementImportOptions = {}): Promise<GeminiTransactionResponse> => {
+  if (documentType === 'cnab') {
+    const result = await parseCNABFile(file);
+    if (result.transactions.length === 0) {
+      throw new Error(`Nenhum lançamento financeiro encontrado no arquivo de retorno. ${result.extractionNotes ?? ''}`);
+    }
+    return result;
+  }
+
+  if (isOfxFile(file)) {
+    const result = await parseOFXFile(file);
+    if (result.transactions.length === 0) {
+      throw new Error('Nenhuma transação encontrada no arquivo OFX.');
+    }
+    return result;
+  }
+
+  if (isSpreadsheetFile(file)) {
+    const rows = await readSpreadsheet(file);
+    if (rows.length === 0) {
+      throw new Error('A planilha está vazia.');
+    }
+    const mapping = (options.bankName && loadSavedMapping(options.bankName)) || guessSpreadsheetMapping(rows);
+    const mappingError = validateSpreadsheetMapping(mapping);
+    if (mappingError) {
+      throw new Error(`Não foi possível mapear as colunas automaticamente (${mappingError}) Importe esta planilha individualmente para configurar o mapeamento.`);
+    }
+    const result = applySpreadsheetMapping(rows, mapping);
+    if (result.transactions.length === 0) {
+      throw new Error('Nenhuma transação reconhecida na planilha com o mapeamento atual.');
+    }
+    return result;
+  }
+
+  return processBankStatementPDF(file, undefined, options.onProgress, options.password, options.promptContext, options.signal);
+};
+
+const movementOf = (t: GeminiTransactionResponse['transactions'][number]) => (t.credit || 0) - (t.debit || 0);
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Merges several statements of the same account into one chronologically
+ * sorted statement. Rows a later file repeats from dates an earlier file
+ * already covered (overlapping periods) are dropped, as are rows outside
+ * `period`; the opening/final balances are adjusted so the running balance
+ * still reconciles.
+ */
+export const mergeBankStatements = (
+  statements: { name: string; result: GeminiTransactionResponse }[],
+  period?: { start: string; end: string }
+): GeminiTransactionResponse => {
+  const datesOf = (r: GeminiTransactionResponse) => r.transactions.map(t => t.date).filter(Boolean).sort();
+  const firstDate = (r: GeminiTransactionResponse) => datesOf(r)[0] ?? '';
+  const lastDate = (r: GeminiTransactionResponse) => datesOf(r).pop() ?? '';
+  const ordered = statements
+    .filter(s => s.result.transactions.length > 0)
+    .sort((a, b) => firstDate(a.result).localeCompare(firstDate(b.result)));
+
+  if (ordered.length === 0) {
+    return { transactions: [] };
+  }
+
+  // Períodos sobrepostos (ex.: 01 a 31/01 e 15/01 a 15/02): as datas já cobertas por um arquivo anterior ficam com ele
+  let coveredUntil = '';
+  let overlapping = 0;
+  const rows = ordered
+    .flatMap((s, fileIndex) => {
+      const fresh = s.result.transactions
+        .map((t, index) => ({ t, fileIndex, index }))
+        .filter(({ t }) => !coveredUntil || !t.date || t.date > coveredUntil);
+      overlapping += s.result.transactions.length - fresh.length;
+      if (lastDate(s.result) > coveredUntil) coveredUntil = lastDate(s.result);
+      return fresh;
+    })
+    .sort((a, b) => a.t.date.localeCompare(b.t.date) || a.fileIndex - b.fileIndex || a.index - b.index);
+
+  // Datas inválidas (vazias) permanecem para revisão manual
+  const isBefore = (date: string) => !!period?.start && !!date && date < period.start;
+  const isAfter = (date: string) => !!period?.end && !!date && date > period.end;
+
+  const kept = rows.filter(({ t }) => !isBefore(t.date) && !isAfter(t.date)).map(({ t }) => t);
+  const droppedBefore = rows.filter(({ t }) => isBefore(t.date));
+  const droppedAfter = rows.filter(({ t }) => isAfter(t.date));
+
+  const first = ordered[0].result;
+  // O saldo final vem do arquivo que vai mais longe, não do último a começar
+  const last = ordered.reduce((a, b) => lastDate(b.result) >= lastDate(a.result) ? b : a).result;
+  const openingBalance = first.openingBalance !== undefined
+    ? round2(first.openingBalance + droppedBefore.reduce((sum, { t }) => sum + movementOf(t), 0))
+    : undefined;
+  const finalBalance = last.finalBalance !== undefined
+    ? round2(last.finalBalance - droppedAfter.reduce((sum, { t }) => sum + movementOf(t), 0))
+    : undefined;
+
+  const dropped = droppedBefore.length + droppedAfter.length;
+  const failedPageRanges = ordered.flatMap(s => (s.result.failedPageRanges ?? []).map(r => ({ ...r, error: `${s.name}: ${r.error}` })));
+
+  return {
+    transactions: kept,
+    openingBalance,
+    finalBalance,
+    bankName: ordered.find(s => s.result.bankName)?.result.bankName,
+    accountHolderCNPJ: ordered.find(s => s.result.accountHolderCNPJ)?.result.accountHolderCNPJ,
+    bankCode: ordered.find(s => s.result.bankCode)?.result.bankCode,
+    accountNumber: ordered.find(s => s.result.accountNumber)?.result.accountNumber,
+    failedPageRanges: failedPageRanges.length > 0 ? failedPageRanges : undefined,
+    extractionNotes: [
+      overlapping > 0 && `${overlapping} transação(ões) em datas já cobertas por outro extrato (períodos sobrepostos) foram desconsideradas.`,
+      dropped > 0 && `${dropped} transação(ões) fora do período informado foram desconsideradas.`,
+    ].filter(Boolean).join(' ') || undefined,
+  };
+};
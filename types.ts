@@ -1,5 +1,5 @@
 
-export type DocumentType = 'bank' | 'investment';
+export type DocumentType = 'bank' | 'investment' | 'cnab' | 'card' | 'brokerage';
 
 export interface Transaction {
     id: string;
@@ -13,6 +13,12 @@ export interface Transaction {
     category: string;
     isUnusual: boolean;
     unusualReason: string;
+    // Origem da linha no documento (só em extrações de PDF)
+    confidence?: number;       // Confiança da extração, de 0 a 1
+    sourcePage?: number;       // Página do documento (1-based)
+    sourceLine?: string;       // Linha como impressa no documento
+    printedBalance?: number;   // Saldo impresso após a linha (por linha ou no fim do dia), quando o extrato mostra
+    ruleId?: string;           // Regra do usuário que definiu categoria/contas/histórico
     accountDebit: string;
     accountCredit: string;
     accountingHistory: string;
@@ -20,9 +26,34 @@ export interface Transaction {
 
 export interface GeminiTransactionResponse {
     transactions: (Omit<Transaction, 'id' | 'balance' | 'debit' | 'credit'> & { debit: number, credit: number })[];
+    openingBalance?: number;
     finalBalance?: number;
     bankName?: string;
     accountHolderCNPJ?: string;
+    failedPageRanges?: FailedPageRange[];
+    // Preenchidos por importações estruturadas (OFX etc.)
+    bankCode?: string;
+    accountNumber?: string;
+    extractionNotes?: string;
+}
+
+// ─── Extração em blocos de páginas ─────────────────────────────────────────
+
+export type ChunkStatus = 'pending' | 'processing' | 'done' | 'failed';
+
+export interface ExtractionChunkProgress {
+    index: number;
+    startPage: number;         // 1-based, inclusivo
+    endPage: number;           // 1-based, inclusivo
+    status: ChunkStatus;
+    transactionCount?: number;
+    error?: string;
+}
+
+export interface FailedPageRange {
+    startPage: number;
+    endPage: number;
+    error: string;
 }
 
 // ─── Extrato de Cotista (Fundos de Investimento) ───────────────────────────
@@ -34,6 +65,8 @@ export type InvestmentOperationType =
     | 'Come-cotas'
     | 'Amortização'
     | 'Transferência'
+    | 'Compra'
+    | 'Venda'
     | 'Outro';
 
 export interface InvestmentTransaction {
@@ -45,12 +78,17 @@ export interface InvestmentTransaction {
     shareQuantity: number;     // Quantidade de cotas
     shareValue: number;        // Valor unitário da cota
     grossValue: number;        // Valor bruto da operação
+    fees: number;              // Custos rateados da nota de corretagem (0 no extrato de cotista)
     irWithheld: number;        // IR retido na fonte
-    netValue: number;          // Valor líquido (grossValue - irWithheld)
+    netValue: number;          // Valor líquido (grossValue - fees - irWithheld; em compras, custo total grossValue + fees)
+    settlementDate: string;    // Data de liquidação (AAAA-MM-DD); vazio quando não se aplica
     administrator: string;     // Administrador do fundo
     gestor: string;            // Gestor do fundo
     isUnusual: boolean;
     unusualReason: string;
+    confidence?: number;       // Confiança da extração, de 0 a 1
+    sourcePage?: number;       // Página do documento (1-based)
+    sourceLine?: string;       // Linha como impressa no documento
 }
 
 export interface GeminiInvestmentResponse {
@@ -67,6 +105,101 @@ export interface GeminiInvestmentResponse {
     extractionNotes?: string;
 }
 
+// ─── Nota de Corretagem (SINACOR) ──────────────────────────────────────────
+
+export type BrokerageTradeSide = 'C' | 'V';
+
+export interface BrokerageTrade {
+    ticker: string;             // Código de negociação (PETR4, HGLG11...)
+    specification: string;      // Especificação do título como impressa (ex.: "PETROBRAS PN N2")
+    market: string;             // VISTA, FRACIONARIO, OPCAO DE COMPRA...
+    side: BrokerageTradeSide;
+    quantity: number;
+    price: number;
+    grossValue: number;         // quantity × price, sempre positivo
+    isDayTrade: boolean;
+}
+
+/** Bloco "Resumo Financeiro" da nota, valores positivos em reais. */
+export interface BrokerageFees {
+    settlementFee: number;      // Taxa de liquidação
+    registrationFee: number;    // Taxa de registro
+    emoluments: number;         // Emolumentos
+    brokerage: number;          // Corretagem / taxa operacional
+    iss: number;                // ISS sobre a corretagem
+    otherFees: number;          // Taxas de termo/opções, ANA e outras
+    irrf: number;               // IRRF "dedo-duro" sobre vendas
+}
+
+export interface BrokerageNote {
+    noteNumber: string;
+    tradeDate: string;          // Data do pregão (AAAA-MM-DD)
+    settlementDate: string;     // Data do "Líquido para" (AAAA-MM-DD)
+    trades: BrokerageTrade[];
+    fees: BrokerageFees;
+    netTotal: number;           // Líquido da nota: positivo = crédito ao cliente, negativo = débito
+}
+
+export interface GeminiBrokerageResponse {
+    brokerageNotes: BrokerageNote[];
+    brokerName?: string;
+    clientName?: string;
+    clientCNPJ?: string;        // CNPJ ou CPF do cliente (só números)
+    isExtractionComplete?: boolean;
+    extractionNotes?: string;
+}
+
+// ─── Fatura de Cartão de Crédito ───────────────────────────────────────────
+
+export interface CardTransaction {
+    id: string;
+    date: string;                       // Data da compra (AAAA-MM-DD)
+    description: string;
+    cardLastDigits: string;             // Final do cartão (adicionais têm finais próprios)
+    category: string;
+    installmentNumber: number | null;   // Parcela atual ("3" em "3/10")
+    installmentTotal: number | null;    // Total de parcelas ("10" em "3/10")
+    amount: number;                     // Valor em R$; negativo = estorno/crédito
+    originalAmount: number | null;      // Valor na moeda original (compras internacionais)
+    originalCurrency: string;           // Ex.: USD; vazio para compras em reais
+    exchangeRate: number | null;        // Cotação usada na conversão
+    iof: number;                        // IOF cobrado junto com a compra internacional
+    accountDebit: string;               // Conta de despesa (contrapartida do passivo do cartão)
+    accountingHistory: string;
+    isUnusual: boolean;
+    unusualReason: string;
+}
+
+export interface GeminiCardResponse {
+    cardTransactions: Omit<CardTransaction, 'id'>[];
+    issuer?: string;                    // Banco emissor
+    cardholderName?: string;
+    cardholderCNPJ?: string;            // Só números
+    closingDate?: string;               // Fechamento (AAAA-MM-DD)
+    dueDate?: string;                   // Vencimento (AAAA-MM-DD)
+    previousBalance?: number;           // Total da fatura anterior
+    paymentsReceived?: number;          // Pagamentos/créditos da fatura anterior
+    invoiceTotal?: number;              // Total a pagar desta fatura
+    isExtractionComplete?: boolean;
+    extractionNotes?: string;
+}
+
+export type CardStatementMeta = Omit<GeminiCardResponse, 'cardTransactions'>;
+
+/** Lançamento contábil gerado a partir de um item da fatura. */
+export interface CardAccountingEntry {
+    date: string;
+    accountDebit: string;
+    accountCredit: string;
+    amount: number;
+    history: string;
+    description: string;
+    installment: string;                // "3/10" ou vazio
+    originalAmount: number | null;
+    originalCurrency: string;
+    iof: number;
+}
+
 // ──────────────────────────────────────────────────────────────────────────
 
 export interface DateValidationError {
@@ -82,6 +215,81 @@ export interface CurrencyValidationError {
     message: string;
 }
 
+// ─── Regras de categorização e contabilização (por CNPJ da empresa) ───────
+
+export type RuleDirection = 'any' | 'debit' | 'credit';
+
+export interface RuleConditions {
+    descriptionMode: 'contains' | 'regex';
+    descriptionPattern: string;    // Vazio = qualquer descrição
+    cnpj: string;                  // CNPJ/CPF da contraparte (só números); vazio = qualquer
+    minAmount: number | null;      // Valor absoluto da transação
+    maxAmount: number | null;
+    direction: RuleDirection;
+}
+
+export interface RuleActions {
+    category: string;              // Vazio = mantém o valor extraído
+    accountDebit: string;
+    accountCredit: string;
+    historyTemplate: string;       // Aceita {descricao}, {empresa}, {cnpj}, {valor}, {data}, {mes}, {ano}
+}
+
+export interface CategorizationRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    conditions: RuleConditions;
+    actions: RuleActions;
+}
+
+// ─── Plano de categorias (taxonomia por CNPJ da empresa) ──────────────────
+
+export interface TaxonomyCategory {
+    id: string;
+    name: string;
+    parentId: string | null;
+    accountDebit: string;          // Conta padrão; vazio = herda da categoria-pai
+    accountCredit: string;
+}
+
+// ─── Plano de contas (por CNPJ da empresa) ───────────────────────────────
+
+export type AccountNature = 'devedora' | 'credora' | '';
+
+export interface ChartAccount {
+    code: string;                  // Classificação (ex.: 1.1.1.02.001)
+    reducedCode: string;           // Código reduzido usado pelos sistemas contábeis; vazio se não houver
+    description: string;
+    nature: AccountNature;
+    isAnalytic: boolean;           // Só contas analíticas recebem lançamentos
+}
+
+// ─── Correções aprendidas (exemplos para a IA, por CNPJ da empresa) ───────
+
+export interface CorrectionValues {
+    category: string;
+    accountDebit: string;
+    accountCredit: string;
+}
+
+export interface LearnedCorrection {
+    id: string;
+    descriptionPattern: string;    // Descrição sem datas e números de documento
+    cnpj: string;                  // CNPJ/CPF da contraparte (só números); vazio = não informado
+    original: CorrectionValues;    // Valores antes da primeira correção
+    corrected: CorrectionValues;
+    updatedAt: string;             // ISO
+}
+
+// Recategorização em lote pela IA: proposta revisada antes de ser aplicada
+export interface CategorySuggestion {
+    transactionId: string;
+    currentCategory: string;
+    suggestedCategory: string;
+    justification: string;
+}
+
 export interface CompanyInfo {
     companyName: string;
     cnpj: string;
@@ -98,7 +306,7 @@ export interface Filters {
     minAmount: string;
     maxAmount: string;
     category: string;
-    showUnusual: 'all' | 'unusualOnly' | 'commonOnly';
+    showUnusual: 'all' | 'unusualOnly' | 'commonOnly' | 'lowConfidenceOnly';
     transactionType: 'all' | 'debit' | 'credit';
 }
 
@@ -110,3 +318,44 @@ export interface InvestmentFilters {
     minAmount: string;
     maxAmount: string;
 }
+
+// ─── Importação de planilhas (CSV/XLSX) ────────────────────────────────────
+
+export type SpreadsheetCell = string | number | Date | null;
+
+export type SpreadsheetDateFormat = 'DD/MM/AAAA' | 'DD/MM/AA' | 'AAAA-MM-DD' | 'MM/DD/AAAA';
+
+export type SpreadsheetField = 'date' | 'description' | 'debit' | 'credit' | 'amount' | 'balance';
+
+export interface SpreadsheetColumnMapping {
+    headerRow: number;                              // índice (0-based) da linha de cabeçalho; -1 se não houver
+    columns: Record<SpreadsheetField, number | null>; // índice da coluna de cada campo
+    amountMode: 'debitCredit' | 'signed';           // colunas separadas ou um único valor com sinal
+    dateFormat: SpreadsheetDateFormat;
+    decimalSeparator: ',' | '.';
+}
+
+// ─── Fila de processamento em lote ─────────────────────────────────────────
+
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+export interface BatchQueueItem {
+    id: string;
+    file: File;
+    status: BatchItemStatus;
+    result?: GeminiTransactionResponse;
+    error?: string;
+    chunks?: ExtractionChunkProgress[];
+}
+
+// ─── Detecção automática do tipo de documento ─────────────────────────────
+
+export type DetectedDocumentType = DocumentType | 'unsupported';
+
+export interface DocumentClassification {
+    type: DetectedDocumentType;
+    label: string;              // ex.: "Extrato bancário", "Nota fiscal"
+    confidence: number;         // 0 a 1
+    source: 'extension' | 'keywords' | 'ai';
+    reason?: string;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { ChartAccount } from '../types';
+import { AccountingEntry, AccountingSystemId, buildAccountingExport, getAccountingProfile } from './accountingExport';
+
+const chart: ChartAccount[] = [
+  { code: '1.1.1.02.001', reducedCode: '15', description: 'Banco Itaú', nature: 'devedora', isAnalytic: true },
+  { code: '4.1.2.01.003', reducedCode: '320', description: 'Tarifas bancárias', nature: 'devedora', isAnalytic: true },
+  { code: '3.1.1.01.001', reducedCode: '210', description: 'Receita de serviços', nature: 'credora', isAnalytic: true },
+];
+
+// Contas pelo código reduzido, pela classificação e pelo nome; históricos com delimitadores e quebra de linha
+const entries: AccountingEntry[] = [
+  { date: '2024-01-05', accountDebit: '320', accountCredit: '15', amount: 12.5, history: 'Tarifa pacote; serviços | janeiro' },
+  { date: '2024-01-31', accountDebit: '1.1.1.02.001', accountCredit: 'Receita de serviços', amount: 1234.56, history: 'Recebimento NF 123\nCliente Ação' },
+];
+
+/** Saída esperada de cada perfil genérico; larguras fixas montadas campo a campo. */
+const GOLDEN: Record<AccountingSystemId, { historyCode: string; lines: string[] }> = {
+  dominio: {
+    historyCode: '',
+    lines: [
+      '05/01/2024;320;15;12,50;;Tarifa pacote serviços | janeiro',
+      '31/01/2024;15;210;1234,56;;Recebimento NF 123 Cliente Ação',
+    ],
+  },
+  alterdata: {
+    historyCode: '12',
+    lines: [
+      '05012024' + '0000320' + '0000015' + '000000000001250' + '00012' + 'Tarifa pacote; serviços | janeiro'.padEnd(200),
+      '31012024' + '0000015' + '0000210' + '000000000123456' + '00012' + 'Recebimento NF 123 Cliente Ação'.padEnd(200),
+    ],
+  },
+  questor: {
+    historyCode: '',
+    lines: [
+      '05/01/2024;4.1.2.01.003;1.1.1.02.001;12.50;;Tarifa pacote serviços | janeiro',
+      '31/01/2024;1.1.1.02.001;3.1.1.01.001;1234.56;;Recebimento NF 123 Cliente Ação',
+    ],
+  },
+  contmatic: {
+    historyCode: '12',
+    lines: [
+      '05/01/24' + '000320' + '000015' + '00000000001250' + '012' + 'Tarifa pacote; serviços | janeiro'.padEnd(150),
+      '31/01/24' + '000015' + '000210' + '00000000123456' + '012' + 'Recebimento NF 123 Cliente Ação'.padEnd(150),
+    ],
+  },
+  fortes: {
+    historyCode: '',
+    lines: [
+      'LAN|20240105|320|15|12,50||Tarifa pacote; serviços janeiro',
+      'LAN|20240131|15|210|1234,56||Recebimento NF 123 Cliente Ação',
+    ],
+  },
+};
+
+describe('buildAccountingExport', () => {
+  it.each(Object.entries(GOLDEN))('matches the golden output of the %s profile', (id, golden) => {
+    const profile = getAccountingProfile(id as AccountingSystemId);
+    const result = buildAccountingExport(entries, profile, { historyCode: golden.historyCode }, chart);
+
+    expect(result.lines).toEqual(golden.lines);
+    expect(result.unmappedAccounts).toEqual([]);
+    expect(result.rejected).toEqual([]);
+    if (profile.layout === 'fixed') {
+      const width = profile.fields.reduce((sum, f) => sum + (f.width ?? 0), 0);
+      result.lines.forEach(line => expect(line).toHaveLength(width));
+    }
+  });
+
+  it('leaves out fixed-width rows whose account is unmapped or whose amount overflows', () => {
+    const result = buildAccountingExport([
+      { date: '2024-01-05', accountDebit: 'Fornecedor X', accountCredit: '15', amount: 10, history: 'Sem conta' },
+      { date: '2024-01-06', accountDebit: '320', accountCredit: '15', amount: 1e13, history: 'Valor grande' },
+      entries[0],
+    ], getAccountingProfile('alterdata'), { historyCode: '0' }, chart);
+
+    expect(result.lines).toHaveLength(1);
+    expect(result.rejected.map(r => r.entry.history)).toEqual(['Sem conta', 'Valor grande']);
+  });
+
+  it('keeps unmapped accounts as typed in delimited layouts', () => {
+    const result = buildAccountingExport(
+      [{ date: '2024-01-05', accountDebit: 'Fornecedor X', accountCredit: '15', amount: 10, history: 'Sem conta' }],
+      getAccountingProfile('dominio'), { historyCode: '' }, chart
+    );
+
+    expect(result.lines).toEqual(['05/01/2024;Fornecedor X;15;10,00;;Sem conta']);
+    expect(result.unmappedAccounts).toEqual(['Fornecedor X']);
+  });
+});
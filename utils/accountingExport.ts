@@ -0,0 +1,294 @@
+/**
+ * Leiautes de importação de lançamentos contábeis dos sistemas mais usados
+ * pelos escritórios (Domínio, Alterdata, Questor, Contmatic e Fortes). Cada
+ * perfil é só dados — campos, larguras, formatos — para que ajustar a versão
+ * de um sistema não exija mexer no gerador.
+ *
+ * Os perfis são genéricos: seguem o formato comum de lançamento de partida
+ * simples desses sistemas, sem conferência com a especificação de leiaute de
+ * nenhuma versão do fornecedor. Por isso o rótulo diz "genérico" e a prévia do
+ * diálogo deve ser conferida com o leiaute da versão instalada no escritório.
+ * `accountingExport.test.ts` fixa a saída de cada perfil.
+ */
+import { CardAccountingEntry, ChartAccount, Transaction } from '../types';
+import { findAccount } from './chartOfAccounts';
+import { parseCurrency } from './currencyUtils';
+import { downloadBlob, encodeLatin1 } from './fileUtils';
+
+const SETTINGS_STORAGE_KEY = 'accountingExportSettingsByCnpj';
+
+export type AccountingSystemId = 'dominio' | 'alterdata' | 'questor' | 'contmatic' | 'fortes';
+
+/** Lançamento de partida simples, comum a extrato bancário e fatura de cartão. */
+export interface AccountingEntry {
+  date: string;                 // AAAA-MM-DD
+  accountDebit: string;
+  accountCredit: string;
+  amount: number;
+  history: string;
+}
+
+type EntryField = 'date' | 'accountDebit' | 'accountCredit' | 'amount' | 'historyCode' | 'history' | 'constant';
+
+interface LayoutField {
+  field: EntryField;
+  /** Só nos leiautes de largura fixa. */
+  width?: number;
+  /** Valor fixo do campo `constant`. */
+  value?: string;
+}
+
+export type AccountingDateFormat = 'dd/MM/yyyy' | 'ddMMyyyy' | 'yyyyMMdd' | 'dd/MM/yy';
+
+export interface AccountingExportProfile {
+  id: AccountingSystemId;
+  label: string;
+  layout: 'delimited' | 'fixed';
+  delimiter: string;            // Ignorado na largura fixa
+  dateFormat: AccountingDateFormat;
+  /** Separador decimal do valor; vazio = centavos implícitos (ex.: 1234,56 → 123456). */
+  decimalSeparator: ',' | '.' | '';
+  /** Contas pelo código reduzido do plano de contas (senão, pela classificação). */
+  useReducedCode: boolean;
+  fields: LayoutField[];
+  extension: 'txt' | 'csv';
+  encoding: 'windows-1252' | 'utf-8';
+  defaultHistoryCode: string;
+}
+
+export interface AccountingExportSettings {
+  historyCode: string;
+}
+
+export const ACCOUNTING_EXPORT_PROFILES: AccountingExportProfile[] = [
+  {
+    id: 'dominio',
+    label: 'Domínio (Thomson Reuters) — genérico',
+    layout: 'delimited',
+    delimiter: ';',
+    dateFormat: 'dd/MM/yyyy',
+    decimalSeparator: ',',
+    useReducedCode: true,
+    fields: [{ field: 'date' }, { field: 'accountDebit' }, { field: 'accountCredit' }, { field: 'amount' }, { field: 'historyCode' }, { field: 'history' }],
+    extension: 'txt',
+    encoding: 'windows-1252',
+    defaultHistoryCode: '',
+  },
+  {
+    id: 'alterdata',
+    label: 'Alterdata — genérico',
+    layout: 'fixed',
+    delimiter: '',
+    dateFormat: 'ddMMyyyy',
+    decimalSeparator: '',
+    useReducedCode: true,
+    fields: [
+      { field: 'date', width: 8 },
+      { field: 'accountDebit', width: 7 },
+      { field: 'accountCredit', width: 7 },
+      { field: 'amount', width: 15 },
+      { field: 'historyCode', width: 5 },
+      { field: 'history', width: 200 },
+    ],
+    extension: 'txt',
+    encoding: 'windows-1252',
+    defaultHistoryCode: '0',
+  },
+  {
+    id: 'questor',
+    label: 'Questor — genérico',
+    layout: 'delimited',
+    delimiter: ';',
+    dateFormat: 'dd/MM/yyyy',
+    decimalSeparator: '.',
+    useReducedCode: false,
+    fields: [{ field: 'date' }, { field: 'accountDebit' }, { field: 'accountCredit' }, { field: 'amount' }, { field: 'historyCode' }, { field: 'history' }],
+    extension: 'csv',
+    encoding: 'windows-1252',
+    defaultHistoryCode: '',
+  },
+  {
+    id: 'contmatic',
+    label: 'Contmatic Phoenix — genérico',
+    layout: 'fixed',
+    delimiter: '',
+    dateFormat: 'dd/MM/yy',
+    decimalSeparator: '',
+    useReducedCode: true,
+    fields: [
+      { field: 'date', width: 8 },
+      { field: 'accountDebit', width: 6 },
+      { field: 'accountCredit', width: 6 },
+      { field: 'amount', width: 14 },
+      { field: 'historyCode', width: 3 },
+      { field: 'history', width: 150 },
+    ],
+    extension: 'txt',
+    encoding: 'windows-1252',
+    defaultHistoryCode: '0',
+  },
+  {
+    id: 'fortes',
+    label: 'Fortes AC — genérico',
+    layout: 'delimited',
+    delimiter: '|',
+    dateFormat: 'yyyyMMdd',
+    decimalSeparator: ',',
+    useReducedCode: true,
+    fields: [{ field: 'constant', value: 'LAN' }, { field: 'date' }, { field: 'accountDebit' }, { field: 'accountCredit' }, { field: 'amount' }, { field: 'historyCode' }, { field: 'history' }],
+    extension: 'txt',
+    encoding: 'windows-1252',
+    defaultHistoryCode: '',
+  },
+];
+
+export const getAccountingProfile = (id: AccountingSystemId) => ACCOUNTING_EXPORT_PROFILES.find(p => p.id === id)!;
+
+const readAllSettings = (): Record<string, Partial<Record<AccountingSystemId, AccountingExportSettings>>> => {
+  try {
+    return JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadAccountingExportSettings = (companyCnpj: string, profile: AccountingExportProfile): AccountingExportSettings =>
+  readAllSettings()[companyCnpj.replace(/\D/g, '')]?.[profile.id] ?? { historyCode: profile.defaultHistoryCode };
+
+export const saveAccountingExportSettings = (companyCnpj: string, profileId: AccountingSystemId, settings: AccountingExportSettings) => {
+  const all = readAllSettings();
+  const key = companyCnpj.replace(/\D/g, '');
+  all[key] = { ...all[key], [profileId]: settings };
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(all));
+};
+
+export const bankAccountingEntries = (transactions: Transaction[]): AccountingEntry[] =>
+  transactions.map(t => ({
+    date: t.date,
+    accountDebit: t.accountDebit,
+    accountCredit: t.accountCredit,
+    amount: parseCurrency(t.debit) || parseCurrency(t.credit) || 0,
+    history: t.accountingHistory || t.description,
+  }));
+
+export const cardAccountingEntries = (entries: CardAccountingEntry[]): AccountingEntry[] =>
+  entries.map(({ date, accountDebit, accountCredit, amount, history }) => ({ date, accountDebit, accountCredit, amount, history }));
+
+export const formatAccountingDate = (isoDate: string, format: AccountingDateFormat) => {
+  const [year = '', month = '', day = ''] = isoDate.split('-');
+  switch (format) {
+    case 'ddMMyyyy': return `${day}${month}${year}`;
+    case 'yyyyMMdd': return `${year}${month}${day}`;
+    case 'dd/MM/yy': return `${day}/${month}/${year.slice(-2)}`;
+    default: return `${day}/${month}/${year}`;
+  }
+};
+
+const formatAmount = (amount: number, decimalSeparator: AccountingExportProfile['decimalSeparator']) => {
+  const fixed = Math.abs(amount).toFixed(2);
+  return decimalSeparator ? fixed.replace('.', decimalSeparator) : fixed.replace('.', '');
+};
+
+/** Legacy importers choke on line breaks and on the delimiter inside text. */
+const cleanText = (text: string, delimiter: string) =>
+  (delimiter ? text.split(delimiter).join(' ') : text).replace(/\s+/g, ' ').trim();
+
+const FIELD_LABELS: Record<EntryField, string> = {
+  date: 'Data',
+  accountDebit: 'Conta débito',
+  accountCredit: 'Conta crédito',
+  amount: 'Valor',
+  historyCode: 'Código do histórico',
+  history: 'Histórico',
+  constant: 'Constante',
+};
+
+export interface RejectedAccountingEntry {
+  entry: AccountingEntry;
+  reason: string;
+}
+
+export interface AccountingExportResult {
+  lines: string[];
+  /** Lançamentos omitidos por falta de conta ou valor. */
+  skippedCount: number;
+  /**
+   * Contas sem código no plano (ou fora dele). Nos leiautes delimitados saem
+   * como digitadas; nos de largura fixa o lançamento vai para `rejected`.
+   */
+  unmappedAccounts: string[];
+  /** Lançamentos que não cabem no leiaute de largura fixa, com o motivo. */
+  rejected: RejectedAccountingEntry[];
+}
+
+/**
+ * Builds the file lines of a profile, mapping accounts to reduced codes when the layout asks for them.
+ * Fixed-width layouts never pad a free-text account with zeros nor cut a code or amount to fit:
+ * such entries are left out and listed in `rejected`.
+ */
+export const buildAccountingExport = (
+  entries: AccountingEntry[],
+  profile: AccountingExportProfile,
+  settings: AccountingExportSettings,
+  chartOfAccounts: ChartAccount[]
+): AccountingExportResult => {
+  const isFixed = profile.layout === 'fixed';
+  const codeLabel = profile.useReducedCode ? 'código reduzido' : 'classificação';
+  const unmapped = new Set<string>();
+  const accountCode = (value: string) => {
+    const account = findAccount(chartOfAccounts, value);
+    const code = profile.useReducedCode ? account?.reducedCode : account?.code;
+    if (!code) unmapped.add(value);
+    return code;
+  };
+
+  const exportable = entries.filter(e => e.accountDebit.trim() && e.accountCredit.trim() && e.amount !== 0);
+  const lines: string[] = [];
+  const rejected: RejectedAccountingEntry[] = [];
+  for (const entry of exportable) {
+    const debit = accountCode(entry.accountDebit.trim());
+    const credit = accountCode(entry.accountCredit.trim());
+    if (isFixed && (!debit || !credit)) {
+      const missing = [!debit && entry.accountDebit.trim(), !credit && entry.accountCredit.trim()].filter(Boolean);
+      rejected.push({ entry, reason: `Sem ${codeLabel} no plano de contas: ${missing.join(', ')}` });
+      continue;
+    }
+
+    const values: Record<EntryField, string> = {
+      date: formatAccountingDate(entry.date, profile.dateFormat),
+      accountDebit: debit ?? entry.accountDebit.trim(),
+      accountCredit: credit ?? entry.accountCredit.trim(),
+      amount: formatAmount(entry.amount, profile.decimalSeparator),
+      historyCode: settings.historyCode.trim(),
+      history: cleanText(entry.history, profile.delimiter),
+      constant: '',
+    };
+    const overflow: string[] = [];
+    const cells = profile.fields.map(({ field, width, value }) => {
+      const text = field === 'constant' ? value ?? '' : values[field];
+      if (!isFixed || !width) return text;
+      // Largura fixa: números com zeros à esquerda, textos completados com espaços
+      const isNumeric = field !== 'history' && field !== 'date' && field !== 'constant';
+      if (!isNumeric) return text.padEnd(width).slice(0, width);
+      const digits = text.replace(/\D/g, '');
+      if (digits.length > width) overflow.push(`${FIELD_LABELS[field]} ${text} não cabe em ${width} dígitos`);
+      return digits.padStart(width, '0');
+    });
+    if (overflow.length > 0) {
+      rejected.push({ entry, reason: overflow.join('; ') });
+      continue;
+    }
+    lines.push(cells.join(isFixed ? '' : profile.delimiter));
+  }
+
+  return { lines, skippedCount: entries.length - exportable.length, unmappedAccounts: [...unmapped], rejected };
+};
+
+export const exportAccountingFile = (lines: string[], profile: AccountingExportProfile, filenameBase: string) => {
+  const content = lines.join('\r\n') + '\r\n';
+  const type = profile.extension === 'csv' ? 'text/csv' : 'text/plain';
+  const filename = `${filenameBase}_${profile.id}.${profile.extension}`;
+  const data = profile.encoding === 'windows-1252' ? encodeLatin1(content) : `\uFEFF${content}`;
+  downloadBlob(new Blob([data], { type: `${type};charset=${profile.encoding}` }), filename);
+  return filename;
+};
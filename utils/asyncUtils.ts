@@ -0,0 +1,30 @@
+/**
+ * Runs an async worker over every item with at most `limit` calls in flight.
+ * Results keep the order of the input array; a rejected item does not stop
+ * the others — the caller receives a PromiseSettledResult per item.
+ */
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> => {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, runNext);
+  await Promise.all(workers);
+  return results;
+};
+
+export const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
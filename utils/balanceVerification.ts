@@ -0,0 +1,143 @@
+/**
+ * Conferência do saldo corrente calculado contra os saldos impressos no
+ * extrato (por linha ou por dia). Aponta a primeira linha em que os dois se
+ * separam e sugere a causa provável.
+ */
+import { Transaction } from '../types';
+import { parseCurrency } from './currencyUtils';
+
+const TOLERANCE = 0.01;
+
+export type BalanceDriftCause = 'debitCreditSwap' | 'extraRow' | 'digitError' | 'missingRow';
+
+export interface BalanceDrift {
+  /** Primeira linha cujo saldo impresso difere do calculado. */
+  transactionId: string;
+  printed: number;
+  computed: number;
+  difference: number;        // impresso - calculado
+  cause: BalanceDriftCause;
+  /** Linha provavelmente errada (inversão, linha a mais ou dígito), quando identificada. */
+  suspectId?: string;
+  suggestion: string;
+}
+
+export type BalanceMarkerStatus = 'ok' | 'drift' | 'suspect';
+
+export interface BalanceMarker {
+  status: BalanceMarkerStatus;
+  message: string;
+}
+
+export interface BalanceVerification {
+  checkedCount: number;      // linhas com saldo impresso
+  matchedCount: number;
+  drift: BalanceDrift | null;
+  markers: Record<string, BalanceMarker>;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const formatBRL = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const signedAmount = (t: Transaction) => (parseCurrency(t.credit) || 0) - (parseCurrency(t.debit) || 0);
+
+/** Same number of digits and either one digit changed or two adjacent digits swapped. */
+const isDigitSlip = (typed: number, actual: number) => {
+  const a = Math.round(typed * 100).toString();
+  const b = Math.round(actual * 100).toString();
+  if (a.length !== b.length || a === b) return false;
+  const positions = [...a].map((c, i) => c !== b[i] ? i : -1).filter(i => i >= 0);
+  if (positions.length === 1) return true;
+  const [i, j] = positions;
+  return positions.length === 2 && j === i + 1 && a[i] === b[j] && a[j] === b[i];
+};
+
+const describeRow = (t: Transaction) => `${t.date.split('-').reverse().join('/')} "${t.description}"`;
+
+/**
+ * Rows between the last matching checkpoint and the drifting one are the
+ * suspects. The difference is explained, in this order, by a debit/credit
+ * swap (2× an amount), an extra or duplicated row (1× an amount), a digit
+ * slip in one amount, or else a row missing from the table.
+ */
+const diagnoseDrift = (segment: Transaction[], difference: number, startsAtOpening: boolean): Pick<BalanceDrift, 'cause' | 'suspectId' | 'suggestion'> => {
+  for (const t of segment) {
+    const amount = signedAmount(t);
+    if (amount !== 0 && Math.abs(difference + 2 * amount) <= TOLERANCE) {
+      return {
+        cause: 'debitCreditSwap',
+        suspectId: t.id,
+        suggestion: `Provável inversão de débito/crédito em ${describeRow(t)} (${formatBRL(Math.abs(amount))}).`,
+      };
+    }
+  }
+  for (const t of segment) {
+    const amount = signedAmount(t);
+    if (amount !== 0 && Math.abs(difference + amount) <= TOLERANCE) {
+      return {
+        cause: 'extraRow',
+        suspectId: t.id,
+        suggestion: `A linha ${describeRow(t)} (${formatBRL(Math.abs(amount))}) parece estar a mais ou duplicada.`,
+      };
+    }
+  }
+  for (const t of segment) {
+    const amount = signedAmount(t);
+    const corrected = round2(Math.abs(amount + difference));
+    if (amount !== 0 && Math.sign(amount + difference) === Math.sign(amount) && isDigitSlip(Math.abs(amount), corrected)) {
+      return {
+        cause: 'digitError',
+        suspectId: t.id,
+        suggestion: `Provável erro de dígito em ${describeRow(t)}: ${formatBRL(Math.abs(amount))} deveria ser ${formatBRL(corrected)}.`,
+      };
+    }
+  }
+  const kind = difference > 0 ? 'crédito' : 'débito';
+  const range = segment.length > 1
+    ? `entre ${describeRow(segment[0])} e ${describeRow(segment[segment.length - 1])}`
+    : `antes de ${describeRow(segment[0])}`;
+  return {
+    cause: 'missingRow',
+    suggestion: `Provável ${kind} ausente de ${formatBRL(Math.abs(difference))} ${range}${startsAtOpening ? ', ou saldo anterior incorreto' : ''}.`,
+  };
+};
+
+/**
+ * Compares each row's computed running `balance` with its `printedBalance`,
+ * in table order. Rows without a printed balance are not checked.
+ */
+export const verifyRunningBalances = (transactions: Transaction[]): BalanceVerification => {
+  const markers: Record<string, BalanceMarker> = {};
+  let checkedCount = 0;
+  let matchedCount = 0;
+  let drift: BalanceDrift | null = null;
+  let segmentStart = 0;
+
+  for (const [index, t] of transactions.entries()) {
+    if (t.printedBalance === undefined) continue;
+    const computed = round2(Number(t.balance));
+    const printed = round2(t.printedBalance);
+    const difference = round2(printed - computed);
+    checkedCount++;
+
+    if (Math.abs(difference) <= TOLERANCE) {
+      matchedCount++;
+      markers[t.id] = { status: 'ok', message: `Saldo impresso ${formatBRL(printed)} confere.` };
+      if (!drift) segmentStart = index + 1;
+      continue;
+    }
+
+    markers[t.id] = { status: 'drift', message: `Saldo impresso ${formatBRL(printed)}, calculado ${formatBRL(computed)} (diferença ${formatBRL(difference)}).` };
+    if (drift) continue;
+
+    const diagnosis = diagnoseDrift(transactions.slice(segmentStart, index + 1), difference, segmentStart === 0);
+    drift = { transactionId: t.id, printed, computed, difference, ...diagnosis };
+    markers[t.id] = { status: 'drift', message: `${markers[t.id].message} ${diagnosis.suggestion}` };
+    if (diagnosis.suspectId && diagnosis.suspectId !== t.id) {
+      markers[diagnosis.suspectId] = { status: 'suspect', message: diagnosis.suggestion };
+    }
+  }
+
+  return { checkedCount, matchedCount, drift, markers };
+};
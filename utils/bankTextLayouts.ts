@@ -0,0 +1,134 @@
+/**
+ * Layouts de extratos em PDF (com camada de texto) dos principais bancos.
+ *
+ * Cada layout descreve como reconhecer o banco, os rótulos do cabeçalho das
+ * colunas (cuja posição horizontal define a coluna de cada valor), o formato
+ * das datas, como o sinal do lançamento é representado e quais linhas são de
+ * saldo. O motor genérico está em `bankTextParser.ts`.
+ */
+
+export type BankTextColumn = 'date' | 'description' | 'debit' | 'credit' | 'amount' | 'balance';
+
+/**
+ * - `DD/MM/AAAA`, `DD/MM/AA`: data completa
+ * - `DD/MM`: ano inferido do restante do documento
+ * - `DD MMM AAAA`: mês abreviado em português (01 JAN 2024)
+ * - `D de MMMM de AAAA`: mês por extenso (1 de Janeiro de 2024)
+ */
+export type BankTextDateFormat = 'DD/MM/AAAA' | 'DD/MM/AA' | 'DD/MM' | 'DD MMM AAAA' | 'D de MMMM de AAAA';
+
+/**
+ * - `columns`: colunas separadas de débito e crédito
+ * - `signed`: coluna única, negativo = débito (-1.234,56, 1.234,56- ou -R$ 1.234,56)
+ * - `suffixDC`: coluna única com sufixo D/C (1.234,56 D)
+ * - `section`: valores sem sinal, agrupados em seções de entradas e saídas
+ */
+export type BankTextAmountSign = 'columns' | 'signed' | 'suffixDC' | 'section';
+
+export interface BankTextLayout {
+  bankCode: string;
+  bankName: string;
+  /**
+   * Todos precisam aparecer no topo da primeira página, acima da tabela. Use
+   * marcas próprias do banco (razão social, CNPJ, código com dígito, domínio):
+   * o nome curto aparece em lançamentos de outros bancos ("TED ITAU", "SAQUE CAIXA").
+   */
+  detect: RegExp[];
+  /** Rótulos do cabeçalho da tabela; sem cabeçalho, os valores são lidos da direita para a esquerda. */
+  header?: Partial<Record<BankTextColumn, RegExp>>;
+  /** Sem cabeçalho: a última coluna numérica é o saldo corrente. */
+  trailingBalance?: boolean;
+  dateFormat: BankTextDateFormat;
+  amountSign: BankTextAmountSign;
+  sections?: { pattern: RegExp; sign: 1 | -1 }[];
+  openingBalance: RegExp;
+  /** Linhas de saldo (do dia ou final); a última encontrada é o saldo final. */
+  closingBalance?: RegExp;
+  /** Linhas que não são lançamentos (totais, rodapés, avisos). */
+  ignore: RegExp[];
+}
+
+const COMMON_IGNORE = [/^p[aá]gina\s+\d+/i, /ouvidoria|sac\s*\d|central de atendimento/i];
+
+export const BANK_TEXT_LAYOUTS: BankTextLayout[] = [
+  {
+    bankCode: '341',
+    bankName: 'Itaú Unibanco S.A.',
+    detect: [/ita[uú] unibanco|60\.701\.190\/0001-04|\b341-7\b|itau\.com\.br/i, /extrato/i],
+    header: { date: /^data$/i, description: /^lan[cç]amentos?$/i, amount: /^valor/i, balance: /^saldo/i },
+    dateFormat: 'DD/MM/AAAA',
+    amountSign: 'signed',
+    openingBalance: /SALDO ANTERIOR/i,
+    closingBalance: /SALDO (TOTAL )?DISPON[IÍ]VEL DIA|SALDO DO DIA/i,
+    ignore: [...COMMON_IGNORE, /SALDO APLIC AUT|LIMITE DA CONTA/i],
+  },
+  {
+    bankCode: '237',
+    bankName: 'Banco Bradesco S.A.',
+    detect: [/banco bradesco|60\.746\.948\/0001-12|\b237-2\b|bradesco\.com\.br/i, /extrato/i],
+    header: { date: /^data$/i, description: /^hist[oó]rico$|^lan[cç]amento$/i, credit: /^cr[eé]dito/i, debit: /^d[eé]bito/i, balance: /^saldo/i },
+    dateFormat: 'DD/MM/AAAA',
+    amountSign: 'columns',
+    openingBalance: /SALDO ANTERIOR/i,
+    closingBalance: /^TOTAL\b/i,
+    ignore: [...COMMON_IGNORE, /^[ÚU]ltimos lan[cç]amentos/i],
+  },
+  {
+    bankCode: '001',
+    bankName: 'Banco do Brasil S.A.',
+    detect: [/banco do brasil s\.?\/?a|00\.000\.000\/0001-91|\b001-9\b|bb\.com\.br/i],
+    header: { date: /^(dt\.? balancete|dia|data)$/i, description: /^hist[oó]rico$/i, amount: /^valor/i, balance: /^saldo$/i },
+    dateFormat: 'DD/MM/AAAA',
+    amountSign: 'suffixDC',
+    openingBalance: /SALDO ANTERIOR/i,
+    closingBalance: /\bS A L D O\b/i,
+    ignore: [...COMMON_IGNORE, /Informa[cç][oõ]es Adicionais|Juros|IOF|Lan[cç]amentos futuros/i],
+  },
+  {
+    bankCode: '033',
+    bankName: 'Banco Santander (Brasil) S.A.',
+    detect: [/banco santander|90\.400\.888\/0001-42|\b033-7\b|santander\.com\.br/i],
+    header: { date: /^data$/i, description: /^(descri[cç][aã]o|hist[oó]rico)$/i, credit: /^cr[eé]dito/i, debit: /^d[eé]bito/i, balance: /^saldo/i },
+    dateFormat: 'DD/MM',
+    amountSign: 'columns',
+    openingBalance: /SALDO ANTERIOR/i,
+    closingBalance: /SALDO (FINAL|ATUAL|DO DIA)/i,
+    ignore: [...COMMON_IGNORE, /Resumo|Pacote de servi[cç]os/i],
+  },
+  {
+    bankCode: '104',
+    bankName: 'Caixa Econômica Federal',
+    detect: [/caixa econ[oô]mica federal|00\.360\.305\/0001-04|\b104-0\b|caixa\.gov\.br/i, /extrato/i],
+    header: { date: /^data( mov\.?)?$/i, description: /^hist[oó]rico$/i, amount: /^valor$/i, balance: /^saldo$/i },
+    dateFormat: 'DD/MM/AAAA',
+    amountSign: 'suffixDC',
+    openingBalance: /SALDO ANTERIOR/i,
+    closingBalance: /SALDO DIA/i,
+    ignore: [...COMMON_IGNORE],
+  },
+  {
+    bankCode: '260',
+    bankName: 'Nu Pagamentos S.A. - Nubank',
+    detect: [/nu pagamentos|18\.236\.120\/0001-58|nubank\.com\.br/i],
+    dateFormat: 'DD MMM AAAA',
+    amountSign: 'section',
+    sections: [
+      { pattern: /Total de entradas/i, sign: 1 },
+      { pattern: /Total de sa[ií]das/i, sign: -1 },
+    ],
+    openingBalance: /Saldo inicial/i,
+    closingBalance: /Saldo final/i,
+    ignore: [...COMMON_IGNORE, /Rendimento l[ií]quido|Movimenta[cç][oõ]es|Extrato gerado/i],
+  },
+  {
+    bankCode: '077',
+    bankName: 'Banco Inter S.A.',
+    detect: [/banco inter s\.?\/?a|00\.416\.968\/0001-01|\b077-9\b|inter\.co\b/i],
+    trailingBalance: true,
+    dateFormat: 'D de MMMM de AAAA',
+    amountSign: 'signed',
+    openingBalance: /Saldo anterior/i,
+    closingBalance: /Saldo do dia/i,
+    ignore: [...COMMON_IGNORE, /Saldo (total|dispon[ií]vel|bloqueado)/i, /Valor\s+Saldo por transa[cç][aã]o/i],
+  },
+];
@@ -0,0 +1,227 @@
+import { describe, expect, it } from 'vitest';
+import { detectBankTextLayout, parseBankStatementText } from './bankTextParser';
+import { PdfTextLine, textContentToLines } from './pdfTextLayer';
+
+type FixtureRow = [y: number, ...items: [x: number, text: string][]];
+
+/** A page as pdf.js `getTextContent()` returns it; each character is 5 units wide. */
+const page = (pageNumber: number, rows: FixtureRow[]): PdfTextLine[] =>
+  textContentToLines(pageNumber, {
+    items: rows.flatMap(([y, ...items]) => items.map(([x, str]) => ({ str, transform: [1, 0, 0, 1, x, y], width: str.length * 5, height: 10 }))),
+  });
+
+/** Right-aligns a value so that it ends at `right`. */
+const at = (right: number, text: string): [number, string] => [right - text.length * 5, text];
+
+const SANTANDER_HEADER: FixtureRow = [720, [40, 'Data'], [90, 'Descrição'], [330, 'Crédito'], [410, 'Débito'], [490, 'Saldo']];
+
+const santanderRows = (balanceLine: FixtureRow): FixtureRow[] => [
+  SANTANDER_HEADER,
+  balanceLine,
+  [690, [40, '05/12'], [90, 'PIX RECEBIDO CLIENTE'], at(365, '500,00')],
+  [675, [40, '20/12'], [90, 'TARIFA PACOTE'], at(440, '50,00'), at(515, '1.450,00')],
+  [660, [40, '02/01'], [90, 'TARIFA AVULSA'], at(440, '10,00'), at(515, '1.440,00')],
+  [645, [90, 'SALDO ATUAL'], at(515, '1.440,00')],
+];
+
+describe('parseBankStatementText — year of DD/MM layouts', () => {
+  it('takes the year from the period, not from the print date', () => {
+    const lines = page(1, [
+      [800, [40, 'Banco Santander (Brasil) S.A.']],
+      [785, [40, 'Extrato de Conta Corrente']],
+      [770, [40, 'Emitido em 05/01/2024 10:32']],
+      [755, [40, 'Período: 01/12/2023 a 31/12/2023']],
+      ...santanderRows([705, [90, 'SALDO ANTERIOR'], at(515, '1.000,00')]),
+    ]);
+
+    const parsed = parseBankStatementText(lines);
+    expect(parsed?.layout.bankCode).toBe('033');
+    expect(parsed?.result.transactions.map(t => t.date)).toEqual(['2023-12-05', '2023-12-20', '2024-01-02']);
+    expect(parsed?.reconciled).toBe(true);
+  });
+
+  it('falls back to the first full date inside the table', () => {
+    const lines = page(1, [
+      [800, [40, 'Banco Santander (Brasil) S.A.']],
+      [785, [40, 'Extrato de Conta Corrente']],
+      [770, [40, 'Emitido em 05/01/2024 10:32']],
+      ...santanderRows([705, [90, 'SALDO ANTERIOR EM 30/11/2023'], at(515, '1.000,00')]),
+    ]);
+
+    expect(parseBankStatementText(lines)?.result.transactions.map(t => t.date)).toEqual(['2023-12-05', '2023-12-20', '2024-01-02']);
+  });
+});
+
+interface LayoutFixture {
+  bankCode: string;
+  rows: FixtureRow[];
+  dates: string[];
+  movements: number[];   // crédito positivo, débito negativo
+  openingBalance: number;
+  finalBalance: number;
+}
+
+const LAYOUT_FIXTURES: LayoutFixture[] = [
+  {
+    bankCode: '341',
+    rows: [
+      [800, [40, 'Itaú Unibanco S.A.']],
+      [785, [40, 'Extrato conta corrente']],
+      [770, [40, 'Agência 1234 Conta 56789-0']],
+      [700, [40, 'Data'], [110, 'Lançamentos'], [380, 'Valor (R$)'], [470, 'Saldo (R$)']],
+      [685, [40, '02/01/2024'], [110, 'SALDO ANTERIOR'], at(520, '1.000,00')],
+      [670, [40, '03/01/2024'], [110, 'PIX RECEBIDO FULANO'], at(430, '250,00')],
+      [655, [40, '04/01/2024'], [110, 'TED 237 0001 FORNECEDOR'], at(430, '-100,00'), at(520, '1.150,00')],
+      [640, [110, 'SALDO TOTAL DISPONÍVEL DIA'], at(520, '1.150,00')],
+    ],
+    dates: ['2024-01-03', '2024-01-04'],
+    movements: [250, -100],
+    openingBalance: 1000,
+    finalBalance: 1150,
+  },
+  {
+    bankCode: '237',
+    rows: [
+      [800, [40, 'Banco Bradesco S.A.']],
+      [785, [40, 'Extrato Mensal / Por Período']],
+      [700, [40, 'Data'], [110, 'Histórico'], [300, 'Crédito (R$)'], [380, 'Débito (R$)'], [460, 'Saldo (R$)']],
+      [685, [40, '02/01/2024'], [110, 'SALDO ANTERIOR'], at(510, '500,00')],
+      [670, [40, '03/01/2024'], [110, 'TED ITAU UNIBANCO CLIENTE'], at(360, '300,00'), at(510, '800,00')],
+      [655, [40, '05/01/2024'], [110, 'SAQUE CAIXA 24H'], at(435, '200,00'), at(510, '600,00')],
+      [640, [110, 'Total'], at(360, '300,00'), at(435, '200,00'), at(510, '600,00')],
+    ],
+    dates: ['2024-01-03', '2024-01-05'],
+    movements: [300, -200],
+    openingBalance: 500,
+    finalBalance: 600,
+  },
+  {
+    bankCode: '001',
+    rows: [
+      [800, [40, 'Banco do Brasil S.A.']],
+      [785, [40, 'Extrato de conta corrente']],
+      [700, [40, 'Dt. balancete'], [120, 'Histórico'], [380, 'Valor R$'], [460, 'Saldo']],
+      [685, [40, '31/12/2023'], [120, 'Saldo Anterior'], at(485, '1.000,00 C')],
+      [670, [40, '02/01/2024'], [120, 'Pix - Recebido'], at(420, '300,00 C')],
+      [655, [40, '03/01/2024'], [120, 'Tarifa Pacote'], at(420, '50,00 D')],
+      [640, [120, 'S A L D O'], at(485, '1.250,00 C')],
+    ],
+    dates: ['2024-01-02', '2024-01-03'],
+    movements: [300, -50],
+    openingBalance: 1000,
+    finalBalance: 1250,
+  },
+  {
+    bankCode: '033',
+    rows: [
+      [800, [40, 'Banco Santander (Brasil) S.A.']],
+      [755, [40, 'Período: 01/12/2023 a 31/12/2023']],
+      ...santanderRows([705, [90, 'SALDO ANTERIOR'], at(515, '1.000,00')]),
+    ],
+    dates: ['2023-12-05', '2023-12-20', '2024-01-02'],
+    movements: [500, -50, -10],
+    openingBalance: 1000,
+    finalBalance: 1440,
+  },
+  {
+    bankCode: '104',
+    rows: [
+      [800, [40, 'CAIXA ECONÔMICA FEDERAL']],
+      [785, [40, 'Extrato por período']],
+      [700, [40, 'Data Mov.'], [110, 'Nr. Doc.'], [180, 'Histórico'], [380, 'Valor'], [460, 'Saldo']],
+      [685, [40, '29/12/2023'], [110, '000000'], [180, 'SALDO ANTERIOR'], at(485, '800,00 C')],
+      [670, [40, '02/01/2024'], [110, '123456'], [180, 'CRED PIX'], at(405, '200,00 C'), at(485, '1.000,00 C')],
+      [655, [40, '03/01/2024'], [110, '123457'], [180, 'DEB TARIFA'], at(405, '10,00 D'), at(485, '990,00 C')],
+      [640, [40, '03/01/2024'], [180, 'SALDO DIA'], at(485, '990,00 C')],
+    ],
+    dates: ['2024-01-02', '2024-01-03'],
+    movements: [200, -10],
+    openingBalance: 800,
+    finalBalance: 990,
+  },
+  {
+    bankCode: '260',
+    rows: [
+      [800, [40, 'Nu Pagamentos S.A. - Instituição de Pagamento']],
+      [785, [40, 'Movimentações']],
+      [770, [40, 'Saldo inicial'], at(520, '1.000,00')],
+      [740, [40, '02 JAN 2024'], [120, 'Total de entradas'], at(520, '+ 300,00')],
+      [725, [120, 'Transferência recebida pelo Pix FULANO'], at(520, '300,00')],
+      [700, [40, '03 JAN 2024'], [120, 'Total de saídas'], at(520, '- 50,00')],
+      [685, [120, 'Compra de débito PADARIA'], at(520, '50,00')],
+      [660, [40, 'Saldo final do período'], at(520, '1.250,00')],
+    ],
+    dates: ['2024-01-02', '2024-01-03'],
+    movements: [300, -50],
+    openingBalance: 1000,
+    finalBalance: 1250,
+  },
+  {
+    bankCode: '077',
+    rows: [
+      [800, [40, 'Banco Inter S.A.']],
+      [785, [40, 'Extrato conta corrente']],
+      [770, [40, 'Saldo anterior'], at(520, '500,00')],
+      [740, [40, '2 de Janeiro de 2024'], [200, 'Saldo do dia:'], at(520, '700,00')],
+      [725, [40, 'Pix recebido: FULANO'], at(430, '200,00'), at(520, '700,00')],
+      [700, [40, '3 de Janeiro de 2024'], [200, 'Saldo do dia:'], at(520, '650,00')],
+      [685, [40, 'Pagamento efetuado: BOLETO'], at(430, '-50,00'), at(520, '650,00')],
+    ],
+    dates: ['2024-01-02', '2024-01-03'],
+    movements: [200, -50],
+    openingBalance: 500,
+    finalBalance: 650,
+  },
+];
+
+describe('parseBankStatementText — layouts', () => {
+  it.each(LAYOUT_FIXTURES)('reads the $bankCode layout and reconciles its balances', fixture => {
+    const parsed = parseBankStatementText(page(1, fixture.rows));
+
+    expect(parsed?.layout.bankCode).toBe(fixture.bankCode);
+    expect(parsed?.result.transactions.map(t => t.date)).toEqual(fixture.dates);
+    expect(parsed?.result.transactions.map(t => t.credit - t.debit)).toEqual(fixture.movements);
+    expect(parsed?.result.openingBalance).toBe(fixture.openingBalance);
+    expect(parsed?.result.finalBalance).toBe(fixture.finalBalance);
+    expect(parsed?.reconciled).toBe(true);
+  });
+});
+
+describe('detectBankTextLayout', () => {
+  it('matches the bank by its CNPJ without taking it as the account holder', () => {
+    const lines = page(1, [
+      [800, [40, 'Instituição de Pagamento - CNPJ 18.236.120/0001-58']],
+      [785, [40, 'Titular: EMPRESA EXEMPLO LTDA - CNPJ 11.222.333/0001-81']],
+      [770, [40, 'Saldo inicial'], at(520, '100,00')],
+      [740, [40, '02 JAN 2024'], [120, 'Total de entradas'], at(520, '+ 10,00')],
+      [725, [120, 'Pix recebido'], at(520, '10,00')],
+      [700, [40, 'Saldo final do período'], at(520, '110,00')],
+    ]);
+
+    const parsed = parseBankStatementText(lines);
+    expect(parsed?.layout.bankCode).toBe('260');
+    expect(parsed?.result.accountHolderCNPJ).toBe('11222333000181');
+  });
+
+  it('ignores banks named only by counterparties in the rows', () => {
+    const lines = page(1, [
+      [800, [40, 'Banco Exemplo S.A.']],
+      [785, [40, 'Extrato de conta corrente']],
+      [700, [40, 'Data'], [110, 'Histórico'], [380, 'Valor'], [460, 'Saldo']],
+      [685, [40, '02/01/2024'], [110, 'SAQUE CAIXA ELETRONICO'], at(405, '100,00')],
+      [670, [40, '03/01/2024'], [110, 'TED ITAU UNIBANCO'], at(405, '50,00')],
+      [655, [40, '04/01/2024'], [110, 'PIX NUBANK SANTANDER'], at(405, '20,00')],
+    ]);
+
+    expect(detectBankTextLayout(lines)).toBeNull();
+  });
+
+  it('does not take a plain mention of "caixa" as Caixa Econômica Federal', () => {
+    const lines = page(1, [
+      [800, [40, 'Cooperativa de Crédito Exemplo']],
+      [785, [40, 'Extrato - Fluxo de caixa']],
+    ]);
+
+    expect(detectBankTextLayout(lines)).toBeNull();
+  });
+});
@@ -0,0 +1,377 @@
+import { GeminiTransactionResponse } from '../types';
+import { extractCNPJFromText } from './cnpjUtils';
+import { PdfTextItem, PdfTextLine } from './pdfTextLayer';
+import { BANK_TEXT_LAYOUTS, BankTextColumn, BankTextDateFormat, BankTextLayout } from './bankTextLayouts';
+
+type ParsedTransaction = GeminiTransactionResponse['transactions'][number];
+
+export interface BankTextParseResult {
+  layout: BankTextLayout;
+  result: GeminiTransactionResponse;
+  /** Saldo anterior + movimentação bate com o saldo final impresso. */
+  reconciled: boolean;
+  problem?: string;
+}
+
+interface ColumnGeometry {
+  left: number;
+  right: number;
+  center: number;
+}
+
+type HeaderGeometry = Partial<Record<BankTextColumn, ColumnGeometry>>;
+
+interface MoneyToken {
+  value: number;        // com sinal (negativo = débito / saldo devedor)
+  suffix: '' | 'C' | 'D';
+  left: number;
+  right: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const MONEY_PATTERN = /^([-+]?)\s?(?:R\$\s?)?([-+]?)\s?(\d{1,3}(?:\.\d{3})*,\d{2})\s?([CD+-]?)\*?$/i;
+const CURRENCY_PREFIX = /^[-+]?R\$$/;
+const SIGN_SUFFIX = /^[CD-]$/i;
+// Distância máxima (em unidades do PDF) entre um valor e seu "R$" ou sufixo D/C
+const AFFIX_GAP = 15;
+// Linhas de continuação da descrição ficam logo abaixo do lançamento
+const CONTINUATION_GAP = 25;
+const BALANCE_TOLERANCE = 0.01;
+
+const MONTHS_SHORT = ['JAN', 'FEV', 'MAR', 'ABR', 'MAI', 'JUN', 'JUL', 'AGO', 'SET', 'OUT', 'NOV', 'DEZ'];
+const MONTHS_LONG = ['janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'];
+
+const DATE_PATTERNS: Record<BankTextDateFormat, RegExp> = {
+  'DD/MM/AAAA': /^(\d{2})\/(\d{2})\/(\d{4})(?=\s|$)/,
+  'DD/MM/AA': /^(\d{2})\/(\d{2})\/(\d{2})(?=\s|$)/,
+  'DD/MM': /^(\d{2})\/(\d{2})(?=\s|$)/,
+  'DD MMM AAAA': /^(\d{2}) (JAN|FEV|MAR|ABR|MAI|JUN|JUL|AGO|SET|OUT|NOV|DEZ)\w* (\d{4})(?=\s|$)/i,
+  'D de MMMM de AAAA': /^(\d{1,2}) de ([a-zç]+) de (\d{4})(?=\s|$)/i,
+};
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+const parseMoney = (text: string): Omit<MoneyToken, 'left' | 'right'> | null => {
+  const match = text.trim().match(MONEY_PATTERN);
+  if (!match) return null;
+  const [, leadingSign, innerSign, digits, trailing] = match;
+  const suffix = trailing.toUpperCase();
+  const magnitude = parseFloat(digits.replace(/\./g, '').replace(',', '.'));
+  const negative = leadingSign === '-' || innerSign === '-' || suffix === '-' || suffix === 'D';
+  return { value: negative ? -magnitude : magnitude, suffix: suffix === 'C' || suffix === 'D' ? suffix : '' };
+};
+
+/** Junta "R$" ao valor seguinte e sufixos D/C (ou "-") ao valor anterior. */
+const mergeMoneyAffixes = (items: PdfTextItem[]): PdfTextItem[] => {
+  const merged: PdfTextItem[] = [];
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    const next = items[i + 1];
+    if (CURRENCY_PREFIX.test(item.text) && next && next.x - (item.x + item.width) < AFFIX_GAP && parseMoney(`${item.text} ${next.text}`)) {
+      merged.push({ ...item, text: `${item.text} ${next.text}`, width: next.x + next.width - item.x });
+      i++;
+      continue;
+    }
+    const previous = merged[merged.length - 1];
+    if (SIGN_SUFFIX.test(item.text) && previous && item.x - (previous.x + previous.width) < AFFIX_GAP && parseMoney(previous.text)?.suffix === '' && parseMoney(`${previous.text} ${item.text}`)) {
+      previous.text = `${previous.text} ${item.text}`;
+      previous.width = item.x + item.width - previous.x;
+      continue;
+    }
+    merged.push({ ...item });
+  }
+  return merged;
+};
+
+const toIsoDate = (format: BankTextDateFormat, match: RegExpMatchArray, year: number): string => {
+  switch (format) {
+    case 'DD/MM/AAAA':
+      return `${match[3]}-${match[2]}-${match[1]}`;
+    case 'DD/MM/AA':
+      return `20${match[3]}-${match[2]}-${match[1]}`;
+    case 'DD/MM':
+      return `${year}-${match[2]}-${match[1]}`;
+    case 'DD MMM AAAA':
+      return `${match[3]}-${pad2(MONTHS_SHORT.indexOf(match[2].slice(0, 3).toUpperCase()) + 1)}-${match[1]}`;
+    case 'D de MMMM de AAAA': {
+      const month = MONTHS_LONG.indexOf(match[2].toLowerCase());
+      return month === -1 ? '' : `${match[3]}-${pad2(month + 1)}-${pad2(Number(match[1]))}`;
+    }
+  }
+};
+
+/** Finds the header line of the table and records where each column sits. */
+const readHeaderGeometry = (line: PdfTextLine, header: Partial<Record<BankTextColumn, RegExp>>): HeaderGeometry | null => {
+  // Rótulos podem vir quebrados em dois trechos ("Dt." "balancete")
+  const candidates = line.items.flatMap((item, i) => {
+    const next = line.items[i + 1];
+    const single = { text: item.text, left: item.x, right: item.x + item.width };
+    return next ? [single, { text: `${item.text} ${next.text}`, left: item.x, right: next.x + next.width }] : [single];
+  });
+
+  const geometry: HeaderGeometry = {};
+  for (const [column, pattern] of Object.entries(header) as [BankTextColumn, RegExp][]) {
+    const found = candidates.find(c => pattern.test(c.text));
+    if (!found) return null;
+    geometry[column] = { left: found.left, right: found.right, center: (found.left + found.right) / 2 };
+  }
+  return geometry;
+};
+
+const MONEY_COLUMNS: BankTextColumn[] = ['debit', 'credit', 'amount', 'balance'];
+
+/** Valores numéricos alinhados à direita: compara borda direita e centro com o rótulo. */
+const assignMoneyColumns = (tokens: MoneyToken[], layout: BankTextLayout, geometry: HeaderGeometry | null): Partial<Record<BankTextColumn, MoneyToken>> => {
+  const assigned: Partial<Record<BankTextColumn, MoneyToken>> = {};
+  const columns = geometry ? MONEY_COLUMNS.filter(c => geometry[c]) : [];
+
+  if (columns.length === 0) {
+    const ordered = [...tokens].sort((a, b) => a.left - b.left);
+    if (layout.trailingBalance && ordered.length >= 2) {
+      assigned.balance = ordered[ordered.length - 1];
+      assigned.amount = ordered[ordered.length - 2];
+    } else if (layout.trailingBalance && ordered.length === 1) {
+      assigned.balance = ordered[0];
+    } else if (ordered.length > 0) {
+      assigned.amount = ordered[ordered.length - 1];
+    }
+    return assigned;
+  }
+
+  for (const token of tokens) {
+    const center = (token.left + token.right) / 2;
+    const distance = (c: BankTextColumn) => Math.min(Math.abs(token.right - geometry![c]!.right), Math.abs(center - geometry![c]!.center));
+    const column = columns.reduce((best, c) => distance(c) < distance(best) ? c : best);
+    assigned[column] = token;
+  }
+  return assigned;
+};
+
+// "Período: 01/12/2023 a 31/12/2023", "de 01/12/2023 até 31/12/2023"
+const PERIOD_RANGE = /\b\d{2}\/\d{2}\/(20\d{2})\s*(?:a|at[eé]|-)\s*\d{2}\/\d{2}\/20\d{2}\b/i;
+// "Período: 12/2023", "Período: 01/12/2023"
+const PERIOD_MONTH = /per[ií]odo\D*?(?:\d{2}\/)?\d{2}\/(20\d{2})\b/i;
+const FULL_DATE = /\b\d{2}\/\d{2}\/(20\d{2})\b/;
+
+const firstYear = (lines: PdfTextLine[], pattern: RegExp): number | null => {
+  for (const line of lines) {
+    const match = line.text.match(pattern);
+    if (match) return Number(match[1]);
+  }
+  return null;
+};
+
+/**
+ * Year of the first row of `DD/MM` layouts: from the statement period, else
+ * from the first full date inside the transaction table. A date elsewhere at
+ * the top is usually the print date — a year late for a December statement
+ * printed in January — so it is only the last resort.
+ */
+const inferStatementYear = (lines: PdfTextLine[], layout: BankTextLayout): number => {
+  const headerIndex = layout.header ? lines.findIndex(line => readHeaderGeometry(line, layout.header!)) : -1;
+  return firstYear(lines, PERIOD_RANGE)
+    ?? firstYear(lines, PERIOD_MONTH)
+    ?? (headerIndex >= 0 ? firstYear(lines.slice(headerIndex + 1), FULL_DATE) : null)
+    ?? firstYear(lines, FULL_DATE)
+    ?? new Date().getFullYear();
+};
+
+const TOP_LINES = 20;
+
+const startsWithDate = (line: PdfTextLine) => Object.values(DATE_PATTERNS).some(pattern => pattern.test(line.text));
+
+/**
+ * Picks the layout whose markers all appear at the top of the first page,
+ * above its table header and the first dated row: counterparties named in the
+ * rows must not pick the bank.
+ */
+export const detectBankTextLayout = (lines: PdfTextLine[]): BankTextLayout | null => {
+  const firstPage = lines.filter(l => l.page === 1).slice(0, TOP_LINES);
+  return BANK_TEXT_LAYOUTS.find(layout => {
+    const tableStart = firstPage.findIndex(line => startsWithDate(line) || (!!layout.header && !!readHeaderGeometry(line, layout.header)));
+    const topText = firstPage.slice(0, tableStart >= 0 ? tableStart : undefined).map(l => l.text).join('\n');
+    return topText.trim() !== '' && layout.detect.every(pattern => pattern.test(topText));
+  }) ?? null;
+};
+
+const movementOf = (t: ParsedTransaction) => t.credit - t.debit;
+
+/**
+ * Extracts the statement rows from the pdf.js text layer using a known bank
+ * layout. Returns null when no layout matches; otherwise the result carries
+ * whether the printed balances reconcile, so the caller can fall back to the AI.
+ */
+export const parseBankStatementText = (lines: PdfTextLine[], layout = detectBankTextLayout(lines)): BankTextParseResult | null => {
+  if (!layout) return null;
+
+  const dateFormat = layout.dateFormat;
+  const datePattern = DATE_PATTERNS[dateFormat];
+  let year = dateFormat === 'DD/MM' ? inferStatementYear(lines, layout) : 0;
+  let lastMonth = 0;
+
+  const transactions: ParsedTransaction[] = [];
+  let openingBalance: number | undefined;
+  let closingBalance: number | undefined;
+  let currentDate = '';
+  let currentSign: 1 | -1 | undefined;
+  let geometry: HeaderGeometry | null = null;
+  let currentPage = 0;
+  let lastRow: { page: number; y: number } | null = null;
+
+  for (const line of lines) {
+    if (line.page !== currentPage) {
+      currentPage = line.page;
+      lastRow = null;
+    }
+
+    if (layout.header) {
+      const pageHeader = readHeaderGeometry(line, layout.header);
+      if (pageHeader) {
+        geometry = pageHeader;
+        continue;
+      }
+      // Antes do primeiro cabeçalho só há dados cadastrais
+      if (!geometry) continue;
+    }
+
+    const items = mergeMoneyAffixes(line.items);
+
+    // Data no início da linha (pode ocupar mais de um trecho: "01 JAN 2024")
+    let consumed = 0;
+    const dateMatch = items.map(i => i.text).join(' ').match(datePattern);
+    if (dateMatch) {
+      let offset = 0;
+      while (consumed < items.length && offset < dateMatch[0].length) {
+        offset += items[consumed].text.length + 1;
+        consumed++;
+      }
+      if (dateFormat === 'DD/MM') {
+        const month = Number(dateMatch[2]);
+        if (month < lastMonth) year++;
+        lastMonth = month;
+      }
+      currentDate = toIsoDate(dateFormat, dateMatch, year);
+    }
+
+    const rest = items.slice(consumed);
+    const moneyTokens: MoneyToken[] = [];
+    const textParts: string[] = [];
+    for (const item of rest) {
+      const money = parseMoney(item.text);
+      if (money) moneyTokens.push({ ...money, left: item.x, right: item.x + item.width });
+      else textParts.push(item.text);
+    }
+    const description = textParts.join(' ').replace(/\s+/g, ' ').trim();
+    const columns = assignMoneyColumns(moneyTokens, layout, geometry);
+    const lineBalance = (columns.balance ?? moneyTokens[moneyTokens.length - 1])?.value;
+
+    if (layout.openingBalance.test(line.text)) {
+      if (openingBalance === undefined && lineBalance !== undefined) openingBalance = round2(lineBalance);
+      continue;
+    }
+    if (layout.closingBalance?.test(line.text)) {
+      if (lineBalance !== undefined) closingBalance = round2(lineBalance);
+      continue;
+    }
+    const section = layout.sections?.find(s => s.pattern.test(line.text));
+    if (section) {
+      currentSign = section.sign;
+      continue;
+    }
+    if (layout.ignore.some(pattern => pattern.test(line.text))) continue;
+
+    let debit = 0;
+    let credit = 0;
+    switch (layout.amountSign) {
+      case 'columns':
+        debit = Math.abs(columns.debit?.value ?? 0);
+        credit = Math.abs(columns.credit?.value ?? 0);
+        break;
+      case 'signed':
+      case 'suffixDC': {
+        const value = columns.amount?.value ?? 0;
+        if (value < 0) debit = -value;
+        else credit = value;
+        break;
+      }
+      case 'section': {
+        const value = Math.abs(columns.amount?.value ?? 0);
+        if (currentSign === -1) debit = value;
+        else if (currentSign === 1) credit = value;
+        break;
+      }
+    }
+
+    if (debit === 0 && credit === 0) {
+      // Descrição que continua na linha de baixo
+      const previous = transactions[transactions.length - 1];
+      if (!dateMatch && description && previous && lastRow && lastRow.page === line.page && lastRow.y - line.y < CONTINUATION_GAP) {
+        previous.description = `${previous.description} ${description}`;
+        previous.cnpj = previous.cnpj || extractCNPJFromText(description);
+        previous.sourceLine = `${previous.sourceLine}\n${line.text}`;
+        lastRow = { page: line.page, y: line.y };
+      }
+      continue;
+    }
+
+    if (!currentDate || !description) continue;
+
+    transactions.push({
+      date: currentDate,
+      description,
+      debit: round2(debit),
+      credit: round2(credit),
+      companyName: '',
+      cnpj: extractCNPJFromText(description),
+      category: 'Não categorizado',
+      isUnusual: false,
+      unusualReason: '',
+      accountDebit: '',
+      accountCredit: '',
+      accountingHistory: '',
+      // Lida da camada de texto pelo layout: sem incerteza de OCR
+      confidence: 1,
+      sourcePage: line.page,
+      sourceLine: line.text,
+      printedBalance: columns.balance ? round2(columns.balance.value) : undefined,
+    });
+    lastRow = { page: line.page, y: line.y };
+  }
+
+  // Sem linha de saldo anterior/final, usa o saldo impresso na primeira/última linha
+  const firstPrinted = transactions[0]?.printedBalance;
+  const lastPrinted = transactions[transactions.length - 1]?.printedBalance;
+  if (openingBalance === undefined && firstPrinted !== undefined && transactions.length > 0) {
+    openingBalance = round2(firstPrinted - movementOf(transactions[0]));
+  }
+  const finalBalance = closingBalance ?? lastPrinted;
+
+  // Sem as marcas do banco: o CNPJ do próprio banco não é o do titular
+  const headerText = layout.detect.reduce(
+    (text, pattern) => text.replace(new RegExp(pattern.source, 'gi'), ' '),
+    lines.filter(l => l.page === 1).slice(0, TOP_LINES).map(l => l.text).join(' ')
+  );
+  const result: GeminiTransactionResponse = {
+    transactions,
+    openingBalance,
+    finalBalance,
+    bankName: layout.bankName,
+    bankCode: layout.bankCode,
+    accountHolderCNPJ: extractCNPJFromText(headerText) || undefined,
+  };
+
+  let problem: string | undefined;
+  if (transactions.length === 0) {
+    problem = 'nenhum lançamento reconhecido';
+  } else if (openingBalance === undefined || finalBalance === undefined) {
+    problem = 'saldos anterior/final não encontrados';
+  } else {
+    const computed = round2(openingBalance + transactions.reduce((sum, t) => sum + movementOf(t), 0));
+    if (Math.abs(computed - finalBalance) > BALANCE_TOLERANCE) {
+      problem = `saldo calculado ${computed.toFixed(2)} difere do saldo final ${finalBalance.toFixed(2)}`;
+    }
+  }
+
+  return { layout, result, reconciled: !problem, problem };
+};
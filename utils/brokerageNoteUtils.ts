@@ -0,0 +1,88 @@
+import { BrokerageFees, BrokerageNote, BrokerageTrade, InvestmentTransaction } from '../types';
+
+const BALANCE_TOLERANCE = 0.01;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Custos operacionais da nota (tudo menos o IRRF, que é imposto do cliente). */
+export const brokerageOperationalFees = (fees: BrokerageFees) =>
+  round2(fees.settlementFee + fees.registrationFee + fees.emoluments + fees.brokerage + fees.iss + fees.otherFees);
+
+/**
+ * Splits `total` proportionally to `weights`, in cents, so the shares add up
+ * exactly to the total: the rounding residue goes to the largest weight.
+ */
+const allocateProportionally = (total: number, weights: number[]): number[] => {
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  if (weights.length === 0 || weightSum <= 0 || total === 0) return weights.map(() => 0);
+
+  const shares = weights.map(w => round2(total * w / weightSum));
+  const residue = round2(total - shares.reduce((sum, s) => sum + s, 0));
+  if (residue !== 0) {
+    const largest = weights.indexOf(Math.max(...weights));
+    shares[largest] = round2(shares[largest] + residue);
+  }
+  return shares;
+};
+
+export interface BrokerageNoteReconciliation {
+  purchases: number;
+  sales: number;
+  fees: number;
+  irrf: number;
+  /** Vendas - compras - custos - IRRF. */
+  computedNet: number;
+  netTotal: number;
+  difference: number;
+  isReconciled: boolean;
+}
+
+/** Checks the trades and the fee block against the note's printed net total. */
+export const reconcileBrokerageNote = (note: BrokerageNote): BrokerageNoteReconciliation => {
+  const sumSide = (side: BrokerageTrade['side']) =>
+    round2(note.trades.filter(t => t.side === side).reduce((sum, t) => sum + t.grossValue, 0));
+  const purchases = sumSide('C');
+  const sales = sumSide('V');
+  const fees = brokerageOperationalFees(note.fees);
+  const irrf = round2(note.fees.irrf);
+  const computedNet = round2(sales - purchases - fees - irrf);
+  const difference = round2(computedNet - note.netTotal);
+  return { purchases, sales, fees, irrf, computedNet, netTotal: note.netTotal, difference, isReconciled: Math.abs(difference) <= BALANCE_TOLERANCE };
+};
+
+/**
+ * Turns each trade of the note into an investment movement carrying its
+ * pro-rata share of the fees (by gross value). The IRRF "dedo-duro" only
+ * applies to sales, so it is split among the sale trades.
+ */
+export const brokerageNoteToInvestmentTransactions = (note: BrokerageNote, brokerName = ''): Omit<InvestmentTransaction, 'id'>[] => {
+  const fees = allocateProportionally(brokerageOperationalFees(note.fees), note.trades.map(t => t.grossValue));
+  const sales = note.trades.map(t => t.side === 'V' ? t.grossValue : 0);
+  const irrf = allocateProportionally(round2(note.fees.irrf), sales.some(v => v > 0) ? sales : note.trades.map(t => t.grossValue));
+
+  return note.trades.map((t, i) => {
+    const isSale = t.side === 'V';
+    const expectedGross = round2(t.quantity * t.price);
+    const reasons = [
+      t.isDayTrade && 'Day trade',
+      Math.abs(expectedGross - t.grossValue) > BALANCE_TOLERANCE && 'Valor difere de qtd × preço',
+    ].filter(Boolean);
+    return {
+      date: note.tradeDate,
+      settlementDate: note.settlementDate,
+      fundName: [t.ticker, t.specification].filter(Boolean).join(' - '),
+      fundCNPJ: '',
+      operationType: isSale ? 'Venda' : 'Compra',
+      shareQuantity: t.quantity,
+      shareValue: t.price,
+      grossValue: t.grossValue,
+      fees: fees[i],
+      irWithheld: irrf[i],
+      netValue: isSale ? round2(t.grossValue - fees[i] - irrf[i]) : round2(t.grossValue + fees[i]),
+      administrator: brokerName,
+      gestor: '',
+      isUnusual: reasons.length > 0,
+      unusualReason: reasons.join('; '),
+    };
+  });
+};
@@ -0,0 +1,74 @@
+import { CardAccountingEntry, CardStatementMeta, CardTransaction } from '../types';
+
+const LIABILITY_STORAGE_KEY = 'cardLiabilityAccountByCnpj';
+const BALANCE_TOLERANCE = 0.01;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Valor que o item soma à fatura: valor em reais mais o IOF impresso junto. */
+export const cardItemTotal = (t: Pick<CardTransaction, 'amount' | 'iof'>) => round2((t.amount || 0) + (t.iof || 0));
+
+export const formatInstallment = (t: Pick<CardTransaction, 'installmentNumber' | 'installmentTotal'>) =>
+  t.installmentNumber && t.installmentTotal ? `${t.installmentNumber}/${t.installmentTotal}` : '';
+
+export interface CardReconciliation {
+  itemsTotal: number;
+  /** Itens + saldo da fatura anterior - pagamentos recebidos. */
+  computedTotal: number;
+  invoiceTotal: number | null;
+  difference: number;
+  isReconciled: boolean;
+}
+
+/** Checks that the items (plus the carried-over balance) add up to the printed invoice total. */
+export const reconcileCardStatement = (items: CardTransaction[], meta: CardStatementMeta | null): CardReconciliation => {
+  const itemsTotal = round2(items.reduce((sum, t) => sum + cardItemTotal(t), 0));
+  const computedTotal = round2(itemsTotal + (meta?.previousBalance ?? 0) - (meta?.paymentsReceived ?? 0));
+  const invoiceTotal = meta?.invoiceTotal ?? null;
+  const difference = invoiceTotal === null ? 0 : round2(computedTotal - invoiceTotal);
+  return { itemsTotal, computedTotal, invoiceTotal, difference, isReconciled: invoiceTotal !== null && Math.abs(difference) <= BALANCE_TOLERANCE };
+};
+
+/**
+ * One entry per invoice item against the card liability account, dated at
+ * the invoice closing date (installments of older purchases belong to this
+ * invoice). Charges debit the expense account; refunds reverse the sides.
+ */
+export const buildCardAccountingEntries = (items: CardTransaction[], meta: CardStatementMeta | null, liabilityAccount: string): CardAccountingEntry[] =>
+  items
+    .filter(t => cardItemTotal(t) !== 0)
+    .map(t => {
+      const total = cardItemTotal(t);
+      const expenseAccount = t.accountDebit || t.category;
+      const installment = formatInstallment(t);
+      const history = t.accountingHistory || [t.description, installment && `parc. ${installment}`, meta?.issuer && `fatura ${meta.issuer}`].filter(Boolean).join(' - ');
+      return {
+        date: meta?.closingDate || t.date,
+        accountDebit: total > 0 ? expenseAccount : liabilityAccount,
+        accountCredit: total > 0 ? liabilityAccount : expenseAccount,
+        amount: Math.abs(total),
+        history,
+        description: t.description,
+        installment,
+        originalAmount: t.originalAmount,
+        originalCurrency: t.originalCurrency,
+        iof: t.iof,
+      };
+    });
+
+const readLiabilityAccounts = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(LIABILITY_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadCardLiabilityAccount = (cnpj: string): string =>
+  readLiabilityAccounts()[cnpj.replace(/\D/g, '')] ?? '';
+
+export const saveCardLiabilityAccount = (cnpj: string, account: string) => {
+  const all = readLiabilityAccounts();
+  all[cnpj.replace(/\D/g, '')] = account;
+  localStorage.setItem(LIABILITY_STORAGE_KEY, JSON.stringify(all));
+};
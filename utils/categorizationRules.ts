@@ -0,0 +1,147 @@
+/**
+ * Regras do usuário para categoria, contas e histórico contábil, guardadas
+ * por CNPJ da empresa. São aplicadas depois da extração e têm precedência
+ * sobre o que a IA sugeriu; a primeira regra ativa que casa com a linha vence.
+ */
+import { Transaction, CategorizationRule, RuleConditions } from '../types';
+import { parseCurrency } from './currencyUtils';
+
+const RULES_STORAGE_KEY = 'categorizationRulesByCnpj';
+
+/** Linha avaliada pelas regras: também as recém-extraídas, ainda sem id e saldo. */
+type RuleTarget = Omit<Transaction, 'id' | 'balance'>;
+
+export const HISTORY_PLACEHOLDERS = ['{descricao}', '{empresa}', '{cnpj}', '{valor}', '{data}', '{mes}', '{ano}'] as const;
+
+const readAllRules = (): Record<string, CategorizationRule[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(RULES_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadRules = (companyCnpj: string): CategorizationRule[] =>
+  readAllRules()[companyCnpj.replace(/\D/g, '')] ?? [];
+
+export const saveRules = (companyCnpj: string, rules: CategorizationRule[]) => {
+  const all = readAllRules();
+  all[companyCnpj.replace(/\D/g, '')] = rules;
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(all));
+};
+
+const normalizeText = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase().replace(/\s+/g, ' ').trim();
+
+/** Null when the pattern is valid; otherwise the message shown in the rule editor. */
+export const validateRulePattern = (conditions: RuleConditions): string | null => {
+  if (conditions.descriptionMode !== 'regex' || !conditions.descriptionPattern) return null;
+  try {
+    new RegExp(conditions.descriptionPattern, 'i');
+    return null;
+  } catch (error) {
+    return `Expressão regular inválida: ${error instanceof Error ? error.message : String(error)}`;
+  }
+};
+
+const transactionAmount = (t: Pick<Transaction, 'debit' | 'credit'>) => {
+  const debit = parseCurrency(t.debit) || 0;
+  return debit > 0 ? { value: debit, isDebit: true } : { value: parseCurrency(t.credit) || 0, isDebit: false };
+};
+
+export const ruleMatches = (rule: CategorizationRule, t: RuleTarget): boolean => {
+  const { descriptionMode, descriptionPattern, cnpj, minAmount, maxAmount, direction } = rule.conditions;
+
+  if (descriptionPattern) {
+    if (descriptionMode === 'regex') {
+      if (validateRulePattern(rule.conditions)) return false;
+      if (!new RegExp(descriptionPattern, 'i').test(t.description)) return false;
+    } else if (!normalizeText(t.description).includes(normalizeText(descriptionPattern))) {
+      return false;
+    }
+  }
+  if (cnpj && t.cnpj.replace(/\D/g, '') !== cnpj.replace(/\D/g, '')) return false;
+
+  const { value, isDebit } = transactionAmount(t);
+  if (direction === 'debit' && !isDebit) return false;
+  if (direction === 'credit' && isDebit) return false;
+  if (minAmount !== null && value < minAmount) return false;
+  if (maxAmount !== null && value > maxAmount) return false;
+  return true;
+};
+
+/** Fills `{descricao}`, `{empresa}`, `{cnpj}`, `{valor}`, `{data}`, `{mes}` and `{ano}` from the row. */
+export const renderHistoryTemplate = (template: string, t: RuleTarget): string => {
+  const [year = '', month = '', day = ''] = t.date.split('-');
+  const values: Record<string, string> = {
+    '{descricao}': t.description,
+    '{empresa}': t.companyName,
+    '{cnpj}': t.cnpj,
+    '{valor}': transactionAmount(t).value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+    '{data}': day ? `${day}/${month}/${year}` : '',
+    '{mes}': month,
+    '{ano}': year,
+  };
+  return template.replace(/\{(descricao|empresa|cnpj|valor|data|mes|ano)\}/gi, token => values[token.toLowerCase()] ?? token).trim();
+};
+
+export const applyRule = <T extends RuleTarget>(rule: CategorizationRule, t: T): T => {
+  const { category, accountDebit, accountCredit, historyTemplate } = rule.actions;
+  return {
+    ...t,
+    category: category || t.category,
+    accountDebit: accountDebit || t.accountDebit,
+    accountCredit: accountCredit || t.accountCredit,
+    accountingHistory: historyTemplate ? renderHistoryTemplate(historyTemplate, t) : t.accountingHistory,
+    ruleId: rule.id,
+  };
+};
+
+/** Applies the first enabled matching rule to each row; rows without a match are left as extracted. */
+export const applyRules = <T extends RuleTarget>(transactions: T[], rules: CategorizationRule[]): { transactions: T[]; matchedCount: number } => {
+  const active = rules.filter(r => r.enabled);
+  let matchedCount = 0;
+  const result = transactions.map(t => {
+    const rule = active.find(r => ruleMatches(r, t));
+    if (!rule) return t;
+    matchedCount++;
+    return applyRule(rule, t);
+  });
+  return { transactions: result, matchedCount };
+};
+
+/** Longest stretch of the description without dates and numbers, which change every month. */
+export const stableDescriptionText = (description: string): string => description
+  .split(/\b\d{2}[/.-]\d{2}(?:[/.-]\d{2,4})?\b|\d{3,}/)
+  .map(part => part.replace(/\s+/g, ' ').trim())
+  .reduce((longest, part) => part.length > longest.length ? part : longest, '');
+
+export const createEmptyRule = (): CategorizationRule => ({
+  id: crypto.randomUUID(),
+  name: '',
+  enabled: true,
+  conditions: { descriptionMode: 'contains', descriptionPattern: '', cnpj: '', minAmount: null, maxAmount: null, direction: 'any' },
+  actions: { category: '', accountDebit: '', accountCredit: '', historyTemplate: '' },
+});
+
+/**
+ * Draft rule for "criar regra a partir desta linha": matches the description
+ * text around dates and document numbers, the counterpart CNPJ and the direction,
+ * and keeps the row's current category, accounts and history.
+ */
+export const createRuleFromTransaction = (t: Transaction): CategorizationRule => {
+  const pattern = stableDescriptionText(t.description);
+  const { isDebit } = transactionAmount(t);
+  const base = createEmptyRule();
+  return {
+    ...base,
+    name: pattern.slice(0, 40) || t.description.slice(0, 40),
+    conditions: { ...base.conditions, descriptionPattern: pattern, cnpj: t.cnpj, direction: isDebit ? 'debit' : 'credit' },
+    actions: {
+      category: t.category === 'Não categorizado' ? '' : t.category,
+      accountDebit: t.accountDebit,
+      accountCredit: t.accountCredit,
+      historyTemplate: t.accountingHistory,
+    },
+  };
+};
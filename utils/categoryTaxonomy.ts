@@ -0,0 +1,237 @@
+/**
+ * Plano de categorias de cada empresa (guardado por CNPJ), com hierarquia e
+ * contas padrão por categoria. Nas transações a categoria é gravada como o
+ * caminho completo ("Despesas Operacionais > Aluguel"); empresas sem plano
+ * próprio usam a lista padrão de `TRANSACTION_CATEGORIES`.
+ */
+import { TaxonomyCategory } from '../types';
+import { TRANSACTION_CATEGORIES } from '../constants';
+
+const TAXONOMY_STORAGE_KEY = 'categoryTaxonomyByCnpj';
+
+export const CATEGORY_PATH_SEPARATOR = ' > ';
+export const UNCATEGORIZED = 'Não categorizado';
+
+export interface TaxonomyOption {
+  id: string;
+  path: string;
+  name: string;
+  depth: number;
+}
+
+export interface TaxonomyImportRow {
+  path: string;
+  accountDebit: string;
+  accountCredit: string;
+}
+
+const newCategory = (name: string, parentId: string | null = null): TaxonomyCategory => ({
+  id: crypto.randomUUID(),
+  name,
+  parentId,
+  accountDebit: '',
+  accountCredit: '',
+});
+
+export const createDefaultTaxonomy = (): TaxonomyCategory[] => TRANSACTION_CATEGORIES.map(name => newCategory(name));
+
+/** "Não categorizado" is always available, at the top. */
+const withUncategorized = (categories: TaxonomyCategory[]) =>
+  categories.some(c => c.parentId === null && c.name === UNCATEGORIZED) ? categories : [newCategory(UNCATEGORIZED), ...categories];
+
+const readAllTaxonomies = (): Record<string, TaxonomyCategory[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(TAXONOMY_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadTaxonomy = (companyCnpj: string): TaxonomyCategory[] => {
+  const saved = readAllTaxonomies()[companyCnpj.replace(/\D/g, '')];
+  return saved && saved.length > 0 ? withUncategorized(saved) : createDefaultTaxonomy();
+};
+
+export const saveTaxonomy = (companyCnpj: string, categories: TaxonomyCategory[]) => {
+  const all = readAllTaxonomies();
+  all[companyCnpj.replace(/\D/g, '')] = withUncategorized(categories);
+  localStorage.setItem(TAXONOMY_STORAGE_KEY, JSON.stringify(all));
+};
+
+/** Categories in tree order (each parent followed by its children), with their full paths. */
+export const taxonomyOptions = (categories: TaxonomyCategory[]): TaxonomyOption[] => {
+  const options: TaxonomyOption[] = [];
+  const visit = (parentId: string | null, parentPath: string, depth: number) => {
+    for (const category of categories.filter(c => c.parentId === parentId)) {
+      const path = parentPath ? `${parentPath}${CATEGORY_PATH_SEPARATOR}${category.name}` : category.name;
+      options.push({ id: category.id, path, name: category.name, depth });
+      visit(category.id, path, depth + 1);
+    }
+  };
+  visit(null, '', 0);
+  return options;
+};
+
+export const taxonomyPaths = (categories: TaxonomyCategory[]): string[] => taxonomyOptions(categories).map(o => o.path);
+
+/** Option label with the hierarchy shown as indentation. */
+export const indentedCategoryLabel = (option: TaxonomyOption) => `${'\u00a0\u00a0\u00a0'.repeat(option.depth)}${option.name}`;
+
+/** The category's own accounts, falling back to the closest ancestor that has them. */
+export const defaultAccountsFor = (categories: TaxonomyCategory[], path: string): { accountDebit: string; accountCredit: string } => {
+  const option = taxonomyOptions(categories).find(o => o.path === path);
+  let current = option ? categories.find(c => c.id === option.id) : undefined;
+  let accountDebit = '';
+  let accountCredit = '';
+  while (current && (!accountDebit || !accountCredit)) {
+    accountDebit ||= current.accountDebit;
+    accountCredit ||= current.accountCredit;
+    current = categories.find(c => c.id === current!.parentId);
+  }
+  return { accountDebit, accountCredit };
+};
+
+export const topLevelCategory = (path: string) => path.split(CATEGORY_PATH_SEPARATOR)[0];
+
+/** True for the category itself and for any of its subcategories. */
+export const isInCategory = (path: string, category: string) =>
+  path === category || path.startsWith(`${category}${CATEGORY_PATH_SEPARATOR}`);
+
+/** Categories the company taxonomy doesn't know fall back to "Não categorizado". */
+export const normalizeCategory = (category: string | undefined, paths: readonly string[]) =>
+  category && paths.includes(category) ? category : UNCATEGORIZED;
+
+/** Removes a category and all of its subcategories. */
+export const removeCategoryTree = (categories: TaxonomyCategory[], id: string): TaxonomyCategory[] => {
+  const removed = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const c of categories) {
+      if (c.parentId && removed.has(c.parentId) && !removed.has(c.id)) {
+        removed.add(c.id);
+        grew = true;
+      }
+    }
+  }
+  return categories.filter(c => !removed.has(c.id));
+};
+
+/**
+ * Old path → new path for every category that was renamed, moved or removed
+ * (removed ones, and their subcategories, map to "Não categorizado").
+ */
+export const categoryPathChanges = (before: TaxonomyCategory[], after: TaxonomyCategory[]): Record<string, string> => {
+  const newPaths = new Map(taxonomyOptions(after).map(o => [o.id, o.path]));
+  const changes: Record<string, string> = {};
+  for (const { id, path } of taxonomyOptions(before)) {
+    const newPath = newPaths.get(id) ?? UNCATEGORIZED;
+    if (newPath !== path) changes[path] = newPath;
+  }
+  return changes;
+};
+
+// ─── Importação / exportação ──────────────────────────────────────────────
+
+const TAXONOMY_CSV_HEADER = ['Categoria', 'Conta Débito', 'Conta Crédito'];
+
+const toImportRows = (categories: TaxonomyCategory[]): TaxonomyImportRow[] =>
+  taxonomyOptions(categories).map(({ id, path }) => {
+    const { accountDebit, accountCredit } = categories.find(c => c.id === id)!;
+    return { path, accountDebit, accountCredit };
+  });
+
+export const taxonomyToJson = (categories: TaxonomyCategory[]) =>
+  JSON.stringify({ version: 1, categories: toImportRows(categories) }, null, 2);
+
+export const taxonomyToCsv = (categories: TaxonomyCategory[]) => {
+  const quote = (value: string) => /[;"\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return [TAXONOMY_CSV_HEADER, ...toImportRows(categories).map(r => [r.path, r.accountDebit, r.accountCredit])]
+    .map(row => row.map(quote).join(';'))
+    .join('\n');
+};
+
+const parseCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') { current += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else current += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+/** Builds the tree from full paths, creating parents that are not listed on their own. */
+export const taxonomyFromRows = (rows: TaxonomyImportRow[]): TaxonomyCategory[] => {
+  const categories: TaxonomyCategory[] = [];
+  const byPath = new Map<string, TaxonomyCategory>();
+  for (const row of rows) {
+    const names = row.path.split(/\s*>\s*/).map(n => n.trim()).filter(Boolean);
+    let parentId: string | null = null;
+    let path = '';
+    for (const name of names) {
+      path = path ? `${path}${CATEGORY_PATH_SEPARATOR}${name}` : name;
+      let category = byPath.get(path);
+      if (!category) {
+        category = newCategory(name, parentId);
+        byPath.set(path, category);
+        categories.push(category);
+      }
+      parentId = category.id;
+    }
+    const leaf = byPath.get(path);
+    if (leaf) {
+      leaf.accountDebit = row.accountDebit || leaf.accountDebit;
+      leaf.accountCredit = row.accountCredit || leaf.accountCredit;
+    }
+  }
+  return withUncategorized(categories);
+};
+
+/**
+ * Reads a taxonomy exported by `taxonomyToJson` or `taxonomyToCsv` (";" or ","
+ * separated, header optional). Throws with a message for the user when nothing is usable.
+ */
+export const parseTaxonomyFile = (content: string, fileName: string): TaxonomyCategory[] => {
+  const text = content.replace(/^\uFEFF/, '').trim();
+  let rows: TaxonomyImportRow[];
+
+  if (/\.json$/i.test(fileName) || text.startsWith('{') || text.startsWith('[')) {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('O arquivo JSON do plano de categorias é inválido.');
+    }
+    const list = Array.isArray(parsed) ? parsed : parsed?.categories;
+    if (!Array.isArray(list)) throw new Error('O JSON não tem a lista "categories".');
+    rows = list.map((item: any) => typeof item === 'string'
+      ? { path: item, accountDebit: '', accountCredit: '' }
+      : { path: String(item?.path ?? item?.name ?? ''), accountDebit: String(item?.accountDebit ?? ''), accountCredit: String(item?.accountCredit ?? '') });
+  } else {
+    const lines = text.split(/\r?\n/).filter(l => l.trim());
+    const delimiter = lines[0]?.includes(';') ? ';' : ',';
+    const hasHeader = /^"?categoria/i.test(lines[0] ?? '');
+    rows = lines.slice(hasHeader ? 1 : 0).map(line => {
+      const [path = '', accountDebit = '', accountCredit = ''] = parseCsvLine(line, delimiter);
+      return { path, accountDebit, accountCredit };
+    });
+  }
+
+  const categories = taxonomyFromRows(rows.filter(r => r.path.trim()));
+  if (categories.length <= 1) throw new Error('Nenhuma categoria encontrada no arquivo.');
+  return categories;
+};
@@ -0,0 +1,146 @@
+/**
+ * Plano de contas de cada empresa (guardado por CNPJ), importado de CSV/XLSX.
+ * As contas das transações guardam a classificação da conta (`code`); sem
+ * plano importado, as contas continuam em texto livre.
+ */
+import { ChartAccount, AccountNature, SpreadsheetCell } from '../types';
+
+const CHART_STORAGE_KEY = 'chartOfAccountsByCnpj';
+
+export type AccountIssue = 'unknown' | 'synthetic';
+
+const readAllCharts = (): Record<string, ChartAccount[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(CHART_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadChartOfAccounts = (companyCnpj: string): ChartAccount[] =>
+  readAllCharts()[companyCnpj.replace(/\D/g, '')] ?? [];
+
+export const saveChartOfAccounts = (companyCnpj: string, accounts: ChartAccount[]) => {
+  const all = readAllCharts();
+  const key = companyCnpj.replace(/\D/g, '');
+  if (accounts.length > 0) all[key] = accounts;
+  else delete all[key];
+  localStorage.setItem(CHART_STORAGE_KEY, JSON.stringify(all));
+};
+
+const normalizeText = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase().replace(/\s+/g, ' ').trim();
+
+export const describeAccount = (account: ChartAccount) => `${account.code} - ${account.description}`;
+
+/**
+ * Finds an account by classification, reduced code or description, also
+ * accepting the "código - descrição" form. Analytic accounts win ties.
+ */
+export const findAccount = (accounts: ChartAccount[], value: string): ChartAccount | undefined => {
+  const text = value.trim();
+  if (!text) return undefined;
+  const [codePart] = text.split(/\s+-\s+/);
+  const description = normalizeText(text);
+  const matches = accounts.filter(a =>
+    a.code === text || a.code === codePart ||
+    (a.reducedCode && (a.reducedCode === text || a.reducedCode === codePart)) ||
+    normalizeText(a.description) === description
+  );
+  return matches.find(a => a.isAnalytic) ?? matches[0];
+};
+
+/** Replaces a known account (by any of its keys) with its classification; anything else is kept as typed. */
+export const resolveAccount = (accounts: ChartAccount[], value: string): string => findAccount(accounts, value)?.code ?? value;
+
+/** Accounts that can't be posted to. Empty values and companies without a chart are never flagged. */
+export const accountIssue = (accounts: ChartAccount[], value: string): AccountIssue | null => {
+  if (accounts.length === 0 || !value.trim()) return null;
+  const account = findAccount(accounts, value);
+  if (!account) return 'unknown';
+  return account.isAnalytic ? null : 'synthetic';
+};
+
+export const ACCOUNT_ISSUE_MESSAGES: Record<AccountIssue, string> = {
+  unknown: 'Conta não encontrada no plano de contas.',
+  synthetic: 'Conta sintética: lançamentos só podem ir para contas analíticas.',
+};
+
+// ─── Importação ───────────────────────────────────────────────────────────
+
+const normalizeHeader = (cell: SpreadsheetCell) =>
+  String(cell ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const HEADER_PATTERNS = {
+  classification: /classifica|estrutura|mascara/,
+  reducedCode: /reduzid/,
+  code: /^(cod(igo)?|conta)\b/,
+  description: /descri|^nome|titulo/,
+  nature: /natureza/,
+  type: /^tipo|analitic|sintetic|^a\/s$/,
+};
+
+const parseNature = (value: string): AccountNature => {
+  const text = normalizeHeader(value);
+  if (/^d/.test(text)) return 'devedora';
+  if (/^c/.test(text)) return 'credora';
+  return '';
+};
+
+/**
+ * Without a type column, an account is synthetic when other accounts sit below
+ * it ("1.1" under "1" in masked charts, "11" under "1" in plain numeric ones).
+ */
+const hasChildren = (code: string, codes: string[], isMasked: boolean) => isMasked
+  ? codes.some(c => c.startsWith(`${code}.`))
+  : codes.some(c => c.length > code.length && c.startsWith(code));
+
+/**
+ * Reads a chart of accounts from spreadsheet rows (CSV/XLSX), locating the
+ * header among the first rows. With both "Código" and "Classificação", the
+ * former is taken as the reduced code. Throws with a message for the user.
+ */
+export const parseChartOfAccounts = (rows: SpreadsheetCell[][]): ChartAccount[] => {
+  let headerRow = -1;
+  for (let i = 0; i < Math.min(rows.length, 20); i++) {
+    const cells = rows[i].map(normalizeHeader);
+    const hasCode = cells.some(c => HEADER_PATTERNS.classification.test(c) || HEADER_PATTERNS.code.test(c));
+    if (hasCode && cells.some(c => HEADER_PATTERNS.description.test(c))) {
+      headerRow = i;
+      break;
+    }
+  }
+  if (headerRow < 0) throw new Error('Cabeçalho não encontrado. A planilha precisa das colunas "Código" (ou "Classificação") e "Descrição".');
+
+  const header = rows[headerRow].map(normalizeHeader);
+  const find = (pattern: RegExp) => header.findIndex(c => pattern.test(c));
+  const classification = find(HEADER_PATTERNS.classification);
+  const reduced = find(HEADER_PATTERNS.reducedCode);
+  const plainCode = header.findIndex(c => HEADER_PATTERNS.code.test(c) && !HEADER_PATTERNS.reducedCode.test(c));
+  const columns = {
+    code: classification >= 0 ? classification : plainCode,
+    reducedCode: reduced >= 0 ? reduced : classification >= 0 ? plainCode : -1,
+    description: find(HEADER_PATTERNS.description),
+    nature: find(HEADER_PATTERNS.nature),
+    type: find(HEADER_PATTERNS.type),
+  };
+
+  const cell = (row: SpreadsheetCell[], index: number) => index >= 0 ? String(row[index] ?? '').trim() : '';
+  const parsed = rows.slice(headerRow + 1)
+    .map(row => ({
+      code: cell(row, columns.code),
+      reducedCode: cell(row, columns.reducedCode),
+      description: cell(row, columns.description),
+      nature: parseNature(cell(row, columns.nature)),
+      type: normalizeHeader(cell(row, columns.type)),
+    }))
+    .filter(a => a.code && a.description);
+  if (parsed.length === 0) throw new Error('Nenhuma conta encontrada na planilha.');
+
+  const codes = parsed.map(a => a.code);
+  const isMasked = codes.some(c => c.includes('.'));
+  return parsed.map(({ type, ...account }) => ({
+    ...account,
+    isAnalytic: type ? type.startsWith('a') : !hasChildren(account.code, codes, isMasked),
+  }));
+};
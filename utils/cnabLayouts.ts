@@ -0,0 +1,272 @@
+/**
+ * Layouts de arquivos retorno CNAB por banco.
+ *
+ * Posições são 1-based e inclusivas, exatamente como aparecem nos manuais
+ * (FEBRABAN para o CNAB 240 e manual de cada banco para o CNAB 400).
+ */
+
+export interface CnabField {
+  start: number;
+  end: number;
+}
+
+/**
+ * - `credit`: entrada financeira (liquidação do título)
+ * - `fee`: débito de tarifas/custas
+ * - `payment`: pagamento efetuado a favorecido
+ * - `info`: ocorrência sem efeito financeiro (confirmação, rejeição, baixa...)
+ */
+export type CnabMovement = 'credit' | 'fee' | 'payment' | 'info';
+
+export interface CnabOccurrence {
+  description: string;
+  movement: CnabMovement;
+}
+
+/** Campos de um registro de cobrança (segmentos T+U no 240, detalhe no 400). */
+export interface CnabCollectionFields {
+  occurrence: CnabField;
+  ourNumber: CnabField;
+  documentNumber: CnabField;
+  dueDate: CnabField;
+  amount: CnabField;
+  fee: CnabField;
+  payerDocumentType?: CnabField;
+  payerDocument?: CnabField;
+  payerName?: CnabField;
+}
+
+export interface Cnab240Layout {
+  bankCode: string;
+  account: { branch: CnabField; number: CnabField; digit: CnabField };
+  segmentT: CnabCollectionFields;
+  segmentU: {
+    interest: CnabField;
+    discount: CnabField;
+    paidAmount: CnabField;
+    netAmount: CnabField;
+    occurrenceDate: CnabField;
+    creditDate: CnabField;
+  };
+  segmentA: {
+    payeeName: CnabField;
+    yourNumber: CnabField;
+    paymentDate: CnabField;
+    amount: CnabField;
+    effectiveDate: CnabField;
+    effectiveAmount: CnabField;
+    payeeDocument?: CnabField;
+    occurrences: CnabField;
+  };
+  segmentB: { payeeDocumentType: CnabField; payeeDocument: CnabField };
+  segmentJ: {
+    assignorName: CnabField;
+    dueDate: CnabField;
+    amount: CnabField;
+    paymentDate: CnabField;
+    paidAmount: CnabField;
+    yourNumber: CnabField;
+    occurrences: CnabField;
+  };
+  collectionOccurrences: Record<string, CnabOccurrence>;
+}
+
+export interface Cnab400Layout {
+  bankCode: string;
+  detailRecordType: string;
+  fields: CnabCollectionFields & {
+    occurrenceDate: CnabField;
+    discount: CnabField;
+    paidAmount: CnabField;
+    interest: CnabField;
+    creditDate: CnabField;
+  };
+  occurrences: Record<string, CnabOccurrence>;
+}
+
+const f = (start: number, end: number): CnabField => ({ start, end });
+
+// ─── CNAB 240 ───────────────────────────────────────────────────────────────
+
+const FEBRABAN_240_COLLECTION_OCCURRENCES: Record<string, CnabOccurrence> = {
+  '02': { description: 'Entrada confirmada', movement: 'info' },
+  '03': { description: 'Entrada rejeitada', movement: 'info' },
+  '04': { description: 'Transferência de carteira/entrada', movement: 'info' },
+  '05': { description: 'Transferência de carteira/baixa', movement: 'info' },
+  '06': { description: 'Liquidação', movement: 'credit' },
+  '09': { description: 'Baixa', movement: 'info' },
+  '12': { description: 'Confirmação de abatimento', movement: 'info' },
+  '13': { description: 'Cancelamento de abatimento', movement: 'info' },
+  '14': { description: 'Alteração de vencimento', movement: 'info' },
+  '17': { description: 'Liquidação após baixa', movement: 'credit' },
+  '19': { description: 'Confirmação de instrução de protesto', movement: 'info' },
+  '23': { description: 'Remessa a cartório', movement: 'info' },
+  '25': { description: 'Protestado e baixado', movement: 'info' },
+  '26': { description: 'Instrução rejeitada', movement: 'info' },
+  '28': { description: 'Débito de tarifas/custas', movement: 'fee' },
+  '30': { description: 'Alteração de dados rejeitada', movement: 'info' },
+};
+
+/** Layout padrão FEBRABAN v10.x, seguido por BB, Bradesco e Santander. */
+const FEBRABAN_240: Omit<Cnab240Layout, 'bankCode'> = {
+  account: { branch: f(53, 57), number: f(59, 70), digit: f(71, 71) },
+  segmentT: {
+    occurrence: f(16, 17),
+    ourNumber: f(38, 57),
+    documentNumber: f(59, 73),
+    dueDate: f(74, 81),
+    amount: f(82, 96),
+    payerDocumentType: f(133, 133),
+    payerDocument: f(134, 148),
+    payerName: f(149, 188),
+    fee: f(199, 213),
+  },
+  segmentU: {
+    interest: f(18, 32),
+    discount: f(33, 47),
+    paidAmount: f(78, 92),
+    netAmount: f(93, 107),
+    occurrenceDate: f(138, 145),
+    creditDate: f(146, 153),
+  },
+  segmentA: {
+    payeeName: f(44, 73),
+    yourNumber: f(74, 93),
+    paymentDate: f(94, 101),
+    amount: f(120, 134),
+    effectiveDate: f(155, 162),
+    effectiveAmount: f(163, 177),
+    occurrences: f(231, 240),
+  },
+  segmentB: { payeeDocumentType: f(18, 18), payeeDocument: f(19, 32) },
+  segmentJ: {
+    assignorName: f(62, 91),
+    dueDate: f(92, 99),
+    amount: f(100, 114),
+    paymentDate: f(145, 152),
+    paidAmount: f(153, 167),
+    yourNumber: f(183, 202),
+    occurrences: f(231, 240),
+  },
+  collectionOccurrences: FEBRABAN_240_COLLECTION_OCCURRENCES,
+};
+
+export const CNAB240_LAYOUTS: Record<string, Cnab240Layout> = {
+  '001': { ...FEBRABAN_240, bankCode: '001' },
+  '237': { ...FEBRABAN_240, bankCode: '237' },
+  '033': { ...FEBRABAN_240, bankCode: '033' },
+  // Itaú (cobrança e SISPAG): conta em posições próprias e CNPJ/CPF do favorecido no segmento A
+  '341': {
+    ...FEBRABAN_240,
+    bankCode: '341',
+    account: { branch: f(54, 57), number: f(66, 70), digit: f(72, 72) },
+    segmentA: {
+      payeeName: f(44, 73),
+      yourNumber: f(74, 93),
+      paymentDate: f(94, 101),
+      amount: f(120, 134),
+      effectiveDate: f(155, 162),
+      effectiveAmount: f(163, 177),
+      payeeDocument: f(204, 217),
+      occurrences: f(231, 240),
+    },
+  },
+};
+
+/** Códigos de ocorrência do retorno de pagamentos (posições 231-240, até 5 códigos). */
+export const PAYMENT_OCCURRENCES: Record<string, CnabOccurrence> = {
+  '00': { description: 'Pagamento efetuado', movement: 'payment' },
+  'BD': { description: 'Pagamento agendado', movement: 'info' },
+  'BE': { description: 'Pagamento agendado com forma alterada', movement: 'info' },
+  'RJ': { description: 'Pagamento rejeitado', movement: 'info' },
+};
+
+// ─── CNAB 400 ───────────────────────────────────────────────────────────────
+
+const CNAB400_COMMON = {
+  occurrence: f(109, 110),
+  occurrenceDate: f(111, 116),
+  documentNumber: f(117, 126),
+  dueDate: f(147, 152),
+  amount: f(153, 165),
+  fee: f(176, 188),
+  discount: f(241, 253),
+  paidAmount: f(254, 266),
+  interest: f(267, 279),
+  creditDate: f(296, 301),
+};
+
+export const CNAB400_LAYOUTS: Record<string, Cnab400Layout> = {
+  '341': {
+    bankCode: '341',
+    detailRecordType: '1',
+    fields: { ...CNAB400_COMMON, ourNumber: f(63, 70), payerName: f(325, 354) },
+    occurrences: {
+      '02': { description: 'Entrada confirmada', movement: 'info' },
+      '03': { description: 'Entrada rejeitada', movement: 'info' },
+      '06': { description: 'Liquidação normal', movement: 'credit' },
+      '07': { description: 'Liquidação parcial', movement: 'credit' },
+      '08': { description: 'Liquidação em cartório', movement: 'credit' },
+      '09': { description: 'Baixa simples', movement: 'info' },
+      '10': { description: 'Baixa por ter sido liquidado', movement: 'info' },
+      '14': { description: 'Vencimento alterado', movement: 'info' },
+      '28': { description: 'Débito de tarifas/custas', movement: 'fee' },
+    },
+  },
+  '237': {
+    bankCode: '237',
+    detailRecordType: '1',
+    fields: { ...CNAB400_COMMON, ourNumber: f(71, 82) },
+    occurrences: {
+      '02': { description: 'Entrada confirmada', movement: 'info' },
+      '03': { description: 'Entrada rejeitada', movement: 'info' },
+      '06': { description: 'Liquidação normal', movement: 'credit' },
+      '09': { description: 'Baixado automaticamente', movement: 'info' },
+      '10': { description: 'Baixado conforme instruções', movement: 'info' },
+      '15': { description: 'Liquidação em cartório', movement: 'credit' },
+      '17': { description: 'Liquidação após baixa', movement: 'credit' },
+      '28': { description: 'Débito de tarifas/custas', movement: 'fee' },
+    },
+  },
+  '001': {
+    bankCode: '001',
+    detailRecordType: '7',
+    fields: {
+      ...CNAB400_COMMON,
+      ourNumber: f(64, 80),
+      creditDate: f(176, 181),
+      fee: f(182, 188),
+    },
+    occurrences: {
+      '02': { description: 'Confirmação de entrada', movement: 'info' },
+      '03': { description: 'Comando recusado', movement: 'info' },
+      '05': { description: 'Liquidado sem registro', movement: 'credit' },
+      '06': { description: 'Liquidação normal', movement: 'credit' },
+      '07': { description: 'Liquidação por conta', movement: 'credit' },
+      '08': { description: 'Liquidação por saldo', movement: 'credit' },
+      '09': { description: 'Baixa de título', movement: 'info' },
+      '10': { description: 'Baixa solicitada', movement: 'info' },
+      '15': { description: 'Liquidação em cartório', movement: 'credit' },
+      '96': { description: 'Despesas de protesto', movement: 'fee' },
+      '98': { description: 'Débito de custas antecipadas', movement: 'fee' },
+    },
+  },
+  '033': {
+    bankCode: '033',
+    detailRecordType: '1',
+    fields: { ...CNAB400_COMMON, ourNumber: f(63, 70) },
+    occurrences: {
+      '02': { description: 'Entrada confirmada', movement: 'info' },
+      '03': { description: 'Entrada rejeitada', movement: 'info' },
+      '06': { description: 'Liquidação normal', movement: 'credit' },
+      '07': { description: 'Liquidação por conta', movement: 'credit' },
+      '08': { description: 'Liquidação por saldo', movement: 'credit' },
+      '09': { description: 'Baixa automática', movement: 'info' },
+      '10': { description: 'Baixa conforme instruções', movement: 'info' },
+      '17': { description: 'Liquidação em cartório', movement: 'credit' },
+      '28': { description: 'Débito de tarifas/custas', movement: 'fee' },
+    },
+  },
+};
+
+export const SUPPORTED_CNAB_BANKS = ['001', '237', '341', '033'];
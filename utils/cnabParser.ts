@@ -0,0 +1,262 @@
+import { GeminiTransactionResponse } from '../types';
+import { BANK_CODES } from '../constants';
+import {
+  CnabField,
+  CnabOccurrence,
+  CNAB240_LAYOUTS,
+  CNAB400_LAYOUTS,
+  PAYMENT_OCCURRENCES,
+  SUPPORTED_CNAB_BANKS,
+} from './cnabLayouts';
+
+type CnabTransaction = GeminiTransactionResponse['transactions'][number];
+
+export const CNAB_FILE_EXTENSIONS = ['.ret', '.txt', '.cnab', '.rst'];
+
+const read = (line: string, field: CnabField): string => line.slice(field.start - 1, field.end).trim();
+
+const readAmount = (line: string, field: CnabField): number => {
+  const digits = read(line, field).replace(/\D/g, '');
+  return digits ? parseInt(digits, 10) / 100 : 0;
+};
+
+/** DDMMAAAA (240) ou DDMMAA (400) → AAAA-MM-DD. Datas zeradas retornam ''. */
+const readDate = (line: string, field: CnabField): string => {
+  const value = read(line, field);
+  if (!/^\d+$/.test(value) || /^0+$/.test(value)) return '';
+  if (value.length === 8) return `${value.slice(4, 8)}-${value.slice(2, 4)}-${value.slice(0, 2)}`;
+  if (value.length === 6) return `20${value.slice(4, 6)}-${value.slice(2, 4)}-${value.slice(0, 2)}`;
+  return '';
+};
+
+/** Normaliza o número de inscrição (vem com zeros à esquerda em 14/15 posições). */
+const readTaxId = (line: string, field: CnabField, typeField?: CnabField): string => {
+  const digits = read(line, field).replace(/\D/g, '');
+  if (!digits || /^0+$/.test(digits)) return '';
+  const type = typeField ? read(line, typeField) : '';
+  if (type === '1') return digits.slice(-11);
+  return digits.slice(-14);
+};
+
+const describeOccurrence = (occurrences: Record<string, CnabOccurrence>, code: string): CnabOccurrence =>
+  occurrences[code] ?? { description: `Ocorrência ${code}`, movement: 'info' };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const collectionCreditRow = (date: string, occurrence: CnabOccurrence, document: string, name: string, taxId: string, paid: number, titleAmount: number, discount: number): CnabTransaction => {
+  const reference = [document && `TÍTULO ${document}`, name].filter(Boolean).join(' - ');
+  const underpaid = titleAmount > 0 && paid + discount < titleAmount - 0.005;
+  return {
+    date,
+    description: `${occurrence.description.toUpperCase()}${reference ? ` - ${reference}` : ''}`,
+    debit: 0,
+    credit: round2(paid),
+    companyName: name,
+    cnpj: taxId,
+    category: 'Receita de Vendas',
+    isUnusual: underpaid,
+    unusualReason: underpaid ? 'Pago abaixo do valor do título' : '',
+    accountDebit: 'BANCOS',
+    accountCredit: 'CLIENTES',
+    accountingHistory: `RECEB. TITULO ${document} ${name}`.trim().toUpperCase(),
+  };
+};
+
+const collectionFeeRow = (date: string, occurrence: CnabOccurrence, document: string, fee: number): CnabTransaction => ({
+  date,
+  description: `TARIFA ${occurrence.description.toUpperCase()}${document ? ` - TÍTULO ${document}` : ''}`,
+  debit: round2(fee),
+  credit: 0,
+  companyName: '',
+  cnpj: '',
+  category: 'Juros e Despesas Bancárias',
+  isUnusual: false,
+  unusualReason: '',
+  accountDebit: 'DESPESAS BANCARIAS',
+  accountCredit: 'BANCOS',
+  accountingHistory: `TARIFA COBRANCA TITULO ${document}`.trim().toUpperCase(),
+});
+
+const paymentRow = (date: string, name: string, taxId: string, reference: string, amount: number): CnabTransaction => ({
+  date,
+  description: `PAGAMENTO - ${name}${reference ? ` - DOC ${reference}` : ''}`,
+  debit: round2(amount),
+  credit: 0,
+  companyName: name,
+  cnpj: taxId,
+  category: 'Fornecedores',
+  isUnusual: false,
+  unusualReason: '',
+  accountDebit: 'FORNECEDORES',
+  accountCredit: 'BANCOS',
+  accountingHistory: `PAGTO ${name} DOC ${reference}`.trim().toUpperCase(),
+});
+
+/** O campo de ocorrências de pagamento traz até 5 códigos de 2 posições; '00' indica efetivação. */
+const readPaymentOccurrence = (line: string, field: CnabField): CnabOccurrence => {
+  const codes = (read(line, field).match(/.{1,2}/g) || []).filter(c => c.trim());
+  if (codes.includes('00')) return PAYMENT_OCCURRENCES['00'];
+  const code = codes[0] ?? '';
+  return PAYMENT_OCCURRENCES[code] ?? { description: `Ocorrência ${code}`, movement: 'info' };
+};
+
+const unsupportedBankError = (bankCode: string, format: string) =>
+  new Error(`Banco ${bankCode} (${BANK_CODES[bankCode] || 'desconhecido'}) não possui layout CNAB ${format} cadastrado. Bancos suportados: ${SUPPORTED_CNAB_BANKS.map(c => BANK_CODES[c]).join(', ')}.`);
+
+const parseCnab240 = (lines: string[]): { transactions: CnabTransaction[]; ignored: number; bankCode: string; accountNumber: string } => {
+  const header = lines[0];
+  const bankCode = header.slice(0, 3);
+  const layout = CNAB240_LAYOUTS[bankCode];
+  if (!layout) throw unsupportedBankError(bankCode, '240');
+
+  const transactions: CnabTransaction[] = [];
+  let ignored = 0;
+  let pendingT: string | null = null;
+  let lastPayment: CnabTransaction | null = null;
+
+  for (const line of lines) {
+    if (line[7] !== '3') continue;
+    const segment = line[13];
+
+    if (segment === 'T') {
+      pendingT = line;
+      lastPayment = null;
+    } else if (segment === 'U' && pendingT) {
+      const t = pendingT;
+      pendingT = null;
+      const occurrence = describeOccurrence(layout.collectionOccurrences, read(t, layout.segmentT.occurrence));
+      const document = read(t, layout.segmentT.documentNumber) || read(t, layout.segmentT.ourNumber);
+      const date = readDate(line, layout.segmentU.creditDate) || readDate(line, layout.segmentU.occurrenceDate);
+      const fee = readAmount(t, layout.segmentT.fee);
+
+      if (occurrence.movement === 'credit') {
+        const name = layout.segmentT.payerName ? read(t, layout.segmentT.payerName) : '';
+        const taxId = layout.segmentT.payerDocument ? readTaxId(t, layout.segmentT.payerDocument, layout.segmentT.payerDocumentType) : '';
+        const paid = readAmount(line, layout.segmentU.paidAmount) || readAmount(t, layout.segmentT.amount);
+        transactions.push(collectionCreditRow(date, occurrence, document, name, taxId, paid, readAmount(t, layout.segmentT.amount), readAmount(line, layout.segmentU.discount)));
+        if (fee > 0) transactions.push(collectionFeeRow(date, occurrence, document, fee));
+      } else if (occurrence.movement === 'fee' && fee > 0) {
+        transactions.push(collectionFeeRow(date, occurrence, document, fee));
+      } else {
+        ignored++;
+      }
+    } else if (segment === 'A') {
+      const { segmentA } = layout;
+      const occurrence = readPaymentOccurrence(line, segmentA.occurrences);
+      lastPayment = null;
+      if (occurrence.movement !== 'payment') {
+        ignored++;
+        continue;
+      }
+      const amount = readAmount(line, segmentA.effectiveAmount) || readAmount(line, segmentA.amount);
+      const date = readDate(line, segmentA.effectiveDate) || readDate(line, segmentA.paymentDate);
+      const taxId = segmentA.payeeDocument ? readTaxId(line, segmentA.payeeDocument) : '';
+      lastPayment = paymentRow(date, read(line, segmentA.payeeName), taxId, read(line, segmentA.yourNumber), amount);
+      transactions.push(lastPayment);
+    } else if (segment === 'B' && lastPayment && !lastPayment.cnpj) {
+      lastPayment.cnpj = readTaxId(line, layout.segmentB.payeeDocument, layout.segmentB.payeeDocumentType);
+    } else if (segment === 'J') {
+      // J-52 é o complemento do J com os dados do beneficiário
+      if (line.slice(17, 19) === '52') {
+        if (lastPayment && !lastPayment.cnpj) lastPayment.cnpj = readTaxId(line, { start: 77, end: 91 }, { start: 76, end: 76 });
+        continue;
+      }
+      const { segmentJ } = layout;
+      const occurrence = readPaymentOccurrence(line, segmentJ.occurrences);
+      lastPayment = null;
+      if (occurrence.movement !== 'payment') {
+        ignored++;
+        continue;
+      }
+      const amount = readAmount(line, segmentJ.paidAmount) || readAmount(line, segmentJ.amount);
+      const date = readDate(line, segmentJ.paymentDate) || readDate(line, segmentJ.dueDate);
+      lastPayment = paymentRow(date, read(line, segmentJ.assignorName), '', read(line, segmentJ.yourNumber), amount);
+      transactions.push(lastPayment);
+    }
+  }
+
+  const branch = read(header, layout.account.branch).replace(/^0+/, '');
+  const account = read(header, layout.account.number).replace(/^0+/, '');
+  const digit = read(header, layout.account.digit);
+  const accountNumber = account ? `${branch} / ${account}${digit ? `-${digit}` : ''}` : '';
+
+  return { transactions, ignored, bankCode, accountNumber };
+};
+
+const parseCnab400 = (lines: string[]): { transactions: CnabTransaction[]; ignored: number; bankCode: string; accountNumber: string } => {
+  const header = lines[0];
+  const bankCode = header.slice(76, 79);
+  const layout = CNAB400_LAYOUTS[bankCode];
+  if (!layout) throw unsupportedBankError(bankCode, '400');
+
+  const { fields } = layout;
+  const transactions: CnabTransaction[] = [];
+  let ignored = 0;
+
+  for (const line of lines) {
+    if (line[0] !== layout.detailRecordType) continue;
+
+    const occurrence = describeOccurrence(layout.occurrences, read(line, fields.occurrence));
+    const document = read(line, fields.documentNumber) || read(line, fields.ourNumber);
+    const date = readDate(line, fields.creditDate) || readDate(line, fields.occurrenceDate);
+    const fee = readAmount(line, fields.fee);
+
+    if (occurrence.movement === 'credit') {
+      const name = fields.payerName ? read(line, fields.payerName) : '';
+      const taxId = fields.payerDocument ? readTaxId(line, fields.payerDocument, fields.payerDocumentType) : '';
+      const paid = readAmount(line, fields.paidAmount) || readAmount(line, fields.amount);
+      transactions.push(collectionCreditRow(date, occurrence, document, name, taxId, paid, readAmount(line, fields.amount), readAmount(line, fields.discount)));
+      if (fee > 0) transactions.push(collectionFeeRow(date, occurrence, document, fee));
+    } else if (occurrence.movement === 'fee' && fee > 0) {
+      transactions.push(collectionFeeRow(date, occurrence, document, fee));
+    } else {
+      ignored++;
+    }
+  }
+
+  return { transactions, ignored, bankCode, accountNumber: '' };
+};
+
+/**
+ * Converts a CNAB 240 or 400 return file (cobrança ou pagamentos) into the
+ * statement shape used by the review table. Only occurrences with financial
+ * effect become rows; confirmations, rejections and write-offs are counted
+ * in `extractionNotes`.
+ */
+export const parseCNAB = (content: string): GeminiTransactionResponse => {
+  const rawLines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (rawLines.length < 2) {
+    throw new Error('Arquivo CNAB vazio ou incompleto.');
+  }
+
+  // Alguns sistemas removem os espaços finais; completamos até o tamanho do layout
+  const format = rawLines[0].length > 240 ? '400' : '240';
+  const size = format === '400' ? 400 : 240;
+  const lines = rawLines.map(line => line.padEnd(size, ' '));
+
+  if (format === '240' && lines[0][7] !== '0') {
+    throw new Error('Arquivo não reconhecido como CNAB 240: header de arquivo ausente.');
+  }
+  if (format === '400' && lines[0][0] !== '0') {
+    throw new Error('Arquivo não reconhecido como CNAB 400: header de arquivo ausente.');
+  }
+
+  const { transactions, ignored, bankCode, accountNumber } = format === '240' ? parseCnab240(lines) : parseCnab400(lines);
+  const sorted = transactions
+    .map((t, index) => ({ t, index }))
+    .sort((a, b) => a.t.date.localeCompare(b.t.date) || a.index - b.index)
+    .map(({ t }) => t);
+
+  return {
+    transactions: sorted,
+    bankName: BANK_CODES[bankCode],
+    bankCode,
+    accountNumber: accountNumber || undefined,
+    extractionNotes: `Retorno CNAB ${format}. ${ignored > 0 ? `${ignored} registro(s) sem movimentação financeira (confirmações, baixas, rejeições) não geraram lançamentos.` : 'Todos os registros geraram lançamentos.'}`,
+  };
+};
+
+export const parseCNABFile = async (file: File): Promise<GeminiTransactionResponse> => {
+  const buffer = await file.arrayBuffer();
+  return parseCNAB(new TextDecoder('windows-1252').decode(buffer));
+};
@@ -69,3 +69,59 @@ export const formatCNPJForDisplay = (cnpj: string): string => {
       .replace(/(\d{4})(\d)/, '$1-$2')
       .slice(0, 18); // Limita a XX.XXX.XXX/XXXX-XX
 };
+
+/**
+ * Procura um CNPJ válido dentro de um texto livre (ex.: descrição do extrato).
+ * Retorna somente os dígitos, ou string vazia se nenhum for encontrado.
+ */
+export const extractCNPJFromText = (text: string): string => {
+    const matches = (text || '').match(/\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}/g) || [];
+    for (const match of matches) {
+      const digits = match.replace(/\D/g, '');
+      if (digits.length === 14 && validateCNPJ(digits).isValid) return digits;
+    }
+    return '';
+};
+
+export const validateCPF = (cpf: string): CNPJValidationResult => {
+  const cpfClean = (cpf || '').replace(/[^\d]/g, '');
+
+  if (cpfClean.length !== 11) {
+    return { isValid: false, message: 'O CPF deve ter 11 números.' };
+  }
+  if (/^(\d)\1+$/.test(cpfClean)) {
+    return { isValid: false, message: 'CPF inválido (dígitos repetidos).' };
+  }
+
+  for (const size of [9, 10]) {
+    let sum = 0;
+    for (let i = 0; i < size; i++) {
+      sum += Number(cpfClean.charAt(i)) * (size + 1 - i);
+    }
+    const result = (sum * 10) % 11 % 10;
+    if (result !== Number(cpfClean.charAt(size))) {
+      return { isValid: false, message: 'CPF inválido. Verifique os números.' };
+    }
+  }
+
+  return { isValid: true };
+};
+
+/**
+ * Valida o documento de uma contraparte, que pode ser pessoa física (CPF, 11 dígitos)
+ * ou jurídica (CNPJ, 14 dígitos).
+ */
+export const validateTaxId = (taxId: string): CNPJValidationResult => {
+  const digits = (taxId || '').replace(/\D/g, '');
+  if (digits.length === 11) return validateCPF(digits);
+  return validateCNPJ(digits);
+};
+
+export const formatTaxIdForDisplay = (taxId: string): string => {
+  const digitsOnly = (taxId || '').replace(/\D/g, '');
+  if (digitsOnly.length > 11) return formatCNPJForDisplay(digitsOnly);
+  return digitsOnly
+    .replace(/^(\d{3})(\d)/, '$1.$2')
+    .replace(/^(\d{3})\.(\d{3})(\d)/, '$1.$2.$3')
+    .replace(/\.(\d{3})(\d{1,2})$/, '.$1-$2');
+};
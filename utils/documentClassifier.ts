@@ -0,0 +1,79 @@
+import { DetectedDocumentType, DocumentClassification } from '../types';
+
+interface DocumentSignature {
+  type: DetectedDocumentType;
+  label: string;
+  patterns: RegExp[];
+}
+
+/**
+ * Palavras-chave típicas das primeiras páginas de cada tipo de documento.
+ * Tipos `unsupported` existem para avisar o usuário antes da extração.
+ */
+const DOCUMENT_SIGNATURES: DocumentSignature[] = [
+  {
+    type: 'bank',
+    label: 'Extrato bancário',
+    patterns: [/extrato (de )?conta corrente|extrato banc[aá]rio/i, /saldo anterior/i, /lan[cç]amentos/i, /ag[eê]ncia/i, /saldo (do dia|dispon[ií]vel|final)/i, /\bpix\b/i, /tarifa/i, /\bTED\b|\bDOC\b/],
+  },
+  {
+    type: 'investment',
+    label: 'Extrato de cotista',
+    patterns: [/extrato (de )?cotista/i, /valor da cota/i, /(qtd\.?|quantidade) (de )?cotas/i, /come[- ]cotas/i, /fundo de investimento/i, /resgate/i, /aplica[cç][aã]o/i, /administrador/i],
+  },
+  {
+    type: 'brokerage',
+    label: 'Nota de corretagem',
+    patterns: [/nota de (corretagem|negocia[cç][aã]o)/i, /neg[oó]cios realizados/i, /resumo dos neg[oó]cios/i, /taxa de liquida[cç][aã]o/i, /emolumentos/i, /l[ií]quido para/i, /\bBOVESPA\b|\bB3\b/],
+  },
+  {
+    type: 'unsupported',
+    label: 'Nota fiscal',
+    patterns: [/\bDANFE\b/, /nota fiscal/i, /chave de acesso/i, /\bNF-?e\b/i, /\bICMS\b/, /destinat[aá]rio/i, /natureza da opera[cç][aã]o/i],
+  },
+  {
+    type: 'unsupported',
+    label: 'Holerite / contracheque',
+    patterns: [/holerite|contracheque/i, /recibo de pagamento de sal[aá]rio/i, /proventos/i, /\bdescontos\b/i, /FGTS/, /sal[aá]rio base/i, /\bINSS\b/],
+  },
+  {
+    type: 'unsupported',
+    label: 'Boleto',
+    patterns: [/linha digit[aá]vel/i, /benefici[aá]rio/i, /\bpagador\b|\bsacado\b/i, /nosso n[uú]mero/i, /local de pagamento/i, /ficha de compensa[cç][aã]o/i],
+  },
+  {
+    type: 'card',
+    label: 'Fatura de cartão de crédito',
+    patterns: [/fatura/i, /cart[aã]o de cr[eé]dito/i, /pagamento m[ií]nimo/i, /limite (total|dispon[ií]vel)/i, /melhor data de compra/i, /parc(ela)?\.? ?\d{1,2}\/\d{1,2}/i, /\bIOF\b/],
+  },
+];
+
+// Menos que isso é pouca evidência para decidir só por palavras-chave
+const MIN_MATCHES = 2;
+// Número de acertos a partir do qual a evidência é considerada completa
+const FULL_EVIDENCE_MATCHES = 4;
+
+/**
+ * Scores the text of the first pages against each document signature.
+ * Returns null when the text is empty or no signature has enough matches.
+ */
+export const classifyDocumentText = (text: string): DocumentClassification | null => {
+  if (!text.trim()) return null;
+
+  const scored = DOCUMENT_SIGNATURES
+    .map(signature => ({ signature, matches: signature.patterns.filter(p => p.test(text)) }))
+    .sort((a, b) => b.matches.length - a.matches.length);
+
+  const [best, second] = scored;
+  if (best.matches.length < MIN_MATCHES) return null;
+
+  const margin = best.matches.length / (best.matches.length + (second?.matches.length ?? 0));
+  const evidence = Math.min(1, best.matches.length / FULL_EVIDENCE_MATCHES);
+  return {
+    type: best.signature.type,
+    label: best.signature.label,
+    confidence: Math.round(margin * evidence * 100) / 100,
+    source: 'keywords',
+    reason: `Termos encontrados: ${best.matches.map(p => text.match(p)?.[0]).join(', ')}`,
+  };
+};
@@ -0,0 +1,239 @@
+/**
+ * Modelos de exportação montados pelo usuário: colunas escolhidas, ordenadas e
+ * renomeadas (inclusive derivadas, como valor com sinal e mês), separador,
+ * codificação, formatos de data e número e linhas de cabeçalho/rodapé. Os
+ * modelos são globais (não por empresa) e servem para CSV, TXT e XLSX.
+ */
+import { InvestmentTransaction, Transaction } from '../types';
+import { formatCNPJForDisplay, formatTaxIdForDisplay } from './cnpjUtils';
+import { parseCurrency } from './currencyUtils';
+import { downloadBlob, encodeLatin1 } from './fileUtils';
+
+const TEMPLATES_STORAGE_KEY = 'exportTemplates';
+
+export type TemplateDataKind = 'bank' | 'investment';
+export type TemplateFormat = 'csv' | 'txt' | 'xlsx';
+export type TemplateDateFormat = 'dd/MM/yyyy' | 'yyyy-MM-dd' | 'ddMMyyyy' | 'MM/dd/yyyy';
+
+export interface TemplateColumn {
+  key: string;                  // Uma das colunas de `templateColumnOptions`
+  header: string;
+}
+
+export interface ExportTemplate {
+  id: string;
+  name: string;
+  kind: TemplateDataKind;
+  columns: TemplateColumn[];
+  delimiter: string;            // CSV e TXT
+  encoding: 'utf-8-bom' | 'iso-8859-1';
+  dateFormat: TemplateDateFormat;
+  decimalSeparator: ',' | '.';
+  thousandsSeparator: boolean;
+  includeColumnHeaders: boolean;
+  /** Linhas livres antes e depois dos dados; aceitam os campos de `TEMPLATE_TEXT_PLACEHOLDERS`. */
+  headerLines: string;
+  footerLines: string;
+}
+
+type CellValue = string | number | null;
+type ColumnType = 'text' | 'date' | 'number';
+
+interface ColumnDefinition<T> {
+  key: string;
+  label: string;
+  type: ColumnType;
+  /** Casas decimais das colunas numéricas (padrão 2). */
+  decimals?: number;
+  value: (row: T) => CellValue;
+}
+
+const signedBankAmount = (t: Transaction) => (parseCurrency(t.credit) || 0) - (parseCurrency(t.debit) || 0);
+
+const BANK_COLUMNS: ColumnDefinition<Transaction>[] = [
+  { key: 'date', label: 'Data', type: 'date', value: t => t.date },
+  { key: 'month', label: 'Mês (MM/AAAA)', type: 'text', value: t => t.date ? `${t.date.slice(5, 7)}/${t.date.slice(0, 4)}` : '' },
+  { key: 'year', label: 'Ano', type: 'text', value: t => t.date.slice(0, 4) },
+  { key: 'description', label: 'Descrição', type: 'text', value: t => t.description },
+  { key: 'companyName', label: 'Nome da Empresa', type: 'text', value: t => t.companyName },
+  { key: 'cnpj', label: 'CNPJ/CPF (só números)', type: 'text', value: t => t.cnpj },
+  { key: 'cnpjFormatted', label: 'CNPJ/CPF formatado', type: 'text', value: t => formatTaxIdForDisplay(t.cnpj) },
+  { key: 'category', label: 'Categoria', type: 'text', value: t => t.category },
+  { key: 'accountDebit', label: 'Conta Débito', type: 'text', value: t => t.accountDebit },
+  { key: 'accountCredit', label: 'Conta Crédito', type: 'text', value: t => t.accountCredit },
+  { key: 'accountingHistory', label: 'Histórico Contábil', type: 'text', value: t => t.accountingHistory },
+  { key: 'debit', label: 'Débito', type: 'number', value: t => parseCurrency(t.debit) || null },
+  { key: 'credit', label: 'Crédito', type: 'number', value: t => parseCurrency(t.credit) || null },
+  { key: 'signedAmount', label: 'Valor com sinal (crédito +, débito −)', type: 'number', value: signedBankAmount },
+  { key: 'absoluteAmount', label: 'Valor absoluto', type: 'number', value: t => Math.abs(signedBankAmount(t)) },
+  { key: 'direction', label: 'Tipo (D/C)', type: 'text', value: t => signedBankAmount(t) < 0 ? 'D' : 'C' },
+  { key: 'balance', label: 'Saldo', type: 'number', value: t => t.balance },
+  { key: 'isUnusual', label: 'Incomum (Sim/Não)', type: 'text', value: t => t.isUnusual ? 'Sim' : 'Não' },
+  { key: 'unusualReason', label: 'Motivo da Sinalização', type: 'text', value: t => t.unusualReason },
+];
+
+const INVESTMENT_COLUMNS: ColumnDefinition<InvestmentTransaction>[] = [
+  { key: 'date', label: 'Data', type: 'date', value: t => t.date },
+  { key: 'settlementDate', label: 'Liquidação', type: 'date', value: t => t.settlementDate },
+  { key: 'month', label: 'Mês (MM/AAAA)', type: 'text', value: t => t.date ? `${t.date.slice(5, 7)}/${t.date.slice(0, 4)}` : '' },
+  { key: 'fundName', label: 'Fundo / Ativo', type: 'text', value: t => t.fundName },
+  { key: 'fundCNPJ', label: 'CNPJ do Fundo (só números)', type: 'text', value: t => t.fundCNPJ },
+  { key: 'fundCNPJFormatted', label: 'CNPJ do Fundo formatado', type: 'text', value: t => t.fundCNPJ ? formatCNPJForDisplay(t.fundCNPJ) : '' },
+  { key: 'operationType', label: 'Operação', type: 'text', value: t => t.operationType },
+  { key: 'shareQuantity', label: 'Qtd Cotas', type: 'number', decimals: 6, value: t => t.shareQuantity },
+  { key: 'shareValue', label: 'Vlr Cota', type: 'number', decimals: 6, value: t => t.shareValue },
+  { key: 'grossValue', label: 'Valor Bruto', type: 'number', value: t => t.grossValue },
+  { key: 'fees', label: 'Custos', type: 'number', value: t => t.fees },
+  { key: 'irWithheld', label: 'IR Retido', type: 'number', value: t => t.irWithheld },
+  { key: 'netValue', label: 'Valor Líquido', type: 'number', value: t => t.netValue },
+  { key: 'administrator', label: 'Administrador', type: 'text', value: t => t.administrator },
+  { key: 'gestor', label: 'Gestor', type: 'text', value: t => t.gestor },
+  { key: 'isUnusual', label: 'Incomum (Sim/Não)', type: 'text', value: t => t.isUnusual ? 'Sim' : 'Não' },
+  { key: 'unusualReason', label: 'Motivo da Sinalização', type: 'text', value: t => t.unusualReason },
+];
+
+const COLUMNS_BY_KIND = { bank: BANK_COLUMNS, investment: INVESTMENT_COLUMNS } as const;
+
+/** Columns offered in the editor for each kind of data. */
+export const templateColumnOptions = (kind: TemplateDataKind): { key: string; label: string }[] =>
+  (COLUMNS_BY_KIND[kind] as ColumnDefinition<unknown>[]).map(({ key, label }) => ({ key, label }));
+
+export const TEMPLATE_TEXT_PLACEHOLDERS = ['{empresa}', '{cnpj}', '{linhas}', '{gerado_em}'];
+
+export const createEmptyTemplate = (kind: TemplateDataKind): ExportTemplate => ({
+  id: crypto.randomUUID(),
+  name: 'Novo modelo',
+  kind,
+  columns: (kind === 'bank'
+    ? ['date', 'description', 'debit', 'credit']
+    : ['date', 'fundName', 'operationType', 'netValue']
+  ).map(key => ({ key, header: templateColumnOptions(kind).find(c => c.key === key)!.label })),
+  delimiter: ';',
+  encoding: 'utf-8-bom',
+  dateFormat: 'dd/MM/yyyy',
+  decimalSeparator: ',',
+  thousandsSeparator: false,
+  includeColumnHeaders: true,
+  headerLines: '',
+  footerLines: '',
+});
+
+export const loadExportTemplates = (): ExportTemplate[] => {
+  try {
+    return JSON.parse(localStorage.getItem(TEMPLATES_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const saveExportTemplates = (templates: ExportTemplate[]) => {
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+};
+
+const formatTemplateDate = (isoDate: string, format: TemplateDateFormat) => {
+  if (!isoDate) return '';
+  const [year = '', month = '', day = ''] = isoDate.split('-');
+  switch (format) {
+    case 'yyyy-MM-dd': return isoDate;
+    case 'ddMMyyyy': return `${day}${month}${year}`;
+    case 'MM/dd/yyyy': return `${month}/${day}/${year}`;
+    default: return `${day}/${month}/${year}`;
+  }
+};
+
+const formatTemplateNumber = (value: number, decimals: number, template: ExportTemplate) => {
+  const [integer, fraction] = Math.abs(value).toFixed(decimals).split('.');
+  const thousands = template.decimalSeparator === ',' ? '.' : ',';
+  const grouped = template.thousandsSeparator ? integer.replace(/\B(?=(\d{3})+(?!\d))/g, thousands) : integer;
+  return `${value < 0 ? '-' : ''}${grouped}${fraction ? `${template.decimalSeparator}${fraction}` : ''}`;
+};
+
+export interface TemplateTextContext {
+  companyName: string;
+  companyCnpj: string;
+}
+
+const fillPlaceholders = (text: string, context: TemplateTextContext, rowCount: number) => text
+  .replace(/\{empresa\}/g, context.companyName)
+  .replace(/\{cnpj\}/g, formatCNPJForDisplay(context.companyCnpj))
+  .replace(/\{linhas\}/g, String(rowCount))
+  .replace(/\{gerado_em\}/g, new Date().toLocaleString('pt-BR'));
+
+const splitLines = (text: string) => text.split(/\r?\n/).filter(line => line.trim());
+
+export interface TemplateTable {
+  headerLines: string[];
+  columnHeaders: string[] | null;
+  /** Células já formatadas como texto, para CSV/TXT. */
+  rows: string[][];
+  /** Números como números, para o XLSX. */
+  rawRows: CellValue[][];
+  footerLines: string[];
+}
+
+/** Applies a template to the rows; columns unknown to the kind (renamed in a later version) are left empty. */
+export const buildTemplateTable = (
+  data: (Transaction | InvestmentTransaction)[],
+  template: ExportTemplate,
+  context: TemplateTextContext
+): TemplateTable => {
+  const definitions = COLUMNS_BY_KIND[template.kind] as ColumnDefinition<Transaction | InvestmentTransaction>[];
+  const columns = template.columns.map(c => definitions.find(d => d.key === c.key));
+  const rawRows = data.map(row => columns.map(d => d ? d.value(row) : null));
+  const rows = rawRows.map(row => row.map((value, i) => {
+    const definition = columns[i];
+    if (value === null || value === undefined || !definition) return '';
+    if (definition.type === 'date') return formatTemplateDate(String(value), template.dateFormat);
+    if (definition.type === 'number' && typeof value === 'number') return formatTemplateNumber(value, definition.decimals ?? 2, template);
+    return String(value);
+  }));
+  return {
+    headerLines: splitLines(fillPlaceholders(template.headerLines, context, data.length)),
+    columnHeaders: template.includeColumnHeaders ? template.columns.map(c => c.header) : null,
+    rows,
+    rawRows: rawRows.map((row, r) => row.map((value, i) => columns[i]?.type === 'number' ? value : rows[r][i])),
+    footerLines: splitLines(fillPlaceholders(template.footerLines, context, data.length)),
+  };
+};
+
+const quoteCell = (cell: string, delimiter: string) =>
+  cell.includes(delimiter) || cell.includes('"') || /[\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+export const templateTableToText = (table: TemplateTable, delimiter: string) => [
+  ...table.headerLines,
+  ...(table.columnHeaders ? [table.columnHeaders.map(h => quoteCell(h, delimiter)).join(delimiter)] : []),
+  ...table.rows.map(row => row.map(cell => quoteCell(cell, delimiter)).join(delimiter)),
+  ...table.footerLines,
+].join('\r\n');
+
+export const exportWithTemplate = (
+  data: (Transaction | InvestmentTransaction)[],
+  template: ExportTemplate,
+  format: TemplateFormat,
+  filenameBase: string,
+  context: TemplateTextContext
+) => {
+  const table = buildTemplateTable(data, template, context);
+  const filename = `${filenameBase}.${format}`;
+
+  if (format === 'xlsx') {
+    const xlsx = window.XLSX;
+    if (!xlsx) throw new Error("A biblioteca de planilhas (XLSX) não foi carregada.");
+    const worksheet = xlsx.utils.aoa_to_sheet([
+      ...table.headerLines.map(line => [line]),
+      ...(table.columnHeaders ? [table.columnHeaders] : []),
+      ...table.rawRows,
+      ...table.footerLines.map(line => [line]),
+    ]);
+    const workbook = xlsx.utils.book_new();
+    xlsx.utils.book_append_sheet(workbook, worksheet, template.name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31).trim() || 'Dados');
+    xlsx.writeFile(workbook, filename);
+    return filename;
+  }
+
+  const text = templateTableToText(table, template.delimiter || ';');
+  const content = template.encoding === 'iso-8859-1' ? encodeLatin1(text) : `\uFEFF${text}`;
+  const charset = template.encoding === 'iso-8859-1' ? 'iso-8859-1' : 'utf-8';
+  downloadBlob(new Blob([content], { type: `${format === 'csv' ? 'text/csv' : 'text/plain'};charset=${charset}` }), filename);
+  return filename;
+};
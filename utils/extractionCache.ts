@@ -0,0 +1,67 @@
+/**
+ * Cache local (IndexedDB) dos resultados de extração, para que reenviar o
+ * mesmo arquivo não gere outra chamada à IA nem um resultado diferente.
+ */
+
+const DB_NAME = 'extractionCache';
+const DB_VERSION = 1;
+const STORE_NAME = 'results';
+
+export interface CachedExtraction<T> {
+  key: string;
+  fileName: string;
+  createdAt: string;   // ISO
+  result: T;
+}
+
+const sha256Hex = async (data: BufferSource): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/** SHA-256 of the file contents, in hex. */
+export const hashFile = async (file: File): Promise<string> => sha256Hex(await file.arrayBuffer());
+
+/** SHA-256 of a string (UTF-8), in hex. */
+export const hashText = (text: string): Promise<string> => sha256Hex(new TextEncoder().encode(text));
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <R>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const readCachedExtraction = async <T>(key: string): Promise<CachedExtraction<T> | null> =>
+  (await runRequest<CachedExtraction<T> | undefined>('readonly', store => store.get(key))) ?? null;
+
+export const writeCachedExtraction = async <T>(entry: CachedExtraction<T>): Promise<void> => {
+  await runRequest('readwrite', store => store.put(entry));
+};
+
+export const clearExtractionCache = async (): Promise<void> => {
+  await runRequest('readwrite', store => store.clear());
+};
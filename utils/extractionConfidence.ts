@@ -0,0 +1,19 @@
+import { LOW_CONFIDENCE_THRESHOLD } from '../constants';
+
+interface SourcedRow {
+  confidence?: number;
+  sourcePage?: number;
+  sourceLine?: string;
+}
+
+/** Rows without a confidence (OFX, CNAB, planilhas) are never flagged. */
+export const isLowConfidence = (row: SourcedRow) =>
+  row.confidence !== undefined && row.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+export const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+/** "Página 3 · Confiança 62%", or an empty string when the row has no origin data. */
+export const describeRowSource = (row: SourcedRow) => [
+  row.sourcePage ? `Página ${row.sourcePage}` : '',
+  row.confidence !== undefined ? `Confiança ${formatConfidence(row.confidence)}` : '',
+].filter(Boolean).join(' · ');
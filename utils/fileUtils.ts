@@ -1,6 +1,7 @@
 
-import { Transaction, InvestmentTransaction, CompanyInfo } from '../types';
+import { Transaction, InvestmentTransaction, CompanyInfo, CardAccountingEntry } from '../types';
 import { formatCNPJForDisplay } from './cnpjUtils';
+import { parseCurrency } from './currencyUtils';
 
 declare global {
   interface Window {
@@ -14,6 +15,8 @@ const getXLSX = () => window.XLSX;
 const getJsPDF = () => window.jspdf;
 const getPdfjsLib = () => window.pdfjsLib;
 
+export const isPdfFile = (file: File): boolean => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
 export const fileToBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -28,7 +31,7 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
-export const countPdfPages = async (file: File): Promise<number> => {
+export const countPdfPages = async (file: File, password?: string): Promise<number> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsArrayBuffer(file);
@@ -42,7 +45,7 @@ export const countPdfPages = async (file: File): Promise<number> => {
           resolve(0);
           return;
         }
-        const loadingTask = pdfjs.getDocument({ data: reader.result });
+        const loadingTask = pdfjs.getDocument({ data: reader.result, password });
         const pdf = await loadingTask.promise;
         resolve(pdf.numPages);
       } catch (error) {
@@ -56,7 +59,76 @@ export const countPdfPages = async (file: File): Promise<number> => {
   });
 };
 
-const downloadBlob = (blob: Blob, filename: string) => {
+/**
+ * Opens a PDF with pdf.js. Returns null when the library is not available.
+ * Encrypted files need `password`; without it pdf.js rejects with a PasswordException.
+ */
+export const loadPdfDocument = async (file: File, password?: string): Promise<any | null> => {
+  const pdfjs = getPdfjsLib();
+  if (!pdfjs) {
+    console.warn("pdfjsLib is not loaded.");
+    return null;
+  }
+  const data = await file.arrayBuffer();
+  return pdfjs.getDocument({ data, password }).promise;
+};
+
+/** pdf.js rejects with a `PasswordException` both when a password is missing and when it is wrong. */
+export const isPdfPasswordError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { name?: string }).name === 'PasswordException';
+
+/** Whether the PDF is password protected. Returns false when pdf.js is not available. */
+export const isPdfEncrypted = async (file: File): Promise<boolean> => {
+  try {
+    const pdf = await loadPdfDocument(file);
+    await pdf?.destroy();
+    return false;
+  } catch (error) {
+    if (isPdfPasswordError(error)) return true;
+    console.error("Error opening PDF:", error);
+    return false;
+  }
+};
+
+/** Checks whether `password` opens the PDF. */
+export const verifyPdfPassword = async (file: File, password: string): Promise<boolean> => {
+  try {
+    const pdf = await loadPdfDocument(file, password);
+    await pdf?.destroy();
+    return pdf !== null;
+  } catch (error) {
+    if (isPdfPasswordError(error)) return false;
+    throw error;
+  }
+};
+
+/**
+ * Renders the given 1-based pages of a loaded pdf.js document to JPEG images
+ * (base64, without the data URL prefix), in the same order as `pageNumbers`.
+ */
+export const renderPdfPagesToJpeg = async (pdf: any, pageNumbers: number[], scale = 2, quality = 0.85): Promise<string[]> => {
+  const images: string[] = [];
+  for (const pageNumber of pageNumbers) {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Não foi possível criar o contexto de renderização do PDF.");
+
+    await page.render({ canvasContext: context, viewport }).promise;
+    images.push(canvas.toDataURL('image/jpeg', quality).split(',')[1]);
+
+    // Libera a memória do canvas antes de renderizar a próxima página
+    canvas.width = 0;
+    canvas.height = 0;
+    page.cleanup();
+  }
+  return images;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
   const link = document.createElement('a');
   if (link.download !== undefined) {
     const url = URL.createObjectURL(blob);
@@ -69,8 +141,13 @@ const downloadBlob = (blob: Blob, filename: string) => {
   }
 };
 
+/** ISO-8859-1 bytes (also valid Windows-1252 for Portuguese text); characters outside it become "?". */
+export const encodeLatin1 = (text: string): Uint8Array =>
+  Uint8Array.from(text, char => char.charCodeAt(0) <= 0xff ? char.charCodeAt(0) : 0x3f);
+
 const HEADERS = ['Data', 'Descrição', 'Nome da Empresa', 'CNPJ', 'Categoria', 'Conta Débito', 'Conta Crédito', 'Histórico Contábil', 'Débito', 'Crédito', 'Saldo', 'Incomum', 'Motivo da Sinalização'];
-const INVESTMENT_HEADERS = ['Data', 'Fundo de Investimento', 'CNPJ do Fundo', 'Operação', 'Qtd Cotas', 'Vlr Cota', 'Valor Bruto', 'IR Retido', 'Valor Líquido', 'Administrador', 'Gestor', 'Incomum', 'Motivo da Sinalização'];
+const CARD_HEADERS = ['Data', 'Conta Débito', 'Conta Crédito', 'Valor', 'Histórico Contábil', 'Descrição', 'Parcela', 'Valor Original', 'Moeda', 'IOF'];
+const INVESTMENT_HEADERS = ['Data', 'Liquidação', 'Fundo de Investimento / Ativo', 'CNPJ do Fundo', 'Operação', 'Qtd Cotas', 'Vlr Cota', 'Valor Bruto', 'Custos', 'IR Retido', 'Valor Líquido', 'Administrador', 'Gestor', 'Incomum', 'Motivo da Sinalização'];
 
 const getRowsForExport = (data: Transaction[]): (string | number)[][] => {
   return data.map(t => [
@@ -96,12 +173,14 @@ const getInvestmentRowsForExport = (data: InvestmentTransaction[]): (string | nu
 
   return data.map(t => [
     t.date,
+    t.settlementDate,
     t.fundName,
     t.fundCNPJ,
     t.operationType,
     fmtCotas(t.shareQuantity),
     fmt(t.shareValue),
     fmt(t.grossValue),
+    fmt(t.fees),
     fmt(t.irWithheld),
     fmt(t.netValue),
     t.administrator,
@@ -111,13 +190,44 @@ const getInvestmentRowsForExport = (data: InvestmentTransaction[]): (string | nu
   ]);
 };
 
-export const exportToCSV = (data: (Transaction | InvestmentTransaction)[], filename: string, isInvestment = false) => {
+const getCardRowsForExport = (data: CardAccountingEntry[]): (string | number)[][] => {
+  const fmt = (v: number) => v.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  return data.map(e => [
+    e.date,
+    e.accountDebit,
+    e.accountCredit,
+    fmt(e.amount),
+    e.history,
+    e.description,
+    e.installment,
+    e.originalAmount !== null ? fmt(e.originalAmount) : '',
+    e.originalCurrency,
+    e.iof > 0 ? fmt(e.iof) : '',
+  ]);
+};
+
+/** Conjunto de dados exportado: extrato bancário, extrato de cotista ou lançamentos da fatura de cartão. */
+export type ExportKind = 'bank' | 'investment' | 'card';
+type ExportRecord = Transaction | InvestmentTransaction | CardAccountingEntry;
+
+const getExportTable = (data: ExportRecord[], kind: ExportKind): { headers: string[]; rows: (string | number)[][] } => {
+  switch (kind) {
+    case 'investment':
+      return { headers: INVESTMENT_HEADERS, rows: getInvestmentRowsForExport(data as InvestmentTransaction[]) };
+    case 'card':
+      return { headers: CARD_HEADERS, rows: getCardRowsForExport(data as CardAccountingEntry[]) };
+    default:
+      return { headers: HEADERS, rows: getRowsForExport(data as Transaction[]) };
+  }
+};
+
+const SHEET_NAMES: Record<ExportKind, string> = { bank: 'Transações', investment: 'Investimentos', card: 'Fatura Cartão' };
+
+export const exportToCSV = (data: ExportRecord[], filename: string, kind: ExportKind = 'bank') => {
   if (data.length === 0) return;
 
-  const headers = isInvestment ? INVESTMENT_HEADERS : HEADERS;
-  const rows = isInvestment
-    ? getInvestmentRowsForExport(data as InvestmentTransaction[])
-    : getRowsForExport(data as Transaction[]);
+  const { headers, rows } = getExportTable(data, kind);
 
   const csvContent = [
     headers.join(','),
@@ -134,13 +244,12 @@ export const exportToCSV = (data: (Transaction | InvestmentTransaction)[], filen
 };
 
 
-export const exportToTXT = (data: (Transaction | InvestmentTransaction)[], filename: string, isInvestment = false) => {
+export const exportToTXT = (data: ExportRecord[], filename: string, kind: ExportKind = 'bank') => {
   if (data.length === 0) return;
 
-  const headers = isInvestment ? INVESTMENT_HEADERS : HEADERS;
-  const rows = isInvestment
-    ? getInvestmentRowsForExport(data as InvestmentTransaction[]).map(r => r.map(c => String(c)))
-    : getRowsForExport(data as Transaction[]).map(r => r.map(c => String(c)));
+  const table = getExportTable(data, kind);
+  const headers = table.headers;
+  const rows = table.rows.map(r => r.map(c => String(c)));
 
   const colWidths = headers.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
 
@@ -156,7 +265,233 @@ export const exportToTXT = (data: (Transaction | InvestmentTransaction)[], filen
 };
 
 
-export const exportToXLSX = (data: (Transaction | InvestmentTransaction)[], filename: string, isInvestment = false) => {
+/** Tipo da coluna no XLSX: define o valor gravado na célula e o formato numérico do Excel. */
+type XlsxColumnType = 'text' | 'date' | 'month' | 'count' | 'money' | 'quantity';
+type XlsxCellValue = string | number | null;
+
+interface XlsxTable {
+  headers: string[];
+  types: XlsxColumnType[];
+  rows: XlsxCellValue[][];
+}
+
+const XLSX_NUMBER_FORMATS: Record<XlsxColumnType, string | null> = {
+  text: null,
+  date: 'dd/mm/yyyy',
+  month: 'mm/yyyy',
+  count: '0',
+  money: '#,##0.00',
+  quantity: '#,##0.000000',
+};
+
+const XLSX_COLUMN_TYPES: Record<ExportKind, XlsxColumnType[]> = {
+  bank: ['date', 'text', 'text', 'text', 'text', 'text', 'text', 'text', 'money', 'money', 'money', 'text', 'text'],
+  investment: ['date', 'date', 'text', 'text', 'text', 'quantity', 'quantity', 'money', 'money', 'money', 'money', 'text', 'text', 'text', 'text'],
+  card: ['date', 'text', 'text', 'money', 'text', 'text', 'text', 'quantity', 'text', 'money'],
+};
+
+/** Serial de data do Excel (dias desde 30/12/1899); textos fora de AAAA-MM-DD ficam como estão. */
+const toExcelDate = (isoDate: string): number | string => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(isoDate);
+  if (!match) return isoDate;
+  return (Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) - Date.UTC(1899, 11, 30)) / 86400000;
+};
+
+const amountOrNull = (value: string) => value.trim() ? parseCurrency(value) : null;
+
+const getXlsxTable = (data: ExportRecord[], kind: ExportKind): XlsxTable => {
+  const types = XLSX_COLUMN_TYPES[kind];
+  switch (kind) {
+    case 'investment':
+      return {
+        headers: INVESTMENT_HEADERS,
+        types,
+        rows: (data as InvestmentTransaction[]).map(t => [
+          t.date, t.settlementDate, t.fundName, t.fundCNPJ, t.operationType,
+          t.shareQuantity, t.shareValue, t.grossValue, t.fees, t.irWithheld, t.netValue,
+          t.administrator, t.gestor, t.isUnusual ? 'Sim' : 'Não', t.unusualReason,
+        ]),
+      };
+    case 'card':
+      return {
+        headers: CARD_HEADERS,
+        types,
+        rows: (data as CardAccountingEntry[]).map(e => [
+          e.date, e.accountDebit, e.accountCredit, e.amount, e.history, e.description,
+          e.installment, e.originalAmount, e.originalCurrency, e.iof > 0 ? e.iof : null,
+        ]),
+      };
+    default:
+      return {
+        headers: HEADERS,
+        types,
+        rows: (data as Transaction[]).map(t => [
+          t.date, t.description, t.companyName, t.cnpj, t.category, t.accountDebit, t.accountCredit, t.accountingHistory,
+          amountOrNull(t.debit), amountOrNull(t.credit),
+          typeof t.balance === 'number' ? t.balance : amountOrNull(t.balance),
+          t.isUnusual ? 'Sim' : 'Não', t.unusualReason,
+        ]),
+      };
+  }
+};
+
+/** Resumo por mês e categoria (operação no investimento, conta de despesa no cartão). */
+const getXlsxSummaryTable = (data: ExportRecord[], kind: ExportKind): XlsxTable => {
+  const grouping = kind === 'investment'
+    ? {
+      label: 'Operação',
+      valueHeaders: ['Valor Bruto', 'Custos', 'IR Retido', 'Valor Líquido'],
+      groupOf: (r: ExportRecord) => (r as InvestmentTransaction).operationType,
+      valuesOf: (r: ExportRecord) => {
+        const t = r as InvestmentTransaction;
+        return [t.grossValue, t.fees, t.irWithheld, t.netValue];
+      },
+    }
+    : kind === 'card'
+      ? {
+        label: 'Conta Débito',
+        valueHeaders: ['Valor'],
+        groupOf: (r: ExportRecord) => (r as CardAccountingEntry).accountDebit || 'Sem conta',
+        valuesOf: (r: ExportRecord) => [(r as CardAccountingEntry).amount],
+      }
+      : {
+        label: 'Categoria',
+        valueHeaders: ['Entradas', 'Saídas', 'Líquido'],
+        groupOf: (r: ExportRecord) => (r as Transaction).category || 'Sem categoria',
+        valuesOf: (r: ExportRecord) => {
+          const t = r as Transaction;
+          const credit = parseCurrency(t.credit);
+          const debit = parseCurrency(t.debit);
+          return [credit, debit, credit - debit];
+        },
+      };
+
+  const groups = new Map<string, { month: string; group: string; count: number; totals: number[] }>();
+  data.forEach(record => {
+    const month = /^\d{4}-\d{2}/.test(record.date) ? `${record.date.slice(0, 7)}-01` : '';
+    const group = grouping.groupOf(record);
+    const key = `${month}|${group}`;
+    const entry = groups.get(key) ?? { month, group, count: 0, totals: grouping.valueHeaders.map(() => 0) };
+    grouping.valuesOf(record).forEach((value, i) => { entry.totals[i] += value; });
+    entry.count++;
+    groups.set(key, entry);
+  });
+
+  const rows = [...groups.values()]
+    .sort((a, b) => a.month.localeCompare(b.month) || a.group.localeCompare(b.group, 'pt-BR'))
+    .map(g => [g.month || 'Sem data', g.group, g.count, ...g.totals.map(v => Math.round(v * 100) / 100)]);
+
+  return {
+    headers: ['Mês', grouping.label, 'Lançamentos', ...grouping.valueHeaders],
+    types: ['month', 'text', 'count', ...grouping.valueHeaders.map((): XlsxColumnType => 'money')],
+    rows,
+  };
+};
+
+/** Movimentações sinalizadas como incomuns, com o motivo. O cartão não tem sinalização nos lançamentos. */
+const getXlsxUnusualTable = (data: ExportRecord[], kind: ExportKind): XlsxTable | null => {
+  if (kind === 'investment') {
+    return {
+      headers: ['Data', 'Fundo de Investimento / Ativo', 'Operação', 'Valor Líquido', 'Motivo da Sinalização'],
+      types: ['date', 'text', 'text', 'money', 'text'],
+      rows: (data as InvestmentTransaction[]).filter(t => t.isUnusual).map(t => [t.date, t.fundName, t.operationType, t.netValue, t.unusualReason]),
+    };
+  }
+  if (kind === 'bank') {
+    return {
+      headers: ['Data', 'Descrição', 'Categoria', 'Débito', 'Crédito', 'Motivo da Sinalização'],
+      types: ['date', 'text', 'text', 'money', 'money', 'text'],
+      rows: (data as Transaction[]).filter(t => t.isUnusual).map(t => [t.date, t.description, t.category, amountOrNull(t.debit), amountOrNull(t.credit), t.unusualReason]),
+    };
+  }
+  return null;
+};
+
+const xlsxColumnWidth = (table: XlsxTable, column: number) => {
+  const type = table.types[column];
+  if (type === 'date' || type === 'month') return 12;
+  if (type === 'money' || type === 'quantity') return 16;
+  const longest = Math.max(table.headers[column].length, ...table.rows.map(row => String(row[column] ?? '').length));
+  return Math.min(Math.max(longest + 2, 8), 50);
+};
+
+/** Planilha tipada: datas e valores como números com formato do Excel, filtro e larguras de coluna. */
+const buildXlsxSheet = (xlsx: any, table: XlsxTable, totalRow?: XlsxCellValue[]) => {
+  const toCell = (value: XlsxCellValue, column: number) =>
+    typeof value === 'string' && (table.types[column] === 'date' || table.types[column] === 'month') ? toExcelDate(value) : value;
+  const body = table.rows.map(row => row.map(toCell));
+  const worksheet = xlsx.utils.aoa_to_sheet([table.headers, ...body, ...(totalRow ? [totalRow] : [])]);
+
+  body.forEach((row, r) => row.forEach((_, c) => {
+    const cell = worksheet[xlsx.utils.encode_cell({ r: r + 1, c })];
+    const format = XLSX_NUMBER_FORMATS[table.types[c]];
+    if (cell && cell.t === 'n' && format) cell.z = format;
+  }));
+  totalRow?.forEach((_, c) => {
+    const cell = worksheet[xlsx.utils.encode_cell({ r: body.length + 1, c })];
+    if (cell && cell.t === 'n') cell.z = XLSX_NUMBER_FORMATS[table.types[c]] ?? undefined;
+  });
+
+  worksheet['!autofilter'] = { ref: xlsx.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: body.length, c: table.headers.length - 1 } }) };
+  worksheet['!cols'] = table.headers.map((_, c) => ({ wch: xlsxColumnWidth(table, c) }));
+  return worksheet;
+};
+
+const summaryTotalRow = (table: XlsxTable): XlsxCellValue[] => table.headers.map((_, c) => {
+  if (c === 0) return 'Total';
+  if (table.types[c] !== 'money' && table.types[c] !== 'count') return null;
+  return Math.round(table.rows.reduce((sum, row) => sum + (Number(row[c]) || 0), 0) * 100) / 100;
+});
+
+/**
+ * A versão gratuita do SheetJS não grava painéis congelados: insere o painel
+ * (primeira linha fixa) direto no XML das planilhas indicadas, dentro do .xlsx.
+ */
+const freezeHeaderRows = (xlsx: any, workbookBytes: ArrayBuffer, sheetNumbers: number[]): Uint8Array => {
+  const zip = xlsx.CFB.read(new Uint8Array(workbookBytes), { type: 'array' });
+  sheetNumbers.forEach(n => {
+    const entry = zip.FileIndex[zip.FullPaths.findIndex((path: string) => path.endsWith(`/xl/worksheets/sheet${n}.xml`))];
+    if (!entry) return;
+    const xml = new TextDecoder().decode(new Uint8Array(entry.content));
+    entry.content = new TextEncoder().encode(xml.replace(
+      /<sheetView([^>]*?)\/>/,
+      '<sheetView$1><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/><selection pane="bottomLeft"/></sheetView>'
+    ));
+  });
+  return new Uint8Array(xlsx.CFB.write(zip, { fileType: 'zip', type: 'array' }));
+};
+
+/** Cabeçalho do XLSX: dados da empresa e da extração. */
+export interface XlsxExportMetadata {
+  companyInfo: CompanyInfo;
+  /** Pares rótulo/valor da extração (arquivo, provedor, saldos...), na ordem de exibição; números são valores em reais. */
+  extraction: [string, string | number][];
+}
+
+const buildXlsxHeaderSheet = (xlsx: any, metadata: XlsxExportMetadata) => {
+  const { companyInfo } = metadata;
+  const rows: [string, XlsxCellValue, XlsxColumnType][] = [
+    ['Empresa', companyInfo.companyName, 'text'],
+    ['CNPJ', formatCNPJForDisplay(companyInfo.cnpj), 'text'],
+    ['Usuário', companyInfo.user, 'text'],
+    ['Período (início)', toExcelDate(companyInfo.periodStart), 'date'],
+    ['Período (fim)', toExcelDate(companyInfo.periodEnd), 'date'],
+    ['Corretora/Banco', companyInfo.bankName, 'text'],
+    ...metadata.extraction.map(([label, value]): [string, XlsxCellValue, XlsxColumnType] => [label, value, 'money']),
+    ['Gerado em', new Date().toLocaleString('pt-BR'), 'text'],
+  ];
+  const worksheet = xlsx.utils.aoa_to_sheet([['Campo', 'Valor'], ...rows.map(([label, value]) => [label, value])]);
+  rows.forEach(([, , type], r) => {
+    const cell = worksheet[xlsx.utils.encode_cell({ r: r + 1, c: 1 })];
+    if (cell && cell.t === 'n') cell.z = XLSX_NUMBER_FORMATS[type] ?? undefined;
+  });
+  worksheet['!cols'] = [{ wch: 28 }, { wch: 60 }];
+  return worksheet;
+};
+
+const XLSX_EXTRA_SHEET_NAMES = { summary: 'Resumo Mensal', unusual: 'Incomuns', header: 'Cabeçalho' };
+
+export const exportToXLSX = (data: ExportRecord[], filename: string, kind: ExportKind = 'bank', metadata?: XlsxExportMetadata) => {
   if (data.length === 0) return;
   const xlsx = getXLSX();
   if (!xlsx) {
@@ -164,18 +499,37 @@ export const exportToXLSX = (data: (Transaction | InvestmentTransaction)[], file
     return;
   }
 
-  const headers = isInvestment ? INVESTMENT_HEADERS : HEADERS;
-  const rows = isInvestment
-    ? getInvestmentRowsForExport(data as InvestmentTransaction[])
-    : getRowsForExport(data as Transaction[]);
-
-  const worksheet = xlsx.utils.aoa_to_sheet([headers, ...rows]);
   const workbook = xlsx.utils.book_new();
-  xlsx.utils.book_append_sheet(workbook, worksheet, isInvestment ? 'Investimentos' : 'Transações');
-  xlsx.writeFile(workbook, filename);
+  xlsx.utils.book_append_sheet(workbook, buildXlsxSheet(xlsx, getXlsxTable(data, kind)), SHEET_NAMES[kind]);
+  const summary = getXlsxSummaryTable(data, kind);
+  xlsx.utils.book_append_sheet(workbook, buildXlsxSheet(xlsx, summary, summaryTotalRow(summary)), XLSX_EXTRA_SHEET_NAMES.summary);
+  const unusual = getXlsxUnusualTable(data, kind);
+  if (unusual) xlsx.utils.book_append_sheet(workbook, buildXlsxSheet(xlsx, unusual), XLSX_EXTRA_SHEET_NAMES.unusual);
+  if (metadata) xlsx.utils.book_append_sheet(workbook, buildXlsxHeaderSheet(xlsx, metadata), XLSX_EXTRA_SHEET_NAMES.header);
+
+  const bytes: ArrayBuffer = xlsx.write(workbook, { bookType: 'xlsx', type: 'array' });
+  let output: ArrayBuffer | Uint8Array = bytes;
+  try {
+    output = freezeHeaderRows(xlsx, bytes, unusual ? [1, 2, 3] : [1, 2]);
+  } catch (error) {
+    console.warn("Não foi possível congelar a linha de cabeçalho do XLSX:", error);
+  }
+  downloadBlob(new Blob([output], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), filename);
+};
+
+const PDF_TITLES: Record<ExportKind, string> = {
+  bank: 'Relatório de Transações',
+  investment: 'Relatório de Investimentos',
+  card: 'Lançamentos da Fatura de Cartão',
+};
+
+const PDF_HEADER_COLORS: Record<ExportKind, number[]> = {
+  bank: [41, 128, 185],
+  investment: [39, 174, 96],
+  card: [142, 68, 173],
 };
 
-export const exportToPDF = (data: (Transaction | InvestmentTransaction)[], companyInfo: CompanyInfo, filename: string, isInvestment = false) => {
+export const exportToPDF = (data: ExportRecord[], companyInfo: CompanyInfo, filename: string, kind: ExportKind = 'bank', openingBalance?: number) => {
   if (data.length === 0) return;
 
   const jspdfModule = getJsPDF();
@@ -185,10 +539,10 @@ export const exportToPDF = (data: (Transaction | InvestmentTransaction)[], compa
   }
 
   const { jsPDF } = jspdfModule;
-  const doc = new jsPDF(isInvestment ? 'l' : 'p'); // Landscape for investment as it has many columns
+  const doc = new jsPDF(kind === 'bank' ? 'p' : 'l'); // Landscape for investment and card as they have many columns
 
   doc.setFontSize(18);
-  doc.text(isInvestment ? 'Relatório de Investimentos' : 'Relatório de Transações', 14, 22);
+  doc.text(PDF_TITLES[kind], 14, 22);
   doc.setFontSize(11);
   doc.setTextColor(100);
 
@@ -207,24 +561,31 @@ Usuário: ${companyInfo.user}`;
 
   doc.text(infoText, 14, 32);
 
-  const headers = isInvestment ? INVESTMENT_HEADERS : HEADERS;
-  const rows = isInvestment
-    ? getInvestmentRowsForExport(data as InvestmentTransaction[])
-    : getRowsForExport(data as Transaction[]);
+  if (openingBalance !== undefined) {
+    doc.text(`Saldo Anterior: ${openingBalance.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`, 120, 32);
+  }
+
+  const { headers, rows } = getExportTable(data, kind);
+  const isInvestment = kind === 'investment';
 
   (doc as any).autoTable({
     head: [headers],
     body: rows,
     startY: 70,
     theme: 'grid',
-    headStyles: { fillColor: isInvestment ? [39, 174, 96] : [41, 128, 185], textColor: 255 },
+    headStyles: { fillColor: PDF_HEADER_COLORS[kind], textColor: 255 },
     styles: { fontSize: isInvestment ? 7 : 8 },
-    columnStyles: isInvestment ? {
-      4: { halign: 'right' },
+    columnStyles: kind === 'card' ? {
+      3: { halign: 'right' },
+      7: { halign: 'right' },
+      9: { halign: 'right' },
+    } : isInvestment ? {
       5: { halign: 'right' },
       6: { halign: 'right' },
       7: { halign: 'right' },
       8: { halign: 'right' },
+      9: { halign: 'right' },
+      10: { halign: 'right' },
     } : {
       8: { halign: 'right' },
       9: { halign: 'right' },
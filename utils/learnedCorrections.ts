@@ -0,0 +1,98 @@
+/**
+ * Correções de categoria e contas feitas pelo revisor na tabela, guardadas por
+ * CNPJ da empresa e reenviadas à IA como exemplos nas próximas extrações e
+ * sugestões de categoria.
+ */
+import { Transaction, LearnedCorrection, CorrectionValues } from '../types';
+import { stableDescriptionText } from './categorizationRules';
+
+const CORRECTIONS_STORAGE_KEY = 'learnedCorrectionsByCnpj';
+// Mantém só as correções mais recentes de cada empresa
+const MAX_CORRECTIONS_PER_COMPANY = 200;
+
+export const EXTRACTION_EXAMPLE_LIMIT = 15;
+export const SUGGESTION_EXAMPLE_LIMIT = 5;
+
+const readAllCorrections = (): Record<string, LearnedCorrection[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(CORRECTIONS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadCorrections = (companyCnpj: string): LearnedCorrection[] =>
+  readAllCorrections()[companyCnpj.replace(/\D/g, '')] ?? [];
+
+export const saveCorrections = (companyCnpj: string, corrections: LearnedCorrection[]) => {
+  const all = readAllCorrections();
+  all[companyCnpj.replace(/\D/g, '')] = corrections
+    .slice()
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, MAX_CORRECTIONS_PER_COMPANY);
+  localStorage.setItem(CORRECTIONS_STORAGE_KEY, JSON.stringify(all));
+};
+
+const valuesOf = (t: Pick<Transaction, 'category' | 'accountDebit' | 'accountCredit'>): CorrectionValues => ({
+  category: t.category,
+  accountDebit: t.accountDebit,
+  accountCredit: t.accountCredit,
+});
+
+const sameValues = (a: CorrectionValues, b: CorrectionValues) =>
+  a.category === b.category && a.accountDebit === b.accountDebit && a.accountCredit === b.accountCredit;
+
+/**
+ * Records an edit of category or accounts. Rows with the same description
+ * pattern and CNPJ share one entry, which keeps the values from before the
+ * first edit; reverting to them forgets the entry.
+ */
+export const recordCorrection = (companyCnpj: string, before: Transaction, after: Transaction) => {
+  const descriptionPattern = stableDescriptionText(after.description);
+  if (!descriptionPattern) return;
+  const cnpj = after.cnpj.replace(/\D/g, '');
+  const corrections = loadCorrections(companyCnpj);
+  const existing = corrections.find(c => c.descriptionPattern === descriptionPattern && c.cnpj === cnpj);
+  const original = existing?.original ?? valuesOf(before);
+  const corrected = valuesOf(after);
+  const others = corrections.filter(c => c !== existing);
+
+  if (sameValues(original, corrected)) {
+    if (existing) saveCorrections(companyCnpj, others);
+    return;
+  }
+  saveCorrections(companyCnpj, [
+    { id: existing?.id ?? crypto.randomUUID(), descriptionPattern, cnpj, original, corrected, updatedAt: new Date().toISOString() },
+    ...others,
+  ]);
+};
+
+const words = (text: string) => new Set(
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase().split(/[^A-Z0-9]+/).filter(w => w.length >= 3)
+);
+
+/**
+ * Corrections most similar to a row (same CNPJ, shared description words);
+ * without a row, the most recent ones.
+ */
+export const selectRelevantCorrections = (
+  corrections: LearnedCorrection[],
+  limit: number,
+  row?: { description: string; cnpj: string }
+): LearnedCorrection[] => {
+  const byRecency = corrections.slice().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  if (!row) return byRecency.slice(0, limit);
+
+  const rowWords = words(row.description);
+  const rowCnpj = row.cnpj.replace(/\D/g, '');
+  return byRecency
+    .map(c => {
+      const patternWords = [...words(c.descriptionPattern)];
+      const overlap = patternWords.length > 0 ? patternWords.filter(w => rowWords.has(w)).length / patternWords.length : 0;
+      return { c, score: (rowCnpj && c.cnpj === rowCnpj ? 2 : 0) + overlap };
+    })
+    .filter(({ score }) => score >= 0.5)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ c }) => c);
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { parseOFX } from './ofxParser';
+
+const transaction = (date: string, amount: string, memo: string) => `
+<STMTTRN>
+<TRNTYPE>OTHER
+<DTPOSTED>${date}120000[-3:BRT]
+<TRNAMT>${amount}
+<MEMO>${memo}
+</STMTTRN>`;
+
+const statement = (accountId: string, transactions: string[], ledger: string) => `
+<STMTRS>
+<CURDEF>BRL
+<BANKACCTFROM>
+<BANKID>0341
+<BRANCHID>1234
+<ACCTID>${accountId}
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+${transactions.join('\n')}
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>${ledger}
+<DTASOF>20240131
+</LEDGERBAL>
+</STMTRS>`;
+
+const ofx = (...statements: string[]) => `OFXHEADER:100
+DATA:OFXSGML
+CHARSET:1252
+
+<OFX>
+<BANKMSGSRSV1>
+${statements.map(s => `<STMTTRNRS>${s}</STMTTRNRS>`).join('\n')}
+</BANKMSGSRSV1>
+</OFX>`;
+
+describe('parseOFX', () => {
+  it('puts newest-first files in date order, keeping the order within a day', () => {
+    const result = parseOFX(ofx(statement('55555-5', [
+      transaction('20240120', '-30.00', 'Tarifa B'),
+      transaction('20240120', '-20.00', 'Tarifa A'),
+      transaction('20240110', '500.00', 'Depósito'),
+      transaction('20240102', '-100.00', 'Aluguel'),
+    ], '1350.00')));
+
+    expect(result.transactions.map(t => t.description)).toEqual(['Aluguel', 'Depósito', 'Tarifa A', 'Tarifa B']);
+    expect(result.transactions.map(t => t.date)).toEqual(['2024-01-02', '2024-01-10', '2024-01-20', '2024-01-20']);
+    expect(result.openingBalance).toBe(1000);
+    expect(result.finalBalance).toBe(1350);
+  });
+
+  it('keeps oldest-first files as they are', () => {
+    const result = parseOFX(ofx(statement('55555-5', [
+      transaction('20240102', '-100.00', 'Aluguel'),
+      transaction('20240110', '500.00', 'Depósito'),
+    ], '400.00')));
+
+    expect(result.transactions.map(t => t.description)).toEqual(['Aluguel', 'Depósito']);
+    expect(result.extractionNotes).toBeUndefined();
+  });
+
+  it('imports the first account and lists the others of a multi-account file', () => {
+    const result = parseOFX(ofx(
+      statement('11111-1', [transaction('20240105', '-10.00', 'Conta um')], '90.00'),
+      statement('22222-2', [transaction('20240106', '-20.00', 'Conta dois')], '80.00'),
+    ));
+
+    expect(result.accountNumber).toBe('1234 / 11111-1');
+    expect(result.transactions.map(t => t.description)).toEqual(['Conta um']);
+    expect(result.extractionNotes).toContain('2 contas');
+    expect(result.extractionNotes).toContain('1234 / 22222-2');
+  });
+});
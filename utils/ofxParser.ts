@@ -0,0 +1,159 @@
+import { GeminiTransactionResponse } from '../types';
+import { BANK_CODES } from '../constants';
+import { extractCNPJFromText } from './cnpjUtils';
+
+type OfxTransaction = GeminiTransactionResponse['transactions'][number];
+
+export const isOfxFile = (file: File): boolean => /\.(ofx|qfx)$/i.test(file.name);
+
+/**
+ * Reads an OFX file honoring the charset declared in its header
+ * (OFX 1.x usually ships as CHARSET:1252, OFX 2.x as UTF-8 XML).
+ */
+export const readOfxFile = async (file: File): Promise<string> => {
+  const buffer = await file.arrayBuffer();
+  const head = new TextDecoder('ascii').decode(buffer.slice(0, 512));
+  const sgmlCharset = head.match(/CHARSET:\s*(\S+)/i)?.[1];
+  const xmlEncoding = head.match(/encoding="([^"]+)"/i)?.[1];
+
+  let encoding = 'utf-8';
+  if (xmlEncoding) {
+    encoding = xmlEncoding.toLowerCase();
+  } else if (sgmlCharset && /1252|8859/.test(sgmlCharset)) {
+    encoding = 'windows-1252';
+  }
+
+  try {
+    return new TextDecoder(encoding).decode(buffer);
+  } catch {
+    return new TextDecoder('utf-8').decode(buffer);
+  }
+};
+
+/** Reads a simple element value; works for SGML (unclosed) and XML (closed) tags. */
+const readTag = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : '';
+};
+
+/** Returns the inner content of every aggregate `<TAG>...</TAG>`. */
+const readAggregates = (text: string, tag: string): string[] => {
+  const regex = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+  const blocks: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) blocks.push(match[1]);
+  return blocks;
+};
+
+const decodeEntities = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+/** OFX date (YYYYMMDD[HHMMSS[.XXX]][[-3:BRT]]) → AAAA-MM-DD. */
+export const parseOfxDate = (value: string): string => {
+  const match = (value || '').match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : '';
+};
+
+/** Amounts may come as "-1234.56" or, in some Brazilian banks, "-1234,56". */
+export const parseOfxAmount = (value: string): number => {
+  let normalized = (value || '').trim().replace(/\s/g, '');
+  if (normalized.includes(',') && normalized.includes('.')) {
+    normalized = normalized.replace(/\./g, '').replace(',', '.');
+  } else {
+    normalized = normalized.replace(',', '.');
+  }
+  const parsed = parseFloat(normalized);
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const readAccount = (statement: string) => {
+  const accountBlock = readAggregates(statement, 'BANKACCTFROM')[0] ?? readAggregates(statement, 'CCACCTFROM')[0] ?? '';
+  const rawBankId = readTag(accountBlock, 'BANKID');
+  return {
+    bankCode: rawBankId ? rawBankId.replace(/\D/g, '').slice(-3).padStart(3, '0') : '',
+    branch: readTag(accountBlock, 'BRANCHID'),
+    accountId: readTag(accountBlock, 'ACCTID'),
+  };
+};
+
+const formatAccount = ({ branch, accountId }: { branch: string; accountId: string }) =>
+  [branch, accountId].filter(Boolean).join(' / ');
+
+/**
+ * Parses OFX 1.x (SGML) or 2.x (XML) bank statements into the same shape the
+ * AI extraction returns, so the result can go through the usual review flow.
+ */
+export const parseOFX = (content: string): GeminiTransactionResponse => {
+  const body = content.slice(Math.max(0, content.search(/<OFX>/i)));
+  if (!/<OFX>/i.test(body)) {
+    throw new Error('Arquivo OFX inválido: bloco <OFX> não encontrado.');
+  }
+
+  const statements = [...readAggregates(body, 'STMTRS'), ...readAggregates(body, 'CCSTMTRS')];
+  const statement = statements[0];
+  if (statement === undefined) {
+    throw new Error('Arquivo OFX sem extrato bancário (STMTRS) reconhecível.');
+  }
+
+  const { bankCode, branch, accountId } = readAccount(statement);
+  const listed: OfxTransaction[] = readAggregates(statement, 'STMTTRN').map(block => {
+    const amount = parseOfxAmount(readTag(block, 'TRNAMT'));
+    const name = readTag(block, 'NAME');
+    const memo = readTag(block, 'MEMO');
+    const description = [name, memo].filter((v, i, arr) => v && arr.indexOf(v) === i).join(' - ') || readTag(block, 'TRNTYPE');
+
+    return {
+      date: parseOfxDate(readTag(block, 'DTPOSTED')),
+      description,
+      debit: amount < 0 ? round2(Math.abs(amount)) : 0,
+      credit: amount > 0 ? round2(amount) : 0,
+      companyName: '',
+      cnpj: extractCNPJFromText(description),
+      category: 'Não categorizado',
+      isUnusual: false,
+      unusualReason: '',
+      accountDebit: '',
+      accountCredit: '',
+      accountingHistory: '',
+    };
+  });
+
+  // Alguns bancos listam do mais recente para o mais antigo: invertemos para manter
+  // a ordem do dia e ordenamos (sort estável) pela data de lançamento
+  const chronological = listed.length > 1 && listed[0].date > listed[listed.length - 1].date ? [...listed].reverse() : listed;
+  const transactions = [...chronological].sort((a, b) => a.date.localeCompare(b.date));
+
+  // OFX não informa saldo anterior: derivamos a partir do saldo contábil (LEDGERBAL)
+  const ledgerBlock = readAggregates(statement, 'LEDGERBAL')[0];
+  const ledgerAmount = ledgerBlock ? readTag(ledgerBlock, 'BALAMT') : '';
+  const finalBalance = ledgerAmount ? round2(parseOfxAmount(ledgerAmount)) : undefined;
+  const movement = transactions.reduce((sum, t) => sum + t.credit - t.debit, 0);
+  const openingBalance = finalBalance !== undefined ? round2(finalBalance - movement) : undefined;
+
+  const organization = readTag(body, 'ORG');
+  const otherAccounts = statements.slice(1).map(block => formatAccount(readAccount(block)) || 'sem número');
+
+  return {
+    transactions,
+    openingBalance,
+    finalBalance,
+    bankName: BANK_CODES[bankCode] || organization || undefined,
+    bankCode: bankCode || undefined,
+    accountNumber: formatAccount({ branch, accountId }) || undefined,
+    extractionNotes: otherAccounts.length > 0
+      ? `O arquivo traz ${statements.length} contas; só a primeira foi importada. Contas não importadas: ${otherAccounts.join(', ')}.`
+      : undefined,
+  };
+};
+
+export const parseOFXFile = async (file: File): Promise<GeminiTransactionResponse> => {
+  const content = await readOfxFile(file);
+  return parseOFX(content);
+};
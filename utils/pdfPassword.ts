@@ -0,0 +1,42 @@
+import { formatTaxIdForDisplay } from './cnpjUtils';
+import { verifyPdfPassword } from './fileUtils';
+
+export interface PdfPasswordCandidate {
+  label: string;
+  password: string;
+}
+
+/**
+ * Senhas usuais de extratos protegidos, derivadas do CPF/CNPJ do titular:
+ * documento completo (Caixa, Inter), raiz do CNPJ e primeiros dígitos (Bradesco e outros).
+ */
+export const getPdfPasswordCandidates = (taxId: string): PdfPasswordCandidate[] => {
+  const digits = (taxId || '').replace(/\D/g, '');
+  if (!digits) return [];
+
+  const candidates: PdfPasswordCandidate[] = [
+    { label: 'Documento completo', password: digits },
+    ...(digits.length === 14 ? [{ label: 'Raiz do CNPJ (8 dígitos)', password: digits.slice(0, 8) }] : []),
+    { label: '6 primeiros dígitos', password: digits.slice(0, 6) },
+    { label: '5 primeiros dígitos', password: digits.slice(0, 5) },
+    { label: '4 primeiros dígitos', password: digits.slice(0, 4) },
+    { label: 'Documento formatado', password: formatTaxIdForDisplay(digits) },
+  ];
+
+  const seen = new Set<string>();
+  return candidates.filter(c => {
+    if (seen.has(c.password)) return false;
+    seen.add(c.password);
+    return true;
+  });
+};
+
+/** Tries each candidate in order and returns the first password that opens the PDF, or null. */
+export const findPdfPassword = async (file: File, candidates: PdfPasswordCandidate[]): Promise<string | null> => {
+  for (const candidate of candidates) {
+    if (await verifyPdfPassword(file, candidate.password)) {
+      return candidate.password;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,144 @@
+/**
+ * Ligação entre as linhas da tabela e o texto do PDF: localiza a linha
+ * impressa de uma transação (para destacá-la no visualizador) e transforma um
+ * trecho selecionado no PDF em uma transação pré-preenchida.
+ */
+import { PdfTextLine } from './pdfTextLayer';
+import { parseCurrency } from './currencyUtils';
+import { extractCNPJFromText } from './cnpjUtils';
+import { Transaction, InvestmentTransaction } from '../types';
+
+export interface RowLocatorQuery {
+  date: string;          // AAAA-MM-DD
+  amounts: number[];     // valores que podem aparecer impressos na linha
+  description: string;
+  sourcePage?: number;
+  sourceLine?: string;
+}
+
+export const bankRowQuery = (t: Transaction): RowLocatorQuery => ({
+  date: t.date,
+  amounts: [parseCurrency(t.debit), parseCurrency(t.credit)],
+  description: t.description,
+  sourcePage: t.sourcePage,
+  sourceLine: t.sourceLine,
+});
+
+export const investmentRowQuery = (t: InvestmentTransaction): RowLocatorQuery => ({
+  date: t.date,
+  amounts: [t.grossValue, t.netValue],
+  description: t.fundName,
+  sourcePage: t.sourcePage,
+  sourceLine: t.sourceLine,
+});
+
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase().replace(/\s+/g, ' ').trim();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Token present with no digit glued to either side ("62,50" must not match "1.062,50"). */
+const containsToken = (text: string, token: string) =>
+  new RegExp(`(^|[^\\d.,])${escapeRegExp(token)}($|[^\\d])`).test(text);
+
+const dateVariants = (isoDate: string): string[] => {
+  const match = isoDate.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return [];
+  const [, year, month, day] = match;
+  return [`${day}/${month}/${year}`, `${day}/${month}/${year.slice(2)}`, `${day}/${month}`, `${day}.${month}.${year}`, isoDate];
+};
+
+const amountVariants = (value: number): string[] => {
+  const absolute = Math.abs(value);
+  if (!absolute) return [];
+  const formatted = absolute.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return [...new Set([formatted, formatted.replace(/\./g, '')])];
+};
+
+const scoreLine = (line: PdfTextLine, query: RowLocatorQuery, words: string[], sourceLine: string) => {
+  const text = normalize(line.text);
+  let score = 0;
+  let anchored = false;
+
+  if (sourceLine && (text.includes(sourceLine) || (text.length > 15 && sourceLine.includes(text)))) {
+    score += 5;
+    anchored = true;
+  }
+  if (query.amounts.some(amount => amountVariants(amount).some(v => containsToken(text, v)))) {
+    score += 3;
+    anchored = true;
+  }
+  if (dateVariants(query.date).some(v => containsToken(text, v))) score += 1;
+  if (words.length > 0) score += 3 * words.filter(w => text.includes(w)).length / words.length;
+  if (query.sourcePage === line.page) score += 1;
+
+  return anchored ? score : 0;
+};
+
+/**
+ * Best text line for a table row, scored by the printed line recorded at
+ * extraction, the amounts, the date and the description words. Returns null
+ * when no line carries the amount or the recorded text (e.g. scanned PDFs).
+ */
+export const locateRowInText = (lines: PdfTextLine[], query: RowLocatorQuery): PdfTextLine | null => {
+  const words = [...new Set(normalize(query.description).split(' ').filter(w => w.length >= 3))];
+  // Só a primeira linha do trecho gravado: o leitor de layout junta as continuações
+  const sourceLine = normalize(query.sourceLine?.split('\n')[0] ?? '');
+
+  let best: PdfTextLine | null = null;
+  let bestScore = 3;
+  for (const line of lines) {
+    const score = scoreLine(line, query, words, sourceLine);
+    if (score > bestScore) {
+      best = line;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+const DATE_PATTERN = /\b(\d{2})[/.-](\d{2})(?:[/.-](\d{4}|\d{2}))?\b/;
+const MONEY_PATTERN = /(-\s?)?\b\d{1,3}(?:\.\d{3})*,\d{2}\b(\s?-)?(\s?[DC]\b)?/g;
+
+export interface SelectedTransactionText {
+  date: string;         // AAAA-MM-DD, ou vazio se o trecho não tiver data
+  description: string;
+  cnpj: string;
+  debit: number;
+  credit: number;
+}
+
+/**
+ * Reads a text selection such as "06/01 PAGTO BOLETO FORNEC XYZ 700,00- 3.237,50".
+ * The first amount is the movement (a second one is usually the running
+ * balance); a minus sign or a "D" suffix makes it a debit.
+ */
+export const parseSelectedTransactionText = (selection: string, referenceYear: number): SelectedTransactionText => {
+  const text = selection.replace(/\s+/g, ' ').trim();
+
+  let date = '';
+  const dateMatch = text.match(DATE_PATTERN);
+  if (dateMatch) {
+    const [, day, month, year] = dateMatch;
+    const fullYear = !year ? String(referenceYear) : year.length === 2 ? `20${year}` : year;
+    date = `${fullYear}-${month}-${day}`;
+  }
+
+  const moneyMatches = [...text.matchAll(MONEY_PATTERN)];
+  let debit = 0;
+  let credit = 0;
+  if (moneyMatches.length > 0) {
+    const [token, leadingMinus, trailingMinus, suffix] = moneyMatches[0];
+    const value = parseCurrency(token.replace(/[-DC\s]/g, ''));
+    if (leadingMinus || trailingMinus || suffix?.trim() === 'D') debit = value;
+    else credit = value;
+  }
+
+  const description = text
+    .replace(DATE_PATTERN, '')
+    .replace(MONEY_PATTERN, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return { date, description, cnpj: extractCNPJFromText(text), debit, credit };
+};
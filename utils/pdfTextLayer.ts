@@ -0,0 +1,88 @@
+/**
+ * Leitura da camada de texto de PDFs via pdf.js, preservando a posição de cada
+ * trecho para que os leitores de layout possam separar colunas pela geometria.
+ *
+ * Coordenadas em unidades de página do PDF: x cresce para a direita e y para
+ * cima (a primeira linha da página tem o maior y).
+ */
+
+export interface PdfTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfTextLine {
+  page: number;   // 1-based
+  y: number;
+  items: PdfTextItem[];   // ordenados da esquerda para a direita
+  text: string;
+}
+
+// Trechos com diferença vertical menor que isso pertencem à mesma linha
+const LINE_TOLERANCE = 3;
+// Trechos separados por menos que isso fazem parte da mesma palavra/número
+const JOIN_GAP = 1;
+
+const joinTouchingItems = (items: PdfTextItem[]): PdfTextItem[] => {
+  const joined: PdfTextItem[] = [];
+  for (const item of items) {
+    const previous = joined[joined.length - 1];
+    if (previous && item.x - (previous.x + previous.width) < JOIN_GAP) {
+      previous.text += item.text;
+      previous.width = item.x + item.width - previous.x;
+    } else {
+      joined.push({ ...item });
+    }
+  }
+  return joined;
+};
+
+const groupIntoLines = (page: number, items: PdfTextItem[]): PdfTextLine[] => {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: PdfTextLine[] = [];
+  for (const item of sorted) {
+    const line = lines.find(l => Math.abs(l.y - item.y) < LINE_TOLERANCE);
+    if (line) {
+      line.items.push(item);
+    } else {
+      lines.push({ page, y: item.y, items: [item], text: '' });
+    }
+  }
+  return lines.map(line => {
+    const lineItems = joinTouchingItems(line.items.sort((a, b) => a.x - b.x));
+    return { ...line, items: lineItems, text: lineItems.map(i => i.text).join(' ') };
+  });
+};
+
+/**
+ * Extracts every text line of a loaded pdf.js document (or of its first
+ * `maxPages`), page by page and top to bottom. Scanned PDFs have no text layer
+ * and yield an empty array.
+ */
+export const extractPdfTextLines = async (pdf: any, maxPages = Infinity): Promise<PdfTextLine[]> => {
+  const lines: PdfTextLine[] = [];
+  const lastPage = Math.min(pdf.numPages, maxPages);
+  for (let pageNumber = 1; pageNumber <= lastPage; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    lines.push(...textContentToLines(pageNumber, await page.getTextContent()));
+    page.cleanup();
+  }
+  return lines;
+};
+
+/** Groups the `getTextContent()` result of one pdf.js page into lines. */
+export const textContentToLines = (pageNumber: number, content: { items: any[] }): PdfTextLine[] => {
+  const items: PdfTextItem[] = content.items
+    .filter((item: any) => typeof item.str === 'string' && item.str.trim() !== '')
+    .map((item: any) => ({
+      text: item.str.trim(),
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      height: item.height || Math.hypot(item.transform[2], item.transform[3]),
+    }));
+  return groupIntoLines(pageNumber, items);
+};
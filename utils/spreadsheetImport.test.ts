@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { SpreadsheetCell, SpreadsheetColumnMapping } from '../types';
+import { applySpreadsheetMapping } from './spreadsheetImport';
+
+const mapping: SpreadsheetColumnMapping = {
+  headerRow: 0,
+  columns: { date: 0, description: 1, amount: 2, debit: null, credit: null, balance: 3 },
+  amountMode: 'signed',
+  dateFormat: 'DD/MM/AAAA',
+  decimalSeparator: ',',
+};
+
+const header: SpreadsheetCell[] = ['Data', 'Histórico', 'Valor', 'Saldo'];
+
+describe('applySpreadsheetMapping', () => {
+  it('computes the balances of an oldest-first sheet', () => {
+    const result = applySpreadsheetMapping([
+      header,
+      ['02/01/2024', 'Aluguel', '-100,00', '900,00'],
+      ['10/01/2024', 'Depósito', '500,00', '1.400,00'],
+      ['20/01/2024', 'Tarifa', '-50,00', '1.350,00'],
+    ], mapping);
+
+    expect(result.transactions.map(t => t.description)).toEqual(['Aluguel', 'Depósito', 'Tarifa']);
+    expect(result.openingBalance).toBe(1000);
+    expect(result.finalBalance).toBe(1350);
+  });
+
+  it('reverses a newest-first sheet before computing the balances', () => {
+    const result = applySpreadsheetMapping([
+      header,
+      ['20/01/2024', 'Tarifa', '-50,00', '1.350,00'],
+      ['10/01/2024', 'Depósito', '500,00', '1.400,00'],
+      ['10/01/2024', 'Pix recebido', '200,00', ''],
+      ['02/01/2024', 'Aluguel', '-100,00', '700,00'],
+    ], mapping);
+
+    expect(result.transactions.map(t => t.description)).toEqual(['Aluguel', 'Pix recebido', 'Depósito', 'Tarifa']);
+    expect(result.openingBalance).toBe(800);
+    expect(result.finalBalance).toBe(1350);
+  });
+});
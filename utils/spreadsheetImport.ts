@@ -0,0 +1,265 @@
+import { GeminiTransactionResponse, SpreadsheetCell, SpreadsheetColumnMapping, SpreadsheetDateFormat, SpreadsheetField } from '../types';
+import { extractCNPJFromText } from './cnpjUtils';
+
+type SpreadsheetTransaction = GeminiTransactionResponse['transactions'][number];
+
+export const SPREADSHEET_FILE_EXTENSIONS = ['.csv', '.xlsx', '.xls'];
+
+const MAPPINGS_STORAGE_KEY = 'spreadsheetMappingsByBank';
+
+export const isSpreadsheetFile = (file: File): boolean =>
+  SPREADSHEET_FILE_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+
+/**
+ * Reads the first sheet of a CSV/XLSX file with the XLSX library loaded on
+ * `window.XLSX`. Numeric and date cells keep their native types.
+ */
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetCell[][]> => {
+  const xlsx = window.XLSX;
+  if (!xlsx) throw new Error("A biblioteca de planilhas (XLSX) não foi carregada.");
+
+  const buffer = await file.arrayBuffer();
+  const isCsv = file.name.toLowerCase().endsWith('.csv');
+  // CSVs de bancos brasileiros costumam vir em Windows-1252; o XLSX só detecta UTF-8 com BOM
+  const workbook = isCsv
+    ? xlsx.read(decodeCsv(buffer), { type: 'string', cellDates: true, raw: true })
+    : xlsx.read(buffer, { type: 'array', cellDates: true });
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error("A planilha não contém abas.");
+
+  const rows: SpreadsheetCell[][] = xlsx.utils.sheet_to_json(sheet, { header: 1, raw: true, defval: null, blankrows: false });
+  return rows.filter(row => row.some(cell => cell !== null && String(cell).trim() !== ''));
+};
+
+const decodeCsv = (buffer: ArrayBuffer): string => {
+  const utf8 = new TextDecoder('utf-8', { fatal: false }).decode(buffer);
+  return utf8.includes('\uFFFD') ? new TextDecoder('windows-1252').decode(buffer) : utf8.replace(/^\uFEFF/, '');
+};
+
+const toIsoDate = (year: number, month: number, day: number): string => {
+  if (!year || !month || !day || month > 12 || day > 31) return '';
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+export const parseSpreadsheetDate = (cell: SpreadsheetCell, format: SpreadsheetDateFormat): string => {
+  if (cell === null) return '';
+  if (cell instanceof Date) {
+    return isNaN(cell.getTime()) ? '' : toIsoDate(cell.getFullYear(), cell.getMonth() + 1, cell.getDate());
+  }
+  if (typeof cell === 'number') {
+    // Número serial do Excel (dias desde 1899-12-30)
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.round(cell) * 86400000);
+    return toIsoDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+  }
+
+  const parts = cell.trim().split(/[^\d]+/).filter(Boolean).map(Number);
+  if (parts.length < 3) return '';
+  switch (format) {
+    case 'DD/MM/AAAA':
+      return toIsoDate(parts[2], parts[1], parts[0]);
+    case 'DD/MM/AA':
+      return toIsoDate(parts[2] < 100 ? 2000 + parts[2] : parts[2], parts[1], parts[0]);
+    case 'MM/DD/AAAA':
+      return toIsoDate(parts[2], parts[0], parts[1]);
+    case 'AAAA-MM-DD':
+      return toIsoDate(parts[0], parts[1], parts[2]);
+  }
+};
+
+/**
+ * Parses a money cell. Accepts "1.234,56", "-1234.56", "(1.234,56)",
+ * "1.234,56 D" / "1.234,56 C" and "R$" prefixes; returns NaN when empty.
+ */
+export const parseSpreadsheetNumber = (cell: SpreadsheetCell, decimalSeparator: ',' | '.'): number => {
+  if (cell === null || cell instanceof Date) return NaN;
+  if (typeof cell === 'number') return cell;
+
+  let text = cell.trim().toUpperCase();
+  if (!text) return NaN;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) { negative = true; text = text.slice(1, -1); }
+  if (/\s*D$/.test(text)) { negative = true; text = text.replace(/\s*D$/, ''); }
+  text = text.replace(/\s*C$/, '');
+  if (text.endsWith('-')) { negative = true; text = text.slice(0, -1); }
+  if (text.startsWith('-')) { negative = !negative; text = text.slice(1); }
+
+  text = text.replace(/R\$|\s/g, '');
+  text = decimalSeparator === ','
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+
+  const value = parseFloat(text);
+  if (isNaN(value)) return NaN;
+  return negative ? -value : value;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Guesses a mapping from the header row names, used when no mapping was saved
+ * for the bank yet.
+ */
+export const guessSpreadsheetMapping = (rows: SpreadsheetCell[][]): SpreadsheetColumnMapping => {
+  const normalize = (v: SpreadsheetCell) => String(v ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+  const patterns: Record<SpreadsheetField, RegExp> = {
+    date: /^data|^dt\b|date/,
+    description: /descri|histori|lancamento|memo/,
+    debit: /debito|saida|debit/,
+    credit: /credito|entrada|credit/,
+    amount: /^valor|amount|montante/,
+    balance: /saldo|balance/,
+  };
+
+  // Cabeçalho: primeira linha (entre as 20 iniciais) que contenha "data" e algum campo de valor
+  let headerRow = -1;
+  for (let i = 0; i < Math.min(rows.length, 20); i++) {
+    const cells = rows[i].map(normalize);
+    if (cells.some(c => patterns.date.test(c)) && cells.some(c => patterns.amount.test(c) || patterns.debit.test(c) || patterns.credit.test(c))) {
+      headerRow = i;
+      break;
+    }
+  }
+
+  const header = headerRow >= 0 ? rows[headerRow].map(normalize) : [];
+  const find = (field: SpreadsheetField) => {
+    const index = header.findIndex(c => patterns[field].test(c));
+    return index >= 0 ? index : null;
+  };
+
+  const columns: Record<SpreadsheetField, number | null> = {
+    date: find('date'),
+    description: find('description'),
+    debit: find('debit'),
+    credit: find('credit'),
+    amount: find('amount'),
+    balance: find('balance'),
+  };
+
+  const sample = rows.slice(headerRow + 1, headerRow + 30);
+  const textSample = sample.map(r => columns.amount !== null ? r[columns.amount] : columns.debit !== null ? r[columns.debit] : null)
+    .filter((c): c is string => typeof c === 'string');
+  const decimalSeparator = textSample.some(c => /,\d{2}\s*[DC-]?$/i.test(c.trim())) || textSample.length === 0 ? ',' : '.';
+  const dateSample = sample.map(r => columns.date !== null ? r[columns.date] : null).find(c => typeof c === 'string') as string | undefined;
+  const dateFormat: SpreadsheetDateFormat = dateSample && /^\d{4}-/.test(dateSample.trim())
+    ? 'AAAA-MM-DD'
+    : dateSample && /^\d{1,2}\/\d{1,2}\/\d{2}$/.test(dateSample.trim()) ? 'DD/MM/AA' : 'DD/MM/AAAA';
+
+  return {
+    headerRow,
+    columns,
+    amountMode: columns.debit !== null || columns.credit !== null ? 'debitCredit' : 'signed',
+    dateFormat,
+    decimalSeparator,
+  };
+};
+
+export const validateSpreadsheetMapping = (mapping: SpreadsheetColumnMapping): string | null => {
+  const { columns, amountMode } = mapping;
+  if (columns.date === null) return 'Selecione a coluna de data.';
+  if (columns.description === null) return 'Selecione a coluna de descrição.';
+  if (amountMode === 'signed' && columns.amount === null) return 'Selecione a coluna de valor.';
+  if (amountMode === 'debitCredit' && columns.debit === null && columns.credit === null) return 'Selecione as colunas de débito e/ou crédito.';
+  return null;
+};
+
+/**
+ * Turns the sheet rows into the statement shape used by the review table.
+ * Rows without a valid date or without movement (totals, "SALDO ANTERIOR",
+ * blank lines) are skipped and reported in `extractionNotes`. Newest-first
+ * sheets are put in chronological order.
+ */
+export const applySpreadsheetMapping = (rows: SpreadsheetCell[][], mapping: SpreadsheetColumnMapping): GeminiTransactionResponse => {
+  const { columns, amountMode, dateFormat, decimalSeparator } = mapping;
+  const cell = (row: SpreadsheetCell[], index: number | null): SpreadsheetCell => index === null ? null : row[index] ?? null;
+
+  const transactions: SpreadsheetTransaction[] = [];
+  const balances: { index: number; balance: number }[] = [];
+  let skipped = 0;
+
+  for (const row of rows.slice(mapping.headerRow + 1)) {
+    const date = parseSpreadsheetDate(cell(row, columns.date), dateFormat);
+    let debit = 0;
+    let credit = 0;
+    if (amountMode === 'signed') {
+      const amount = parseSpreadsheetNumber(cell(row, columns.amount), decimalSeparator);
+      if (!isNaN(amount)) {
+        debit = amount < 0 ? -amount : 0;
+        credit = amount > 0 ? amount : 0;
+      }
+    } else {
+      const debitValue = parseSpreadsheetNumber(cell(row, columns.debit), decimalSeparator);
+      const creditValue = parseSpreadsheetNumber(cell(row, columns.credit), decimalSeparator);
+      debit = isNaN(debitValue) ? 0 : Math.abs(debitValue);
+      credit = isNaN(creditValue) ? 0 : Math.abs(creditValue);
+    }
+
+    if (!date || (debit === 0 && credit === 0)) {
+      skipped++;
+      continue;
+    }
+
+    const description = String(cell(row, columns.description) ?? '').trim();
+    transactions.push({
+      date,
+      description,
+      debit: round2(debit),
+      credit: round2(credit),
+      companyName: '',
+      cnpj: extractCNPJFromText(description),
+      category: 'Não categorizado',
+      isUnusual: false,
+      unusualReason: '',
+      accountDebit: '',
+      accountCredit: '',
+      accountingHistory: '',
+    });
+
+    const balance = parseSpreadsheetNumber(cell(row, columns.balance), decimalSeparator);
+    if (!isNaN(balance)) balances.push({ index: transactions.length - 1, balance });
+  }
+
+  // Extratos do mais recente para o mais antigo: invertidos antes de calcular os saldos
+  const isDescending = transactions.length > 1 && transactions[0].date > transactions[transactions.length - 1].date;
+  if (isDescending) {
+    transactions.reverse();
+    balances.reverse().forEach(b => { b.index = transactions.length - 1 - b.index; });
+  }
+
+  // Saldo anterior = saldo da primeira linha com saldo menos a movimentação até ela
+  let openingBalance: number | undefined;
+  let finalBalance: number | undefined;
+  if (balances.length > 0) {
+    const first = balances[0];
+    const movementUntilFirst = transactions.slice(0, first.index + 1).reduce((sum, t) => sum + t.credit - t.debit, 0);
+    openingBalance = round2(first.balance - movementUntilFirst);
+    const last = balances[balances.length - 1];
+    const movementAfterLast = transactions.slice(last.index + 1).reduce((sum, t) => sum + t.credit - t.debit, 0);
+    finalBalance = round2(last.balance + movementAfterLast);
+  }
+
+  return {
+    transactions,
+    openingBalance,
+    finalBalance,
+    extractionNotes: skipped > 0 ? `${skipped} linha(s) sem data válida ou sem valor foram ignoradas.` : undefined,
+  };
+};
+
+const readSavedMappings = (): Record<string, SpreadsheetColumnMapping> => {
+  try {
+    return JSON.parse(localStorage.getItem(MAPPINGS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadSavedMapping = (bankName: string): SpreadsheetColumnMapping | null =>
+  readSavedMappings()[bankName] ?? null;
+
+export const saveMapping = (bankName: string, mapping: SpreadsheetColumnMapping) => {
+  const all = readSavedMappings();
+  all[bankName] = mapping;
+  localStorage.setItem(MAPPINGS_STORAGE_KEY, JSON.stringify(all));
+};
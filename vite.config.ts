@@ -1,20 +1,19 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/vite';
 
-export default defineConfig(({ mode }) => {
-  const env = loadEnv(mode, '.', '');
+export default defineConfig(() => {
   return {
     server: {
       port: 3000,
       host: '0.0.0.0',
+      // A chave do Gemini fica no servidor Node (npm run server); o Vite só repassa /api
+      proxy: {
+        '/api': `http://localhost:${process.env.API_PORT || 8080}`,
+      },
     },
     plugins: [react(), tailwindcss()],
-    define: {
-      'process.env.API_KEY': JSON.stringify(env.API_KEY || env.GEMINI_API_KEY || process.env.API_KEY || ''),
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY || env.API_KEY || process.env.GEMINI_API_KEY || '')
-    },
     resolve: {
       alias: {
         '@': path.resolve(__dirname, '.'),